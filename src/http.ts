@@ -0,0 +1,317 @@
+import express, {
+  type NextFunction,
+  type Request,
+  type Response,
+} from "express";
+import cors from "cors";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { Server as HttpServer } from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// 每个会话独立持有一个MCP服务器实例及其传输层
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+}
+
+// 本机回环地址的主机名
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+// 监听所有网卡的绑定地址
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/**
+ * 判断绑定地址是否只能从本机访问
+ * @param host 绑定地址
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.toLowerCase();
+  return (
+    normalized === "localhost" ||
+    normalized === "::1" ||
+    normalized === "[::1]" ||
+    /^127(\.\d{1,3}){3}$/.test(normalized)
+  );
+}
+
+/**
+ * 启动HTTP传输（Streamable HTTP + 旧版SSE）
+ * 为防止DNS重绑定和跨站请求，只接受Host在允许列表中的请求，
+ * 带Origin的请求（浏览器发起）只接受允许列表中的来源，CORS也只对这些来源开放；
+ * 配置了访问令牌时，所有请求都必须携带"Authorization: Bearer <令牌>"
+ * @param host 绑定地址
+ * @param port 监听端口
+ * @param createSessionServer 为每个新会话创建MCP服务器实例的工厂函数
+ * @param allowedOrigins 允许的浏览器来源（如"http://localhost:6274"），默认不允许任何来源
+ * @param allowedHosts 允许的Host主机名，默认为本机回环地址和绑定地址；
+ *   绑定到所有网卡且未配置时不检查Host
+ * @param token 访问令牌（可选）
+ * @returns HTTP服务器及关闭函数
+ */
+export async function startHttpServer({
+  host,
+  port,
+  createSessionServer,
+  allowedOrigins = [],
+  allowedHosts,
+  token,
+}: {
+  host: string;
+  port: number;
+  createSessionServer: () => Server;
+  allowedOrigins?: string[];
+  allowedHosts?: string[];
+  token?: string;
+}): Promise<{
+  httpServer: HttpServer;
+  close: () => Promise<void>;
+}> {
+  const sessions: Record<string, HttpSession> = {};
+
+  const origins = allowedOrigins.map((origin) =>
+    origin.toLowerCase().replace(/\/+$/, "")
+  );
+  const hosts = (
+    allowedHosts ??
+    (WILDCARD_HOSTS.includes(host)
+      ? []
+      : [...LOOPBACK_HOSTS, host.includes(":") ? `[${host}]` : host])
+  ).map((name) => name.toLowerCase());
+
+  const app = express();
+
+  /**
+   * 检查Host和Origin，拒绝不在允许列表中的请求
+   */
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (hosts.length > 0 && !hosts.includes(getHostname(req))) {
+      sendJsonRpcError(res, 403, `不允许的Host: ${req.headers.host ?? ""}`);
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !origins.includes(origin.toLowerCase())) {
+      sendJsonRpcError(res, 403, `不允许的来源: ${origin}`);
+      return;
+    }
+
+    next();
+  });
+  app.use(
+    cors({
+      origin: (origin, callback) =>
+        callback(null, !!origin && origins.includes(origin.toLowerCase())),
+      exposedHeaders: ["mcp-session-id"],
+    })
+  );
+
+  /**
+   * 检查访问令牌（CORS预检请求已由cors处理，不会到达这里）
+   */
+  if (token) {
+    const expected = Buffer.from(`Bearer ${token}`);
+    app.use((req: Request, res: Response, next: NextFunction) => {
+      const actual = Buffer.from(req.headers.authorization ?? "");
+      if (
+        actual.length !== expected.length ||
+        !timingSafeEqual(actual, expected)
+      ) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJsonRpcError(res, 401, "缺少或无效的访问令牌");
+        return;
+      }
+      next();
+    });
+  }
+
+  app.use(express.json());
+
+  /**
+   * 关闭会话：先移除会话，再关闭服务器实例（同时关闭其传输层）
+   * 传输层关闭（服务器随之触发onclose）时也会调用这里，已移除的会话不会重复关闭
+   */
+  const closeSession = async (sessionId: string) => {
+    const session = sessions[sessionId];
+    if (!session) {
+      return;
+    }
+    delete sessions[sessionId];
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`关闭会话 ${sessionId} 时出错:`, error);
+    }
+  };
+
+  /**
+   * Streamable HTTP: 客户端请求（初始化请求会创建新会话）
+   */
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId && sessions[sessionId]) {
+        const session = sessions[sessionId];
+        if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, "会话使用的是SSE传输，请改用/messages端点");
+          return;
+        }
+        transport = session.transport;
+      } else if (!sessionId && isInitializeRequest(req.body)) {
+        const server = createSessionServer();
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            sessions[newSessionId] = { transport, server };
+            console.warn(`已建立Streamable HTTP会话: ${newSessionId}`);
+          },
+        });
+        // 服务器连接后会接管transport.onclose，传输层关闭时通过server.onclose通知
+        server.onclose = () => {
+          if (transport.sessionId && sessions[transport.sessionId]) {
+            console.warn(`已关闭Streamable HTTP会话: ${transport.sessionId}`);
+            void closeSession(transport.sessionId);
+          }
+        };
+        await server.connect(transport);
+      } else {
+        sendJsonRpcError(res, 400, "无效或缺失的会话ID");
+        return;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("处理Streamable HTTP请求时出错:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "服务器内部错误");
+      }
+    }
+  });
+
+  /**
+   * Streamable HTTP: 服务器通知流（GET）和会话终止（DELETE）
+   */
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions[sessionId] : undefined;
+
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      res.status(400).send("无效或缺失的会话ID");
+      return;
+    }
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      console.error("处理Streamable HTTP会话请求时出错:", error);
+      if (!res.headersSent) {
+        res.status(500).send("服务器内部错误");
+      }
+    }
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  /**
+   * 旧版SSE: 建立事件流
+   */
+  app.get("/sse", async (req: Request, res: Response) => {
+    try {
+      const server = createSessionServer();
+      const transport = new SSEServerTransport("/messages", res);
+      sessions[transport.sessionId] = { transport, server };
+      console.warn(`已建立SSE会话: ${transport.sessionId}`);
+
+      res.on("close", () => {
+        console.warn(`已关闭SSE会话: ${transport.sessionId}`);
+        void closeSession(transport.sessionId);
+      });
+
+      await server.connect(transport);
+    } catch (error) {
+      console.error("建立SSE连接时出错:", error);
+      if (!res.headersSent) {
+        res.status(500).send("服务器内部错误");
+      }
+    }
+  });
+
+  /**
+   * 旧版SSE: 客户端消息
+   */
+  app.post("/messages", async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    const session = sessionId ? sessions[sessionId] : undefined;
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.status(400).send("无效或缺失的会话ID");
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error("处理SSE消息时出错:", error);
+      if (!res.headersSent) {
+        res.status(500).send("服务器内部错误");
+      }
+    }
+  });
+
+  const httpServer = await new Promise<HttpServer>((resolve, reject) => {
+    const listener = app.listen(port, host, (error?: Error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(listener);
+    });
+  });
+
+  /**
+   * 关闭所有会话和HTTP服务器
+   */
+  const close = async () => {
+    for (const sessionId of Object.keys(sessions)) {
+      await closeSession(sessionId);
+    }
+
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+
+  return { httpServer, close };
+}
+
+/**
+ * 获取请求Host头中的主机名（不含端口，小写）
+ */
+function getHostname(req: Request): string {
+  const header = req.headers.host;
+  if (!header) {
+    return "";
+  }
+  try {
+    return new URL(`http://${header}`).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 发送JSON-RPC格式的错误响应
+ */
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message,
+    },
+    id: null,
+  });
+}
@@ -1,29 +1,127 @@
 #!/usr/bin/env node
 import "dotenv/config";
+import { ObjectId } from "mongodb";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { connectToMongoDB } from "./mongo.js";
 import { createServer } from "./server.js";
-import { MongoClient } from "mongodb";
+import { isLoopbackHost, startHttpServer } from "./http.js";
+import { MemoryStorage } from "./storage/memory.js";
+import { AuditedStorage } from "./storage/audit.js";
+import { CheckIntegrityTool } from "./tools/checkIntegrity.js";
+import {
+  describeToolPolicy,
+  FULL_ACCESS_POLICY,
+  loadToolModules,
+  parseDomainSelector,
+  resolveDomainSelector,
+  resolveToolPolicy,
+  toolRegistry,
+  type ToolPolicy,
+} from "./registry/index.js";
+import {
+  createRoutingProvider,
+  resolveRoutingConfig,
+  ROUTING_PROVIDER_NAMES,
+  type RoutingProviderName,
+} from "./routing/index.js";
+import type { Storage } from "./storage/types.js";
 import { printWelcomeBanner } from "./utils/banner.js";
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  setTimezone,
+} from "./utils/timezone.js";
 
-// 声明一个全局作用域的客户端变量用于清理处理
-let mongoClient: MongoClient | null = null;
+// 声明一个全局作用域的存储变量用于清理处理
+let storage: Storage | null = null;
+// HTTP模式下用于关闭服务器的函数
+let closeHttpServer: (() => Promise<void>) | null = null;
+
+type TransportMode = "stdio" | "http";
 
 /**
- * 使用stdio传输启动服务器并初始化MongoDB连接
+ * 启动服务器并初始化存储后端（MongoDB或内存），根据参数选择stdio或HTTP传输
  */
 async function main() {
   // printWelcomeBanner();
 
   const args = process.argv.slice(2);
+  // 子命令：check-integrity 检查（--repair 修复）数据一致性后退出
+  const command = args[0] === "check-integrity" ? args.shift() : null;
+  let repairMode = false;
   // 默认使用环境变量
   let connectionUrl = "";
   let readOnlyMode = process.env.MCP_MONGODB_READONLY === "true" || false;
+  let memoryMode = process.env.MCP_STORAGE === "memory";
+  let transportMode = (process.env.MCP_TRANSPORT || "stdio") as TransportMode;
+  let httpHost = process.env.MCP_HTTP_HOST || "127.0.0.1";
+  let httpPort = parseInt(process.env.MCP_HTTP_PORT || "3000", 10);
+  // HTTP模式下允许的浏览器来源和Host（逗号分隔），以及访问令牌
+  let httpAllowedOrigins = parseList(process.env.MCP_HTTP_ALLOWED_ORIGINS);
+  let httpAllowedHosts = process.env.MCP_HTTP_ALLOWED_HOSTS
+    ? parseList(process.env.MCP_HTTP_ALLOWED_HOSTS)
+    : undefined;
+  const httpToken = process.env.MCP_HTTP_TOKEN || undefined;
+  // 第三方工具模块（逗号分隔）
+  const toolModules = (process.env.MCP_TOOL_MODULES || "")
+    .split(",")
+    .map((specifier) => specifier.trim())
+    .filter(Boolean);
+  // 计算开放时间、出行时段等使用的时区
+  let timezone = process.env.MCP_TIMEZONE || DEFAULT_TIMEZONE;
+  // 路线服务配置
+  const routingConfig = resolveRoutingConfig();
+  // 工具权限策略（默认允许所有操作）
+  const policy: ToolPolicy = { ...FULL_ACCESS_POLICY };
+  if (process.env.MCP_ALLOW_WRITES !== undefined) {
+    policy.writableDomains = parseDomainSelector(process.env.MCP_ALLOW_WRITES);
+  }
+  if (process.env.MCP_ALLOW_DESTRUCTIVE !== undefined) {
+    policy.destructiveDomains = parseDomainSelector(
+      process.env.MCP_ALLOW_DESTRUCTIVE
+    );
+  }
+  if (process.env.MCP_DENY_TOOLS) {
+    policy.deniedTools = process.env.MCP_DENY_TOOLS.split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+  }
 
   // 解析命令行参数（这些优先）
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--read-only" || args[i] === "-r") {
       readOnlyMode = true;
+    } else if (args[i] === "--memory") {
+      memoryMode = true;
+    } else if (args[i] === "--repair") {
+      repairMode = true;
+    } else if (args[i] === "--http") {
+      transportMode = "http";
+    } else if (args[i] === "--transport") {
+      transportMode = args[++i] as TransportMode;
+    } else if (args[i] === "--host") {
+      httpHost = args[++i];
+    } else if (args[i] === "--port") {
+      httpPort = parseInt(args[++i], 10);
+    } else if (args[i] === "--allowed-origins") {
+      httpAllowedOrigins = parseList(args[++i]);
+    } else if (args[i] === "--allowed-hosts") {
+      httpAllowedHosts = parseList(args[++i]);
+    } else if (args[i] === "--timezone") {
+      timezone = args[++i];
+    } else if (args[i] === "--routing-provider") {
+      routingConfig.provider = args[++i] as RoutingProviderName;
+    } else if (args[i] === "--tool-module") {
+      toolModules.push(args[++i]);
+    } else if (args[i] === "--allow-writes") {
+      policy.writableDomains = parseDomainSelector(args[++i]);
+    } else if (args[i] === "--allow-destructive") {
+      policy.destructiveDomains = parseDomainSelector(args[++i]);
+    } else if (args[i] === "--deny-tools") {
+      policy.deniedTools = args[++i]
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
     } else if (!connectionUrl) {
       connectionUrl = args[i];
     }
@@ -34,19 +132,26 @@ async function main() {
     connectionUrl = process.env.MCP_MONGODB_URI || "";
   }
 
-  if (!connectionUrl) {
+  if (!connectionUrl && !memoryMode) {
+    console.error(
+      "请通过命令行参数或MCP_MONGODB_URI环境变量提供MongoDB连接URL，或使用--memory启用内存存储"
+    );
+    console.error(
+      "用法: command <mongodb-url> [--read-only|-r] [--transport stdio|http] [--host <地址>] [--port <端口>] [--allowed-origins <来源>] [--allowed-hosts <主机名>] [--tool-module <模块>] [--allow-writes <领域>] [--allow-destructive <领域>] [--deny-tools <工具>] [--routing-provider amap|offline|fake] [--timezone <时区>]"
+    );
     console.error(
-      "请通过命令行参数或MCP_MONGODB_URI环境变量提供MongoDB连接URL"
+      "   或: command --memory [--read-only|-r] [--transport stdio|http] [--host <地址>] [--port <端口>]"
     );
-    console.error("用法: command <mongodb-url> [--read-only|-r]");
     console.error(
-      "   或: MCP_MONGODB_URI=<mongodb-url> [MCP_MONGODB_READONLY=true] command"
+      "   或: MCP_MONGODB_URI=<mongodb-url> [MCP_STORAGE=memory] [MCP_MONGODB_READONLY=true] [MCP_TRANSPORT=http] [MCP_HTTP_HOST=<地址>] [MCP_HTTP_PORT=<端口>] [MCP_HTTP_TOKEN=<令牌>] [MCP_ROUTING_PROVIDER=amap|offline|fake] [MCP_TIMEZONE=<时区>] command"
     );
+    console.error("   或: command check-integrity <mongodb-url> [--repair]");
     process.exit(1);
   }
 
   // 确保连接URL有正确的前缀
   if (
+    !memoryMode &&
     !connectionUrl.startsWith("mongodb://") &&
     !connectionUrl.startsWith("mongodb+srv://")
   ) {
@@ -56,53 +161,222 @@ async function main() {
     process.exit(1);
   }
 
-  try {
-    const { client, db, isConnected, isReadOnlyMode } = await connectToMongoDB(
-      connectionUrl,
-      readOnlyMode
+  if (command && repairMode && readOnlyMode) {
+    console.error("只读模式下不能使用--repair修复数据");
+    process.exit(1);
+  }
+
+  if (!ROUTING_PROVIDER_NAMES.includes(routingConfig.provider)) {
+    console.error(
+      `无效的路线服务: ${routingConfig.provider}，可选: ${ROUTING_PROVIDER_NAMES.join(
+        ", "
+      )}`
+    );
+    process.exit(1);
+  }
+
+  if (routingConfig.provider === "amap" && !routingConfig.amapKey) {
+    console.error("使用高德地图路线服务需要配置AMAP_API_KEY环境变量");
+    process.exit(1);
+  }
+
+  if (!isValidTimezone(timezone)) {
+    console.error(`无效的时区: ${timezone}，请使用IANA时区名称，如Asia/Shanghai`);
+    process.exit(1);
+  }
+  setTimezone(timezone);
+
+  if (transportMode !== "stdio" && transportMode !== "http") {
+    console.error(`无效的传输方式: ${transportMode}，可选: stdio, http`);
+    process.exit(1);
+  }
+
+  if (transportMode === "http" && (!Number.isInteger(httpPort) || httpPort <= 0)) {
+    console.error(`无效的HTTP端口: ${httpPort}`);
+    process.exit(1);
+  }
+
+  if (transportMode === "http" && !isLoopbackHost(httpHost) && !httpToken) {
+    console.error(
+      `绑定到非本机地址${httpHost}时必须通过MCP_HTTP_TOKEN环境变量配置访问令牌`
     );
+    process.exit(1);
+  }
+
+  try {
+    let db: Storage;
+    const isReadOnlyMode = readOnlyMode;
 
-    // 将客户端存储在全局变量中以便清理
-    mongoClient = client;
+    if (memoryMode) {
+      // 内存存储: 数据只保存在当前进程中，重启后丢失
+      db = new MemoryStorage();
+      console.warn("使用内存存储，数据将在服务器退出后丢失");
+    } else {
+      const { storage: mongoStorage, isConnected } = await connectToMongoDB(
+        connectionUrl,
+        readOnlyMode
+      );
 
-    if (!isConnected || !client || !db) {
-      console.error("连接到MongoDB失败");
-      process.exit(1);
+      if (!isConnected || !mongoStorage) {
+        console.error("连接到MongoDB失败");
+        process.exit(1);
+      }
+
+      db = mongoStorage;
     }
 
-    console.warn(`已连接到数据库: ${db.databaseName}`);
+    // 将存储存放在全局变量中以便清理
+    storage = db;
+
+    if (command === "check-integrity") {
+      const exitCode = await runCheckIntegrity(db, repairMode);
+      await db.close();
+      process.exit(exitCode);
+    }
+
+    // 在创建服务器之前加载第三方工具模块
+    await loadToolModules(toolModules);
+
+    // 领域名称按已注册工具（包括第三方模块）的领域校验，不区分大小写
+    const domains = toolRegistry.listDomains();
+    for (const key of ["writableDomains", "destructiveDomains"] as const) {
+      const { selector, unknown } = resolveDomainSelector(policy[key], domains);
+      if (unknown.length > 0) {
+        console.error(
+          `未知的领域: ${unknown.join(", ")}，可选: ${domains.join(", ")}`
+        );
+        await db.close();
+        process.exit(1);
+      }
+      policy[key] = selector;
+    }
+
+    const routing = createRoutingProvider(routingConfig, db, isReadOnlyMode);
+
+    console.warn(`已连接到数据库: ${db.databaseName} (${db.kind})`);
     console.warn(`读取模式: ${isReadOnlyMode ? "只读" : "读写"}`);
+    console.warn(`时区: ${timezone}`);
+    console.warn(
+      `工具策略: ${describeToolPolicy(resolveToolPolicy(isReadOnlyMode, policy))}`
+    );
+    console.warn(
+      `路线服务: ${routing.name}${
+        routingConfig.provider === "amap" && routingConfig.cache
+          ? "（缓存高德地图结果）"
+          : ""
+      }`
+    );
+
+    if (transportMode === "http") {
+      // HTTP模式下每个会话使用独立的服务器实例，共享同一个存储后端
+      const { close } = await startHttpServer({
+        host: httpHost,
+        port: httpPort,
+        createSessionServer: () =>
+          createServer(db, isReadOnlyMode, {}, policy, routing),
+        allowedOrigins: httpAllowedOrigins,
+        allowedHosts: httpAllowedHosts,
+        token: httpToken,
+      });
+      closeHttpServer = close;
 
-    // 将db而非client传递给createServer
-    const server = createServer(client, db, isReadOnlyMode);
+      console.warn(
+        `ViteaOS MCP服务器已在 http://${httpHost}:${httpPort} 上监听`
+      );
+      console.warn(`  Streamable HTTP端点: /mcp`);
+      console.warn(`  SSE端点: /sse (消息端点: /messages)`);
+      console.warn(
+        `  访问令牌: ${httpToken ? "已启用" : "未启用"}，允许的来源: ${
+          httpAllowedOrigins.length > 0 ? httpAllowedOrigins.join(", ") : "无"
+        }`
+      );
+      return;
+    }
+
+    const server = createServer(db, isReadOnlyMode, {}, policy, routing);
 
     const transport = new StdioServerTransport();
 
     await server.connect(transport);
     console.warn("ViteaOS MCP服务器已成功连接");
   } catch (error) {
-    console.error("连接到MongoDB失败:", error);
-    if (mongoClient) {
-      await mongoClient.close();
+    console.error("启动服务器失败:", error);
+    if (storage) {
+      await storage.close();
     }
     process.exit(1);
   }
 }
 
-// 处理清理
-process.on("SIGINT", async () => {
-  if (mongoClient) {
-    await mongoClient.close();
+/**
+ * 执行check-integrity子命令，将报告输出到标准输出
+ * 修复时以"cli"为操作者记入审计日志
+ * @param db 存储后端
+ * @param repair 是否修复
+ * @returns 进程退出码：无问题或已全部修复为0，否则为1
+ */
+async function runCheckIntegrity(
+  db: Storage,
+  repair: boolean
+): Promise<number> {
+  const target = repair
+    ? new AuditedStorage(db, {
+        callId: new ObjectId(),
+        actor: "cli",
+        tool: "check-integrity",
+        arguments: { repair },
+      })
+    : db;
+
+  const result = await new CheckIntegrityTool(target).execute({ repair });
+
+  for (const issue of result.issues ?? []) {
+    const status = { found: "发现", repaired: "已修复", skipped: "已跳过" }[
+      issue.status
+    ];
+    console.log(
+      `[${status}] ${issue.type} ${issue.collection}/${issue.entityId}.${issue.field}: ${issue.description}（${issue.repair}）`
+    );
   }
-  process.exit(0);
-});
+  console.log(result.message);
+
+  if (!result.success) {
+    return 1;
+  }
+  return result.issues.every((issue) => issue.status === "repaired") ? 0 : 1;
+}
+
+/**
+ * 解析逗号分隔的列表
+ * @param value 列表字符串
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
 
-process.on("SIGTERM", async () => {
-  if (mongoClient) {
-    await mongoClient.close();
+/**
+ * 关闭HTTP服务器（如有）和存储后端后退出
+ */
+async function shutdown() {
+  if (closeHttpServer) {
+    try {
+      await closeHttpServer();
+    } catch (error) {
+      console.error("关闭HTTP服务器时出错:", error);
+    }
+  }
+  if (storage) {
+    await storage.close();
   }
   process.exit(0);
-});
+}
+
+// 处理清理
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
 
 main().catch((error) => {
   console.error("服务器错误:", error);
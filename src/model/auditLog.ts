@@ -0,0 +1,135 @@
+import { ObjectId } from "mongodb";
+import type { Filter, Repository, Storage } from "../storage/types.js";
+import { AuditLogEntry, ensureObjectId } from "./types.js";
+
+// 审计日志查询条件
+export interface AuditLogQuery {
+  entityId?: string | ObjectId;
+  collection?: string;
+  tool?: string;
+  actor?: string;
+  callId?: string | ObjectId;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * 审计日志数据操作类
+ */
+export class AuditLogModel {
+  private auditLogCollection: Repository<AuditLogEntry>;
+
+  constructor(db: Storage) {
+    this.auditLogCollection = db.collection<AuditLogEntry>("auditLog");
+  }
+
+  /**
+   * 写入审计记录
+   * @param entry 审计记录（不含_id）
+   * @returns 新记录ID
+   */
+  async record(entry: Omit<AuditLogEntry, "_id">): Promise<ObjectId> {
+    const result = await this.auditLogCollection.insertOne(entry);
+    return result.insertedId;
+  }
+
+  /**
+   * 查询审计记录，按时间倒序返回
+   * @param query 查询条件
+   * @returns 审计记录列表
+   */
+  async queryEntries(query: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+    const filter: Filter = {};
+
+    if (query.entityId) {
+      filter.entityId = ensureObjectId(query.entityId);
+    }
+    if (query.collection) {
+      filter.collection = query.collection;
+    }
+    if (query.tool) {
+      filter.tool = query.tool;
+    }
+    if (query.actor) {
+      filter.actor = query.actor;
+    }
+    if (query.callId) {
+      filter.callId = ensureObjectId(query.callId);
+    }
+    if (query.since || query.until) {
+      filter.timestamp = {};
+      if (query.since) {
+        filter.timestamp.$gte = query.since;
+      }
+      if (query.until) {
+        filter.timestamp.$lte = query.until;
+      }
+    }
+
+    return await this.auditLogCollection
+      .find(filter)
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(query.limit ?? 50)
+      .toArray();
+  }
+
+  /**
+   * 获取一次工具调用产生的全部记录，按写入顺序返回
+   * @param callId 工具调用ID
+   * @returns 审计记录列表
+   */
+  async getCallEntries(callId: string | ObjectId): Promise<AuditLogEntry[]> {
+    return await this.auditLogCollection
+      .find({ callId: ensureObjectId(callId) })
+      .sort({ _id: 1 })
+      .toArray();
+  }
+
+  /**
+   * 查找最近一次未被撤销的工具调用
+   * @param actor 操作者（可选）
+   * @param excludeTools 不考虑的工具名称
+   * @returns 该调用的最新一条记录，不存在时返回null
+   */
+  async findLatestRevertible(
+    actor?: string,
+    excludeTools: string[] = []
+  ): Promise<AuditLogEntry | null> {
+    const filter: Filter = {
+      revertedAt: { $exists: false },
+      tool: { $nin: excludeTools },
+    };
+    if (actor) {
+      filter.actor = actor;
+    }
+
+    const entries = await this.auditLogCollection
+      .find(filter)
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(1)
+      .toArray();
+
+    return entries[0] ?? null;
+  }
+
+  /**
+   * 将一次工具调用的记录标记为已撤销
+   * @param callId 被撤销的工具调用ID
+   * @param revertedByCallId 执行撤销的工具调用ID
+   */
+  async markReverted(
+    callId: string | ObjectId,
+    revertedByCallId?: ObjectId
+  ): Promise<void> {
+    await this.auditLogCollection.updateMany(
+      { callId: ensureObjectId(callId) },
+      {
+        $set: {
+          revertedAt: new Date(),
+          ...(revertedByCallId && { revertedByCallId }),
+        },
+      }
+    );
+  }
+}
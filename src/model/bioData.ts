@@ -1,14 +1,15 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import { BioData, ensureObjectId } from "./types.js";
 
 /**
  * 生物数据操作类
  */
 export class BioDataModel {
-  private bioDataCollection: Collection<BioData>;
-  private db: Db;
+  private bioDataCollection: Repository<BioData>;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
     this.bioDataCollection = db.collection<BioData>("bioData");
   }
@@ -25,6 +26,38 @@ export class BioDataModel {
     );
   }
 
+  /**
+   * 获取多个测量类型中最新的一条记录
+   * @param measurementTypes 测量类型列表(精确匹配)
+   * @returns 最新的测量记录
+   */
+  async getLatestMeasurementOfTypes(
+    measurementTypes: string[]
+  ): Promise<BioData | null> {
+    return await this.bioDataCollection.findOne(
+      { measurementType: { $in: measurementTypes } },
+      { sort: { measuredAt: -1 } }
+    );
+  }
+
+  /**
+   * 按测量类型和记录名称查找记录(均为不区分大小写的模糊匹配)
+   * @param measurementType 测量类型
+   * @param recordName 记录名称
+   * @returns 匹配的测量记录列表
+   */
+  async findRecordsByName(
+    measurementType: string,
+    recordName: string
+  ): Promise<BioData[]> {
+    return await this.bioDataCollection
+      .find({
+        measurementType: new RegExp(measurementType, "i"),
+        recordName: new RegExp(recordName, "i"),
+      })
+      .toArray();
+  }
+
   /**
    * 获取特定类型的所有测量记录
    * @param measurementType 测量类型
@@ -145,14 +178,9 @@ export class BioDataModel {
    * @returns 唯一的测量类型列表
    */
   async getAllMeasurementTypes(): Promise<string[]> {
-    const result = await this.bioDataCollection
-      .aggregate([
-        { $group: { _id: "$measurementType" } },
-        { $sort: { _id: 1 } },
-      ])
-      .toArray();
+    const types = await this.bioDataCollection.distinct("measurementType");
 
-    return result.map((item) => item._id);
+    return types.sort();
   }
 
   /**
@@ -192,26 +220,15 @@ export class BioDataModel {
     unit?: string;
     latest?: BioData;
   }> {
-    const stats = await this.bioDataCollection
-      .aggregate([
-        { $match: { measurementType: new RegExp(measurementType, "i") } },
-        {
-          $group: {
-            _id: null,
-            count: { $sum: 1 },
-            average: { $avg: "$value" },
-            min: { $min: "$value" },
-            max: { $max: "$value" },
-            units: { $addToSet: "$unit" },
-          },
-        },
-      ])
+    const records = await this.bioDataCollection
+      .find({ measurementType: new RegExp(measurementType, "i") })
+      .project<{ value: number; unit?: string }>({ value: 1, unit: 1 })
       .toArray();
 
     // 获取最新记录
     const latest = await this.getLatestMeasurement(measurementType);
 
-    if (stats.length === 0) {
+    if (records.length === 0) {
       return {
         count: 0,
         average: 0,
@@ -221,12 +238,16 @@ export class BioDataModel {
       };
     }
 
+    const values = records.map((record) => record.value);
+    const units = records.map((record) => record.unit).filter(Boolean);
+    const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+
     return {
-      count: stats[0].count,
-      average: Math.round(stats[0].average * 100) / 100, // 四舍五入到2位小数
-      min: stats[0].min,
-      max: stats[0].max,
-      unit: stats[0].units[0], // 使用最常见的单位
+      count: records.length,
+      average: Math.round(average * 100) / 100, // 四舍五入到2位小数
+      min: Math.min(...values),
+      max: Math.max(...values),
+      unit: units[0], // 使用最常见的单位
       latest: latest || undefined,
     };
   }
@@ -1,14 +1,15 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import { Contact, ensureObjectId } from "./types.js";
 
 /**
  * 联系人数据操作类
  */
 export class ContactsModel {
-  private contactsCollection: Collection<Contact>;
-  private db: Db;
+  private contactsCollection: Repository<Contact>;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
     this.contactsCollection = db.collection<Contact>("contacts");
   }
@@ -183,20 +184,92 @@ export class ContactsModel {
     return contact.tags;
   }
 
+  /**
+   * 创建联系人
+   * @param contactData 联系人数据
+   * @returns 创建结果
+   */
+  async createContact(contactData: Partial<Contact>): Promise<{
+    success: boolean;
+    contact?: Contact;
+    error?: string;
+  }> {
+    try {
+      // 添加通用字段
+      const newContact: Partial<Contact> = {
+        ...contactData,
+        notes: [],
+        syncedToNotion: false,
+        modifiedSinceSync: true,
+        lastSync: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      // 插入联系人
+      const result = await this.contactsCollection.insertOne(newContact);
+
+      if (!result.acknowledged) {
+        return {
+          success: false,
+          error: "插入联系人失败",
+        };
+      }
+
+      // 查询插入的联系人
+      const contact = await this.getContactById(result.insertedId);
+
+      return {
+        success: true,
+        contact: contact || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `创建联系人失败: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 删除联系人
+   * @param contactId 联系人ID
+   * @returns 删除结果
+   */
+  async deleteContact(contactId: string | ObjectId): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const id = ensureObjectId(contactId);
+
+      // 执行删除
+      const result = await this.contactsCollection.deleteOne({
+        _id: id,
+      });
+
+      if (result.deletedCount === 0) {
+        return {
+          success: false,
+          error: "删除联系人失败",
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `删除联系人失败: ${error}`,
+      };
+    }
+  }
+
   /**
    * 获取系统中所有的联系人标签
    * @returns 标签列表
    */
   async getAllContactTags(): Promise<string[]> {
-    const result = await this.contactsCollection
-      .aggregate([
-        { $unwind: "$tags" },
-        { $group: { _id: "$tags" } },
-        { $project: { _id: 0, tag: "$_id" } },
-      ])
-      .toArray();
-
-    return result.map((item) => item.tag);
+    return await this.contactsCollection.distinct("tags");
   }
 
   /**
@@ -0,0 +1,489 @@
+import type { ObjectId } from "mongodb";
+import type { Storage, UpdateFilter } from "../storage/types.js";
+import type { BioData, Item, Location, Task } from "./types.js";
+
+// 一致性问题类型
+export type IntegrityIssueType =
+  | "dangling_reference" // 引用的文档不存在
+  | "asymmetric_link" // 父子双向链接不一致
+  | "container_cycle" // 容器循环嵌套
+  | "location_cycle" // 位置循环嵌套
+  | "biodata_latest" // 同一测量类型的isLatest标记错误
+  | "string_notes" // notes字段为字符串而非数组
+  | "task_overdue"; // 任务isOverdue标记错误
+
+// 修复操作：对单个文档执行的更新
+export interface IntegrityFix {
+  collection: string;
+  entityId: ObjectId;
+  update: UpdateFilter;
+}
+
+// 一致性问题
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  collection: string;
+  entityId: ObjectId;
+  field: string;
+  description: string;
+  // 修复方式说明
+  repair: string;
+  fix: IntegrityFix;
+}
+
+// 检查时使用的文档快照
+interface Snapshot {
+  items: Item[];
+  locations: Location[];
+  bioData: BioData[];
+  tasks: Task[];
+  contacts: Record<string, any>[];
+}
+
+// 带有notes字段的集合
+const NOTE_COLLECTIONS = [
+  "items",
+  "locations",
+  "contacts",
+  "bioData",
+  "tasks",
+] as const;
+
+/**
+ * 数据一致性检查类
+ * 检查反范式化的父子关系、isLatest和isOverdue等派生字段，并生成修复操作
+ */
+export class IntegrityModel {
+  private db: Storage;
+
+  constructor(db: Storage) {
+    this.db = db;
+  }
+
+  /**
+   * 检查所有一致性问题
+   * @param now 判断任务是否逾期的当前时间
+   * @returns 问题列表（每个问题附带修复操作）
+   */
+  async check(now: Date = new Date()): Promise<IntegrityIssue[]> {
+    const snapshot = await this.loadSnapshot();
+
+    return [
+      ...this.checkHierarchy(snapshot.items, {
+        collection: "items",
+        parentField: "containerId",
+        childrenField: "containedItems",
+        cycleType: "container_cycle",
+        label: "容器",
+      }),
+      ...this.checkHierarchy(snapshot.locations, {
+        collection: "locations",
+        parentField: "parentLocationId",
+        childrenField: "childLocations",
+        cycleType: "location_cycle",
+        label: "父位置",
+      }),
+      ...this.checkItemLocations(snapshot.items, snapshot.locations),
+      ...this.checkLatestBioData(snapshot.bioData),
+      ...this.checkStringNotes(snapshot, now),
+      ...this.checkOverdueTasks(snapshot.tasks, now),
+    ];
+  }
+
+  /**
+   * 执行修复操作
+   * 所有修复在同一事务中执行，任何一步失败时全部撤销
+   * @param issues 要修复的问题
+   */
+  async repair(issues: IntegrityIssue[]): Promise<void> {
+    await this.db.withTransaction(async (tx) => {
+      for (const issue of issues) {
+        await tx
+          .collection(issue.fix.collection)
+          .updateOne({ _id: issue.fix.entityId }, issue.fix.update);
+      }
+    });
+  }
+
+  /**
+   * 读取检查所需的全部文档
+   */
+  private async loadSnapshot(): Promise<Snapshot> {
+    return {
+      items: await this.db.collection<Item>("items").find({}).toArray(),
+      locations: await this.db
+        .collection<Location>("locations")
+        .find({})
+        .toArray(),
+      bioData: await this.db.collection<BioData>("bioData").find({}).toArray(),
+      tasks: await this.db.collection<Task>("tasks").find({}).toArray(),
+      contacts: await this.db.collection("contacts").find({}).toArray(),
+    };
+  }
+
+  /**
+   * 检查父子层级：悬空引用、循环嵌套和双向链接不一致
+   * 以子文档的父引用为准，父文档的子ID数组据此修正
+   */
+  private checkHierarchy(
+    docs: Array<Record<string, any>>,
+    options: {
+      collection: "items" | "locations";
+      parentField: string;
+      childrenField: string;
+      cycleType: IntegrityIssueType;
+      label: string;
+    }
+  ): IntegrityIssue[] {
+    const { collection, parentField, childrenField, cycleType, label } =
+      options;
+    const issues: IntegrityIssue[] = [];
+    const byId = new Map(docs.map((doc) => [idKey(doc._id), doc]));
+
+    // 修复后每个文档的父ID
+    const parents = new Map<string, string | null>();
+
+    for (const doc of docs) {
+      const parentId = doc[parentField];
+      if (!parentId) {
+        parents.set(idKey(doc._id), null);
+        continue;
+      }
+
+      if (!byId.has(idKey(parentId))) {
+        issues.push({
+          type: "dangling_reference",
+          collection,
+          entityId: doc._id,
+          field: parentField,
+          description: `"${doc.name}"的${label}${parentId}不存在`,
+          repair: `清除${parentField}`,
+          fix: {
+            collection,
+            entityId: doc._id,
+            update: { $set: { [parentField]: null } },
+          },
+        });
+        parents.set(idKey(doc._id), null);
+        continue;
+      }
+
+      parents.set(idKey(doc._id), idKey(parentId));
+    }
+
+    // 循环嵌套：在环上最近修改的文档处断开
+    for (const cycle of findCycles(parents)) {
+      const members = cycle.map((key) => byId.get(key)!);
+      const breakAt = members.reduce((latest, doc) =>
+        timeOf(doc.updatedAt) > timeOf(latest.updatedAt) ? doc : latest
+      );
+
+      issues.push({
+        type: cycleType,
+        collection,
+        entityId: breakAt._id,
+        field: parentField,
+        description: `${members
+          .map((doc) => `"${doc.name}"`)
+          .join(" → ")}形成循环嵌套`,
+        repair: `清除"${breakAt.name}"的${parentField}`,
+        fix: {
+          collection,
+          entityId: breakAt._id,
+          update: { $set: { [parentField]: null } },
+        },
+      });
+      parents.set(idKey(breakAt._id), null);
+    }
+
+    // 子ID数组与子文档的父引用保持一致
+    const expectedChildren = new Map<string, Array<Record<string, any>>>();
+    for (const doc of docs) {
+      const parentKey = parents.get(idKey(doc._id));
+      if (parentKey) {
+        const children = expectedChildren.get(parentKey) ?? [];
+        children.push(doc);
+        expectedChildren.set(parentKey, children);
+      }
+    }
+
+    for (const doc of docs) {
+      const key = idKey(doc._id);
+      const listed: any[] = Array.isArray(doc[childrenField])
+        ? doc[childrenField]
+        : [];
+      const listedKeys = new Set(listed.map(idKey));
+
+      for (const childId of listed) {
+        const child = byId.get(idKey(childId));
+
+        if (!child) {
+          issues.push({
+            type: "dangling_reference",
+            collection,
+            entityId: doc._id,
+            field: childrenField,
+            description: `"${doc.name}"的${childrenField}包含不存在的ID ${childId}`,
+            repair: `从${childrenField}中移除${childId}`,
+            fix: {
+              collection,
+              entityId: doc._id,
+              update: { $pull: { [childrenField]: childId } },
+            },
+          });
+        } else if (parents.get(idKey(childId)) !== key) {
+          issues.push({
+            type: "asymmetric_link",
+            collection,
+            entityId: doc._id,
+            field: childrenField,
+            description: `"${doc.name}"的${childrenField}包含"${child.name}"，但后者的${parentField}不指向它`,
+            repair: `从${childrenField}中移除"${child.name}"`,
+            fix: {
+              collection,
+              entityId: doc._id,
+              update: { $pull: { [childrenField]: childId } },
+            },
+          });
+        }
+      }
+
+      for (const child of expectedChildren.get(key) ?? []) {
+        if (!listedKeys.has(idKey(child._id))) {
+          issues.push({
+            type: "asymmetric_link",
+            collection,
+            entityId: doc._id,
+            field: childrenField,
+            description: `"${child.name}"的${parentField}指向"${doc.name}"，但后者的${childrenField}不包含它`,
+            repair: `将"${child.name}"加入${childrenField}`,
+            fix: {
+              collection,
+              entityId: doc._id,
+              update: { $addToSet: { [childrenField]: child._id } },
+            },
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * 检查物品引用的位置是否存在
+   */
+  private checkItemLocations(
+    items: Item[],
+    locations: Location[]
+  ): IntegrityIssue[] {
+    const locationIds = new Set(
+      locations.map((location) => idKey(location._id))
+    );
+
+    return items
+      .filter(
+        (item) => item.locationId && !locationIds.has(idKey(item.locationId))
+      )
+      .map((item) => ({
+        type: "dangling_reference" as const,
+        collection: "items",
+        entityId: item._id,
+        field: "locationId",
+        description: `"${item.name}"的位置${item.locationId}不存在`,
+        repair: "清除locationId",
+        fix: {
+          collection: "items",
+          entityId: item._id,
+          update: { $set: { locationId: null } },
+        },
+      }));
+  }
+
+  /**
+   * 检查每种测量类型是否恰有一条最新记录，且为测量时间最晚的记录
+   */
+  private checkLatestBioData(records: BioData[]): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+    const byType = new Map<string, BioData[]>();
+
+    for (const record of records) {
+      const group = byType.get(record.measurementType) ?? [];
+      group.push(record);
+      byType.set(record.measurementType, group);
+    }
+
+    for (const [measurementType, group] of byType) {
+      const latest = group.reduce((current, record) => {
+        const diff =
+          timeOf(record.measuredAt ?? record.createdAt) -
+          timeOf(current.measuredAt ?? current.createdAt);
+        if (diff !== 0) {
+          return diff > 0 ? record : current;
+        }
+        return idKey(record._id) > idKey(current._id) ? record : current;
+      });
+      const flagged = group.filter((record) => record.isLatest === true);
+
+      for (const record of group) {
+        const shouldBeLatest = record === latest;
+        if ((record.isLatest === true) === shouldBeLatest) {
+          continue;
+        }
+
+        issues.push({
+          type: "biodata_latest",
+          collection: "bioData",
+          entityId: record._id,
+          field: "isLatest",
+          description: shouldBeLatest
+            ? `"${measurementType}"最新的记录"${record.recordName}"未标记为最新`
+            : `"${measurementType}"有${flagged.length}条记录标记为最新，"${record.recordName}"不是测量时间最晚的记录`,
+          repair: `将isLatest设为${shouldBeLatest}`,
+          fix: {
+            collection: "bioData",
+            entityId: record._id,
+            update: { $set: { isLatest: shouldBeLatest } },
+          },
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * 检查notes字段是否为字符串（应为笔记数组）
+   */
+  private checkStringNotes(snapshot: Snapshot, now: Date): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+
+    for (const collection of NOTE_COLLECTIONS) {
+      for (const doc of snapshot[collection] as Array<Record<string, any>>) {
+        if (typeof doc.notes !== "string") {
+          continue;
+        }
+
+        const content = doc.notes.trim();
+        const createdAt = doc.updatedAt ?? now;
+        // 联系人笔记与其他实体的结构化笔记格式不同
+        const note =
+          collection === "contacts"
+            ? { content, createdAt, tags: ["migrated"] }
+            : {
+                timestamp: new Date(createdAt).toISOString().split("T")[0],
+                content,
+                metadata: { tags: ["migrated"] },
+              };
+
+        issues.push({
+          type: "string_notes",
+          collection,
+          entityId: doc._id,
+          field: "notes",
+          description: `"${doc.name ?? doc.recordName}"的notes是字符串而不是笔记数组`,
+          repair: content ? "转换为包含一条笔记的数组" : "替换为空数组",
+          fix: {
+            collection,
+            entityId: doc._id,
+            update: { $set: { notes: content ? [note] : [] } },
+          },
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * 检查任务的isOverdue是否与截止日期一致
+   * 未完成任务以当前时间判断，已完成任务以完成时间判断
+   */
+  private checkOverdueTasks(tasks: Task[], now: Date): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+
+    for (const task of tasks) {
+      let expected: boolean;
+
+      if (!task.dueDate) {
+        expected = false;
+      } else if (task.status === "已完成") {
+        const completedAt = (task as any).completedAt;
+        if (!completedAt) {
+          continue;
+        }
+        expected = timeOf(task.dueDate) < timeOf(completedAt);
+      } else {
+        expected = timeOf(task.dueDate) < now.getTime();
+      }
+
+      // 未设置isOverdue视为未逾期
+      if ((task.isOverdue === true) === expected) {
+        continue;
+      }
+
+      issues.push({
+        type: "task_overdue",
+        collection: "tasks",
+        entityId: task._id,
+        field: "isOverdue",
+        description: `任务"${task.name}"的isOverdue为${task.isOverdue ?? "未设置"}，应为${expected}`,
+        repair: `将isOverdue设为${expected}`,
+        fix: {
+          collection: "tasks",
+          entityId: task._id,
+          update: { $set: { isOverdue: expected } },
+        },
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * ID比较键（兼容字符串和ObjectId）
+ */
+function idKey(id: ObjectId | string): string {
+  return id.toString();
+}
+
+/**
+ * 日期的时间戳，缺失时为0
+ */
+function timeOf(date: Date | string | undefined | null): number {
+  return date ? new Date(date).getTime() : 0;
+}
+
+/**
+ * 查找父引用图中的环
+ * @param parents 每个节点的父节点
+ * @returns 每个环上的节点（按父引用方向排列）
+ */
+function findCycles(parents: Map<string, string | null>): string[][] {
+  const cycles: string[][] = [];
+  // 0: 未访问，1: 当前路径上，2: 已完成
+  const state = new Map<string, number>();
+
+  for (const start of parents.keys()) {
+    const path: string[] = [];
+    let node: string | null = start;
+
+    while (node && parents.has(node) && !state.get(node)) {
+      state.set(node, 1);
+      path.push(node);
+      node = parents.get(node) ?? null;
+    }
+
+    // 回到当前路径上的节点说明形成了环
+    if (node && state.get(node) === 1) {
+      cycles.push(path.slice(path.indexOf(node)));
+    }
+
+    for (const visited of path) {
+      state.set(visited, 2);
+    }
+  }
+
+  return cycles;
+}
@@ -1,20 +1,49 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import {
+  getTransactionFailure,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
+import {
+  ContainerTreeNode,
   Item,
   Location,
   StructuredItemLocationResponse,
+  StructuredNote,
   ensureObjectId,
 } from "./types.js";
 
+// 物品路径中各层之间的分隔符
+export const ITEM_PATH_SEPARATOR = " › ";
+// 未标注货币单位的金额按人民币计
+const DEFAULT_CURRENCY = "CNY";
+
+// 数量被并发修改时调整数量的最大尝试次数
+const MAX_QUANTITY_RETRIES = 3;
+
+// 数量变化的备注标签
+export type QuantityChangeTag = "consume" | "restock";
+
+/**
+ * 判断物品是否库存不足（设置了最低库存且数量不高于最低库存）
+ * @param item 物品
+ */
+export function isLowStock(item: Item): boolean {
+  return (
+    typeof item.minQuantity === "number" &&
+    (item.quantity ?? 0) <= item.minQuantity
+  );
+}
+
 /**
  * 物品数据操作类
  */
 export class ItemsModel {
-  private itemsCollection: Collection<Item>;
-  private locationsCollection: Collection<Location>;
-  private db: Db;
+  private itemsCollection: Repository<Item>;
+  private locationsCollection: Repository<Location>;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
     this.itemsCollection = db.collection<Item>("items");
     this.locationsCollection = db.collection<Location>("locations");
@@ -43,7 +72,7 @@ export class ItemsModel {
       const newItem: Partial<Item> = {
         ...itemData,
         status: itemData.status || "在用",
-        quantity: itemData.quantity || 1,
+        quantity: itemData.quantity ?? 1,
         isContainer: itemData.isContainer || false,
         syncedToNotion: false,
         modifiedSinceSync: true,
@@ -112,6 +141,7 @@ export class ItemsModel {
   ): Promise<{
     success: boolean;
     error?: string;
+    rollback?: TransactionFailureDetails;
   }> {
     try {
       const id = ensureObjectId(itemId);
@@ -158,29 +188,31 @@ export class ItemsModel {
           };
         }
       } else {
-        // 如果物品在容器中，从容器的containedItems中移除
-        if (item.containerId) {
-          await this.itemsCollection.updateOne(
-            { _id: ensureObjectId(item.containerId) },
-            {
-              $pull: { containedItems: id },
-              $set: {
-                updatedAt: new Date(),
-                modifiedSinceSync: true,
-              },
-            }
-          );
-        }
+        // 容器更新和硬删除在同一事务中执行
+        await this.db.withTransaction(async (tx) => {
+          const itemsCollection = tx.collection<Item>("items");
+
+          // 如果物品在容器中，从容器的containedItems中移除
+          if (item.containerId) {
+            await itemsCollection.updateOne(
+              { _id: ensureObjectId(item.containerId) },
+              {
+                $pull: { containedItems: id },
+                $set: {
+                  updatedAt: new Date(),
+                  modifiedSinceSync: true,
+                },
+              }
+            );
+          }
 
-        // 硬删除
-        const result = await this.itemsCollection.deleteOne({ _id: id });
+          // 硬删除
+          const result = await itemsCollection.deleteOne({ _id: id });
 
-        if (result.deletedCount === 0) {
-          return {
-            success: false,
-            error: "删除物品失败",
-          };
-        }
+          if (result.deletedCount === 0) {
+            throw new Error("物品已不存在");
+          }
+        });
       }
 
       return { success: true };
@@ -188,6 +220,7 @@ export class ItemsModel {
       return {
         success: false,
         error: `删除物品失败: ${error}`,
+        rollback: getTransactionFailure(error),
       };
     }
   }
@@ -286,55 +319,167 @@ export class ItemsModel {
       response.lastUpdate = sortedNotes[0]?.timestamp;
     }
 
-    // 如果物品有位置信息，查询位置详情
-    if (item.locationId) {
-      try {
-        const locationId =
-          typeof item.locationId === "string"
-            ? new ObjectId(item.locationId)
-            : item.locationId;
+    // 查询各层容器和所在位置（物品本身没有位置时使用外层容器的位置）
+    try {
+      const { containers, location } = await this.getItemPath(item);
+
+      if (location) {
+        response.location = {
+          name: location.name,
+          id: location._id.toString(),
+          address: location.address,
+        };
+      }
 
-        const location = await this.locationsCollection.findOne({
-          _id: locationId,
-        });
+      if (containers.length > 0) {
+        const container = containers[containers.length - 1];
+        response.container = {
+          name: container.name,
+          id: container._id.toString(),
+          isContainer: container.isContainer,
+        };
+        response.containerPath = containers.map((container) => ({
+          name: container.name,
+          id: container._id.toString(),
+        }));
+      }
 
-        if (location) {
-          response.location = {
-            name: location.name,
-            id: location._id.toString(),
-            address: location.address,
-          };
-        }
-      } catch (error) {
-        console.error(`获取位置信息失败: ${error}`);
+      const path = [
+        ...(location ? [location.name] : []),
+        ...containers.map((container) => container.name),
+      ];
+      if (path.length > 0) {
+        response.path = path.join(ITEM_PATH_SEPARATOR);
       }
+    } catch (error) {
+      console.error(`获取位置和容器信息失败: ${error}`);
     }
 
-    // 如果物品在容器内，查询容器详情
-    if (item.containerId) {
-      try {
-        const containerId =
-          typeof item.containerId === "string"
-            ? new ObjectId(item.containerId)
-            : item.containerId;
+    return response;
+  }
 
-        const container = await this.itemsCollection.findOne({
-          _id: containerId,
-        });
+  /**
+   * 获取物品所在的各层容器和位置
+   * 位置取最外层有位置的容器（或物品本身）的位置；容器引用成环时在重复处停止
+   * @param item 物品
+   * @returns 由外到内的各层容器和所在位置
+   */
+  async getItemPath(
+    item: Item
+  ): Promise<{ containers: Item[]; location: Location | null }> {
+    const containers: Item[] = [];
+    const visited = new Set<string>([item._id.toString()]);
+    let locationId = item.locationId;
+    let current = item;
+
+    while (current.containerId) {
+      const key = current.containerId.toString();
+      if (visited.has(key)) {
+        break;
+      }
+      visited.add(key);
 
-        if (container) {
-          response.container = {
-            name: container.name,
-            id: container._id.toString(),
-            isContainer: container.isContainer,
-          };
+      const container = await this.getItemById(key);
+      if (!container) {
+        break;
+      }
+      containers.unshift(container);
+      if (container.locationId) {
+        locationId = container.locationId;
+      }
+      current = container;
+    }
+
+    const location = locationId
+      ? await this.locationsCollection.findOne({
+          _id: ensureObjectId(locationId),
+        })
+      : null;
+
+    return { containers, location };
+  }
+
+  /**
+   * 获取容器的完整嵌套结构，已删除的物品除外
+   * 容器引用成环时每个物品只出现一次
+   * @param containerId 容器ID
+   * @returns 容器树，容器不存在时为null
+   */
+  async getContainerTree(
+    containerId: string | ObjectId
+  ): Promise<ContainerTreeNode | null> {
+    const root = await this.getItemById(containerId);
+    if (!root) {
+      return null;
+    }
+
+    // 容器ID -> 直接包含的物品
+    const childrenOf = new Map<string, Item[]>();
+    const visited = new Set<string>([root._id.toString()]);
+    let level = [root];
+
+    // 逐层展开容器中的物品
+    while (level.length > 0) {
+      const containers = level.filter((item) => item.isContainer);
+      if (containers.length === 0) {
+        break;
+      }
+      const contained = await this.itemsCollection
+        .find({
+          status: { $ne: "已删除" },
+          containerId: { $in: containers.map((item) => item._id) },
+        })
+        .sort({ name: 1 })
+        .toArray();
+
+      level = [];
+      for (const item of contained) {
+        const key = item._id.toString();
+        if (visited.has(key)) {
+          continue;
+        }
+        visited.add(key);
+        const parentKey = item.containerId.toString();
+        if (!childrenOf.has(parentKey)) {
+          childrenOf.set(parentKey, []);
         }
-      } catch (error) {
-        console.error(`获取容器信息失败: ${error}`);
+        childrenOf.get(parentKey)!.push(item);
+        level.push(item);
       }
     }
 
-    return response;
+    const buildNode = (item: Item): ContainerTreeNode => {
+      const children = (childrenOf.get(item._id.toString()) || []).map(
+        buildNode
+      );
+      const totalValue: Record<string, number> = {};
+      let itemCount = 0;
+      for (const child of children) {
+        itemCount += 1 + child.itemCount;
+        if (typeof child.amount === "number") {
+          const currency = child.amountCurrency || DEFAULT_CURRENCY;
+          totalValue[currency] = (totalValue[currency] || 0) + child.amount;
+        }
+        for (const [currency, value] of Object.entries(child.totalValue)) {
+          totalValue[currency] = (totalValue[currency] || 0) + value;
+        }
+      }
+
+      return {
+        id: item._id.toString(),
+        name: item.name,
+        isContainer: item.isContainer,
+        status: item.status,
+        quantity: item.quantity,
+        amount: item.amount,
+        amountCurrency: item.amountCurrency,
+        itemCount,
+        totalValue,
+        children,
+      };
+    };
+
+    return buildNode(root);
   }
 
   /**
@@ -348,80 +493,28 @@ export class ItemsModel {
   }
 
   /**
-   * 更新物品位置
+   * 更新物品信息
    * @param itemId 物品ID
-   * @param locationId 新位置ID
-   * @param containerId 新容器ID（可选）
-   * @param note 备注（可选）
+   * @param updateData 更新数据
    * @returns 更新结果
    */
-  async updateItemLocation(
+  async updateItem(
     itemId: string | ObjectId,
-    locationId: string | ObjectId | null,
-    containerId: string | ObjectId | null = null,
-    note: string | null = null
+    updateData: Partial<Item>
   ): Promise<{ success: boolean; item?: Item; error?: string }> {
     try {
       const id = ensureObjectId(itemId);
 
-      // 构建更新对象
-      const updateObj: any = {
+      // 添加更新时间和同步标记
+      const dataToUpdate = {
+        ...updateData,
         updatedAt: new Date(),
         modifiedSinceSync: true,
       };
 
-      if (locationId) {
-        updateObj.locationId =
-          typeof locationId === "string"
-            ? new ObjectId(locationId)
-            : locationId;
-      }
-
-      if (containerId) {
-        updateObj.containerId =
-          typeof containerId === "string"
-            ? new ObjectId(containerId)
-            : containerId;
-      }
-
-      // 如果有备注，添加到notes数组
-      if (note) {
-        const noteObj: {
-          timestamp: string;
-          content: string;
-          metadata: {
-            locationId?: string;
-            containerId?: string;
-          };
-        } = {
-          timestamp: new Date().toISOString().split("T")[0], // 格式为YYYY-MM-DD
-          content: note,
-          metadata: {},
-        };
-
-        if (locationId) {
-          noteObj.metadata.locationId =
-            typeof locationId === "string" ? locationId : locationId.toString();
-        }
-
-        if (containerId) {
-          noteObj.metadata.containerId =
-            typeof containerId === "string"
-              ? containerId
-              : containerId.toString();
-        }
-
-        // 使用$push操作符将新备注添加到数组
-        await this.itemsCollection.updateOne(
-          { _id: id },
-          { $push: { notes: noteObj } }
-        );
-      }
-
-      // 执行更新
       const result = await this.itemsCollection.updateOne(
         { _id: id },
-        { $set: updateObj }
+        { $set: dataToUpdate }
       );
 
       if (result.matchedCount === 0) {
@@ -438,11 +531,256 @@ export class ItemsModel {
     } catch (error) {
       return {
         success: false,
-        error: `更新物品位置失败: ${error}`,
+        error: `更新物品信息失败: ${error}`,
       };
     }
   }
 
+  /**
+   * 添加物品结构化备注
+   * @param itemId 物品ID
+   * @param note 备注
+   * @returns 是否找到物品
+   */
+  async addItemNote(
+    itemId: string | ObjectId,
+    note: StructuredNote
+  ): Promise<boolean> {
+    const result = await this.itemsCollection.updateOne(
+      { _id: ensureObjectId(itemId) },
+      { $push: { notes: note } }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * 调整物品数量并记录结构化备注
+   * 以读取到的数量为条件更新，期间数量被并发修改时重新读取后重试；
+   * 没有数量的旧物品按0处理
+   * @param itemId 物品ID
+   * @param delta 数量变化（消耗为负，补货为正）
+   * @param tag 备注标签（consume或restock）
+   * @param note 用户提供的备注（可选）
+   * @returns 调整结果；减少后数量小于0时失败
+   */
+  async adjustQuantity(
+    itemId: string | ObjectId,
+    delta: number,
+    tag: QuantityChangeTag,
+    note: string | null = null
+  ): Promise<{
+    success: boolean;
+    item?: Item;
+    previousQuantity?: number;
+    error?: string;
+  }> {
+    try {
+      const id = ensureObjectId(itemId);
+
+      for (let attempt = 0; attempt < MAX_QUANTITY_RETRIES; attempt++) {
+        const item = await this.getItemById(id);
+        if (!item) {
+          return { success: false, error: "未找到物品" };
+        }
+
+        const previousQuantity = item.quantity ?? 0;
+        const quantity = previousQuantity + delta;
+        if (quantity < 0) {
+          return {
+            success: false,
+            previousQuantity,
+            error: `物品"${item.name}"数量不足，当前只有${previousQuantity}${
+              item.unit || ""
+            }`,
+          };
+        }
+
+        const noteObj: StructuredNote = {
+          timestamp: new Date().toISOString().split("T")[0], // 格式为YYYY-MM-DD
+          content:
+            note ||
+            `${tag === "consume" ? "消耗" : "补货"}${Math.abs(delta)}${
+              item.unit || ""
+            }，数量从${previousQuantity}变为${quantity}`,
+          metadata: {
+            tags: ["quantity", tag],
+            previousQuantity,
+            quantity,
+            delta,
+          },
+        };
+
+        const result = await this.itemsCollection.updateOne(
+          { _id: id, quantity: item.quantity ?? null },
+          {
+            $push: { notes: noteObj },
+            $set: {
+              quantity,
+              updatedAt: new Date(),
+              modifiedSinceSync: true,
+            },
+          }
+        );
+
+        if (result.matchedCount > 0) {
+          const updatedItem = await this.getItemById(id);
+          return {
+            success: true,
+            item: updatedItem || undefined,
+            previousQuantity,
+          };
+        }
+      }
+
+      return { success: false, error: "物品数量正在被同时修改，请稍后重试" };
+    } catch (error) {
+      return {
+        success: false,
+        error: `调整物品数量失败: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 获取库存不足的物品：设置了最低库存且数量不高于最低库存，已删除的物品除外
+   * @param category 只返回该类别的物品（可选）
+   * @returns 库存不足的物品，缺口大的在前
+   */
+  async getLowStockItems(category?: string): Promise<Item[]> {
+    const items = await this.itemsCollection
+      .find({
+        minQuantity: { $ne: null },
+        status: { $ne: "已删除" },
+        ...(category && { category }),
+      })
+      .toArray();
+
+    return items
+      .filter((item) => isLowStock(item))
+      .sort(
+        (a, b) =>
+          b.minQuantity - (b.quantity ?? 0) - (a.minQuantity - (a.quantity ?? 0))
+      );
+  }
+
+  /**
+   * 获取到期日期在某日期之前的物品，已删除的物品除外
+   * @param fields 到期日期字段
+   * @param until 截止日期（包含）
+   * @param from 起始日期（包含，可选，不提供时包括已过期的物品）
+   * @returns 至少有一个到期日期在范围内的物品
+   */
+  async getItemsWithDatesBetween(
+    fields: ("expiryDate" | "warrantyEndDate" | "nextMaintenanceDate")[],
+    until: Date,
+    from?: Date
+  ): Promise<Item[]> {
+    if (fields.length === 0) {
+      return [];
+    }
+
+    const range = { $lte: until, ...(from && { $gte: from }) };
+    return await this.itemsCollection
+      .find({
+        status: { $ne: "已删除" },
+        $or: fields.map((field) => ({ [field]: range })),
+      })
+      .toArray();
+  }
+
+  /**
+   * 统计位于某位置的物品数量
+   * @param locationId 位置ID
+   * @returns 物品数量
+   */
+  async countItemsAtLocation(locationId: string | ObjectId): Promise<number> {
+    return await this.itemsCollection.countDocuments({
+      locationId: ensureObjectId(locationId),
+    });
+  }
+
+  /**
+   * 获取位于一组位置中的物品（包括放在这些位置的容器中的物品），已删除的物品除外
+   * 容器中物品的位置以最外层容器为准，不看物品自身可能过时的locationId
+   * @param locationIds 位置ID列表
+   * @returns 以位置ID为键的物品列表
+   */
+  async getItemsAtLocations(
+    locationIds: (string | ObjectId)[]
+  ): Promise<Map<string, Item[]>> {
+    const result = new Map<string, Item[]>(
+      locationIds.map((id) => [id.toString(), []])
+    );
+    if (locationIds.length === 0) {
+      return result;
+    }
+
+    const notDeleted = { status: { $ne: "已删除" } };
+    // 物品ID -> 所在位置ID
+    const placement = new Map<string, string>();
+
+    let level = await this.itemsCollection
+      .find({
+        ...notDeleted,
+        containerId: null,
+        locationId: { $in: locationIds.map((id) => ensureObjectId(id)) },
+      })
+      .toArray();
+    for (const item of level) {
+      placement.set(item._id.toString(), item.locationId.toString());
+      result.get(item.locationId.toString())?.push(item);
+    }
+
+    // 逐层展开容器中的物品
+    while (level.length > 0) {
+      const containers = level.filter((item) => item.isContainer);
+      if (containers.length === 0) {
+        break;
+      }
+      const contained = await this.itemsCollection
+        .find({
+          ...notDeleted,
+          containerId: { $in: containers.map((item) => item._id) },
+        })
+        .toArray();
+
+      level = [];
+      for (const item of contained) {
+        const key = item._id.toString();
+        if (placement.has(key)) {
+          continue;
+        }
+        const locationId = placement.get(item.containerId.toString());
+        placement.set(key, locationId);
+        result.get(locationId)?.push(item);
+        level.push(item);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 清除物品对某位置的引用（位置被删除时使用）
+   * @param locationId 位置ID
+   * @returns 受影响的物品数量
+   */
+  async clearLocationReference(locationId: string | ObjectId): Promise<number> {
+    const result = await this.itemsCollection.updateMany(
+      { locationId: ensureObjectId(locationId) },
+      {
+        $set: {
+          locationId: null,
+          updatedAt: new Date(),
+          modifiedSinceSync: true,
+        },
+      }
+    );
+
+    return result.modifiedCount;
+  }
+
   /**
    * 查找丢失的物品
    * @param query 可选的查询参数
@@ -468,18 +806,23 @@ export class ItemsModel {
    * @param targetContainerId 目标容器ID (如果需要放入容器)
    * @param note 用户提供的备注
    * @param removeFromCurrentContainer 是否从当前容器中移除
-   * @returns 更新结果
+   * @param cascadeLocation 是否把物品（未指定目标位置时为目标容器的实际位置，
+   *   只是移出容器时为原容器的实际位置）及其包含的各层物品的locationId一并更新
+   * @returns 更新结果；cascaded为同时更新位置的容器内物品数量
    */
   async transferItem(
     itemId: string | ObjectId,
     targetLocationId: string | ObjectId | null = null,
     targetContainerId: string | ObjectId | null = null,
     note: string | null = null,
-    removeFromCurrentContainer: boolean = true
+    removeFromCurrentContainer: boolean = true,
+    cascadeLocation: boolean = true
   ): Promise<{
     success: boolean;
     item?: Item;
+    cascaded?: number;
     error?: string;
+    rollback?: TransactionFailureDetails;
   }> {
     try {
       // 确保 itemId 是 ObjectId 类型
@@ -492,6 +835,17 @@ export class ItemsModel {
         return { success: false, error: "未找到物品" };
       }
 
+      // 不能把容器放进它自己或它包含的容器中
+      if (targetContainerId) {
+        const cycleError = await this.checkContainerCycle(
+          item,
+          targetContainerId
+        );
+        if (cycleError) {
+          return { success: false, error: cycleError };
+        }
+      }
+
       // 准备更新对象
       const updateObj: any = {
         updatedAt: new Date(),
@@ -504,10 +858,32 @@ export class ItemsModel {
         containerId: item.containerId,
       };
 
-      // 如果提供了目标位置，更新位置ID
-      if (targetLocationId) {
-        updateObj.locationId = ensureObjectId(targetLocationId);
+      // 如果提供了目标位置，更新位置ID；
+      // 级联更新时未提供目标位置则使用目标容器的实际位置
+      let newLocationId: ObjectId | null = targetLocationId
+        ? ensureObjectId(targetLocationId)
+        : null;
+      const inheritFrom = targetContainerId
+        ? targetContainerId
+        : removeFromCurrentContainer
+        ? item.containerId
+        : null;
+      if (!newLocationId && inheritFrom && cascadeLocation) {
+        const container = await this.getItemById(inheritFrom);
+        const { location } = container
+          ? await this.getItemPath(container)
+          : { location: null };
+        newLocationId = location?._id ?? null;
       }
+      if (newLocationId) {
+        updateObj.locationId = newLocationId;
+      }
+
+      // 容器换了位置时，其中各层物品的位置一并更新
+      const contentIds =
+        cascadeLocation && newLocationId && item.isContainer
+          ? await this.getContainedItemIds(id)
+          : [];
 
       // 如果提供了目标容器，更新容器ID
       if (targetContainerId) {
@@ -519,9 +895,15 @@ export class ItemsModel {
 
       // 创建结构化备注
       const timestamp = new Date().toISOString().split("T")[0]; // 格式为 YYYY-MM-DD
+      const takenOut =
+        !targetContainerId && !targetLocationId && updateObj.containerId === null;
       const noteContent =
         note ||
-        `物品「${item.name}」${previousState.containerId ? "从容器中" : ""}${
+        (takenOut
+          ? `物品「${item.name}」从容器「${await this.getContainerName(
+              previousState.containerId
+            )}」中取出`
+          : `物品「${item.name}」${previousState.containerId ? "从容器中" : ""}${
           previousState.locationId
             ? `从位置「${await this.getLocationName(
                 previousState.locationId
@@ -536,7 +918,7 @@ export class ItemsModel {
           targetLocationId
             ? `位置「${await this.getLocationName(targetLocationId)}」`
             : ""
-        }`;
+        }`);
 
       const noteObj = {
         timestamp: timestamp,
@@ -558,43 +940,61 @@ export class ItemsModel {
         },
       };
 
-      // 添加结构化备注
-      await this.itemsCollection.updateOne(
-        { _id: id },
-        {
-          $push: { notes: noteObj },
-          $set: updateObj,
-        }
-      );
+      // 物品和新旧容器在同一事务中更新
+      await this.db.withTransaction(async (tx) => {
+        const itemsCollection = tx.collection<Item>("items");
 
-      // 如果从一个容器移到另一个容器，更新容器的 containedItems
-      if (previousState.containerId && removeFromCurrentContainer) {
-        // 从旧容器移除
-        await this.itemsCollection.updateOne(
-          { _id: ensureObjectId(previousState.containerId) },
+        // 添加结构化备注
+        await itemsCollection.updateOne(
+          { _id: id },
           {
-            $pull: { containedItems: id },
-            $set: {
-              updatedAt: new Date(),
-              modifiedSinceSync: true,
-            },
+            $push: { notes: noteObj },
+            $set: updateObj,
           }
         );
-      }
 
-      if (targetContainerId) {
-        // 添加到新容器
-        await this.itemsCollection.updateOne(
-          { _id: ensureObjectId(targetContainerId) },
-          {
-            $addToSet: { containedItems: id },
-            $set: {
-              updatedAt: new Date(),
-              modifiedSinceSync: true,
-            },
-          }
-        );
-      }
+        // 如果从一个容器移到另一个容器，更新容器的 containedItems
+        if (previousState.containerId && removeFromCurrentContainer) {
+          // 从旧容器移除
+          await itemsCollection.updateOne(
+            { _id: ensureObjectId(previousState.containerId) },
+            {
+              $pull: { containedItems: id },
+              $set: {
+                updatedAt: new Date(),
+                modifiedSinceSync: true,
+              },
+            }
+          );
+        }
+
+        if (targetContainerId) {
+          // 添加到新容器
+          await itemsCollection.updateOne(
+            { _id: ensureObjectId(targetContainerId) },
+            {
+              $addToSet: { containedItems: id },
+              $set: {
+                updatedAt: new Date(),
+                modifiedSinceSync: true,
+              },
+            }
+          );
+        }
+
+        if (contentIds.length > 0) {
+          await itemsCollection.updateMany(
+            { _id: { $in: contentIds } },
+            {
+              $set: {
+                locationId: newLocationId,
+                updatedAt: new Date(),
+                modifiedSinceSync: true,
+              },
+            }
+          );
+        }
+      });
 
       // 查询更新后的物品
       const updatedItem = await this.getItemById(id);
@@ -602,15 +1002,75 @@ export class ItemsModel {
       return {
         success: true,
         item: updatedItem || undefined,
+        cascaded: contentIds.length,
       };
     } catch (error) {
       return {
         success: false,
         error: `转移物品失败: ${error}`,
+        rollback: getTransactionFailure(error),
       };
     }
   }
 
+  /**
+   * 检查把物品放进目标容器是否会形成循环嵌套
+   * @param item 要移动的物品
+   * @param targetContainerId 目标容器ID
+   * @returns 会形成循环时返回错误信息，否则为null
+   */
+  async checkContainerCycle(
+    item: Item,
+    targetContainerId: string | ObjectId
+  ): Promise<string | null> {
+    const target = await this.getItemById(targetContainerId);
+    if (!target) {
+      return "未找到目标容器";
+    }
+    if (target._id.equals(item._id)) {
+      return `不能把"${item.name}"放进它自己`;
+    }
+
+    const { containers } = await this.getItemPath(target);
+    if (containers.some((container) => container._id.equals(item._id))) {
+      return `不能把"${item.name}"放进它包含的容器"${target.name}"中`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 获取容器中各层物品的ID（包括已删除的物品）
+   * @param containerId 容器ID
+   * @returns 物品ID列表
+   */
+  async getContainedItemIds(
+    containerId: string | ObjectId
+  ): Promise<ObjectId[]> {
+    const rootId = ensureObjectId(containerId);
+    const visited = new Set<string>([rootId.toString()]);
+    const ids: ObjectId[] = [];
+    let level = [rootId];
+
+    while (level.length > 0) {
+      const contained = await this.itemsCollection
+        .find({ containerId: { $in: level } }, { projection: { _id: 1 } })
+        .toArray();
+
+      level = [];
+      for (const { _id } of contained) {
+        if (visited.has(_id.toString())) {
+          continue;
+        }
+        visited.add(_id.toString());
+        ids.push(_id);
+        level.push(_id);
+      }
+    }
+
+    return ids;
+  }
+
   /**
    * 获取位置名称
    * @param locationId 位置ID
@@ -0,0 +1,299 @@
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
+import {
+  getTransactionFailure,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
+import { daysUntil, formatItemDate } from "../utils/itemDeadlines.js";
+import {
+  Contact,
+  Item,
+  Loan,
+  LoanStatus,
+  StructuredNote,
+  ensureObjectId,
+} from "./types.js";
+
+// 借出中的物品状态
+export const LENT_ITEM_STATUS = "借出";
+// 借出前没有状态的物品归还后的状态
+const DEFAULT_ITEM_STATUS = "在用";
+
+/**
+ * 判断借出记录是否逾期（未归还且已过预计归还日期）
+ * @param loan 借出记录
+ * @param now 当前时间
+ */
+export function isLoanOverdue(loan: Loan, now: Date = new Date()): boolean {
+  return (
+    loan.status === "outstanding" &&
+    !!loan.dueDate &&
+    daysUntil(loan.dueDate, now) < 0
+  );
+}
+
+/**
+ * 借出记录数据操作类
+ * 借出和归还同时更新物品状态，并在物品和联系人上记录借还历史
+ */
+export class LoansModel {
+  private loansCollection: Repository<Loan>;
+  private db: Storage;
+
+  constructor(db: Storage) {
+    this.db = db;
+    this.loansCollection = db.collection<Loan>("loans");
+  }
+
+  /**
+   * 借出物品
+   * 借出记录、物品状态和双方的历史记录在同一事务中写入
+   * @param data 物品、借用人、借出日期、预计归还日期和备注
+   * @returns 借出结果；物品尚未归还时失败
+   */
+  async lendItem(data: {
+    item: Item;
+    contact: Contact;
+    lentAt: Date;
+    dueDate?: Date;
+    note?: string;
+  }): Promise<{
+    success: boolean;
+    loan?: Loan;
+    error?: string;
+    rollback?: TransactionFailureDetails;
+  }> {
+    const { item, contact, lentAt, dueDate, note } = data;
+
+    try {
+      const outstanding = await this.getOutstandingLoan(item._id);
+      if (outstanding) {
+        return {
+          success: false,
+          error: `物品"${item.name}"已借给"${outstanding.contactName}"，尚未归还`,
+        };
+      }
+
+      const now = new Date();
+      const loan: Omit<Loan, "_id"> = {
+        itemId: ensureObjectId(item._id),
+        itemName: item.name,
+        contactId: ensureObjectId(contact._id),
+        contactName: contact.name,
+        lentAt,
+        ...(dueDate && { dueDate }),
+        status: "outstanding",
+        ...(item.status && { previousItemStatus: item.status }),
+        ...(note && { note }),
+        syncedToNotion: false,
+        modifiedSinceSync: true,
+        lastSync: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const due = dueDate ? `，预计${formatItemDate(dueDate)}归还` : "";
+
+      let loanId: ObjectId;
+      await this.db.withTransaction(async (tx) => {
+        const result = await tx.collection<Loan>("loans").insertOne(loan);
+        loanId = result.insertedId;
+
+        await this.recordOnItem(
+          tx,
+          item._id,
+          { status: LENT_ITEM_STATUS },
+          {
+            content: note || `借给「${contact.name}」${due}`,
+            metadata: {
+              tags: ["loan", "lend"],
+              loanId,
+              contactId: loan.contactId,
+            },
+          }
+        );
+        await this.recordOnContact(
+          tx,
+          contact._id,
+          `借走「${item.name}」${due}`,
+          ["借出"]
+        );
+      });
+
+      return {
+        success: true,
+        loan: (await this.loansCollection.findOne({ _id: loanId })) || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `借出物品失败: ${error}`,
+        rollback: getTransactionFailure(error),
+      };
+    }
+  }
+
+  /**
+   * 归还物品
+   * 物品状态仍为借出时恢复为借出前的状态（期间被改为丢失等状态时保留）
+   * @param loan 未归还的借出记录
+   * @param returnedAt 归还日期
+   * @param note 归还备注（可选）
+   * @returns 归还结果
+   */
+  async returnItem(
+    loan: Loan,
+    returnedAt: Date,
+    note?: string
+  ): Promise<{
+    success: boolean;
+    loan?: Loan;
+    error?: string;
+    rollback?: TransactionFailureDetails;
+  }> {
+    try {
+      await this.db.withTransaction(async (tx) => {
+        const result = await tx.collection<Loan>("loans").updateOne(
+          { _id: loan._id, status: "outstanding" },
+          {
+            $set: {
+              status: "returned",
+              returnedAt,
+              ...(note && { returnNote: note }),
+              updatedAt: new Date(),
+              modifiedSinceSync: true,
+            },
+          }
+        );
+        if (result.matchedCount === 0) {
+          throw new Error(`物品"${loan.itemName}"已归还`);
+        }
+
+        await tx.collection<Item>("items").updateOne(
+          { _id: loan.itemId, status: LENT_ITEM_STATUS },
+          {
+            $set: {
+              status: loan.previousItemStatus || DEFAULT_ITEM_STATUS,
+            },
+          }
+        );
+        await this.recordOnItem(tx, loan.itemId, {}, {
+          content: note || `「${loan.contactName}」已归还`,
+          metadata: {
+            tags: ["loan", "return"],
+            loanId: loan._id,
+            contactId: loan.contactId,
+          },
+        });
+        await this.recordOnContact(
+          tx,
+          loan.contactId,
+          `归还「${loan.itemName}」`,
+          ["归还"]
+        );
+      });
+
+      return {
+        success: true,
+        loan:
+          (await this.loansCollection.findOne({ _id: loan._id })) || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `归还物品失败: ${error}`,
+        rollback: getTransactionFailure(error),
+      };
+    }
+  }
+
+  /**
+   * 获取物品未归还的借出记录
+   * @param itemId 物品ID
+   */
+  async getOutstandingLoan(itemId: string | ObjectId): Promise<Loan | null> {
+    return await this.loansCollection.findOne({
+      itemId: ensureObjectId(itemId),
+      status: "outstanding",
+    });
+  }
+
+  /**
+   * 根据ID获取借出记录
+   * @param loanId 借出记录ID
+   */
+  async getLoanById(loanId: string | ObjectId): Promise<Loan | null> {
+    return await this.loansCollection.findOne({
+      _id: ensureObjectId(loanId),
+    });
+  }
+
+  /**
+   * 查询借出记录，最近借出的在前
+   * @param filter 借用人、物品和状态（均可选）
+   */
+  async getLoans(
+    filter: {
+      contactId?: string | ObjectId;
+      itemId?: string | ObjectId;
+      status?: LoanStatus;
+    } = {}
+  ): Promise<Loan[]> {
+    return await this.loansCollection
+      .find({
+        ...(filter.contactId && {
+          contactId: ensureObjectId(filter.contactId),
+        }),
+        ...(filter.itemId && { itemId: ensureObjectId(filter.itemId) }),
+        ...(filter.status && { status: filter.status }),
+      })
+      .sort({ lentAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * 在事务中更新物品并添加借还备注
+   */
+  private async recordOnItem(
+    tx: Storage,
+    itemId: string | ObjectId,
+    updates: Partial<Item>,
+    note: Omit<StructuredNote, "timestamp">
+  ): Promise<void> {
+    const result = await tx.collection<Item>("items").updateOne(
+      { _id: ensureObjectId(itemId) },
+      {
+        $push: {
+          notes: {
+            timestamp: new Date().toISOString().split("T")[0], // 格式为YYYY-MM-DD
+            ...note,
+          },
+        },
+        $set: { ...updates, updatedAt: new Date(), modifiedSinceSync: true },
+      }
+    );
+    if (result.matchedCount === 0) {
+      throw new Error("未找到物品");
+    }
+  }
+
+  /**
+   * 在事务中为联系人添加借还笔记
+   */
+  private async recordOnContact(
+    tx: Storage,
+    contactId: string | ObjectId,
+    content: string,
+    tags: string[]
+  ): Promise<void> {
+    const result = await tx.collection<Contact>("contacts").updateOne(
+      { _id: ensureObjectId(contactId) },
+      {
+        $push: { notes: { content, createdAt: new Date(), tags } },
+        $set: { updatedAt: new Date(), modifiedSinceSync: true },
+      }
+    );
+    if (result.matchedCount === 0) {
+      throw new Error("未找到联系人");
+    }
+  }
+}
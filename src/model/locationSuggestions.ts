@@ -0,0 +1,125 @@
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
+import type { Coordinates } from "../routing/types.js";
+import {
+  LocationSuggestion,
+  LocationSuggestionStatus,
+  ensureObjectId,
+} from "./types.js";
+
+/**
+ * 位置建议数据操作类
+ * 地理编码得到的未知地点先记为待确认的建议，由用户接受、合并或拒绝后才写入位置
+ */
+export class LocationSuggestionsModel {
+  private suggestionsCollection: Repository<LocationSuggestion>;
+
+  constructor(db: Storage) {
+    this.suggestionsCollection =
+      db.collection<LocationSuggestion>("locationSuggestions");
+  }
+
+  /**
+   * 记录位置建议
+   * 同名的建议待确认时只累计查询次数，已被拒绝时不再重新建议
+   * @param data 建议内容
+   * @returns 建议及是否新建
+   */
+  async suggestLocation(data: {
+    name: string;
+    coordinates: Coordinates;
+    address?: string;
+    provider: string;
+    source: string;
+  }): Promise<{ suggestion: LocationSuggestion; created: boolean }> {
+    const existing = await this.suggestionsCollection.findOne({
+      name: data.name,
+      status: { $in: ["pending", "rejected"] },
+    });
+
+    if (existing) {
+      await this.suggestionsCollection.updateOne(
+        { _id: existing._id },
+        { $inc: { occurrences: 1 }, $set: { updatedAt: new Date() } }
+      );
+      return {
+        suggestion: { ...existing, occurrences: existing.occurrences + 1 },
+        created: false,
+      };
+    }
+
+    const now = new Date();
+    const suggestion = {
+      name: data.name,
+      coordinates: {
+        latitude: data.coordinates.latitude,
+        longitude: data.coordinates.longitude,
+        system: data.coordinates.system,
+      },
+      address: data.address,
+      provider: data.provider,
+      source: data.source,
+      occurrences: 1,
+      status: "pending" as const,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await this.suggestionsCollection.insertOne(suggestion);
+
+    return {
+      suggestion: { ...suggestion, _id: result.insertedId },
+      created: true,
+    };
+  }
+
+  /**
+   * 获取待确认的建议，查询次数多的在前
+   * @param limit 最多返回的数量
+   */
+  async getPendingSuggestions(limit = 50): Promise<LocationSuggestion[]> {
+    return await this.suggestionsCollection
+      .find({ status: "pending" })
+      .sort({ occurrences: -1, createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * 根据ID查询建议
+   * @param suggestionId 建议ID
+   */
+  async getSuggestionById(
+    suggestionId: string | ObjectId
+  ): Promise<LocationSuggestion | null> {
+    return await this.suggestionsCollection.findOne({
+      _id: ensureObjectId(suggestionId),
+    });
+  }
+
+  /**
+   * 处理待确认的建议
+   * @param suggestionId 建议ID
+   * @param status 处理结果
+   * @param locationId 创建或合并到的位置ID
+   * @returns 是否处理成功（建议不存在或已处理时为false）
+   */
+  async resolveSuggestion(
+    suggestionId: string | ObjectId,
+    status: Exclude<LocationSuggestionStatus, "pending">,
+    locationId?: ObjectId
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await this.suggestionsCollection.updateOne(
+      { _id: ensureObjectId(suggestionId), status: "pending" },
+      {
+        $set: {
+          status,
+          ...(locationId && { locationId }),
+          resolvedAt: now,
+          updatedAt: now,
+        },
+      }
+    );
+    return result.matchedCount > 0;
+  }
+}
@@ -1,20 +1,64 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import {
   Location,
   BioData,
+  EnrichableLocationField,
   ensureObjectId,
   TravelTimeEstimationResponse,
 } from "./types.js";
+import { TIME_OF_DAY_LABELS, TripsModel } from "./trips.js";
+import { RouteCacheModel } from "./routeCache.js";
+import {
+  DEFAULT_SPEEDS,
+  EARTH_RADIUS,
+  hasCoordinates,
+  haversineDistance,
+  toGeoPoint,
+} from "../routing/geo.js";
+import { STORAGE_COORDINATE_SYSTEM } from "../routing/datum.js";
+import type { Coordinates, GeoPoint, TravelMode } from "../routing/types.js";
+import { valuesEqual } from "../storage/query.js";
+import {
+  isOpenAt,
+  parseOpeningHours,
+  type OpeningHoursOptions,
+  type OpeningSchedule,
+} from "../utils/openingHours.js";
+import { round } from "../utils/math.js";
+
+// 地理查询范围：圆形（中心和半径，米）或多边形（顶点按顺序排列）
+export type GeoArea =
+  | { center: Coordinates; radius: number }
+  | { polygon: Coordinates[] };
+
+// 可自动补全的字段
+export const ENRICHABLE_LOCATION_FIELDS: EnrichableLocationField[] = [
+  "address",
+  "coordinates",
+];
+
+// 需要补全的位置及其字段
+export interface EnrichmentCandidate {
+  location: Location;
+  fields: EnrichableLocationField[];
+}
+
+// 范围内的位置及其到参考点的距离（米）
+export interface LocationDistance {
+  location: Location;
+  distance: number;
+}
 
 /**
  * 位置数据操作类
  */
 export class LocationsModel {
-  private locationsCollection: Collection<Location>;
-  private bioDataCollection: Collection<BioData>;
-  private db: Db;
+  private locationsCollection: Repository<Location>;
+  private bioDataCollection: Repository<BioData>;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
     this.locationsCollection = db.collection<Location>("locations");
     this.bioDataCollection = db.collection<BioData>("bioData");
@@ -64,6 +108,540 @@ export class LocationsModel {
       .toArray();
   }
 
+  /**
+   * 创建位置
+   * @param locationData 位置数据
+   * @returns 创建结果
+   */
+  async createLocation(locationData: Partial<Location>): Promise<{
+    success: boolean;
+    location?: Location;
+    error?: string;
+  }> {
+    try {
+      // 添加通用字段
+      const newLocation: Partial<Location> = {
+        ...locationData,
+        geoPoint: deriveGeoPoint(locationData.coordinates),
+        openingSchedule: deriveOpeningSchedule(locationData.openingHours),
+        childLocations: [],
+        syncedToNotion: false,
+        modifiedSinceSync: true,
+        lastSync: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      // 插入位置
+      const result = await this.locationsCollection.insertOne(newLocation);
+
+      if (!result.acknowledged) {
+        return {
+          success: false,
+          error: "插入位置失败",
+        };
+      }
+
+      // 查询插入的位置
+      const location = await this.getLocationById(result.insertedId);
+
+      return {
+        success: true,
+        location: location || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `创建位置失败: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 更新位置信息
+   * @param locationId 位置ID
+   * @param updateData 更新数据
+   * @returns 更新结果
+   */
+  async updateLocation(
+    locationId: string | ObjectId,
+    updateData: Partial<Location>
+  ): Promise<{
+    success: boolean;
+    location?: Location;
+    error?: string;
+  }> {
+    try {
+      const id = ensureObjectId(locationId);
+
+      // 添加更新时间和同步标记
+      const dataToUpdate: Partial<Location> = {
+        ...updateData,
+        updatedAt: new Date(),
+        modifiedSinceSync: true,
+      };
+      // 坐标变化时同步GeoJSON点，并记下原坐标以使路线缓存失效
+      let previous: Location | null = null;
+      if ("coordinates" in updateData) {
+        dataToUpdate.geoPoint = deriveGeoPoint(updateData.coordinates);
+        previous = await this.getLocationById(id);
+      }
+      // 开放时间变化时重新解析
+      if ("openingHours" in updateData) {
+        dataToUpdate.openingSchedule = deriveOpeningSchedule(
+          updateData.openingHours
+        );
+      }
+      // 手动修改的字段不再标记为自动补全，以后补全时不会覆盖
+      const unset: Record<string, ""> = {};
+      for (const field of ENRICHABLE_LOCATION_FIELDS) {
+        if (field in updateData) {
+          unset[`enrichedFields.${field}`] = "";
+        }
+      }
+
+      // 执行更新
+      const result = await this.locationsCollection.updateOne(
+        { _id: id },
+        {
+          $set: dataToUpdate,
+          ...(Object.keys(unset).length > 0 && { $unset: unset }),
+        }
+      );
+
+      if (result.matchedCount === 0) {
+        return {
+          success: false,
+          error: "未找到位置",
+        };
+      }
+
+      if (
+        previous &&
+        hasCoordinates(previous.coordinates) &&
+        !sameCoordinates(previous.coordinates, updateData.coordinates)
+      ) {
+        await new RouteCacheModel(this.db).invalidateLocation(
+          previous.name,
+          previous.coordinates
+        );
+      }
+
+      // 查询更新后的位置
+      const updatedLocation = await this.getLocationById(id);
+
+      return {
+        success: true,
+        location: updatedLocation || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `更新位置信息失败: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 删除位置
+   * @param locationId 位置ID
+   * @returns 是否删除成功
+   */
+  async deleteLocation(locationId: string | ObjectId): Promise<boolean> {
+    const result = await this.locationsCollection.deleteOne({
+      _id: ensureObjectId(locationId),
+    });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * 将子位置添加到父位置的childLocations中
+   * @param parentId 父位置ID
+   * @param childId 子位置ID
+   */
+  async addChildLocation(
+    parentId: string | ObjectId,
+    childId: string | ObjectId
+  ): Promise<void> {
+    await this.locationsCollection.updateOne(
+      { _id: ensureObjectId(parentId) },
+      {
+        $addToSet: { childLocations: ensureObjectId(childId) },
+        $set: {
+          updatedAt: new Date(),
+          modifiedSinceSync: true,
+        },
+      }
+    );
+  }
+
+  /**
+   * 从父位置的childLocations中移除子位置
+   * @param parentId 父位置ID
+   * @param childId 子位置ID
+   */
+  async removeChildLocation(
+    parentId: string | ObjectId,
+    childId: string | ObjectId
+  ): Promise<void> {
+    await this.locationsCollection.updateOne(
+      { _id: ensureObjectId(parentId) },
+      {
+        $pull: { childLocations: ensureObjectId(childId) },
+        $set: {
+          updatedAt: new Date(),
+          modifiedSinceSync: true,
+        },
+      }
+    );
+  }
+
+  /**
+   * 清除子位置对某父位置的引用（父位置被删除时使用）
+   * @param parentId 父位置ID
+   * @returns 受影响的位置数量
+   */
+  async clearParentReferences(parentId: string | ObjectId): Promise<number> {
+    const result = await this.locationsCollection.updateMany(
+      { parentLocationId: ensureObjectId(parentId) },
+      {
+        $set: {
+          parentLocationId: null,
+          updatedAt: new Date(),
+          modifiedSinceSync: true,
+        },
+      }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * 按名称精确查找位置（不区分大小写）
+   * @param name 位置名称
+   * @returns 位置对象
+   */
+  async findLocationByExactName(name: string): Promise<Location | null> {
+    return await this.locationsCollection.findOne({
+      name: new RegExp(`^${name}$`, "i"),
+    });
+  }
+
+  /**
+   * 按名称模糊查找位置（不区分大小写）
+   * @param name 位置名称
+   * @returns 匹配的位置列表
+   */
+  async findLocationsByName(name: string): Promise<Location[]> {
+    return await this.locationsCollection
+      .find({ name: { $regex: name, $options: "i" } })
+      .toArray();
+  }
+
+  /**
+   * 按ID、精确名称或模糊名称查找位置
+   * @param reference 位置ID或名称
+   * @returns 位置对象
+   */
+  async findLocationByReference(reference: string): Promise<Location | null> {
+    if (/^[0-9a-fA-F]{24}$/.test(reference)) {
+      const location = await this.getLocationById(new ObjectId(reference));
+      if (location) {
+        return location;
+      }
+    }
+
+    const exact = await this.findLocationByExactName(reference);
+    if (exact) {
+      return exact;
+    }
+
+    const fuzzy = await this.findLocationsByName(reference);
+    return fuzzy[0] ?? null;
+  }
+
+  /**
+   * 查找决定某位置开放时间的位置：位置本身没有设置时沿父位置向上查找
+   * （如房间使用所在建筑的开放时间）
+   * @param locationId 位置ID
+   * @returns 设置了开放时间的位置，均未设置时为null
+   */
+  async findOpeningHoursSource(
+    locationId: string | ObjectId
+  ): Promise<Location | null> {
+    let location = await this.getLocationById(ensureObjectId(locationId));
+    const visited = new Set<string>();
+
+    while (location && !location.openingHours && location.parentLocationId) {
+      visited.add(location._id.toString());
+      if (visited.has(location.parentLocationId.toString())) {
+        break;
+      }
+      location = await this.getLocationById(
+        ensureObjectId(location.parentLocationId)
+      );
+    }
+
+    return location?.openingHours ? location : null;
+  }
+
+  /**
+   * 获取位置的开放时间（含沿父位置继承的开放时间）
+   * @param locationId 位置ID
+   * @returns 开放时间，均未设置时为null
+   */
+  async getEffectiveOpeningHours(
+    locationId: string | ObjectId
+  ): Promise<string | null> {
+    const source = await this.findOpeningHoursSource(locationId);
+    return source?.openingHours ?? null;
+  }
+
+  /**
+   * 位置在某一时刻是否开放（含沿父位置继承的开放时间）
+   * @param locationId 位置ID
+   * @param time 时刻
+   * @param options 计算选项
+   * @returns 是否开放，未设置或无法解析开放时间时为null
+   */
+  async isLocationOpenAt(
+    locationId: string | ObjectId,
+    time: Date,
+    options: OpeningHoursOptions = {}
+  ): Promise<boolean | null> {
+    const source = await this.findOpeningHoursSource(locationId);
+    const schedule = source ? getOpeningSchedule(source) : null;
+    return schedule ? isOpenAt(schedule, time, options) : null;
+  }
+
+  /**
+   * 筛选在某一时刻开放的位置，未设置或无法解析开放时间的位置不计入
+   * @param locations 位置列表
+   * @param time 时刻
+   * @param options 计算选项
+   */
+  async filterLocationsOpenAt(
+    locations: Location[],
+    time: Date,
+    options: OpeningHoursOptions = {}
+  ): Promise<Location[]> {
+    const open: Location[] = [];
+    for (const location of locations) {
+      if ((await this.isLocationOpenAt(location._id, time, options)) === true) {
+        open.push(location);
+      }
+    }
+    return open;
+  }
+
+  /**
+   * 查找范围内的位置，按到参考点的距离由近到远排序
+   * @param area 查询范围
+   * @param reference 计算距离的参考点（默认为圆心或多边形顶点的平均位置）
+   * @returns 范围内的位置及距离
+   */
+  async findLocationsWithin(
+    area: GeoArea,
+    reference?: Coordinates
+  ): Promise<LocationDistance[]> {
+    let condition: Record<string, any>;
+    let origin: Coordinates;
+
+    if ("radius" in area) {
+      condition = {
+        $centerSphere: [
+          toGeoPoint(area.center).coordinates,
+          area.radius / EARTH_RADIUS,
+        ],
+      };
+      origin = reference ?? area.center;
+    } else {
+      // GeoJSON多边形的环必须首尾闭合
+      const ring = area.polygon.map((point) => toGeoPoint(point).coordinates);
+      if (!valuesEqual(ring[0], ring[ring.length - 1])) {
+        ring.push(ring[0]);
+      }
+      condition = { $geometry: { type: "Polygon", coordinates: [ring] } };
+      origin = reference ?? {
+        latitude:
+          area.polygon.reduce((sum, point) => sum + point.latitude, 0) /
+          area.polygon.length,
+        longitude:
+          area.polygon.reduce((sum, point) => sum + point.longitude, 0) /
+          area.polygon.length,
+      };
+    }
+
+    const locations = await this.locationsCollection
+      .find({ geoPoint: { $geoWithin: condition } })
+      .toArray();
+
+    return locations
+      .filter((location) => hasCoordinates(location.coordinates))
+      .map((location) => ({
+        location,
+        distance: Math.round(
+          haversineDistance(origin, location.coordinates as Coordinates)
+        ),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * 为地理查询创建2dsphere索引
+   * @returns 索引名称
+   */
+  async ensureGeoIndex(): Promise<string> {
+    return await this.locationsCollection.createIndex({ geoPoint: "2dsphere" });
+  }
+
+  /**
+   * 迁移旧数据：为未标注坐标系的坐标标注存储坐标系，
+   * 并根据coordinates补全或修正geoPoint。两者都不改变坐标值，因此不更新updatedAt和同步标记
+   * @param dryRun 为true时只统计需要迁移的位置数量
+   * @returns 需要（或已经）迁移的位置数量
+   */
+  async migrateCoordinates(dryRun = false): Promise<number> {
+    const locations = await this.locationsCollection
+      .find({}, { projection: { coordinates: 1, geoPoint: 1 } })
+      .toArray();
+
+    let count = 0;
+    for (const location of locations) {
+      const update: Partial<Location> = {};
+
+      if (
+        hasCoordinates(location.coordinates) &&
+        !location.coordinates.system
+      ) {
+        update.coordinates = {
+          ...location.coordinates,
+          system: STORAGE_COORDINATE_SYSTEM,
+        };
+      }
+      const expected = deriveGeoPoint(location.coordinates);
+      if (!valuesEqual(location.geoPoint ?? null, expected)) {
+        update.geoPoint = expected;
+      }
+
+      if (Object.keys(update).length === 0) {
+        continue;
+      }
+      count++;
+      if (!dryRun) {
+        await this.locationsCollection.updateOne(
+          { _id: location._id },
+          { $set: update }
+        );
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * 查找需要补全地址或坐标的位置
+   * 缺少地址但有坐标的位置可补全地址，缺少坐标但有地址的位置可补全坐标；
+   * refresh为true时，之前自动补全（未被手动修改）的字段也重新补全
+   * @param fields 要补全的字段
+   * @param refresh 是否重新补全自动补全过的字段
+   * @param locationIds 只在这些位置中查找（默认所有位置）
+   */
+  async findEnrichmentCandidates(
+    fields: EnrichableLocationField[] = ENRICHABLE_LOCATION_FIELDS,
+    refresh = false,
+    locationIds?: ObjectId[]
+  ): Promise<EnrichmentCandidate[]> {
+    const locations = await this.locationsCollection
+      .find(locationIds ? { _id: { $in: locationIds } } : {})
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    const candidates: EnrichmentCandidate[] = [];
+    for (const location of locations) {
+      const located = hasCoordinates(location.coordinates);
+      const missing: EnrichableLocationField[] = [];
+      const refreshable = (field: EnrichableLocationField) =>
+        refresh && Boolean(location.enrichedFields?.[field]);
+
+      if (
+        fields.includes("address") &&
+        located &&
+        (!location.address || refreshable("address"))
+      ) {
+        missing.push("address");
+      }
+      if (
+        fields.includes("coordinates") &&
+        location.address &&
+        (!located || refreshable("coordinates")) &&
+        // 地址本身是自动补全的不再反推坐标
+        !location.enrichedFields?.address
+      ) {
+        missing.push("coordinates");
+      }
+
+      if (missing.length > 0) {
+        candidates.push({ location, fields: missing });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 写入自动补全的字段并标记来源
+   * 只在字段仍然缺少或仍是自动补全的值时写入，不覆盖期间的手动修改
+   * @param locationId 位置ID
+   * @param values 补全的字段值
+   * @param provider 给出结果的路线服务
+   * @returns 是否写入
+   */
+  async applyEnrichment(
+    locationId: string | ObjectId,
+    values: { address?: string; coordinates?: Coordinates },
+    provider: string
+  ): Promise<boolean> {
+    const now = new Date();
+    const filter: Record<string, any> = { _id: ensureObjectId(locationId) };
+    const update: Record<string, any> = {
+      updatedAt: now,
+      modifiedSinceSync: true,
+    };
+    const guards: Record<string, any>[] = [];
+
+    if (values.address) {
+      update.address = values.address;
+      update["enrichedFields.address"] = { provider, enrichedAt: now };
+      guards.push({
+        $or: [
+          { address: { $in: [null, ""] } },
+          { "enrichedFields.address": { $exists: true } },
+        ],
+      });
+    }
+    if (values.coordinates) {
+      update.coordinates = values.coordinates;
+      update.geoPoint = deriveGeoPoint(values.coordinates);
+      update["enrichedFields.coordinates"] = { provider, enrichedAt: now };
+      guards.push({
+        $or: [
+          { "coordinates.latitude": null },
+          { "enrichedFields.coordinates": { $exists: true } },
+        ],
+      });
+    }
+    if (guards.length > 0) {
+      filter.$and = guards;
+    }
+
+    const result = await this.locationsCollection.updateOne(filter, {
+      $set: update,
+    });
+    return result.matchedCount > 0;
+  }
+
   /**
    * 获取位置层次结构
    * @param locationId 位置ID
@@ -96,190 +674,161 @@ export class LocationsModel {
   }
 
   /**
-   * 计算两个位置之间的行走时间
+   * 估算两个位置之间的出行时间
+   * 优先使用该路线的出行记录（中位数及第10至90百分位范围，考虑出发时段），
+   * 没有出行记录时按个人速度（非步行时为默认速度）和直线距离计算
    * @param originId 起点ID或名称
    * @param destinationId 终点ID或名称
-   * @returns 预估行走时间
+   * @param options 交通方式（默认步行）和出发时间（默认当前时间）
+   * @returns 预估出行时间，缺少出行记录和坐标时为null
    */
   async estimateTravelTime(
     originId: string | ObjectId,
-    destinationId: string | ObjectId
+    destinationId: string | ObjectId,
+    options: { mode?: TravelMode; departAt?: Date } = {}
   ): Promise<TravelTimeEstimationResponse | null> {
-    // 获取位置信息
-    let origin: Location | null = null;
-    let destination: Location | null = null;
-
-    // 如果是字符串但不是ObjectId格式，尝试按名称查找
-    if (typeof originId === "string" && !/^[0-9a-fA-F]{24}$/.test(originId)) {
-      const locations = await this.findLocations(originId);
-      if (locations.length > 0) {
-        origin = locations[0];
-      }
-    } else {
-      // 按ID查找
-      origin = await this.getLocationById(new ObjectId(originId.toString()));
-    }
+    const { mode = "walking", departAt = new Date() } = options;
 
-    if (
-      typeof destinationId === "string" &&
-      !/^[0-9a-fA-F]{24}$/.test(destinationId)
-    ) {
-      const locations = await this.findLocations(destinationId);
-      if (locations.length > 0) {
-        destination = locations[0];
-      }
-    } else {
-      destination = await this.getLocationById(
-        new ObjectId(destinationId.toString())
-      );
-    }
+    const origin = await this.resolveLocationReference(originId);
+    const destination = await this.resolveLocationReference(destinationId);
 
     // 如果找不到位置，返回null
     if (!origin || !destination) {
       return null;
     }
 
-    // 尝试查找匹配的行走速度记录
-    const walkingSpeedRecords = await this.bioDataCollection
-      .find({
-        $or: [
-          { measurementType: "走路速度" },
-          {
-            recordName: {
-              $regex: new RegExp(
-                `${origin.name}.*${destination.name}|${destination.name}.*${origin.name}`,
-                "i"
-              ),
-            },
-          },
-        ],
-      })
-      .sort({ measuredAt: -1 })
-      .limit(5)
-      .toArray();
-
-    // 如果没有行走速度记录，尝试查找任何行走速度记录
-    if (walkingSpeedRecords.length === 0) {
-      walkingSpeedRecords.push(
-        ...(await this.bioDataCollection
-          .find({ measurementType: "走路速度" })
-          .sort({ measuredAt: -1 })
-          .limit(1)
-          .toArray())
-      );
-    }
+    const endpoints = {
+      origin: { name: origin.name, id: origin._id.toString() },
+      destination: { name: destination.name, id: destination._id.toString() },
+    };
 
-    // 计算预估时间
-    let estimatedTime: number;
-    let unit = "分钟";
-    let context = "";
-    let baseSpeed = 0;
-    let speedUnit = "";
-
-    // 如果有特定路线的记录，直接使用
-    const specificRoute = walkingSpeedRecords.find((record) => {
-      if (!origin || !destination) return false;
-      return (
-        record.recordName.includes(origin.name) &&
-        record.recordName.includes(destination.name)
-      );
-    });
+    // 使用出行记录
+    const learned = await new TripsModel(this.db).estimateDuration(
+      origin._id,
+      destination._id,
+      mode,
+      departAt
+    );
 
-    if (specificRoute) {
-      estimatedTime = specificRoute.value;
-      unit = specificRoute.unit || "分钟";
-      context = specificRoute.context || "";
+    if (learned) {
+      const { model } = learned;
       return {
-        origin: { name: origin.name, id: origin._id.toString() },
-        destination: { name: destination.name, id: destination._id.toString() },
-        estimatedTime,
-        unit,
-        context,
-        notes:
-          typeof specificRoute.notes === "string"
-            ? specificRoute.notes
-            : undefined,
+        ...endpoints,
+        estimatedTime: round(learned.estimate),
+        unit: "分钟",
+        context: `基于${model.sampleCount}次出行记录${
+          learned.timeOfDayAdjusted
+            ? `，按${TIME_OF_DAY_LABELS[learned.timeOfDay]}时段估算`
+            : ""
+        }`,
+        range: { low: round(learned.low), high: round(learned.high) },
+        sampleCount: model.sampleCount,
+        notes: `通常用时${round(learned.low)}-${round(learned.high)}分钟${
+          model.reversed ? "，由反方向的出行记录推算" : ""
+        }`,
       };
     }
 
     // 否则使用坐标计算（如果有）
     if (
-      origin.coordinates &&
-      destination.coordinates &&
-      origin.coordinates.latitude &&
-      origin.coordinates.longitude &&
-      destination.coordinates.latitude &&
-      destination.coordinates.longitude
+      !hasCoordinates(origin.coordinates) ||
+      !hasCoordinates(destination.coordinates)
     ) {
-      // 找最新的行走速度记录
-      const latestSpeedRecord = walkingSpeedRecords[0];
-      baseSpeed = latestSpeedRecord ? latestSpeedRecord.value : 90; // 默认90米/分钟
-      speedUnit = latestSpeedRecord?.unit || "米/分钟";
-
-      // 计算距离（使用哈弗辛公式计算球面距离）
-      const distance = this.calculateDistance(
-        origin.coordinates.latitude,
-        origin.coordinates.longitude,
-        destination.coordinates.latitude,
-        destination.coordinates.longitude
-      );
-
-      // 换算单位为米
-      let distanceInMeters = distance;
-
-      // 根据行走速度计算时间
-      estimatedTime = distanceInMeters / baseSpeed;
+      return null;
+    }
 
-      return {
-        origin: { name: origin.name, id: origin._id.toString() },
-        destination: { name: destination.name, id: destination._id.toString() },
-        estimatedTime: Math.round(estimatedTime * 10) / 10, // 四舍五入到一位小数
-        unit: "分钟",
-        context: "基于坐标计算",
-        baseSpeed,
-        speedUnit,
-        notes: "使用坐标和平均行走速度估算，实际时间可能受交通、天气等因素影响",
-      };
+    let baseSpeed = DEFAULT_SPEEDS[mode];
+    let personal = false;
+    if (mode === "walking") {
+      const latestSpeedRecord = await this.bioDataCollection.findOne(
+        { measurementType: "走路速度" },
+        { sort: { measuredAt: -1 } }
+      );
+      if (latestSpeedRecord && latestSpeedRecord.value > 0) {
+        baseSpeed = latestSpeedRecord.value;
+        personal = true;
+      }
     }
 
-    // 如果没有特定路线记录也没有坐标，返回默认估算
-    // 这里简单返回7分钟作为默认值
+    // 计算距离（使用哈弗辛公式计算球面距离）
+    const distance = haversineDistance(
+      origin.coordinates,
+      destination.coordinates
+    );
+
     return {
-      origin: { name: origin.name, id: origin._id.toString() },
-      destination: { name: destination.name, id: destination._id.toString() },
-      estimatedTime: 7,
+      ...endpoints,
+      estimatedTime: round(distance / baseSpeed),
       unit: "分钟",
-      context: "默认估算",
-      notes: "无精确数据，使用默认估计值",
+      context: personal
+        ? "基于坐标和个人行走速度计算"
+        : "基于坐标和默认速度计算",
+      baseSpeed,
+      speedUnit: "米/分钟",
+      notes: "没有该路线的出行记录，使用直线距离估算，实际时间可能受交通、天气等因素影响",
     };
   }
 
   /**
-   * 计算两个坐标点之间的距离（米）
-   * @param lat1 起点纬度
-   * @param lon1 起点经度
-   * @param lat2 终点纬度
-   * @param lon2 终点经度
-   * @returns 距离（米）
+   * 按ID或名称查找位置
+   * @param reference 位置ID或名称
    */
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371e3; // 地球半径（米）
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-
-    return distance;
+  private async resolveLocationReference(
+    reference: string | ObjectId
+  ): Promise<Location | null> {
+    // 如果是字符串但不是ObjectId格式，尝试按名称查找
+    if (
+      typeof reference === "string" &&
+      !/^[0-9a-fA-F]{24}$/.test(reference)
+    ) {
+      const locations = await this.findLocations(reference);
+      return locations[0] ?? null;
+    }
+    return await this.getLocationById(new ObjectId(reference.toString()));
   }
 }
+
+/**
+ * 获取位置的结构化开放时间
+ * 有openingHours时重新解析，使解析规则的修正也适用于已保存的位置；
+ * 只有保存的解析结果时使用该结果
+ * @param location 位置
+ * @returns 开放时间，未设置或无法解析时为null
+ */
+export function getOpeningSchedule(
+  location: Location
+): OpeningSchedule | null {
+  return location.openingHours
+    ? deriveOpeningSchedule(location.openingHours)
+    : location.openingSchedule ?? null;
+}
+
+/**
+ * 解析开放时间文本，未设置时为null
+ * @param openingHours 开放时间
+ */
+function deriveOpeningSchedule(
+  openingHours: string | null | undefined
+): OpeningSchedule | null {
+  return openingHours ? parseOpeningHours(openingHours) : null;
+}
+
+/**
+ * 由坐标生成GeoJSON点，坐标不完整时为null
+ * @param coordinates 坐标
+ */
+function deriveGeoPoint(
+  coordinates: Location["coordinates"] | null | undefined
+): GeoPoint | null {
+  return hasCoordinates(coordinates) ? toGeoPoint(coordinates) : null;
+}
+
+/**
+ * 两个坐标的经纬度是否相同
+ */
+function sameCoordinates(
+  a: Location["coordinates"] | null | undefined,
+  b: Location["coordinates"] | null | undefined
+): boolean {
+  return a?.latitude === b?.latitude && a?.longitude === b?.longitude;
+}
@@ -1,4 +1,5 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import { StructuredNote, ensureObjectId } from "./types.js";
 
 /**
@@ -6,9 +7,9 @@ import { StructuredNote, ensureObjectId } from "./types.js";
  * 用于管理各类实体的结构化笔记
  */
 export class NotesModel {
-  private db: Db;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
   }
 
@@ -291,6 +292,67 @@ export class NotesModel {
     }
   }
 
+  /**
+   * 根据名称解析实体ID(先精确匹配，再模糊匹配)
+   * @param collectionName 集合名称
+   * @param name 实体名称
+   * @returns 实体ID，未找到时返回null
+   */
+  async resolveEntityIdByName(
+    collectionName: string,
+    name: string
+  ): Promise<string | null> {
+    try {
+      const collection = this.db.collection(collectionName);
+
+      // 尝试精确匹配
+      const entity = await collection.findOne({
+        name: new RegExp(`^${name}$`, "i"),
+      });
+
+      if (entity) {
+        return entity._id.toString();
+      }
+
+      // 尝试模糊匹配
+      const fuzzyEntity = await collection.findOne({
+        name: new RegExp(name, "i"),
+      });
+
+      if (fuzzyEntity) {
+        return fuzzyEntity._id.toString();
+      }
+
+      return null;
+    } catch (error) {
+      console.error(`解析实体名称时出错: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * 根据集合名称和ID获取实体名称
+   * @param collectionName 集合名称
+   * @param id 实体ID
+   * @returns 实体名称，未找到时返回ID本身
+   */
+  async getEntityNameById(
+    collectionName: string,
+    id: string
+  ): Promise<string> {
+    try {
+      const collection = this.db.collection(collectionName);
+      const entity = await collection.findOne(
+        { _id: ensureObjectId(id) },
+        { projection: { name: 1 } }
+      );
+
+      return entity?.name || id;
+    } catch (error) {
+      return id;
+    }
+  }
+
   /**
    * 查询带有特定标签的笔记
    * @param tag 标签
@@ -0,0 +1,120 @@
+import type { Repository, Storage } from "../storage/types.js";
+import type { Coordinates } from "../routing/types.js";
+import { normalizeCoordinates } from "../routing/datum.js";
+import { RouteCacheEntry, RouteCacheKind } from "./types.js";
+
+// 路线服务缓存集合名称
+export const ROUTE_CACHE_COLLECTION = "routeCache";
+
+// 缓存键中坐标保留的小数位数（约1米）
+const POINT_PRECISION = 5;
+
+/**
+ * 路线服务结果缓存数据操作类
+ * 按缓存键保存地理编码和路径规划结果，读取时忽略已过期的条目（默认同时清除）
+ */
+export class RouteCacheModel {
+  private cacheCollection: Repository<RouteCacheEntry>;
+
+  constructor(db: Storage) {
+    this.cacheCollection = db.collection<RouteCacheEntry>(
+      ROUTE_CACHE_COLLECTION
+    );
+  }
+
+  /**
+   * 读取缓存
+   * @param key 缓存键
+   * @param purgeExpired 是否清除读到的过期条目（只读模式下不清除）
+   * @returns 未过期的缓存条目，没有时为null
+   */
+  async get(key: string, purgeExpired = true): Promise<RouteCacheEntry | null> {
+    const entry = await this.cacheCollection.findOne({ key });
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      if (purgeExpired) {
+        await this.cacheCollection.deleteOne({ _id: entry._id });
+      }
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * 写入缓存（覆盖同一缓存键的旧条目）
+   * @param entry 缓存内容
+   * @param ttl 有效期（毫秒）
+   */
+  async set(
+    entry: {
+      key: string;
+      kind: RouteCacheKind;
+      provider: string;
+      address?: string;
+      points: string[];
+      result: any;
+    },
+    ttl: number
+  ): Promise<void> {
+    const now = new Date();
+    await this.cacheCollection.deleteMany({ key: entry.key });
+    await this.cacheCollection.insertOne({
+      ...entry,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttl),
+    });
+  }
+
+  /**
+   * 使与某个位置有关的缓存失效（位置坐标变化时使用）：
+   * 该名称的地理编码结果，以及起点或终点为原坐标的结果
+   * @param name 位置名称
+   * @param coordinates 原坐标
+   * @returns 删除的条目数
+   */
+  async invalidateLocation(
+    name: string,
+    coordinates?: Coordinates | null
+  ): Promise<number> {
+    const conditions: Record<string, any>[] = [
+      { kind: "geocode", address: name },
+    ];
+    if (coordinates) {
+      conditions.push({ points: toPointKey(coordinates) });
+    }
+    const result = await this.cacheCollection.deleteMany({ $or: conditions });
+    return result.deletedCount;
+  }
+
+  /**
+   * 清除所有已过期的条目
+   * @returns 删除的条目数
+   */
+  async pruneExpired(): Promise<number> {
+    const result = await this.cacheCollection.deleteMany({
+      expiresAt: { $lte: new Date() },
+    });
+    return result.deletedCount;
+  }
+
+  /**
+   * 创建缓存键和坐标的索引
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.cacheCollection.createIndex({ key: 1 });
+    await this.cacheCollection.createIndex({ points: 1 });
+  }
+}
+
+/**
+ * 将坐标转换为缓存使用的坐标键（存储坐标系，取整到约1米）
+ * @param coordinates 坐标
+ */
+export function toPointKey(coordinates: Coordinates): string {
+  const point = normalizeCoordinates(coordinates);
+  return `${point.latitude.toFixed(POINT_PRECISION)},${point.longitude.toFixed(
+    POINT_PRECISION
+  )}`;
+}
@@ -1,4 +1,5 @@
-import { type Collection, ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
 import { Task, StructuredNote, ensureObjectId } from "./types.js";
 
 interface TaskWithStructuredNotes extends Omit<Task, "notes"> {
@@ -9,10 +10,10 @@ interface TaskWithStructuredNotes extends Omit<Task, "notes"> {
  * 任务数据操作类
  */
 export class TasksModel {
-  private tasksCollection: Collection<TaskWithStructuredNotes>;
-  private db: Db;
+  private tasksCollection: Repository<TaskWithStructuredNotes>;
+  private db: Storage;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.db = db;
     this.tasksCollection = db.collection<TaskWithStructuredNotes>("tasks");
   }
@@ -372,20 +373,38 @@ export class TasksModel {
     }
   }
 
+  /**
+   * 添加任务结构化备注
+   * @param taskId 任务ID
+   * @param note 备注
+   * @returns 是否找到任务
+   */
+  async addTaskNote(
+    taskId: string | ObjectId,
+    note: StructuredNote
+  ): Promise<boolean> {
+    const result = await this.tasksCollection.updateOne(
+      { _id: ensureObjectId(taskId) },
+      {
+        $push: { notes: note },
+        $set: {
+          updatedAt: new Date(),
+          modifiedSinceSync: true,
+        },
+      }
+    );
+
+    return result.matchedCount > 0;
+  }
+
   /**
    * 获取所有任务标签
    * @returns 任务标签列表
    */
   async getAllTaskTags(): Promise<string[]> {
-    const result = await this.tasksCollection
-      .aggregate([
-        { $unwind: "$tags" },
-        { $group: { _id: "$tags" } },
-        { $sort: { _id: 1 } },
-      ])
-      .toArray();
+    const tags = await this.tasksCollection.distinct("tags");
 
-    return result.map((item) => item._id);
+    return tags.sort();
   }
 
   /**
@@ -393,14 +412,8 @@ export class TasksModel {
    * @returns 任务类型列表
    */
   async getAllTaskTypes(): Promise<string[]> {
-    const result = await this.tasksCollection
-      .aggregate([
-        { $group: { _id: "$taskType" } },
-        { $match: { _id: { $ne: null } } },
-        { $sort: { _id: 1 } },
-      ])
-      .toArray();
+    const types = await this.tasksCollection.distinct("taskType");
 
-    return result.map((item) => item._id);
+    return types.filter((type) => type !== null).sort();
   }
 }
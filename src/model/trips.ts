@@ -0,0 +1,296 @@
+import { ObjectId } from "mongodb";
+import type { Repository, Storage } from "../storage/types.js";
+import type { TravelMode } from "../routing/types.js";
+import { BaseDocument, Trip, ensureObjectId } from "./types.js";
+import { getZonedParts } from "../utils/timezone.js";
+
+// 时段：早高峰、白天、晚高峰、夜间
+export type TimeOfDay = "morning_peak" | "daytime" | "evening_peak" | "night";
+
+// 时段的可读名称
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning_peak: "早高峰",
+  daytime: "白天",
+  evening_peak: "晚高峰",
+  night: "夜间",
+};
+
+// 使用时段中位数所需的最少出行记录数
+const MIN_TIME_OF_DAY_SAMPLES = 2;
+
+// 单一路线、单一交通方式的用时模型（单位均为分钟）
+export interface RouteDurationModel {
+  originId: ObjectId;
+  destinationId: ObjectId;
+  mode: TravelMode;
+  // 是否由反方向的出行记录得出
+  reversed: boolean;
+  sampleCount: number;
+  median: number;
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  // 各时段的记录数和中位数
+  timeOfDay: Partial<Record<TimeOfDay, { sampleCount: number; median: number }>>;
+}
+
+// 按出发时间给出的用时估算（单位均为分钟）
+export interface RouteDurationEstimate {
+  model: RouteDurationModel;
+  // 出发时间所在时段
+  timeOfDay: TimeOfDay;
+  // 是否按时段调整了估算
+  timeOfDayAdjusted: boolean;
+  estimate: number;
+  // 第10至90百分位
+  low: number;
+  high: number;
+}
+
+/**
+ * 出行记录数据操作类
+ * 记录实际出行用时，并按路线和交通方式汇总为用时模型
+ */
+export class TripsModel {
+  private tripsCollection: Repository<Trip>;
+
+  constructor(db: Storage) {
+    this.tripsCollection = db.collection<Trip>("trips");
+  }
+
+  /**
+   * 添加出行记录
+   * @param tripData 出行记录（用时由出发和到达时间计算）
+   * @returns 创建结果
+   */
+  async recordTrip(
+    tripData: Omit<Trip, keyof BaseDocument | "duration">
+  ): Promise<{
+    success: boolean;
+    trip?: Trip;
+    error?: string;
+  }> {
+    try {
+      const duration =
+        (tripData.endTime.getTime() - tripData.startTime.getTime()) / 60000;
+
+      const result = await this.tripsCollection.insertOne({
+        ...tripData,
+        duration,
+        syncedToNotion: false,
+        modifiedSinceSync: true,
+        lastSync: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      if (!result.acknowledged) {
+        return {
+          success: false,
+          error: "插入出行记录失败",
+        };
+      }
+
+      const trip = await this.tripsCollection.findOne({
+        _id: result.insertedId,
+      });
+
+      return {
+        success: true,
+        trip: trip || undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `添加出行记录失败: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 获取最近一次出行记录（按到达时间）
+   * @returns 出行记录，没有记录时为null
+   */
+  async getLatestTrip(): Promise<Trip | null> {
+    return await this.tripsCollection.findOne({}, { sort: { endTime: -1 } });
+  }
+
+  /**
+   * 获取一条路线的用时模型
+   * 没有该方向的记录时使用反方向的记录
+   * @param originId 起点位置ID
+   * @param destinationId 终点位置ID
+   * @param mode 交通方式
+   * @returns 用时模型，两个方向都没有记录时为null
+   */
+  async getRouteModel(
+    originId: string | ObjectId,
+    destinationId: string | ObjectId,
+    mode: TravelMode
+  ): Promise<RouteDurationModel | null> {
+    const origin = ensureObjectId(originId);
+    const destination = ensureObjectId(destinationId);
+
+    let reversed = false;
+    let trips = await this.tripsCollection
+      .find({ originId: origin, destinationId: destination, mode })
+      .toArray();
+
+    if (trips.length === 0) {
+      reversed = true;
+      trips = await this.tripsCollection
+        .find({ originId: destination, destinationId: origin, mode })
+        .toArray();
+    }
+
+    if (trips.length === 0) {
+      return null;
+    }
+
+    return buildModel(origin, destination, mode, reversed, trips);
+  }
+
+  /**
+   * 估算一条路线在指定出发时间的用时
+   * 出发时段有足够记录时使用该时段的中位数，并按比例调整用时范围
+   * @param originId 起点位置ID
+   * @param destinationId 终点位置ID
+   * @param mode 交通方式
+   * @param departAt 出发时间（默认当前时间）
+   * @returns 用时估算，没有出行记录时为null
+   */
+  async estimateDuration(
+    originId: string | ObjectId,
+    destinationId: string | ObjectId,
+    mode: TravelMode,
+    departAt: Date = new Date()
+  ): Promise<RouteDurationEstimate | null> {
+    const model = await this.getRouteModel(originId, destinationId, mode);
+    if (!model) {
+      return null;
+    }
+
+    const timeOfDay = getTimeOfDay(departAt);
+    const bucket = model.timeOfDay[timeOfDay];
+
+    if (bucket && bucket.sampleCount >= MIN_TIME_OF_DAY_SAMPLES) {
+      const factor = model.median > 0 ? bucket.median / model.median : 1;
+      return {
+        model,
+        timeOfDay,
+        timeOfDayAdjusted: true,
+        estimate: bucket.median,
+        low: model.p10 * factor,
+        high: model.p90 * factor,
+      };
+    }
+
+    return {
+      model,
+      timeOfDay,
+      timeOfDayAdjusted: false,
+      estimate: model.median,
+      low: model.p10,
+      high: model.p90,
+    };
+  }
+
+  /**
+   * 获取某种交通方式下所有有记录路线的用时中位数
+   * @param mode 交通方式
+   * @returns 每个有记录的方向一项
+   */
+  async getRouteMedians(mode: TravelMode): Promise<
+    Array<{ originId: ObjectId; destinationId: ObjectId; median: number }>
+  > {
+    const trips = await this.tripsCollection.find({ mode }).toArray();
+
+    const routes = new Map<
+      string,
+      { originId: ObjectId; destinationId: ObjectId; durations: number[] }
+    >();
+    for (const trip of trips) {
+      const key = `${trip.originId.toString()}>${trip.destinationId.toString()}`;
+      const route = routes.get(key) ?? {
+        originId: trip.originId,
+        destinationId: trip.destinationId,
+        durations: [],
+      };
+      route.durations.push(trip.duration);
+      routes.set(key, route);
+    }
+
+    return Array.from(routes.values()).map((route) => ({
+      originId: route.originId,
+      destinationId: route.destinationId,
+      median: percentile(route.durations, 50),
+    }));
+  }
+}
+
+/**
+ * 获取时间所在的时段（按配置的时区）
+ * @param time 时间
+ */
+export function getTimeOfDay(time: Date): TimeOfDay {
+  const { hour } = getZonedParts(time);
+  if (hour >= 7 && hour < 9) return "morning_peak";
+  if (hour >= 9 && hour < 17) return "daytime";
+  if (hour >= 17 && hour < 19) return "evening_peak";
+  return "night";
+}
+
+/**
+ * 由出行记录构建用时模型
+ */
+function buildModel(
+  originId: ObjectId,
+  destinationId: ObjectId,
+  mode: TravelMode,
+  reversed: boolean,
+  trips: Trip[]
+): RouteDurationModel {
+  const durations = trips.map((trip) => trip.duration);
+
+  const buckets = new Map<TimeOfDay, number[]>();
+  for (const trip of trips) {
+    const timeOfDay = getTimeOfDay(new Date(trip.startTime));
+    buckets.set(timeOfDay, [...(buckets.get(timeOfDay) ?? []), trip.duration]);
+  }
+
+  const timeOfDay: RouteDurationModel["timeOfDay"] = {};
+  for (const [bucket, values] of buckets) {
+    timeOfDay[bucket] = {
+      sampleCount: values.length,
+      median: percentile(values, 50),
+    };
+  }
+
+  return {
+    originId,
+    destinationId,
+    mode,
+    reversed,
+    sampleCount: durations.length,
+    median: percentile(durations, 50),
+    p10: percentile(durations, 10),
+    p25: percentile(durations, 25),
+    p75: percentile(durations, 75),
+    p90: percentile(durations, 90),
+    timeOfDay,
+  };
+}
+
+/**
+ * 计算百分位数（线性插值）
+ * @param values 数值列表（非空）
+ * @param p 百分位（0-100）
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
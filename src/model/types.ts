@@ -1,4 +1,10 @@
 import { ObjectId } from "mongodb";
+import type {
+  CoordinateSystem,
+  GeoPoint,
+  TravelMode,
+} from "../routing/types.js";
+import type { OpeningSchedule } from "../utils/openingHours.js";
 
 // 同步字段接口(所有集合共享)
 export interface SyncFields {
@@ -36,15 +42,34 @@ export interface Item extends BaseDocument {
   category?: string; // 类别
   status?: string; // 状态
   quantity?: number; // 数量
+  unit?: string; // 数量单位（如"袋"、"节"）
+  minQuantity?: number | null; // 最低库存，数量不高于此值时提醒补货
   amount?: number; // 金额
   amountCurrency?: string; // 货币单位
   acquisitionDate?: Date; // 获得日期
+  expiryDate?: Date | null; // 过期日期
+  warrantyEndDate?: Date | null; // 保修截止日期
+  nextMaintenanceDate?: Date | null; // 下次维护日期
+  lastMaintenanceDate?: Date; // 上次维护日期
+  maintenanceInterval?: RecurrenceInterval | null; // 维护周期，完成维护后据此推算下次维护日期
   isContainer: boolean; // 是否为容器
   containedItems?: (ObjectId | string)[]; // 包含的物品
   notes?: StructuredNote[]; // 结构化备注
   photo?: string; // 照片URL
 }
 
+// 物品的到期类型：过期、保修到期、维护
+export type ItemDeadlineKind = "expiry" | "warranty" | "maintenance";
+
+// 重复周期的单位
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+// 重复周期，如每3个月
+export interface RecurrenceInterval {
+  value: number;
+  unit: RecurrenceUnit;
+}
+
 // 地点接口
 export interface Location extends BaseDocument {
   name: string; // 地点名称
@@ -56,10 +81,23 @@ export interface Location extends BaseDocument {
     // 地理坐标
     latitude?: number;
     longitude?: number;
+    system?: CoordinateSystem; // 坐标系（未设置的旧数据按gcj02处理）
   };
+  geoPoint?: GeoPoint | null; // 由coordinates派生的GeoJSON点，用于地理查询
   openingHours?: string; // 开放时间
+  openingSchedule?: OpeningSchedule | null; // 由openingHours解析的结构化开放时间
   phone?: string; // 联系电话
   notes?: string; // 备注
+  enrichedFields?: Partial<Record<EnrichableLocationField, FieldEnrichment>>; // 由路线服务自动补全的字段，手动修改后移除
+}
+
+// 可自动补全的位置字段
+export type EnrichableLocationField = "address" | "coordinates";
+
+// 位置字段的自动补全来源
+export interface FieldEnrichment {
+  provider: string; // 给出结果的路线服务
+  enrichedAt: Date; // 补全时间
 }
 
 // 联系人接口
@@ -113,6 +151,100 @@ export interface Task extends BaseDocument {
   notes?: string | StructuredNote[]; // 备注，可以是字符串或结构化备注数组
 }
 
+// 出行记录接口
+export interface Trip extends BaseDocument {
+  originId: ObjectId; // 起点位置ID
+  originName: string; // 起点名称
+  destinationId: ObjectId; // 终点位置ID
+  destinationName: string; // 终点名称
+  mode: TravelMode; // 交通方式
+  startTime: Date; // 出发时间
+  endTime: Date; // 到达时间
+  duration: number; // 用时（分钟）
+  notes?: string; // 备注
+}
+
+// 借出记录状态：未归还、已归还
+export type LoanStatus = "outstanding" | "returned";
+
+// 借出记录接口
+export interface Loan extends BaseDocument {
+  itemId: ObjectId; // 物品ID
+  itemName: string; // 物品名称
+  contactId: ObjectId; // 借用人（联系人）ID
+  contactName: string; // 借用人名称
+  lentAt: Date; // 借出日期
+  dueDate?: Date; // 预计归还日期
+  returnedAt?: Date; // 实际归还日期
+  status: LoanStatus; // 状态
+  previousItemStatus?: string; // 借出前的物品状态，归还时恢复
+  note?: string; // 借出备注
+  returnNote?: string; // 归还备注
+}
+
+// 位置建议状态：待确认、已接受（创建为新位置）、已合并到已有位置、已拒绝
+export type LocationSuggestionStatus =
+  | "pending"
+  | "accepted"
+  | "merged"
+  | "rejected";
+
+// 位置建议（通过地理编码得到、等待用户确认的新位置）
+export interface LocationSuggestion {
+  _id: ObjectId; // MongoDB ID
+  name: string; // 查询时使用的名称
+  coordinates: {
+    latitude: number;
+    longitude: number;
+    system?: CoordinateSystem;
+  };
+  address?: string; // 路线服务返回的规范化地址
+  provider: string; // 给出地理编码结果的路线服务
+  source: string; // 产生建议的工具
+  occurrences: number; // 该名称被查询的次数
+  status: LocationSuggestionStatus; // 状态
+  locationId?: ObjectId; // 接受时创建的位置或合并到的位置
+  createdAt: Date; // 创建时间
+  updatedAt: Date; // 更新时间
+  resolvedAt?: Date; // 处理时间
+}
+
+// 路线服务缓存的结果类型
+export type RouteCacheKind = "geocode" | "reverseGeocode" | "route";
+
+// 路线服务结果缓存
+export interface RouteCacheEntry {
+  _id: ObjectId; // MongoDB ID
+  key: string; // 缓存键（由结果类型、交通方式和地址或取整后的坐标组成）
+  kind: RouteCacheKind; // 结果类型
+  provider: string; // 给出结果的路线服务
+  address?: string; // 地理编码的地址
+  points: string[]; // 涉及的坐标（取整后的"纬度,经度"），坐标变化时据此失效
+  result: any; // 路线服务返回的结果
+  createdAt: Date; // 写入时间
+  expiresAt: Date; // 过期时间
+}
+
+// 审计日志操作类型
+export type AuditOperation = "insert" | "update" | "delete";
+
+// 审计日志接口（每条记录对应一次工具调用中被修改的一个文档）
+export interface AuditLogEntry {
+  _id: ObjectId; // MongoDB ID
+  callId: ObjectId; // 工具调用ID，同一次调用产生的记录共享
+  timestamp: Date; // 修改时间
+  actor: string; // 操作者（MCP客户端）
+  tool: string; // 工具名称
+  arguments: Record<string, unknown>; // 工具参数
+  collection: string; // 集合名称
+  operation: AuditOperation; // 操作类型
+  entityId: ObjectId; // 被修改文档的ID
+  before: Record<string, any> | null; // 修改前的文档（插入时为null）
+  after: Record<string, any> | null; // 修改后的文档（删除时为null）
+  revertedAt?: Date; // 被撤销的时间
+  revertedByCallId?: ObjectId; // 执行撤销的工具调用ID
+}
+
 // 类型守卫函数 - 检查一个值是否为ObjectId类型
 export function isObjectId(id: any): id is ObjectId {
   return (
@@ -160,11 +292,31 @@ export interface StructuredItemLocationResponse {
     id?: string;
     isContainer: boolean;
   };
+  // 从所在位置经各层容器到物品所在容器的完整路径，如"宿舍 › 衣柜 › 收纳箱"
+  path?: string;
+  // 由外到内的各层容器
+  containerPath?: { name: string; id: string }[];
   status?: string;
   lastUpdate?: string;
   notes?: string[];
 }
 
+// 容器树的节点
+export interface ContainerTreeNode {
+  id: string;
+  name: string;
+  isContainer: boolean;
+  status?: string;
+  quantity?: number;
+  amount?: number;
+  amountCurrency?: string;
+  // 容器内（包括各层子容器内）的物品数量
+  itemCount: number;
+  // 容器内物品的金额合计，按货币单位分组
+  totalValue: Record<string, number>;
+  children: ContainerTreeNode[];
+}
+
 // 时间估算响应类型
 export interface TravelTimeEstimationResponse {
   origin: {
@@ -182,4 +334,21 @@ export interface TravelTimeEstimationResponse {
   speedUnit?: string;
   notes?: string;
   route?: any;
+  provider?: string; // 给出路线的路线服务（amap/offline/fake），本地估算时为空
+  range?: { low: number; high: number }; // 基于出行记录的用时范围（第10至90百分位）
+  sampleCount?: number; // 估算所依据的出行记录数
+  cache?: { route: boolean; geocode: string[] }; // 路线结果是否来自缓存，以及命中缓存的地理编码地址
+  geocoded?: GeocodedPlace[]; // 不是已保存位置、由地理编码得到的起点或终点
+}
+
+/**
+ * 地理编码得到的地点（不是已保存的位置）
+ */
+export interface GeocodedPlace {
+  name: string;
+  address?: string;
+  coordinates: { latitude: number; longitude: number; system?: string };
+  provider: string;
+  // 是否已记为待确认的位置建议（没有写入locations领域的权限时为false）
+  suggested: boolean;
 }
@@ -1,17 +1,20 @@
-import { MongoClient, ReadPreference, type Db } from "mongodb";
+import { MongoClient, ReadPreference } from "mongodb";
+import { MongoStorage } from "./storage/mongo.js";
+import { VITEA_COLLECTIONS } from "./storage/types.js";
+import { LocationsModel } from "./model/locations.js";
+import { RouteCacheModel } from "./model/routeCache.js";
 
 /**
  * 初始化MongoDB连接
  * @param url MongoDB连接字符串
  * @param readOnly 是否以只读模式连接
- * @returns 包含client, db, 连接状态和只读模式的对象
+ * @returns 包含存储后端、连接状态和只读模式的对象
  */
 export async function connectToMongoDB(
   url: string,
   readOnly: boolean
 ): Promise<{
-  client: MongoClient | null,
-  db: Db | null,
+  storage: MongoStorage | null,
   isConnected: boolean,
   isReadOnlyMode: boolean,
 }> {
@@ -28,17 +31,10 @@ export async function connectToMongoDB(
     console.warn(`检测ViteaOS集合...`);
 
     // 验证ViteaOS所需的集合是否存在
-    const collections = await db.listCollections().toArray();
-    const collectionNames = collections.map((c) => c.name);
+    const storage = new MongoStorage(client, db);
+    const collectionNames = await storage.listCollections();
 
-    const requiredCollections = [
-      "items",
-      "locations",
-      "contacts",
-      "bioData",
-      "tasks",
-    ];
-    const missingCollections = requiredCollections.filter(
+    const missingCollections = VITEA_COLLECTIONS.filter(
       (name) => !collectionNames.includes(name)
     );
 
@@ -51,19 +47,73 @@ export async function connectToMongoDB(
       console.warn("所有ViteaOS集合已验证");
     }
 
+    await prepareGeoIndex(storage, readOnly);
+    if (!readOnly) {
+      await prepareRouteCache(storage);
+    }
+
     return {
-      client,
-      db,
+      storage,
       isConnected: true,
       isReadOnlyMode: readOnly,
     };
   } catch (error) {
     console.error("连接到MongoDB失败:", error);
     return {
-      client: null,
-      db: null,
+      storage: null,
       isConnected: false,
       isReadOnlyMode: readOnly,
     };
   }
 }
+
+/**
+ * 准备位置的地理查询：迁移旧坐标（标注坐标系、生成GeoJSON点）并创建2dsphere索引
+ * 只读模式下不修改数据，只提示需要迁移的位置数量；失败时只输出警告
+ * @param storage 存储后端
+ * @param readOnly 是否为只读模式
+ */
+async function prepareGeoIndex(
+  storage: MongoStorage,
+  readOnly: boolean
+): Promise<void> {
+  const locationsModel = new LocationsModel(storage);
+
+  try {
+    if (readOnly) {
+      const pending = await locationsModel.migrateCoordinates(true);
+      if (pending > 0) {
+        console.warn(
+          `警告: ${pending}个位置的坐标尚未迁移（坐标系标注或GeoJSON坐标），附近位置查询可能不包含这些位置`
+        );
+      }
+      return;
+    }
+
+    const migrated = await locationsModel.migrateCoordinates();
+    if (migrated > 0) {
+      console.warn(`已迁移${migrated}个位置的坐标（坐标系标注和GeoJSON坐标）`);
+    }
+    await locationsModel.ensureGeoIndex();
+  } catch (error) {
+    console.warn("准备位置地理索引失败，附近位置查询可能不可用:", error);
+  }
+}
+
+/**
+ * 准备路线服务缓存：清除过期条目并创建索引，失败时只输出警告
+ * @param storage 存储后端
+ */
+async function prepareRouteCache(storage: MongoStorage): Promise<void> {
+  const cacheModel = new RouteCacheModel(storage);
+
+  try {
+    const pruned = await cacheModel.pruneExpired();
+    if (pruned > 0) {
+      console.warn(`已清除${pruned}条过期的路线缓存`);
+    }
+    await cacheModel.ensureIndexes();
+  } catch (error) {
+    console.warn("准备路线缓存失败:", error);
+  }
+}
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { defineTool } from "../types.js";
+import { rollbackOutput, toolOutput } from "../outputs.js";
+import { dateInput } from "../inputs.js";
+import { formatResponse } from "../../utils/response.js";
+import { AuditLogModel } from "../../model/auditLog.js";
+import { RevertChangeTool } from "../../tools/revertChange.js";
+
+// 审计记录
+const auditLogEntryOutput = z
+  .object({
+    _id: z.string(),
+    callId: z.string(),
+    timestamp: z.string(),
+    actor: z.string(),
+    tool: z.string(),
+    arguments: z.record(z.any()),
+    collection: z.string(),
+    operation: z.enum(["insert", "update", "delete"]),
+    entityId: z.string(),
+    before: z.record(z.any()).nullable(),
+    after: z.record(z.any()).nullable(),
+  })
+  .passthrough();
+
+/**
+ * 查询审计日志
+ */
+export const queryAuditLog = defineTool({
+  name: "query_audit_log",
+  title: "查询审计日志",
+  description:
+    "查询写工具对数据的修改记录，包括操作者、工具名称、参数以及修改前后的文档，可按实体、集合、工具和时间范围筛选",
+  access: "read",
+  domain: "auditLog",
+  inputSchema: z.object({
+    entityId: z.string().optional().describe("被修改实体的ID"),
+    collection: z.string().optional().describe("集合名称，如items、tasks"),
+    tool: z.string().optional().describe("工具名称，如transfer_item"),
+    actor: z.string().optional().describe("操作者（客户端名称/版本）"),
+    callId: z.string().optional().describe("工具调用ID，同一次调用的记录共享"),
+    since: dateInput.optional().describe("起始时间（ISO 8601）"),
+    until: dateInput.optional().describe("结束时间（ISO 8601）"),
+    limit: z.number().int().positive().default(50).describe("限制返回记录数量"),
+  }),
+  outputSchema: toolOutput({
+    entries: z.array(auditLogEntryOutput),
+  }),
+  async handler(args, { db }) {
+    const auditLogModel = new AuditLogModel(db);
+    const entries = await auditLogModel.queryEntries({
+      entityId: args.entityId,
+      collection: args.collection,
+      tool: args.tool,
+      actor: args.actor,
+      callId: args.callId,
+      since: args.since,
+      until: args.until,
+      limit: args.limit,
+    });
+
+    return formatResponse({ entries });
+  },
+});
+
+// 撤销结果
+const revertOutput = toolOutput({
+  callId: z.string().describe("被撤销的工具调用ID"),
+  tool: z.string().describe("被撤销的工具名称"),
+  reverted: z.array(
+    z.object({
+      collection: z.string(),
+      entityId: z.string(),
+      action: z.enum(["restore", "delete", "reinsert", "none"]),
+    })
+  ),
+  conflicts: z.array(
+    z.object({
+      collection: z.string(),
+      entityId: z.string(),
+    })
+  ),
+  rollback: rollbackOutput,
+});
+
+/**
+ * 撤销上一次修改
+ */
+export const undoLastChange = defineTool({
+  name: "undo_last_change",
+  title: "撤销上一次修改",
+  description:
+    "撤销当前客户端最近一次尚未撤销的写操作，恢复该次调用修改过的所有文档（包括容器、子位置等关联记录）；文档在此之后又被修改时拒绝撤销",
+  access: "destructive",
+  domain: "auditLog",
+  inputSchema: z.object({}),
+  outputSchema: revertOutput,
+  async handler(_args, { db, policy, actor, callId }) {
+    const tool = new RevertChangeTool(db, policy);
+    const result = await tool.execute({ actor, revertedByCallId: callId });
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 撤销指定修改
+ */
+export const revertChange = defineTool({
+  name: "revert_change",
+  title: "撤销指定修改",
+  description:
+    "根据审计日志中的callId撤销一次写操作，恢复该次调用修改过的所有文档；文档在此之后又被修改时拒绝撤销",
+  access: "destructive",
+  domain: "auditLog",
+  inputSchema: z.object({
+    callId: z.string().min(1).describe("要撤销的工具调用ID（见query_audit_log）"),
+  }),
+  outputSchema: revertOutput,
+  async handler(args, { db, policy, callId }) {
+    const tool = new RevertChangeTool(db, policy);
+    const result = await tool.execute({
+      callId: args.callId,
+      revertedByCallId: callId,
+    });
+    return formatResponse(result);
+  },
+});
+
+// 审计日志工具
+export const auditLogTools = [queryAuditLog, undoLastChange, revertChange];
@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { defineTool } from "../types.js";
+import { bioDataOutput, toolOutput } from "../outputs.js";
+import { formatResponse } from "../../utils/response.js";
+import { BioDataModel } from "../../model/bioData.js";
+import { CreateBioDataTool } from "../../tools/createBioData.js";
+import { DeleteBioDataTool } from "../../tools/deleteBioData.js";
+
+/**
+ * 查询生物数据
+ */
+export const queryBioData = defineTool({
+  name: "query_biodata",
+  title: "查询生物数据",
+  description: "查询生物数据",
+  access: "read",
+  domain: "bioData",
+  inputSchema: z
+    .object({
+      recordId: z.string().optional().describe("记录ID"),
+      measurementType: z
+        .string()
+        .optional()
+        .describe("测量类型，如'走路速度'、'体重'等"),
+      history: z
+        .boolean()
+        .default(false)
+        .describe("是否查询历史记录，需要与measurementType一起使用"),
+      stats: z
+        .boolean()
+        .default(false)
+        .describe("是否查询统计信息，需要与measurementType一起使用"),
+      limit: z.number().int().positive().default(10).describe("限制返回记录数量"),
+      measurementTypes: z
+        .boolean()
+        .default(false)
+        .describe("是否查询所有测量类型"),
+      search: z.string().optional().describe("搜索关键词"),
+    })
+    .superRefine((value, ctx) => {
+      if (
+        !value.recordId &&
+        !(value.measurementType && (value.history || value.stats)) &&
+        !value.measurementTypes &&
+        !value.search
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "查询生物数据需要提供recordId、measurementType+history/stats、measurementTypes或search",
+        });
+      }
+    }),
+  outputSchema: toolOutput({
+    record: bioDataOutput.nullable(),
+    stats: z.record(z.any()).nullable(),
+    history: z.array(bioDataOutput),
+    types: z.array(z.string()),
+    records: z.array(bioDataOutput),
+  }),
+  async handler(args, { db }) {
+    const bioDataModel = new BioDataModel(db);
+
+    // 处理不同的查询参数
+    if (args.recordId) {
+      // 根据ID查询
+      const record = await bioDataModel.getRecordById(
+        new ObjectId(args.recordId)
+      );
+      return formatResponse({ record });
+    }
+
+    if (args.measurementType && args.stats) {
+      // 获取统计信息
+      const stats = await bioDataModel.getMeasurementStats(
+        args.measurementType
+      );
+      return formatResponse({ stats });
+    }
+
+    if (args.measurementType && args.history) {
+      // 获取历史记录
+      const history = await bioDataModel.getMeasurementHistory(
+        args.measurementType,
+        args.limit
+      );
+      return formatResponse({ history });
+    }
+
+    if (args.measurementTypes) {
+      // 获取所有测量类型
+      const types = await bioDataModel.getAllMeasurementTypes();
+      return formatResponse({ types });
+    }
+
+    // 搜索记录
+    const records = await bioDataModel.searchRecords(args.search);
+    return formatResponse({ records });
+  },
+});
+
+/**
+ * 获取最新生物数据
+ */
+export const getLatestBioData = defineTool({
+  name: "get_latest_biodata",
+  title: "获取最新生物数据",
+  description: "获取最新的生物数据测量值",
+  access: "read",
+  domain: "bioData",
+  inputSchema: z.object({
+    measurementType: z
+      .string()
+      .min(1)
+      .describe("测量类型，如'走路速度'、'体重'等"),
+  }),
+  outputSchema: toolOutput({ record: bioDataOutput }),
+  async handler(args, { db }) {
+    const bioDataModel = new BioDataModel(db);
+    const { measurementType } = args;
+
+    const record = await bioDataModel.getLatestMeasurement(measurementType);
+
+    if (!record) {
+      return formatResponse({
+        success: false,
+        message: `未找到"${measurementType}"类型的测量记录`,
+      });
+    }
+
+    let message = `${record.measurementType}: ${record.value}`;
+
+    if (record.unit) {
+      message += ` ${record.unit}`;
+    }
+
+    if (record.measuredAt) {
+      const date = new Date(record.measuredAt);
+      message += ` (测量于 ${date.toLocaleDateString()})`;
+    }
+
+    return formatResponse({
+      success: true,
+      message,
+      record,
+    });
+  },
+});
+
+/**
+ * 创建生物数据
+ */
+export const createBioData = defineTool({
+  name: "create_biodata",
+  title: "创建生物数据",
+  description: "创建新的生物数据测量记录",
+  access: "write",
+  domain: "bioData",
+  inputSchema: z.object({
+    measurementType: z
+      .string()
+      .min(1)
+      .describe("测量类型，如'走路速度'、'体重'等"),
+    value: z.number().describe("测量值"),
+    unit: z.string().optional().describe("单位，如'米/分钟'、'千克'等"),
+    recordName: z
+      .string()
+      .optional()
+      .describe("记录名称（可选，默认为'测量类型-当前日期'）"),
+    context: z.string().optional().describe("测量情境或说明"),
+    notes: z.string().optional().describe("备注"),
+    measuredAt: z
+      .string()
+      .optional()
+      .describe("测量时间（格式：YYYY-MM-DDTHH:mm:ss，默认为当前时间）"),
+  }),
+  outputSchema: toolOutput({ record: bioDataOutput }),
+  async handler(args, { db }) {
+    const createBioDataTool = new CreateBioDataTool(db);
+
+    try {
+      const result = await createBioDataTool.execute({
+        measurementType: args.measurementType,
+        value: args.value,
+        unit: args.unit,
+        recordName: args.recordName,
+        context: args.context,
+        notes: args.notes,
+        measuredAt: args.measuredAt,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "创建生物数据失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        record: result.record,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `创建生物数据失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 删除生物数据
+ */
+export const deleteBioData = defineTool({
+  name: "delete_biodata",
+  title: "删除生物数据",
+  description: "删除生物数据测量记录",
+  access: "destructive",
+  domain: "bioData",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      recordId: z.string().optional().describe("记录ID"),
+      measurementType: z.string().optional().describe("测量类型"),
+      recordName: z.string().optional().describe("记录名称"),
+    })
+    .superRefine((value, ctx) => {
+      if (!value.recordId && !(value.measurementType && value.recordName)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "删除生物数据需要提供记录ID或(测量类型+记录名称)",
+        });
+      }
+    }),
+  outputSchema: toolOutput({}),
+  async handler(args, { db }) {
+    const deleteBioDataTool = new DeleteBioDataTool(db);
+
+    try {
+      const result = await deleteBioDataTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "删除生物数据失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `删除生物数据失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+// 生物数据相关工具
+export const bioDataTools = [
+  queryBioData,
+  getLatestBioData,
+  createBioData,
+  deleteBioData,
+];
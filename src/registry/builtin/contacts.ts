@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { defineTool } from "../types.js";
+import { contactOutput, toolOutput } from "../outputs.js";
+import { refineAll, requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { ContactsModel } from "../../model/contacts.js";
+import { CreateContactTool } from "../../tools/createContact.js";
+import { DeleteContactTool } from "../../tools/deleteContact.js";
+import { UpdateContactInfoTool } from "../../tools/updateContactInfo.js";
+
+/**
+ * 查询联系人
+ */
+export const queryContact = defineTool({
+  name: "query_contact",
+  title: "查询联系人",
+  description: "查询联系人信息",
+  access: "read",
+  domain: "contacts",
+  inputSchema: z
+    .object({
+      contactId: z.string().optional().describe("联系人ID"),
+      search: z.string().optional().describe("搜索关键词"),
+      relationship: z.string().optional().describe("关系类型"),
+      tag: z.string().optional().describe("联系人标签"),
+      school: z.string().optional().describe("学校或单位"),
+      hukou: z.string().optional().describe("户籍地"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["contactId", "search", "relationship", "tag", "school", "hukou"],
+        "查询联系人需要提供contactId、search、relationship、tag、school或hukou"
+      )
+    ),
+  outputSchema: toolOutput({
+    contact: contactOutput.nullable(),
+    contacts: z.array(contactOutput),
+  }),
+  async handler(args, { db }) {
+    const contactsModel = new ContactsModel(db);
+
+    // 处理不同的查询参数
+    if (args.contactId) {
+      // 根据ID查询
+      const contact = await contactsModel.getContactById(
+        new ObjectId(args.contactId)
+      );
+      return formatResponse({ contact });
+    }
+
+    if (args.relationship) {
+      // 根据关系查询
+      const contacts = await contactsModel.getContactsByRelationship(
+        args.relationship
+      );
+      return formatResponse({ contacts });
+    }
+
+    if (args.tag) {
+      // 根据标签查询
+      const contacts = await contactsModel.getContactsByTag(args.tag);
+      return formatResponse({ contacts });
+    }
+
+    if (args.school) {
+      // 根据学校查询
+      const contacts = await contactsModel.getContactsBySchool(args.school);
+      return formatResponse({ contacts });
+    }
+
+    if (args.hukou) {
+      // 根据户籍查询
+      const contacts = await contactsModel.getContactsByHukou(args.hukou);
+      return formatResponse({ contacts });
+    }
+
+    // 搜索联系人
+    const contacts = await contactsModel.findContacts(args.search);
+    return formatResponse({ contacts });
+  },
+});
+
+/**
+ * 创建联系人
+ */
+export const createContact = defineTool({
+  name: "create_contact",
+  title: "创建联系人",
+  description: "创建新联系人",
+  access: "write",
+  domain: "contacts",
+  inputSchema: z.object({
+    name: z.string().min(1).describe("联系人名称"),
+    phone: z.string().optional().describe("电话号码"),
+    email: z.string().optional().describe("电子邮件"),
+    birthDate: z.string().optional().describe("出生日期（格式：YYYY-MM-DD）"),
+    hukou: z.string().optional().describe("户籍所在地"),
+    school: z.string().optional().describe("学校或单位"),
+    residence: z.string().optional().describe("居住地"),
+    detailedResidence: z.string().optional().describe("详细居住地址"),
+    workAddress: z.string().optional().describe("工作地址"),
+    socialMedia: z.string().optional().describe("社交媒体账号"),
+    avatar: z.string().optional().describe("头像URL"),
+    hobbies: z.string().optional().describe("兴趣爱好"),
+    relationship: z.string().optional().describe("与联系人的关系类型"),
+    tags: z.array(z.string()).optional().describe("标签数组"),
+    note: z.string().optional().describe("创建备注（可选）"),
+  }),
+  outputSchema: toolOutput({ contact: contactOutput }),
+  async handler(args, { db }) {
+    const createContactTool = new CreateContactTool(db);
+
+    try {
+      const result = await createContactTool.execute({
+        name: args.name,
+        phone: args.phone,
+        email: args.email,
+        birthDate: args.birthDate,
+        hukou: args.hukou,
+        school: args.school,
+        residence: args.residence,
+        detailedResidence: args.detailedResidence,
+        workAddress: args.workAddress,
+        socialMedia: args.socialMedia,
+        avatar: args.avatar,
+        hobbies: args.hobbies,
+        relationship: args.relationship,
+        tags: args.tags,
+        note: args.note,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "创建联系人失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        contact: result.contact,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `创建联系人失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 删除联系人
+ */
+export const deleteContact = defineTool({
+  name: "delete_contact",
+  title: "删除联系人",
+  description: "删除联系人",
+  access: "destructive",
+  domain: "contacts",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      contactId: z.string().optional().describe("联系人ID"),
+      contactName: z.string().optional().describe("联系人名称（如果未提供ID）"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["contactId", "contactName"],
+        "删除联系人需要提供联系人ID或名称"
+      )
+    ),
+  outputSchema: toolOutput({}),
+  async handler(args, { db }) {
+    const deleteContactTool = new DeleteContactTool(db);
+
+    try {
+      const result = await deleteContactTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "删除联系人失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `删除联系人失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 更新联系人信息
+ */
+export const updateContactInfo = defineTool({
+  name: "update_contact_info",
+  title: "更新联系人信息",
+  description: "更新联系人信息",
+  access: "write",
+  domain: "contacts",
+  inputSchema: z
+    .object({
+      contactId: z.string().optional().describe("联系人ID"),
+      contactName: z.string().optional().describe("联系人名称（如果未提供ID）"),
+      newName: z.string().optional().describe("新联系人名称"),
+      newPhone: z.string().optional().describe("新电话号码"),
+      newEmail: z.string().optional().describe("新电子邮件"),
+      newBirthDate: z
+        .string()
+        .optional()
+        .describe("新出生日期（格式：YYYY-MM-DD）"),
+      newHukou: z.string().optional().describe("新户籍所在地"),
+      newSchool: z.string().optional().describe("新学校或单位"),
+      newResidence: z.string().optional().describe("新居住地"),
+      newDetailedResidence: z.string().optional().describe("新详细居住地址"),
+      newWorkAddress: z.string().optional().describe("新工作地址"),
+      newSocialMedia: z.string().optional().describe("新社交媒体账号"),
+      newAvatar: z.string().optional().describe("新头像URL"),
+      newHobbies: z.string().optional().describe("新兴趣爱好"),
+      newRelationship: z.string().optional().describe("新关系类型"),
+      newTags: z.array(z.string()).optional().describe("新标签数组"),
+      note: z.string().optional().describe("更新备注（可选）"),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(
+          ["contactId", "contactName"],
+          "更新联系人信息需要提供联系人ID或名称"
+        ),
+        requireAnyOf(
+          [
+            "newName",
+            "newPhone",
+            "newEmail",
+            "newBirthDate",
+            "newHukou",
+            "newSchool",
+            "newResidence",
+            "newDetailedResidence",
+            "newWorkAddress",
+            "newSocialMedia",
+            "newAvatar",
+            "newHobbies",
+            "newRelationship",
+            "newTags",
+          ],
+          "更新联系人信息需要提供至少一个要更新的字段"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ contact: contactOutput }),
+  async handler(args, { db }) {
+    const updateContactInfoTool = new UpdateContactInfoTool(db);
+
+    try {
+      const result = await updateContactInfoTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "更新联系人信息失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        contact: result.contact,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `更新联系人信息失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+// 联系人相关工具
+export const contactTools = [
+  queryContact,
+  createContact,
+  deleteContact,
+  updateContactInfo,
+];
@@ -0,0 +1,25 @@
+import type { ToolDefinition } from "../types.js";
+import { itemTools } from "./items.js";
+import { locationTools } from "./locations.js";
+import { contactTools } from "./contacts.js";
+import { bioDataTools } from "./bioData.js";
+import { taskTools } from "./tasks.js";
+import { noteTools } from "./notes.js";
+import { auditLogTools } from "./auditLog.js";
+import { integrityTools } from "./integrity.js";
+import { tripTools } from "./trips.js";
+import { loanTools } from "./loans.js";
+
+// 内置工具，按领域分组注册
+export const builtinTools: ToolDefinition<any>[] = [
+  ...itemTools,
+  ...locationTools,
+  ...contactTools,
+  ...bioDataTools,
+  ...taskTools,
+  ...noteTools,
+  ...auditLogTools,
+  ...integrityTools,
+  ...tripTools,
+  ...loanTools,
+];
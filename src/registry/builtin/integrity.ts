@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { defineTool } from "../types.js";
+import { rollbackOutput, toolOutput } from "../outputs.js";
+import { formatResponse } from "../../utils/response.js";
+import { CheckIntegrityTool } from "../../tools/checkIntegrity.js";
+
+// 一致性问题类型
+const issueTypeOutput = z.enum([
+  "dangling_reference",
+  "asymmetric_link",
+  "container_cycle",
+  "location_cycle",
+  "biodata_latest",
+  "string_notes",
+  "task_overdue",
+]);
+
+// 一致性检查结果
+const integrityOutput = toolOutput({
+  summary: z.record(z.number()).describe("按类型统计的问题数量"),
+  issues: z.array(
+    z.object({
+      type: issueTypeOutput,
+      collection: z.string(),
+      entityId: z.string(),
+      field: z.string(),
+      description: z.string(),
+      repair: z.string().describe("修复方式"),
+      status: z.enum(["found", "repaired", "skipped"]),
+    })
+  ),
+  repaired: z.number().describe("已修复的问题数量"),
+  skipped: z.number().describe("因权限策略跳过的问题数量"),
+  rollback: rollbackOutput,
+});
+
+/**
+ * 检查数据一致性
+ */
+export const checkIntegrity = defineTool({
+  name: "check_integrity",
+  title: "检查数据一致性",
+  description:
+    "检查悬空ID、容器/位置父子链接不对称、容器循环嵌套、同一测量类型多条isLatest记录、字符串形式的notes字段以及isOverdue错误的任务",
+  access: "read",
+  domain: "integrity",
+  inputSchema: z.object({}),
+  outputSchema: integrityOutput,
+  async handler(_args, { db }) {
+    const tool = new CheckIntegrityTool(db);
+    const result = await tool.execute({ repair: false });
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 修复数据一致性问题
+ */
+export const repairIntegrity = defineTool({
+  name: "repair_integrity",
+  title: "修复数据一致性问题",
+  description:
+    "修复check_integrity发现的问题并报告修改内容：以子文档的父引用为准修正containedItems/childLocations，清除悬空引用，断开循环嵌套，重新标记isLatest和isOverdue，将字符串notes转换为笔记数组。修改会记入审计日志，可以撤销",
+  access: "write",
+  domain: "integrity",
+  idempotent: true,
+  inputSchema: z.object({}),
+  outputSchema: integrityOutput,
+  async handler(_args, { db, policy }) {
+    const tool = new CheckIntegrityTool(db);
+    const result = await tool.execute({ repair: true, policy });
+    return formatResponse(result);
+  },
+});
+
+// 数据一致性工具
+export const integrityTools = [checkIntegrity, repairIntegrity];
@@ -0,0 +1,799 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { defineTool } from "../types.js";
+import { itemOutput, rollbackOutput, toolOutput } from "../outputs.js";
+import { refineAll, requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { ItemsModel } from "../../model/items.js";
+import { FindItemTool } from "../../tools/findItem.js";
+import { CreateItemTool } from "../../tools/createItem.js";
+import { DeleteItemTool } from "../../tools/deleteItem.js";
+import { UpdateItemInfoTool } from "../../tools/updateItemInfo.js";
+import { TransferItemTool } from "../../tools/transferItem.js";
+import { ConsumeItemTool } from "../../tools/consumeItem.js";
+import { RestockItemTool } from "../../tools/restockItem.js";
+import { GetLowStockItemsTool } from "../../tools/getLowStockItems.js";
+import { GetItemDeadlinesTool } from "../../tools/getItemDeadlines.js";
+import { GetContainerTreeTool } from "../../tools/getContainerTree.js";
+import type { RecurrenceInterval } from "../../model/types.js";
+
+// 到期类型参数
+const deadlineKindInput = z.enum(["expiry", "warranty", "maintenance"]);
+
+// 维护周期参数
+const maintenanceIntervalInput = z.object({
+  value: z.number().int().positive().describe("周期长度"),
+  unit: z
+    .enum(["day", "week", "month", "year"])
+    .describe("周期单位：day、week、month或year"),
+});
+
+/**
+ * 查找物品
+ */
+export const findItem = defineTool({
+  name: "find_item",
+  title: "查找物品",
+  description: "查找物品位置和状态",
+  access: "read",
+  domain: "items",
+  inputSchema: z.object({
+    itemName: z.string().describe("要查找的物品名称或关键词"),
+    exactMatch: z
+      .boolean()
+      .default(false)
+      .describe("是否精确匹配名称（默认为false，进行模糊匹配）"),
+  }),
+  outputSchema: toolOutput({
+    items: z.array(z.record(z.any())).describe("物品位置信息"),
+    rawResult: z.record(z.any()),
+  }),
+  async handler(args, { db }) {
+    const findItemTool = new FindItemTool(db);
+
+    const result = await findItemTool.execute({
+      itemName: args.itemName,
+      exactMatch: args.exactMatch,
+    });
+
+    // 格式化响应
+    const formattedResponse = findItemTool.formatResponse(result);
+
+    return formatResponse({
+      success: result.found,
+      message: formattedResponse,
+      items: result.items || [],
+      rawResult: result,
+    });
+  },
+});
+
+/**
+ * 查询物品
+ */
+export const queryItem = defineTool({
+  name: "query_item",
+  title: "查询物品",
+  description: "查询物品信息",
+  access: "read",
+  domain: "items",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      search: z.string().optional().describe("搜索关键词"),
+      containerId: z
+        .string()
+        .optional()
+        .describe("容器ID，用于查询容器内物品"),
+      containerItems: z
+        .boolean()
+        .default(false)
+        .describe("是否查询容器内物品，需要与containerId一起使用"),
+    })
+    .superRefine((value, ctx) => {
+      if (
+        !value.itemId &&
+        !value.search &&
+        !(value.containerItems && value.containerId)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "查询物品需要提供itemId、search或containerId+containerItems",
+        });
+      }
+    }),
+  outputSchema: toolOutput({
+    item: itemOutput.nullable(),
+    items: z.array(itemOutput),
+  }),
+  async handler(args, { db }) {
+    const itemsModel = new ItemsModel(db);
+
+    // 处理不同的查询参数
+    if (args.itemId) {
+      // 根据ID查询
+      const item = await itemsModel.getItemById(new ObjectId(args.itemId));
+      return formatResponse({ item });
+    }
+
+    if (args.containerItems && args.containerId) {
+      // 查询容器内的物品
+      const items = await itemsModel.getItemsInContainer(args.containerId);
+      return formatResponse({ items });
+    }
+
+    // 搜索物品
+    const items = await itemsModel.findItems(args.search);
+    return formatResponse({ items });
+  },
+});
+
+/**
+ * 创建物品
+ */
+export const createItem = defineTool({
+  name: "create_item",
+  title: "创建物品",
+  description: "创建新物品",
+  access: "write",
+  domain: "items",
+  inputSchema: z.object({
+    name: z.string().min(1).describe("物品名称"),
+    category: z.string().optional().describe("物品类别（可选）"),
+    status: z.string().optional().describe('物品状态（可选，默认为"在用"）'),
+    quantity: z.number().int().optional().describe("物品数量（可选，默认为1）"),
+    unit: z.string().optional().describe('数量单位（可选，如"袋"、"节"）'),
+    minQuantity: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("最低库存（可选），数量不高于此值时提醒补货"),
+    acquisitionDate: z
+      .string()
+      .optional()
+      .describe("获得日期（可选，格式：YYYY-MM-DD）"),
+    expiryDate: z
+      .string()
+      .optional()
+      .describe("过期日期（可选，格式：YYYY-MM-DD），用于药品、食品等"),
+    warrantyEndDate: z
+      .string()
+      .optional()
+      .describe("保修截止日期（可选，格式：YYYY-MM-DD）"),
+    nextMaintenanceDate: z
+      .string()
+      .optional()
+      .describe("下次维护日期（可选，格式：YYYY-MM-DD），如更换滤芯"),
+    maintenanceInterval: maintenanceIntervalInput
+      .optional()
+      .describe("维护周期（可选），未提供下次维护日期时从今天起推算"),
+    isContainer: z
+      .boolean()
+      .optional()
+      .describe("是否为容器（可选，默认为false）"),
+    locationId: z.string().optional().describe("位置ID"),
+    locationName: z.string().optional().describe("位置名称（如果未提供ID）"),
+    containerId: z.string().optional().describe("容器ID"),
+    containerName: z.string().optional().describe("容器名称（如果未提供ID）"),
+    note: z.string().optional().describe("创建备注（可选）"),
+  }),
+  outputSchema: toolOutput({ item: itemOutput }),
+  async handler(args, { db }) {
+    const createItemTool = new CreateItemTool(db);
+
+    // 执行创建
+    const result = await createItemTool.execute({
+      name: args.name,
+      category: args.category,
+      status: args.status,
+      quantity: args.quantity,
+      unit: args.unit,
+      minQuantity: args.minQuantity,
+      acquisitionDate: args.acquisitionDate,
+      expiryDate: args.expiryDate,
+      warrantyEndDate: args.warrantyEndDate,
+      nextMaintenanceDate: args.nextMaintenanceDate,
+      maintenanceInterval: args.maintenanceInterval as
+        | RecurrenceInterval
+        | undefined,
+      isContainer: args.isContainer,
+      locationId: args.locationId,
+      locationName: args.locationName,
+      containerId: args.containerId,
+      containerName: args.containerName,
+      note: args.note,
+    });
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "创建物品失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      item: result.item,
+    });
+  },
+});
+
+/**
+ * 删除物品
+ */
+export const deleteItem = defineTool({
+  name: "delete_item",
+  title: "删除物品",
+  description: "删除物品",
+  access: "destructive",
+  domain: "items",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      isSoftDelete: z
+        .boolean()
+        .default(true)
+        .describe("是否软删除（标记为已删除而不是真正删除，可选，默认为true）"),
+    })
+    .superRefine(requireAnyOf(["itemId", "itemName"], "删除物品需要提供物品ID或名称")),
+  outputSchema: toolOutput({ rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const deleteItemTool = new DeleteItemTool(db);
+
+    // 执行删除
+    const result = await deleteItemTool.execute(args);
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "删除物品失败",
+        error: result.error,
+        rollback: result.rollback,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+    });
+  },
+});
+
+/**
+ * 更新物品位置
+ */
+export const updateItem = defineTool({
+  name: "update_item",
+  title: "更新物品位置",
+  description: "更新物品所在位置或容器",
+  access: "write",
+  domain: "items",
+  inputSchema: z.object({
+    itemId: z.string().min(1).describe("物品ID"),
+    locationId: z
+      .string()
+      .optional()
+      .describe("新位置ID（物品随之移出当前容器）"),
+    containerId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("新容器ID（传null表示移出容器，物品留在容器所在的位置）"),
+    note: z.string().nullable().optional().describe("更新备注（可选）"),
+  }),
+  outputSchema: toolOutput({ item: itemOutput, rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const itemsModel = new ItemsModel(db);
+    const { itemId, locationId, containerId, note = null } = args;
+
+    if (locationId === undefined && containerId === undefined) {
+      return formatResponse({
+        success: false,
+        message: "需要提供新位置ID或容器ID",
+        error: "需要提供新位置ID或容器ID",
+      });
+    }
+
+    try {
+      // 与transfer_item共用同一套逻辑：容器的containedItems、环检查、
+      // 容器内物品的位置级联都在同一事务中处理
+      const result = await itemsModel.transferItem(
+        itemId,
+        locationId ?? null,
+        containerId ?? null,
+        note
+      );
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.error || "更新物品失败",
+          error: result.error,
+          rollback: result.rollback,
+        });
+      }
+
+      let message = `成功更新物品"${result.item?.name || itemId}"的位置`;
+
+      if (result.cascaded) {
+        message += `，同时更新了容器内${result.cascaded}个物品的位置`;
+      }
+
+      return formatResponse({
+        success: true,
+        message,
+        item: result.item,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `更新物品失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 更新物品基本信息
+ */
+export const updateItemInfo = defineTool({
+  name: "update_item_info",
+  title: "更新物品信息",
+  description: "更新物品基本信息",
+  access: "write",
+  domain: "items",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      newName: z.string().optional().describe("新物品名称"),
+      newCategory: z.string().optional().describe("新物品类别"),
+      newStatus: z.string().optional().describe("新物品状态"),
+      newQuantity: z.number().int().optional().describe("新物品数量"),
+      newUnit: z.string().optional().describe("新数量单位"),
+      newMinQuantity: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("新最低库存，数量不高于此值时提醒补货"),
+      clearMinQuantity: z
+        .boolean()
+        .optional()
+        .describe("是否取消最低库存（不再提醒补货）"),
+      newExpiryDate: z
+        .string()
+        .optional()
+        .describe("新过期日期（格式：YYYY-MM-DD）"),
+      newWarrantyEndDate: z
+        .string()
+        .optional()
+        .describe("新保修截止日期（格式：YYYY-MM-DD）"),
+      newNextMaintenanceDate: z
+        .string()
+        .optional()
+        .describe("新下次维护日期（格式：YYYY-MM-DD）"),
+      newMaintenanceInterval: maintenanceIntervalInput
+        .optional()
+        .describe("新维护周期"),
+      maintenanceDone: z
+        .boolean()
+        .optional()
+        .describe("是否刚完成维护，完成后按维护周期推算下次维护日期"),
+      clearDeadlines: z
+        .array(deadlineKindInput)
+        .optional()
+        .describe("要清除的到期日期：expiry、warranty或maintenance"),
+      note: z.string().optional().describe("更新备注（可选）"),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(["itemId", "itemName"], "更新物品信息需要提供物品ID或名称"),
+        requireAnyOf(
+          [
+            "newName",
+            "newCategory",
+            "newStatus",
+            "newQuantity",
+            "newUnit",
+            "newMinQuantity",
+            "clearMinQuantity",
+            "newExpiryDate",
+            "newWarrantyEndDate",
+            "newNextMaintenanceDate",
+            "newMaintenanceInterval",
+            "maintenanceDone",
+            "clearDeadlines",
+          ],
+          "更新物品信息需要提供至少一个要更新的字段"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ item: itemOutput }),
+  async handler(args, { db }) {
+    const updateItemInfoTool = new UpdateItemInfoTool(db);
+
+    try {
+      const result = await updateItemInfoTool.execute({
+        ...args,
+        newMaintenanceInterval: args.newMaintenanceInterval as
+          | RecurrenceInterval
+          | undefined,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "更新物品信息失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        item: result.item,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `更新物品信息失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 转移物品
+ */
+export const transferItem = defineTool({
+  name: "transfer_item",
+  title: "转移物品",
+  description: "转移物品到新的位置或容器",
+  access: "write",
+  domain: "items",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      targetLocationId: z.string().optional().describe("目标位置ID"),
+      targetLocationName: z
+        .string()
+        .optional()
+        .describe("目标位置名称（如果未提供ID）"),
+      targetContainerId: z.string().optional().describe("目标容器ID"),
+      targetContainerName: z
+        .string()
+        .optional()
+        .describe("目标容器名称（如果未提供ID）"),
+      note: z.string().optional().describe("转移备注（可选）"),
+      removeFromCurrentContainer: z
+        .boolean()
+        .default(true)
+        .describe("是否从当前容器中移除物品（默认为true）"),
+      cascadeLocation: z
+        .boolean()
+        .default(true)
+        .describe(
+          "转移容器时是否把容器内各层物品的位置一并更新；只指定目标容器时，位置取目标容器的实际位置（默认为true）"
+        ),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(["itemId", "itemName"], "物品转移需要提供物品ID或名称"),
+        requireAnyOf(
+          [
+            "targetLocationId",
+            "targetLocationName",
+            "targetContainerId",
+            "targetContainerName",
+          ],
+          "物品转移需要提供目标位置或容器"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ item: itemOutput, rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const transferItemTool = new TransferItemTool(db);
+
+    // 执行转移
+    const result = await transferItemTool.execute(args);
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "物品转移失败",
+        error: result.error,
+        rollback: result.rollback,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      item: result.item,
+    });
+  },
+});
+
+/**
+ * 消耗物品
+ */
+export const consumeItem = defineTool({
+  name: "consume_item",
+  title: "消耗物品",
+  description: "减少消耗品的数量并记录，数量降到最低库存时提醒补货",
+  access: "write",
+  domain: "items",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      amount: z
+        .number()
+        .int()
+        .positive()
+        .default(1)
+        .describe("消耗的数量（默认为1）"),
+      note: z.string().optional().describe("消耗备注（可选）"),
+    })
+    .superRefine(requireAnyOf(["itemId", "itemName"], "消耗物品需要提供物品ID或名称")),
+  outputSchema: toolOutput({
+    item: itemOutput,
+    lowStock: z.boolean().describe("消耗后是否库存不足"),
+  }),
+  async handler(args, { db }) {
+    const consumeItemTool = new ConsumeItemTool(db);
+
+    const result = await consumeItemTool.execute(args);
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "消耗物品失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      item: result.item,
+      lowStock: result.lowStock,
+    });
+  },
+});
+
+/**
+ * 物品补货
+ */
+export const restockItem = defineTool({
+  name: "restock_item",
+  title: "物品补货",
+  description: "购买或补充消耗品后增加数量并记录",
+  access: "write",
+  domain: "items",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      amount: z.number().int().positive().describe("补充的数量"),
+      note: z.string().optional().describe("补货备注（可选，如购买渠道）"),
+    })
+    .superRefine(requireAnyOf(["itemId", "itemName"], "物品补货需要提供物品ID或名称")),
+  outputSchema: toolOutput({
+    item: itemOutput,
+    lowStock: z.boolean().describe("补货后是否仍库存不足"),
+  }),
+  async handler(args, { db }) {
+    const restockItemTool = new RestockItemTool(db);
+
+    const result = await restockItemTool.execute(args);
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "物品补货失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      item: result.item,
+      lowStock: result.lowStock,
+    });
+  },
+});
+
+/**
+ * 获取库存不足的物品
+ */
+export const getLowStockItems = defineTool({
+  name: "get_low_stock_items",
+  title: "获取库存不足的物品",
+  description: "列出数量不高于最低库存的物品，可用于生成购物清单",
+  access: "read",
+  domain: "items",
+  inputSchema: z.object({
+    category: z.string().optional().describe("只查询该类别的物品（可选）"),
+  }),
+  outputSchema: toolOutput({
+    items: z.array(
+      z
+        .object({
+          id: z.string(),
+          name: z.string(),
+          category: z.string().optional(),
+          quantity: z.number(),
+          minQuantity: z.number(),
+          unit: z.string().optional(),
+          shortage: z.number().describe("补足到最低库存还差的数量"),
+          location: z.string().optional().describe("所在位置名称"),
+        })
+        .passthrough()
+    ),
+  }),
+  async handler(args, { db }) {
+    const getLowStockItemsTool = new GetLowStockItemsTool(db);
+
+    const result = await getLowStockItemsTool.execute(args);
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 获取物品到期事项
+ */
+export const getItemDeadlines = defineTool({
+  name: "get_item_deadlines",
+  title: "获取物品到期事项",
+  description:
+    "列出未来若干天内过期、保修到期或需要维护的物品，可为每个事项创建任务（需要tasks领域的写权限）",
+  access: "read",
+  mayWrite: true,
+  domain: "items",
+  inputSchema: z.object({
+    days: z
+      .number()
+      .int()
+      .min(0)
+      .default(30)
+      .describe("向后查询的天数（默认为30）"),
+    kinds: z
+      .array(deadlineKindInput)
+      .optional()
+      .describe("到期类型：expiry、warranty、maintenance（默认全部）"),
+    includeOverdue: z
+      .boolean()
+      .default(true)
+      .describe("是否包括已过期的事项（默认为true）"),
+    createTasks: z
+      .boolean()
+      .default(false)
+      .describe("是否为每个事项创建任务（已有同名同日期的任务时不重复创建）"),
+  }),
+  outputSchema: toolOutput({
+    deadlines: z.array(
+      z
+        .object({
+          item: z.object({ id: z.string(), name: z.string() }),
+          kind: z.string(),
+          date: z.string().describe("到期日期（YYYY-MM-DD）"),
+          daysLeft: z.number().describe("距今天数，已过期时为负数"),
+          overdue: z.boolean(),
+          recurrence: z.string().optional().describe("维护周期"),
+          task: z
+            .object({ id: z.string(), name: z.string(), created: z.boolean() })
+            .optional(),
+        })
+        .passthrough()
+    ),
+  }),
+  async handler(args, { db, authorizeWrite }) {
+    // 只有创建任务时才需要tasks领域的写权限
+    let taskDb = db;
+    if (args.createTasks) {
+      const authorization = authorizeWrite("tasks");
+      if (authorization.denial) {
+        return formatResponse({
+          success: false,
+          message: `无法为到期事项创建任务: ${authorization.denial}`,
+          error: authorization.denial,
+        });
+      }
+      taskDb = authorization.db;
+    }
+
+    const getItemDeadlinesTool = new GetItemDeadlinesTool(db, taskDb);
+
+    const result = await getItemDeadlinesTool.execute(args);
+
+    return formatResponse(result);
+  },
+});
+
+// 容器树节点（JSON Schema不支持递归引用，子节点只声明为对象）
+const containerTreeNodeOutput = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    isContainer: z.boolean(),
+    status: z.string().optional(),
+    quantity: z.number().optional(),
+    amount: z.number().optional(),
+    amountCurrency: z.string().optional(),
+    itemCount: z.number().describe("容器内（包括各层子容器内）的物品数量"),
+    totalValue: z
+      .record(z.number())
+      .describe("容器内物品的金额合计，按货币单位分组"),
+    children: z
+      .array(z.object({}).passthrough())
+      .describe("直接包含的物品，结构与本节点相同"),
+  })
+  .passthrough();
+
+/**
+ * 获取容器结构
+ */
+export const getContainerTree = defineTool({
+  name: "get_container_tree",
+  title: "获取容器结构",
+  description:
+    "列出容器内各层嵌套的物品（如箱子里的包里的小袋子），以及每层的物品数量和金额合计",
+  access: "read",
+  domain: "items",
+  inputSchema: z
+    .object({
+      containerId: z.string().optional().describe("容器ID"),
+      containerName: z
+        .string()
+        .optional()
+        .describe("容器名称（如果未提供ID）"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["containerId", "containerName"],
+        "获取容器结构需要提供容器ID或名称"
+      )
+    ),
+  outputSchema: toolOutput({
+    tree: containerTreeNodeOutput,
+    path: z.string().describe("容器所在的完整路径"),
+  }),
+  async handler(args, { db }) {
+    const getContainerTreeTool = new GetContainerTreeTool(db);
+
+    const result = await getContainerTreeTool.execute(args);
+
+    return formatResponse(result);
+  },
+});
+
+// 物品相关工具
+export const itemTools = [
+  findItem,
+  queryItem,
+  createItem,
+  deleteItem,
+  updateItem,
+  updateItemInfo,
+  transferItem,
+  consumeItem,
+  restockItem,
+  getLowStockItems,
+  getItemDeadlines,
+  getContainerTree,
+];
@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { defineTool } from "../types.js";
+import { loanOutput, rollbackOutput, toolOutput } from "../outputs.js";
+import { calendarDateInput } from "../inputs.js";
+import { refineAll, requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { LendItemTool } from "../../tools/lendItem.js";
+import { ReturnItemTool } from "../../tools/returnItem.js";
+import { QueryLoansTool } from "../../tools/queryLoans.js";
+
+/**
+ * 借出物品
+ */
+export const lendItem = defineTool({
+  name: "lend_item",
+  title: "借出物品",
+  description:
+    "把物品借给联系人，记录借出日期和预计归还日期，物品状态改为借出，并在物品和联系人上记录借出历史",
+  access: "write",
+  domain: "loans",
+  inputSchema: z
+    .object({
+      itemId: z.string().optional().describe("物品ID"),
+      itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+      contactId: z.string().optional().describe("借用人（联系人）ID"),
+      contactName: z
+        .string()
+        .optional()
+        .describe("借用人名称（如果未提供ID）"),
+      lentAt: calendarDateInput
+        .optional()
+        .describe("借出日期（可选，格式：YYYY-MM-DD，默认为今天）"),
+      dueDate: calendarDateInput
+        .optional()
+        .describe("预计归还日期（可选，格式：YYYY-MM-DD）"),
+      note: z.string().optional().describe("借出备注（可选）"),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(["itemId", "itemName"], "借出物品需要提供物品ID或名称"),
+        requireAnyOf(
+          ["contactId", "contactName"],
+          "借出物品需要提供借用人ID或名称"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ loan: loanOutput, rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const lendItemTool = new LendItemTool(db);
+
+    const result = await lendItemTool.execute(args);
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "借出物品失败",
+        error: result.error,
+        rollback: result.rollback,
+      });
+    }
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 归还物品
+ */
+export const returnItem = defineTool({
+  name: "return_item",
+  title: "归还物品",
+  description:
+    "记录借出的物品已归还，恢复物品借出前的状态，并在物品和联系人上记录归还历史",
+  access: "write",
+  domain: "loans",
+  inputSchema: z
+    .object({
+      loanId: z.string().optional().describe("借出记录ID"),
+      itemId: z.string().optional().describe("物品ID（如果未提供借出记录ID）"),
+      itemName: z
+        .string()
+        .optional()
+        .describe("物品名称（如果未提供借出记录ID或物品ID）"),
+      returnedAt: calendarDateInput
+        .optional()
+        .describe("归还日期（可选，格式：YYYY-MM-DD，默认为今天）"),
+      note: z.string().optional().describe("归还备注（可选）"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["loanId", "itemId", "itemName"],
+        "归还物品需要提供借出记录ID、物品ID或物品名称"
+      )
+    ),
+  outputSchema: toolOutput({ loan: loanOutput, rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const returnItemTool = new ReturnItemTool(db);
+
+    const result = await returnItemTool.execute(args);
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "归还物品失败",
+        error: result.error,
+        rollback: result.rollback,
+      });
+    }
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 查询借出记录
+ */
+export const queryLoans = defineTool({
+  name: "query_loans",
+  title: "查询借出记录",
+  description: "按借用人列出未归还、逾期或已归还的借出物品",
+  access: "read",
+  domain: "loans",
+  inputSchema: z.object({
+    contactId: z.string().optional().describe("只查询该借用人的记录"),
+    contactName: z
+      .string()
+      .optional()
+      .describe("借用人名称（如果未提供ID）"),
+    itemId: z.string().optional().describe("只查询该物品的记录"),
+    itemName: z.string().optional().describe("物品名称（如果未提供ID）"),
+    status: z
+      .enum(["outstanding", "overdue", "returned", "all"])
+      .default("outstanding")
+      .describe(
+        "记录范围: outstanding(未归还，默认), overdue(逾期), returned(已归还), all(全部)"
+      ),
+  }),
+  outputSchema: toolOutput({
+    contacts: z.array(
+      z
+        .object({
+          contact: z.object({ id: z.string(), name: z.string() }),
+          outstanding: z.number().describe("未归还的数量"),
+          overdue: z.number().describe("逾期的数量"),
+          loans: z.array(
+            loanOutput.extend({
+              overdue: z.boolean(),
+              daysOverdue: z.number().optional(),
+            })
+          ),
+        })
+        .passthrough()
+    ),
+  }),
+  async handler(args, { db }) {
+    const queryLoansTool = new QueryLoansTool(db);
+
+    const result = await queryLoansTool.execute(args);
+
+    return formatResponse(result);
+  },
+});
+
+// 借出相关工具
+export const loanTools = [lendItem, returnItem, queryLoans];
@@ -0,0 +1,699 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { defineTool } from "../types.js";
+import {
+  itemOutput,
+  locationOutput,
+  rollbackOutput,
+  toolOutput,
+} from "../outputs.js";
+import { dateInput } from "../inputs.js";
+import { refineAll, requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { LocationsModel } from "../../model/locations.js";
+import type { Location } from "../../model/types.js";
+import { EstimateTimeTool } from "../../tools/estimateTime.js";
+import { CreateLocationTool } from "../../tools/createLocation.js";
+import { UpdateLocationInfoTool } from "../../tools/updateLocationInfo.js";
+import { DeleteLocationTool } from "../../tools/deleteLocation.js";
+import { IsLocationOpenTool } from "../../tools/isLocationOpen.js";
+import { ReviewLocationSuggestionsTool } from "../../tools/reviewLocationSuggestions.js";
+import { EnrichLocationsTool } from "../../tools/enrichLocations.js";
+import {
+  QueryNearbyTool,
+  type BoundingBox,
+} from "../../tools/queryNearby.js";
+import { COORDINATE_SYSTEMS } from "../../routing/datum.js";
+import type { Coordinates } from "../../routing/types.js";
+import { formatDateKey } from "../../utils/openingHours.js";
+
+const coordinateSystemSchema = z
+  .enum(COORDINATE_SYSTEMS)
+  .describe(
+    "坐标系: wgs84(GPS设备), gcj02(高德、腾讯地图，默认), bd09(百度地图)"
+  );
+
+// 地理坐标
+const coordinatesSchema = z.object({
+  latitude: z.number().describe("纬度"),
+  longitude: z.number().describe("经度"),
+  system: coordinateSystemSchema.optional(),
+});
+
+/**
+ * 估算出行时间
+ */
+export const estimateTime = defineTool({
+  name: "estimate_time",
+  title: "估算出行时间",
+  description:
+    "估算从一个地点到另一个地点的出行时间，优先使用该路线的出行记录（中位数和用时范围），没有记录时结合个人行走速度和路线服务（高德地图或本地路网）数据",
+  access: "read",
+  mayWrite: true,
+  domain: "locations",
+  openWorld: true,
+  inputSchema: z.object({
+    origin: z.string().min(1).describe("起点名称或ID"),
+    destination: z.string().min(1).describe("终点名称或ID"),
+    contactName: z
+      .string()
+      .optional()
+      .describe(
+        "联系人名称（如果目的地与联系人相关，如联系人的学校、家、公司等）"
+      ),
+    transportation: z
+      .enum(["walking", "bicycling", "driving", "transit"])
+      .default("walking")
+      .describe(
+        "交通方式: walking(步行), bicycling(骑行), driving(驾车), transit(公交)"
+      ),
+    departureTime: dateInput
+      .optional()
+      .describe("出发时间（ISO 8601，默认当前时间），用于按时段估算"),
+  }),
+  outputSchema: toolOutput({
+    estimation: z.record(z.any()).describe("出行时间估算"),
+    rawResult: z.record(z.any()),
+  }),
+  async handler(args, { db, routing, authorizeWrite }) {
+    // 有locations领域的写权限时，才把未知地点记为待确认的位置建议
+    const estimateTimeTool = new EstimateTimeTool(
+      db,
+      routing,
+      authorizeWrite("locations").db ?? null
+    );
+
+    try {
+      const result = await estimateTimeTool.execute({
+        origin: args.origin,
+        destination: args.destination,
+        contactName: args.contactName,
+        transportation: args.transportation,
+        departureTime: args.departureTime,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || "时间估算失败",
+        });
+      }
+
+      // 格式化响应
+      const formattedResponse = estimateTimeTool.formatResponse(result);
+
+      return formatResponse({
+        success: true,
+        message: formattedResponse,
+        estimation: result.estimation,
+        rawResult: result,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `估算时间时出错: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 查询位置
+ */
+export const queryLocation = defineTool({
+  name: "query_location",
+  title: "查询位置",
+  description:
+    "查询位置信息；搜索位置或查询子位置时可用openAt只返回该时刻开放的位置",
+  access: "read",
+  domain: "locations",
+  inputSchema: z
+    .object({
+      locationId: z.string().optional().describe("位置ID"),
+      search: z.string().optional().describe("搜索关键词"),
+      hierarchyFor: z.string().optional().describe("查询位置层次结构的位置ID"),
+      childrenOf: z.string().optional().describe("父位置ID，用于查询子位置"),
+      openAt: dateInput
+        .optional()
+        .describe(
+          "只返回在该时刻开放的位置（用于search和childrenOf，未设置开放时间的位置不返回）"
+        ),
+      isHoliday: z
+        .boolean()
+        .default(false)
+        .describe("openAt当天是否为节假日"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["locationId", "search", "hierarchyFor", "childrenOf"],
+        "查询位置需要提供locationId、search、hierarchyFor或childrenOf"
+      )
+    ),
+  outputSchema: toolOutput({
+    location: locationOutput.nullable(),
+    hierarchy: z.object({
+      current: locationOutput.nullable(),
+      parent: locationOutput.nullable(),
+      children: z.array(locationOutput),
+    }),
+    children: z.array(locationOutput),
+    locations: z.array(locationOutput),
+  }),
+  async handler(args, { db }) {
+    const locationsModel = new LocationsModel(db);
+    const openOnly = (locations: Location[]) =>
+      args.openAt
+        ? locationsModel.filterLocationsOpenAt(
+            locations,
+            args.openAt,
+            args.isHoliday ? { holidays: [formatDateKey(args.openAt)] } : {}
+          )
+        : locations;
+
+    // 处理不同的查询参数
+    if (args.locationId) {
+      // 根据ID查询
+      const location = await locationsModel.getLocationById(
+        new ObjectId(args.locationId)
+      );
+      return formatResponse({ location });
+    }
+
+    if (args.hierarchyFor) {
+      // 查询位置层次结构
+      const hierarchy = await locationsModel.getLocationHierarchy(
+        args.hierarchyFor
+      );
+      return formatResponse({ hierarchy });
+    }
+
+    if (args.childrenOf) {
+      // 查询子位置
+      const children = await openOnly(
+        await locationsModel.getChildLocations(args.childrenOf)
+      );
+      return formatResponse({ children });
+    }
+
+    // 搜索位置
+    const locations = await openOnly(
+      await locationsModel.findLocations(args.search)
+    );
+    return formatResponse({ locations });
+  },
+});
+
+/**
+ * 查询位置是否开放
+ */
+export const isLocationOpen = defineTool({
+  name: "is_location_open",
+  title: "查询位置是否开放",
+  description:
+    "查询位置在某一时刻（默认现在）是否开放、何时关闭或下次何时开放；位置本身没有开放时间时沿用上级位置的开放时间",
+  access: "read",
+  domain: "locations",
+  inputSchema: z.object({
+    location: z.string().min(1).describe("位置名称或ID"),
+    time: dateInput.optional().describe("查询时刻，默认为现在"),
+    isHoliday: z
+      .boolean()
+      .default(false)
+      .describe("查询当天是否为节假日（按开放时间中的节假日安排计算）"),
+  }),
+  outputSchema: toolOutput({
+    status: z.object({
+      location: z.object({ id: z.string(), name: z.string() }),
+      time: z.string().describe("查询时刻"),
+      open: z.boolean(),
+      openingHours: z.string(),
+      inheritedFrom: z
+        .object({ id: z.string(), name: z.string() })
+        .optional(),
+      today: z.string().describe("当天的开放时间段"),
+      closesAt: z.string().optional().describe("开放时：本时间段的结束时间"),
+      nextOpening: z
+        .string()
+        .optional()
+        .describe("不开放时：下一次开放时间"),
+    }),
+  }),
+  async handler(args, { db }) {
+    const result = await new IsLocationOpenTool(db).execute({
+      location: args.location,
+      time: args.time,
+      isHoliday: args.isHoliday,
+    });
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 查询附近位置
+ */
+export const queryNearby = defineTool({
+  name: "query_nearby",
+  title: "查询附近位置",
+  description:
+    "查找某地点附近指定半径内、多边形或矩形范围内的位置，以及放在这些位置（包括其中容器内）的物品，按距离由近到远排序",
+  access: "read",
+  domain: "locations",
+  openWorld: true,
+  inputSchema: z
+    .object({
+      near: z
+        .string()
+        .optional()
+        .describe("中心位置的名称或ID（未知位置时通过路线服务解析地名）"),
+      coordinates: coordinatesSchema.optional().describe("中心坐标"),
+      radius: z
+        .number()
+        .positive()
+        .default(500)
+        .describe("查询半径（米），与near或coordinates一起使用"),
+      polygon: z
+        .array(coordinatesSchema)
+        .min(3)
+        .optional()
+        .describe("多边形范围的顶点（按顺序排列）"),
+      bounds: z
+        .object({
+          south: z.number().describe("南边界纬度"),
+          west: z.number().describe("西边界经度"),
+          north: z.number().describe("北边界纬度"),
+          east: z.number().describe("东边界经度"),
+          system: coordinateSystemSchema.optional(),
+        })
+        .optional()
+        .describe("矩形范围"),
+      includeItems: z
+        .boolean()
+        .default(true)
+        .describe("是否同时返回位于这些位置的物品"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(100)
+        .default(20)
+        .describe("最多返回的位置数量"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["near", "coordinates", "polygon", "bounds"],
+        "查询附近位置需要提供near、coordinates、polygon或bounds"
+      )
+    ),
+  outputSchema: toolOutput({
+    center: coordinatesSchema.optional(),
+    locations: z.array(
+      z.object({
+        location: locationOutput,
+        distance: z.number().describe("到中心的直线距离（米）"),
+        items: z.array(itemOutput).optional(),
+      })
+    ),
+    total: z.number().describe("范围内的位置总数"),
+  }),
+  async handler(args, { db, routing }) {
+    const result = await new QueryNearbyTool(db, routing).execute({
+      near: args.near,
+      coordinates: args.coordinates as Coordinates | undefined,
+      radius: args.radius,
+      polygon: args.polygon as Coordinates[] | undefined,
+      bounds: args.bounds as BoundingBox | undefined,
+      includeItems: args.includeItems,
+      limit: args.limit,
+    });
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 创建位置
+ */
+export const createLocation = defineTool({
+  name: "create_location",
+  title: "创建位置",
+  description: "创建新位置",
+  access: "write",
+  domain: "locations",
+  inputSchema: z.object({
+    name: z.string().min(1).describe("位置名称"),
+    type: z.string().optional().describe("位置类型"),
+    address: z.string().optional().describe("地址"),
+    openingHours: z.string().optional().describe("开放时间"),
+    phone: z.string().optional().describe("联系电话"),
+    parentLocationId: z.string().optional().describe("父位置ID"),
+    parentLocationName: z
+      .string()
+      .optional()
+      .describe("父位置名称（如果未提供ID）"),
+    coordinates: coordinatesSchema.optional().describe("地理坐标"),
+    notes: z.string().optional().describe("备注"),
+  }),
+  outputSchema: toolOutput({ location: locationOutput }),
+  async handler(args, { db }) {
+    const createLocationTool = new CreateLocationTool(db);
+
+    try {
+      const result = await createLocationTool.execute({
+        name: args.name,
+        type: args.type,
+        address: args.address,
+        openingHours: args.openingHours,
+        phone: args.phone,
+        parentLocationId: args.parentLocationId,
+        parentLocationName: args.parentLocationName,
+        coordinates: args.coordinates as Coordinates | undefined,
+        notes: args.notes,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "创建位置失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        location: result.location,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `创建位置失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 更新位置信息
+ */
+export const updateLocationInfo = defineTool({
+  name: "update_location_info",
+  title: "更新位置信息",
+  description: "更新位置信息",
+  access: "write",
+  domain: "locations",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      locationId: z.string().optional().describe("位置ID"),
+      locationName: z.string().optional().describe("位置名称（如果未提供ID）"),
+      newName: z.string().optional().describe("新位置名称"),
+      newType: z.string().optional().describe("新位置类型"),
+      newAddress: z.string().optional().describe("新地址"),
+      newOpeningHours: z.string().optional().describe("新开放时间"),
+      newPhone: z.string().optional().describe("新联系电话"),
+      newParentLocationId: z.string().optional().describe("新父位置ID"),
+      newParentLocationName: z
+        .string()
+        .optional()
+        .describe("新父位置名称（如果未提供ID）"),
+      newCoordinates: coordinatesSchema.optional().describe("新地理坐标"),
+      newNotes: z.string().optional().describe("新备注"),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(
+          ["locationId", "locationName"],
+          "更新位置信息需要提供位置ID或名称"
+        ),
+        requireAnyOf(
+          [
+            "newName",
+            "newType",
+            "newAddress",
+            "newOpeningHours",
+            "newPhone",
+            "newParentLocationId",
+            "newParentLocationName",
+            "newCoordinates",
+            "newNotes",
+          ],
+          "更新位置信息需要提供至少一个要更新的字段"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ location: locationOutput }),
+  async handler(args, { db }) {
+    const updateLocationInfoTool = new UpdateLocationInfoTool(db);
+
+    try {
+      const result = await updateLocationInfoTool.execute({
+        ...args,
+        newCoordinates: args.newCoordinates as Coordinates | undefined,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "更新位置信息失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        location: result.location,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `更新位置信息失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 删除位置
+ */
+export const deleteLocation = defineTool({
+  name: "delete_location",
+  title: "删除位置",
+  description: "删除位置",
+  access: "destructive",
+  domain: "locations",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      locationId: z.string().optional().describe("位置ID"),
+      locationName: z.string().optional().describe("位置名称（如果未提供ID）"),
+      force: z
+        .boolean()
+        .default(false)
+        .describe("是否强制删除（即使有子位置或被物品引用）"),
+    })
+    .superRefine(
+      requireAnyOf(["locationId", "locationName"], "删除位置需要提供位置ID或名称")
+    ),
+  outputSchema: toolOutput({ rollback: rollbackOutput }),
+  async handler(args, { db }) {
+    const deleteLocationTool = new DeleteLocationTool(db);
+
+    try {
+      const result = await deleteLocationTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "删除位置失败",
+          error: result.error,
+          rollback: result.rollback,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `删除位置失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 审核位置建议
+ */
+export const reviewLocationSuggestions = defineTool({
+  name: "review_location_suggestions",
+  title: "审核位置建议",
+  description:
+    "估算出行时间时通过地理编码找到的未知地点不会直接保存，而是记为待确认的位置建议。list列出建议及可能重复的已有位置；accept创建为新位置；merge合并到已有位置（补全其缺少的坐标和地址）；reject拒绝，以后不再建议",
+  access: "write",
+  domain: "locations",
+  inputSchema: z
+    .object({
+      action: z
+        .enum(["list", "accept", "merge", "reject"])
+        .default("list")
+        .describe("审核操作"),
+      suggestionId: z
+        .string()
+        .optional()
+        .describe("建议ID（accept、merge、reject时必需）"),
+      targetLocation: z
+        .string()
+        .optional()
+        .describe("合并到的已有位置名称或ID（merge时必需）"),
+      name: z.string().optional().describe("accept时使用的位置名称"),
+      type: z.string().optional().describe("accept时的位置类型，默认为place"),
+      parentLocation: z
+        .string()
+        .optional()
+        .describe("accept时的父位置名称或ID"),
+    })
+    .superRefine((value, ctx) => {
+      if (value.action !== "list") {
+        requireAnyOf<typeof value>(
+          ["suggestionId"],
+          `${value.action}操作需要提供suggestionId`
+        )(value, ctx);
+      }
+      if (value.action === "merge") {
+        requireAnyOf<typeof value>(
+          ["targetLocation"],
+          "merge操作需要提供targetLocation"
+        )(value, ctx);
+      }
+    }),
+  outputSchema: toolOutput({
+    suggestions: z.array(
+      z.object({
+        suggestion: z
+          .object({
+            _id: z.string(),
+            name: z.string(),
+            address: z.string().optional(),
+            occurrences: z.number(),
+            status: z.string(),
+          })
+          .passthrough(),
+        candidates: z.array(
+          z.object({
+            location: z.object({ id: z.string(), name: z.string() }),
+            distance: z.number().optional(),
+          })
+        ),
+      })
+    ),
+    location: locationOutput,
+    rollback: rollbackOutput,
+  }),
+  async handler(args, { db }) {
+    const result = await new ReviewLocationSuggestionsTool(db).execute({
+      action: args.action,
+      suggestionId: args.suggestionId,
+      targetLocation: args.targetLocation,
+      name: args.name,
+      type: args.type,
+      parentLocation: args.parentLocation,
+    });
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 补全位置地址和坐标
+ */
+export const enrichLocations = defineTool({
+  name: "enrich_locations",
+  title: "补全位置信息",
+  description:
+    "通过路线服务批量补全位置缺少的字段：有坐标没有地址的位置逆地理编码地址，有地址没有坐标的位置地理编码坐标。补全的字段记录来源，手动填写或修改过的字段不会被覆盖；dryRun=true时只预览",
+  access: "write",
+  domain: "locations",
+  openWorld: true,
+  inputSchema: z.object({
+    locations: z
+      .array(z.string())
+      .optional()
+      .describe("只补全这些位置（名称或ID），默认为所有缺少字段的位置"),
+    fields: z
+      .array(z.enum(["address", "coordinates"]))
+      .min(1)
+      .default(["address", "coordinates"])
+      .describe("要补全的字段"),
+    dryRun: z.boolean().default(false).describe("只预览补全结果，不写入"),
+    refresh: z
+      .boolean()
+      .default(false)
+      .describe("重新补全之前自动补全（之后未被手动修改）的字段"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .max(100)
+      .default(20)
+      .describe("本次最多处理的位置数量"),
+    requestsPerSecond: z
+      .number()
+      .positive()
+      .max(10)
+      .default(3)
+      .describe("每秒最多请求路线服务的次数"),
+  }),
+  outputSchema: toolOutput({
+    changes: z.array(
+      z.object({
+        location: z.object({ id: z.string(), name: z.string() }),
+        field: z.enum(["address", "coordinates"]),
+        before: z.union([z.string(), coordinatesSchema]).optional(),
+        after: z.union([z.string(), coordinatesSchema]),
+        provider: z.string(),
+        applied: z.boolean().describe("是否已写入（预览时为false）"),
+      })
+    ),
+    skipped: z.array(
+      z.object({
+        location: z.object({ id: z.string(), name: z.string() }),
+        field: z.enum(["address", "coordinates"]),
+        reason: z.string(),
+      })
+    ),
+    remaining: z.number().describe("超出limit、尚待处理的位置数量"),
+  }),
+  async handler(args, { db, routing }) {
+    const result = await new EnrichLocationsTool(db, routing).execute({
+      locations: args.locations,
+      fields: args.fields,
+      dryRun: args.dryRun,
+      refresh: args.refresh,
+      limit: args.limit,
+      requestsPerSecond: args.requestsPerSecond,
+    });
+
+    return formatResponse(result);
+  },
+});
+
+// 位置相关工具
+export const locationTools = [
+  estimateTime,
+  queryLocation,
+  isLocationOpen,
+  queryNearby,
+  createLocation,
+  updateLocationInfo,
+  deleteLocation,
+  reviewLocationSuggestions,
+  enrichLocations,
+];
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { defineTool } from "../types.js";
+import { structuredNoteOutput, toolOutput } from "../outputs.js";
+import { requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { SearchNotesTool } from "../../tools/searchNotes.js";
+import { AddStructuredNoteTool } from "../../tools/addStructuredNote.js";
+
+// 笔记可关联的实体类型（工具内部不区分大小写）
+const entityTypeSchema = z.string().min(1);
+
+/**
+ * 搜索笔记
+ */
+export const searchNotes = defineTool({
+  name: "search_notes",
+  title: "搜索笔记",
+  description: "搜索带有特定标签的笔记或实体的笔记",
+  access: "read",
+  domain: "notes",
+  inputSchema: z
+    .object({
+      tag: z.string().optional().describe("标签"),
+      entityType: entityTypeSchema
+        .optional()
+        .describe("实体类型(item, location, contact, task, biodata)"),
+      entityId: z.string().optional().describe("实体ID"),
+      entityName: z.string().optional().describe("实体名称（如果未提供ID）"),
+      limit: z.number().int().positive().default(20).describe("限制返回笔记数量"),
+    })
+    .superRefine((value, ctx) => {
+      if (!value.tag && !value.entityType) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "搜索笔记需要提供标签或实体类型",
+        });
+      } else if (value.entityType) {
+        requireAnyOf<typeof value>(
+          ["entityId", "entityName"],
+          "搜索实体笔记需要提供实体ID或名称"
+        )(value, ctx);
+      }
+    }),
+  outputSchema: toolOutput({
+    results: z.array(z.record(z.any())).describe("匹配的笔记"),
+  }),
+  async handler(args, { db }) {
+    const searchNotesTool = new SearchNotesTool(db);
+
+    // 执行搜索
+    const result = await searchNotesTool.execute(args);
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "搜索笔记失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      results: result.results,
+    });
+  },
+});
+
+/**
+ * 添加结构化笔记
+ */
+export const addStructuredNote = defineTool({
+  name: "add_structured_note",
+  title: "添加结构化笔记",
+  description: "为任何实体添加带标签和关联的结构化笔记",
+  access: "write",
+  domain: "notes",
+  inputSchema: z
+    .object({
+      entityType: entityTypeSchema.describe(
+        "实体类型(item, location, contact, task, biodata)"
+      ),
+      entityId: z.string().optional().describe("实体ID"),
+      entityName: z.string().optional().describe("实体名称（如果未提供ID）"),
+      content: z.string().min(1).describe("笔记内容"),
+      tags: z.array(z.string()).default([]).describe("标签数组（可选）"),
+      relatedEntities: z
+        .array(
+          z.object({
+            type: entityTypeSchema.describe(
+              "相关实体类型(item, location, contact, task, biodata)"
+            ),
+            id: z.string().optional().describe("相关实体ID"),
+            name: z.string().optional().describe("相关实体名称（如果未提供ID）"),
+          })
+        )
+        .default([])
+        .describe("相关实体数组（可选）"),
+    })
+    .superRefine(
+      requireAnyOf(["entityId", "entityName"], "添加笔记需要提供实体ID或名称")
+    ),
+  outputSchema: toolOutput({ note: structuredNoteOutput }),
+  async handler(args, { db }) {
+    const addStructuredNoteTool = new AddStructuredNoteTool(db);
+
+    // 执行添加笔记
+    const result = await addStructuredNoteTool.execute({
+      entityType: args.entityType,
+      entityId: args.entityId,
+      entityName: args.entityName,
+      content: args.content,
+      tags: args.tags,
+      relatedEntities: args.relatedEntities as Array<{
+        type: string;
+        id?: string;
+        name?: string;
+      }>,
+    });
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "添加笔记失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      note: result.note,
+    });
+  },
+});
+
+// 笔记相关工具
+export const noteTools = [searchNotes, addStructuredNote];
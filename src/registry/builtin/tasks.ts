@@ -0,0 +1,402 @@
+import { z } from "zod";
+import { ObjectId } from "mongodb";
+import { defineTool } from "../types.js";
+import { taskOutput, toolOutput } from "../outputs.js";
+import { refineAll, requireAnyOf } from "../refinements.js";
+import { formatResponse } from "../../utils/response.js";
+import { TasksModel } from "../../model/tasks.js";
+import { CreateTaskTool } from "../../tools/createTask.js";
+import { DeleteTaskTool } from "../../tools/deleteTask.js";
+import { UpdateTaskInfoTool } from "../../tools/updateTaskInfo.js";
+import { UpdateTaskStatusTool } from "../../tools/updateTaskStatus.js";
+
+/**
+ * 查询任务
+ */
+export const queryTask = defineTool({
+  name: "query_task",
+  title: "查询任务",
+  description: "查询任务信息",
+  access: "read",
+  domain: "tasks",
+  inputSchema: z
+    .object({
+      taskId: z.string().optional().describe("任务ID"),
+      tag: z.string().optional().describe("任务标签"),
+      taskType: z.string().optional().describe("任务类型"),
+      upcoming: z.boolean().default(false).describe("是否查询即将到期的任务"),
+      days: z
+        .number()
+        .int()
+        .positive()
+        .default(7)
+        .describe("天数阈值，用于即将到期任务查询"),
+      overdue: z.boolean().default(false).describe("是否查询逾期任务"),
+      allTasks: z.boolean().default(false).describe("是否查询所有任务"),
+      query: z.record(z.any()).optional().describe("自定义查询条件"),
+      limit: z.number().int().positive().default(20).describe("限制返回任务数量"),
+    })
+    .superRefine(
+      requireAnyOf(
+        ["taskId", "tag", "taskType", "upcoming", "overdue", "allTasks"],
+        "查询任务需要提供taskId、tag、taskType、upcoming、overdue或allTasks"
+      )
+    ),
+  outputSchema: toolOutput({
+    task: taskOutput.nullable(),
+    tasks: z.array(taskOutput),
+  }),
+  async handler(args, { db }) {
+    const tasksModel = new TasksModel(db);
+
+    // 处理不同的查询参数
+    if (args.taskId) {
+      // 根据ID查询
+      const task = await tasksModel.getTaskById(new ObjectId(args.taskId));
+      return formatResponse({ task });
+    }
+
+    if (args.tag) {
+      // 根据标签查询
+      const tasks = await tasksModel.getTasksByTag(args.tag);
+      return formatResponse({ tasks });
+    }
+
+    if (args.taskType) {
+      // 根据任务类型查询
+      const tasks = await tasksModel.getTasksByType(args.taskType);
+      return formatResponse({ tasks });
+    }
+
+    if (args.upcoming) {
+      // 获取即将到期的任务
+      const tasks = await tasksModel.getUpcomingTasks(args.days);
+      return formatResponse({ tasks });
+    }
+
+    if (args.overdue) {
+      // 获取逾期任务
+      const tasks = await tasksModel.getOverdueTasks();
+      return formatResponse({ tasks });
+    }
+
+    // 获取所有任务
+    const tasks = await tasksModel.getAllTasks(args.query || {}, args.limit);
+    return formatResponse({ tasks });
+  },
+});
+
+/**
+ * 获取待办任务
+ */
+export const getPendingTasks = defineTool({
+  name: "get_pending_tasks",
+  title: "获取待办任务",
+  description: "获取待办任务列表",
+  access: "read",
+  domain: "tasks",
+  inputSchema: z.object({
+    limit: z.number().int().positive().default(10).describe("限制返回任务数量"),
+  }),
+  outputSchema: toolOutput({ tasks: z.array(taskOutput) }),
+  async handler(args, { db }) {
+    const tasksModel = new TasksModel(db);
+
+    const tasks = await tasksModel.getPendingTasks(args.limit);
+
+    if (tasks.length === 0) {
+      return formatResponse({
+        success: true,
+        message: "当前没有待办任务",
+        tasks: [],
+      });
+    }
+
+    // 构建简洁的任务列表
+    let message = `共有 ${tasks.length} 个待办任务:\n`;
+
+    for (let i = 0; i < tasks.length; i++) {
+      const task = tasks[i];
+      message += `${i + 1}. ${task.name}`;
+
+      if (task.priority) {
+        message += ` [优先级: ${task.priority}]`;
+      }
+
+      if (task.dueDate) {
+        const dueDate = new Date(task.dueDate);
+        const now = new Date();
+
+        if (dueDate < now) {
+          message += " [已逾期]";
+        } else {
+          // 计算剩余天数
+          const daysRemaining = Math.ceil(
+            (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
+          );
+
+          if (daysRemaining <= 1) {
+            message += " [今天到期]";
+          } else if (daysRemaining <= 3) {
+            message += " [即将到期]";
+          }
+        }
+      }
+
+      message += "\n";
+    }
+
+    return formatResponse({
+      success: true,
+      message: message.trim(),
+      tasks,
+    });
+  },
+});
+
+/**
+ * 创建任务
+ */
+export const createTask = defineTool({
+  name: "create_task",
+  title: "创建任务",
+  description: "创建新任务",
+  access: "write",
+  domain: "tasks",
+  inputSchema: z.object({
+    name: z.string().min(1).describe("任务名称"),
+    status: z
+      .string()
+      .optional()
+      .describe("任务状态（未开始、进行中、已完成、已取消等，默认为未开始）"),
+    dueDate: z.string().optional().describe("截止日期（格式：YYYY-MM-DD）"),
+    priority: z.string().optional().describe("优先级（高、中、低等）"),
+    taskType: z.string().optional().describe("任务类型"),
+    description: z.string().optional().describe("任务描述"),
+    workloadLevel: z.string().optional().describe("工作量级别"),
+    assignee: z.string().optional().describe("负责人"),
+    tags: z.array(z.string()).optional().describe("任务标签数组"),
+    note: z.string().optional().describe("创建备注（可选）"),
+  }),
+  outputSchema: toolOutput({ task: taskOutput }),
+  async handler(args, { db }) {
+    const createTaskTool = new CreateTaskTool(db);
+
+    try {
+      const result = await createTaskTool.execute({
+        name: args.name,
+        status: args.status,
+        dueDate: args.dueDate,
+        priority: args.priority,
+        taskType: args.taskType,
+        description: args.description,
+        workloadLevel: args.workloadLevel,
+        assignee: args.assignee,
+        tags: args.tags,
+        note: args.note,
+      });
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "创建任务失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        task: result.task,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `创建任务失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 删除任务
+ */
+export const deleteTask = defineTool({
+  name: "delete_task",
+  title: "删除任务",
+  description: "删除任务",
+  access: "destructive",
+  domain: "tasks",
+  idempotent: true,
+  inputSchema: z
+    .object({
+      taskId: z.string().optional().describe("任务ID"),
+      taskName: z.string().optional().describe("任务名称（如果未提供ID）"),
+    })
+    .superRefine(
+      requireAnyOf(["taskId", "taskName"], "删除任务需要提供任务ID或名称")
+    ),
+  outputSchema: toolOutput({}),
+  async handler(args, { db }) {
+    const deleteTaskTool = new DeleteTaskTool(db);
+
+    try {
+      const result = await deleteTaskTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "删除任务失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `删除任务失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 更新任务信息
+ */
+export const updateTaskInfo = defineTool({
+  name: "update_task_info",
+  title: "更新任务信息",
+  description: "更新任务信息（不包括状态更新）",
+  access: "write",
+  domain: "tasks",
+  inputSchema: z
+    .object({
+      taskId: z.string().optional().describe("任务ID"),
+      taskName: z.string().optional().describe("任务名称（如果未提供ID）"),
+      newName: z.string().optional().describe("新任务名称"),
+      newDueDate: z
+        .string()
+        .optional()
+        .describe("新截止日期（格式：YYYY-MM-DD）"),
+      newPriority: z.string().optional().describe("新优先级"),
+      newTaskType: z.string().optional().describe("新任务类型"),
+      newDescription: z.string().optional().describe("新任务描述"),
+      newWorkloadLevel: z.string().optional().describe("新工作量级别"),
+      newAssignee: z.string().optional().describe("新负责人"),
+      newTags: z.array(z.string()).optional().describe("新任务标签数组"),
+      note: z.string().optional().describe("更新备注（可选）"),
+    })
+    .superRefine(
+      refineAll(
+        requireAnyOf(["taskId", "taskName"], "更新任务信息需要提供任务ID或名称"),
+        requireAnyOf(
+          [
+            "newName",
+            "newDueDate",
+            "newPriority",
+            "newTaskType",
+            "newDescription",
+            "newWorkloadLevel",
+            "newAssignee",
+            "newTags",
+          ],
+          "更新任务信息需要提供至少一个要更新的字段"
+        )
+      )
+    ),
+  outputSchema: toolOutput({ task: taskOutput }),
+  async handler(args, { db }) {
+    const updateTaskInfoTool = new UpdateTaskInfoTool(db);
+
+    try {
+      const result = await updateTaskInfoTool.execute(args);
+
+      if (!result.success) {
+        return formatResponse({
+          success: false,
+          message: result.message || result.error || "更新任务信息失败",
+          error: result.error,
+        });
+      }
+
+      return formatResponse({
+        success: true,
+        message: result.message,
+        task: result.task,
+      });
+    } catch (error) {
+      return formatResponse({
+        success: false,
+        message: `更新任务信息失败: ${error}`,
+        error: `${error}`,
+      });
+    }
+  },
+});
+
+/**
+ * 更新任务状态
+ */
+export const updateTaskStatus = defineTool({
+  name: "update_task_status",
+  title: "更新任务状态",
+  description: "更新任务状态并记录状态变更历史",
+  access: "write",
+  domain: "tasks",
+  inputSchema: z
+    .object({
+      taskId: z.string().optional().describe("任务ID"),
+      taskName: z.string().optional().describe("任务名称（如果未提供ID）"),
+      newStatus: z
+        .string()
+        .min(1)
+        .describe("新状态（未开始、进行中、已完成、已取消、已暂停、待审核）"),
+      comment: z.string().optional().describe("状态变更备注（可选）"),
+    })
+    .superRefine(
+      requireAnyOf(["taskId", "taskName"], "更新任务状态需要提供任务ID或名称")
+    ),
+  outputSchema: toolOutput({ task: taskOutput }),
+  async handler(args, { db }) {
+    const updateTaskStatusTool = new UpdateTaskStatusTool(db);
+
+    // 执行状态更新
+    const result = await updateTaskStatusTool.execute({
+      taskId: args.taskId,
+      taskName: args.taskName,
+      newStatus: args.newStatus,
+      comment: args.comment,
+    });
+
+    // 格式化响应
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "更新任务状态失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse({
+      success: true,
+      message: result.message,
+      task: result.task,
+    });
+  },
+});
+
+// 任务相关工具
+export const taskTools = [
+  queryTask,
+  getPendingTasks,
+  createTask,
+  deleteTask,
+  updateTaskInfo,
+  updateTaskStatus,
+];
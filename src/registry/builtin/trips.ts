@@ -0,0 +1,282 @@
+import { z } from "zod";
+import { defineTool } from "../types.js";
+import { taskOutput, toolOutput, tripOutput } from "../outputs.js";
+import { dateInput, objectIdInput } from "../inputs.js";
+import { formatResponse } from "../../utils/response.js";
+import { RecordTripTool } from "../../tools/recordTrip.js";
+import { PlanDepartureTool } from "../../tools/planDeparture.js";
+import { PlanItineraryTool } from "../../tools/planItinerary.js";
+
+/**
+ * 记录出行
+ */
+export const recordTrip = defineTool({
+  name: "record_trip",
+  title: "记录出行",
+  description:
+    "记录一次实际出行（起点、终点、交通方式、出发和到达时间），出行时间估算会按路线和交通方式学习这些记录的用时",
+  access: "write",
+  domain: "trips",
+  inputSchema: z.object({
+    origin: z.string().min(1).describe("起点名称或ID"),
+    destination: z.string().min(1).describe("终点名称或ID"),
+    mode: z
+      .enum(["walking", "bicycling", "driving", "transit"])
+      .default("walking")
+      .describe(
+        "交通方式: walking(步行), bicycling(骑行), driving(驾车), transit(公交)"
+      ),
+    startTime: dateInput.describe("出发时间（ISO 8601）"),
+    endTime: dateInput.describe("到达时间（ISO 8601）"),
+    notes: z.string().optional().describe("备注"),
+  }),
+  outputSchema: toolOutput({
+    trip: tripOutput,
+    route: z
+      .object({
+        sampleCount: z.number(),
+        median: z.number(),
+        p10: z.number(),
+        p25: z.number(),
+        p75: z.number(),
+        p90: z.number(),
+        timeOfDay: z.record(
+          z.object({ sampleCount: z.number(), median: z.number() })
+        ),
+      })
+      .passthrough()
+      .describe("该路线更新后的用时模型（分钟）"),
+  }),
+  async handler(args, { db }) {
+    const recordTripTool = new RecordTripTool(db);
+
+    const result = await recordTripTool.execute({
+      origin: args.origin,
+      destination: args.destination,
+      mode: args.mode,
+      startTime: args.startTime,
+      endTime: args.endTime,
+      notes: args.notes,
+    });
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "记录出行失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse(result);
+  },
+});
+
+/**
+ * 规划出发时间
+ */
+export const planDeparture = defineTool({
+  name: "plan_departure",
+  title: "规划出发时间",
+  description:
+    "根据到达截止时间倒推最晚出发时间：结合出行时间估算、缓冲时间和目的地开放时间，给出出发时间范围，可选创建出发提醒任务（需要tasks领域的写权限）",
+  access: "read",
+  mayWrite: true,
+  domain: "tasks",
+  openWorld: true,
+  inputSchema: z.object({
+    destination: z.string().min(1).describe("目的地名称或ID，如'主楼323'"),
+    arriveBy: dateInput.describe("最晚到达时间（ISO 8601）"),
+    origin: z
+      .string()
+      .optional()
+      .describe("起点名称或ID（默认为最近一次出行的终点）"),
+    transportation: z
+      .enum(["walking", "bicycling", "driving", "transit"])
+      .default("walking")
+      .describe(
+        "交通方式: walking(步行), bicycling(骑行), driving(驾车), transit(公交)"
+      ),
+    bufferMinutes: z
+      .number()
+      .min(0)
+      .default(5)
+      .describe("预留的缓冲时间（分钟）"),
+    createReminder: z
+      .boolean()
+      .default(false)
+      .describe("是否创建出发提醒任务（截止时间为最晚出发时间）"),
+  }),
+  outputSchema: toolOutput({
+    plan: z
+      .object({
+        origin: z.object({ name: z.string(), id: z.string().optional() }),
+        destination: z.object({ name: z.string(), id: z.string().optional() }),
+        arriveBy: z.string(),
+        estimatedTime: z.number().describe("预计用时（分钟）"),
+        bufferMinutes: z.number(),
+        latestDeparture: z.string().describe("最晚出发时间"),
+        confidenceRange: z
+          .object({ earliest: z.string(), latest: z.string() })
+          .describe("出发时间范围，earliest更稳妥"),
+        basis: z.string().optional().describe("估算依据"),
+        openingHours: z.string().optional(),
+        warnings: z.array(z.string()),
+      })
+      .describe("出发计划"),
+    reminder: taskOutput.describe("出发提醒任务"),
+  }),
+  async handler(args, { db, routing, authorizeWrite }) {
+    // 只有创建出发提醒时才需要tasks领域的写权限
+    let taskDb = db;
+    if (args.createReminder) {
+      const authorization = authorizeWrite("tasks");
+      if (authorization.denial) {
+        return formatResponse({
+          success: false,
+          message: `无法创建出发提醒任务: ${authorization.denial}`,
+          error: authorization.denial,
+        });
+      }
+      taskDb = authorization.db;
+    }
+
+    const planDepartureTool = new PlanDepartureTool(db, routing, taskDb);
+
+    const result = await planDepartureTool.execute({
+      destination: args.destination,
+      arriveBy: args.arriveBy,
+      origin: args.origin,
+      transportation: args.transportation,
+      bufferMinutes: args.bufferMinutes,
+      createReminder: args.createReminder,
+    });
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "规划出发时间失败",
+        error: result.error,
+        plan: result.plan,
+      });
+    }
+
+    return formatResponse(result);
+  },
+});
+
+// 行程中的一段
+const itineraryLegOutput = z
+  .object({
+    from: z.object({ name: z.string(), id: z.string().optional() }),
+    to: z.object({ name: z.string(), id: z.string().optional() }),
+    travelMinutes: z.number().describe("路上用时（分钟）"),
+    departAt: z.string(),
+    arriveAt: z.string(),
+    waitMinutes: z.number().describe("等待开放的时间（分钟）"),
+    dwellMinutes: z.number().describe("停留时间（分钟）"),
+    leaveAt: z.string(),
+    taskId: z.string().optional(),
+    taskName: z.string().optional(),
+    dueDate: z.string().optional(),
+    warnings: z.array(z.string()),
+  })
+  .passthrough();
+
+/**
+ * 规划多站点行程
+ */
+export const planItinerary = defineTool({
+  name: "plan_itinerary",
+  title: "规划多站点行程",
+  description:
+    "给定多个要去的地点（可关联有截止日期的任务），按出行时间估算计算两两用时，考虑开放时间和截止日期求总用时最短的访问顺序，返回每段用时和总时长。无法估算出行时间的站点不排入行程，在unroutable中列出。站点不超过8个时求精确解，更多时使用启发式算法",
+  access: "read",
+  domain: "locations",
+  openWorld: true,
+  inputSchema: z.object({
+    stops: z
+      .array(
+        z.object({
+          location: z.string().min(1).describe("地点名称或ID"),
+          taskId: objectIdInput
+            .optional()
+            .describe("关联任务ID，任务截止日期作为到达期限"),
+          dwellMinutes: z
+            .number()
+            .min(0)
+            .optional()
+            .describe("在该地点停留的时间（分钟）"),
+        })
+      )
+      .min(1)
+      .max(15)
+      .describe("要去的地点"),
+    origin: z
+      .string()
+      .optional()
+      .describe("起点名称或ID（默认为最近一次出行的终点）"),
+    transportation: z
+      .enum(["walking", "bicycling", "driving", "transit"])
+      .default("walking")
+      .describe(
+        "交通方式: walking(步行), bicycling(骑行), driving(驾车), transit(公交)"
+      ),
+    departureTime: dateInput
+      .optional()
+      .describe("出发时间（ISO 8601，默认当前时间）"),
+    returnToOrigin: z.boolean().default(false).describe("是否最后返回起点"),
+  }),
+  outputSchema: toolOutput({
+    itinerary: z
+      .object({
+        origin: z.object({ name: z.string(), id: z.string().optional() }),
+        departureTime: z.string(),
+        legs: z.array(itineraryLegOutput),
+        totalTravelMinutes: z.number(),
+        totalWaitMinutes: z.number(),
+        totalMinutes: z.number().describe("从出发到结束的总时长（分钟）"),
+        finishTime: z.string(),
+        returnToOrigin: z.boolean(),
+        method: z.enum(["exact", "heuristic"]),
+        unroutable: z
+          .array(
+            z.object({
+              location: z.string(),
+              name: z.string().optional(),
+              id: z.string().optional(),
+              reason: z.string(),
+            })
+          )
+          .describe("无法估算出行时间、未排入行程的站点"),
+        warnings: z.array(z.string()),
+      })
+      .describe("规划好的行程"),
+  }),
+  async handler(args, { db, routing }) {
+    const planItineraryTool = new PlanItineraryTool(db, routing);
+
+    const result = await planItineraryTool.execute({
+      stops: args.stops.map((stop) => ({
+        location: stop.location,
+        taskId: stop.taskId,
+        dwellMinutes: stop.dwellMinutes,
+      })),
+      origin: args.origin,
+      transportation: args.transportation,
+      departureTime: args.departureTime,
+      returnToOrigin: args.returnToOrigin,
+    });
+
+    if (!result.success) {
+      return formatResponse({
+        success: false,
+        message: result.message || result.error || "规划行程失败",
+        error: result.error,
+      });
+    }
+
+    return formatResponse(result);
+  },
+});
+
+export const tripTools = [recordTrip, planDeparture, planItinerary];
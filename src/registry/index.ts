@@ -0,0 +1,69 @@
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ToolRegistry } from "./registry.js";
+import { builtinTools } from "./builtin/index.js";
+import type { ToolDefinition } from "./types.js";
+
+export { ToolRegistry } from "./registry.js";
+export type { ListedTool, ToolAnnotations } from "./registry.js";
+export { defineTool } from "./types.js";
+export type {
+  ToolAccess,
+  ToolContext,
+  ToolDefinition,
+  ToolResponse,
+  WriteAuthorization,
+} from "./types.js";
+export { requireAnyOf, refineAll } from "./refinements.js";
+export { calendarDateInput, dateInput, objectIdInput } from "./inputs.js";
+export {
+  FULL_ACCESS_POLICY,
+  READ_ONLY_POLICY,
+  checkDomainAccess,
+  checkToolPolicy,
+  describeToolPolicy,
+  isReadOnlyPolicy,
+  parseDomainSelector,
+  resolveDomainSelector,
+  resolveToolPolicy,
+} from "./policy.js";
+export type { DomainSelector, ToolPolicy } from "./policy.js";
+
+// 服务器使用的全局工具注册表，已包含所有内置工具
+export const toolRegistry = new ToolRegistry();
+toolRegistry.registerAll(builtinTools);
+
+/**
+ * 向全局注册表注册工具
+ * 第三方工具模块可以在被加载时调用此函数注册自己
+ * @param definition 工具定义
+ */
+export function registerTool(definition: ToolDefinition<any>): void {
+  toolRegistry.register(definition);
+}
+
+/**
+ * 加载第三方工具模块
+ * 模块可以在顶层调用registerTool，也可以导出register(registry)函数
+ * @param specifiers 模块路径或包名，相对路径相对于当前工作目录解析
+ * @param registry 注册目标（默认为全局注册表）
+ */
+export async function loadToolModules(
+  specifiers: string[],
+  registry: ToolRegistry = toolRegistry
+): Promise<void> {
+  for (const specifier of specifiers) {
+    const url =
+      specifier.startsWith(".") || isAbsolute(specifier)
+        ? pathToFileURL(resolve(specifier)).href
+        : specifier;
+
+    const module = await import(url);
+
+    if (typeof module.register === "function") {
+      await module.register(registry);
+    }
+
+    console.warn(`已加载工具模块: ${specifier}`);
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { parseIsoDateTime } from "../utils/timezone.js";
+
+/**
+ * ISO 8601日期或日期时间参数，校验通过后转换为Date
+ * 只接受字符串：数字时间戳、布尔值等其他类型以及无法解析的字符串都会被拒绝；
+ * 没有时区偏移时按配置的时区解释
+ */
+export const dateInput = z.string().transform((value, ctx) => {
+  const date = parseIsoDateTime(value);
+  if (!date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `无效的日期: ${value}，请使用ISO 8601格式，如2025-01-01或2025-01-01T08:00:00+08:00`,
+    });
+    return z.NEVER;
+  }
+  return date;
+});
+
+/**
+ * 日期参数（"YYYY-MM-DD"），与任务截止日期和物品日期一样按UTC零点处理，
+ * 以便与按天计算的逾期、到期天数一致
+ */
+export const calendarDateInput = z.string().transform((value, ctx) => {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? parseIsoDateTime(value, "UTC")
+    : null;
+  if (!date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `无效的日期: ${value}，请使用YYYY-MM-DD格式，如2025-01-01`,
+    });
+    return z.NEVER;
+  }
+  return date;
+});
+
+/**
+ * ObjectId参数（24位十六进制字符串），调用工具前即拒绝无法转换为ObjectId的值
+ */
+export const objectIdInput = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "无效的ID，应为24位十六进制字符串");
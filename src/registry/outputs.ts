@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+// 结构化输出与文本输出使用同一份序列化结果：ObjectId为字符串，日期为ISO字符串
+const objectIdOutput = z.string().describe("ObjectId字符串");
+const dateOutput = z.string().describe("ISO 8601时间");
+
+// 结构化笔记
+export const structuredNoteOutput = z
+  .object({
+    timestamp: z.string().optional(),
+    content: z.string(),
+    metadata: z.record(z.any()).optional(),
+  })
+  .passthrough();
+
+// 所有实体共享的字段
+const baseDocumentOutput = z
+  .object({
+    _id: objectIdOutput,
+    createdAt: dateOutput.optional(),
+    updatedAt: dateOutput.optional(),
+  })
+  .passthrough();
+
+// 物品
+export const itemOutput = baseDocumentOutput
+  .extend({
+    name: z.string(),
+    category: z.string().optional(),
+    status: z.string().optional(),
+    quantity: z.number().optional(),
+    unit: z.string().optional(),
+    minQuantity: z.number().nullable().optional(),
+    expiryDate: dateOutput.nullable().optional(),
+    warrantyEndDate: dateOutput.nullable().optional(),
+    nextMaintenanceDate: dateOutput.nullable().optional(),
+    lastMaintenanceDate: dateOutput.optional(),
+    maintenanceInterval: z
+      .object({ value: z.number(), unit: z.string() })
+      .nullable()
+      .optional(),
+    isContainer: z.boolean().optional(),
+    locationId: objectIdOutput.nullable().optional(),
+    containerId: objectIdOutput.nullable().optional(),
+    containedItems: z.array(objectIdOutput).optional(),
+    // 早期数据的备注为字符串
+    notes: z.union([z.string(), z.array(structuredNoteOutput)]).optional(),
+  })
+  .passthrough();
+
+// 位置
+export const locationOutput = baseDocumentOutput
+  .extend({
+    name: z.string(),
+    type: z.string().optional(),
+    address: z.string().optional(),
+    parentLocationId: objectIdOutput.nullable().optional(),
+    childLocations: z.array(objectIdOutput).optional(),
+    coordinates: z
+      .object({
+        latitude: z.number().optional(),
+        longitude: z.number().optional(),
+      })
+      .passthrough()
+      .optional(),
+    openingHours: z.string().optional(),
+  })
+  .passthrough();
+
+// 联系人
+export const contactOutput = baseDocumentOutput
+  .extend({
+    name: z.string(),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    school: z.string().optional(),
+    relationship: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+// 生物数据记录
+export const bioDataOutput = baseDocumentOutput
+  .extend({
+    recordName: z.string().optional(),
+    measurementType: z.string(),
+    value: z.number(),
+    unit: z.string().optional(),
+    isLatest: z.boolean().optional(),
+    measuredAt: dateOutput.optional(),
+  })
+  .passthrough();
+
+// 任务
+export const taskOutput = baseDocumentOutput
+  .extend({
+    name: z.string(),
+    status: z.string().optional(),
+    dueDate: dateOutput.nullable().optional(),
+    priority: z.string().optional(),
+    taskType: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+// 出行记录
+export const tripOutput = baseDocumentOutput
+  .extend({
+    originId: objectIdOutput,
+    originName: z.string(),
+    destinationId: objectIdOutput,
+    destinationName: z.string(),
+    mode: z.string(),
+    startTime: dateOutput,
+    endTime: dateOutput,
+    duration: z.number().describe("用时（分钟）"),
+    notes: z.string().optional(),
+  })
+  .passthrough();
+
+// 借出记录
+export const loanOutput = baseDocumentOutput
+  .extend({
+    itemId: objectIdOutput,
+    itemName: z.string(),
+    contactId: objectIdOutput,
+    contactName: z.string(),
+    lentAt: dateOutput,
+    dueDate: dateOutput.optional(),
+    returnedAt: dateOutput.optional(),
+    status: z.enum(["outstanding", "returned"]),
+    note: z.string().optional(),
+    returnNote: z.string().optional(),
+  })
+  .passthrough();
+
+// 多文档写操作失败时的回滚详情
+export const rollbackOutput = z
+  .object({
+    mode: z
+      .enum(["transaction", "compensation"])
+      .describe("数据库事务或补偿撤销"),
+    rolledBack: z.boolean().describe("已执行的修改是否全部撤销"),
+    writtenDocuments: z.number().describe("补偿模式下失败前已修改的文档数量"),
+    unrestored: z
+      .array(
+        z.object({
+          collection: z.string(),
+          entityId: objectIdOutput,
+          error: z.string(),
+        })
+      )
+      .describe("未能恢复的文档"),
+  })
+  .describe("失败时的回滚详情");
+
+/**
+ * 生成工具结构化输出的模式
+ * 所有工具共享success/message/error字段，其余字段依结果而定，均为可选
+ * @param shape 工具特有的输出字段
+ */
+export function toolOutput<T extends z.ZodRawShape>(shape: T) {
+  return z
+    .object({
+      success: z.boolean().optional().describe("操作是否成功"),
+      message: z.string().optional().describe("可读的结果说明"),
+      error: z.string().optional().describe("错误信息"),
+    })
+    .extend(shape)
+    .partial()
+    .passthrough();
+}
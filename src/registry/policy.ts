@@ -0,0 +1,182 @@
+import type { ToolAccess, ToolDefinition } from "./types.js";
+
+// 领域列表，"*"表示全部领域
+export type DomainSelector = string[] | "*";
+
+/**
+ * 工具权限策略
+ * 读工具始终允许；写工具要求所属领域可写；
+ * 破坏性工具还要求所属领域允许破坏性操作
+ */
+export interface ToolPolicy {
+  // 允许写操作的领域
+  writableDomains: DomainSelector;
+  // 允许破坏性操作（删除等）的领域
+  destructiveDomains: DomainSelector;
+  // 无论分类如何都禁用的工具
+  deniedTools: string[];
+}
+
+// 默认策略：允许所有操作
+export const FULL_ACCESS_POLICY: ToolPolicy = {
+  writableDomains: "*",
+  destructiveDomains: "*",
+  deniedTools: [],
+};
+
+// 只读策略：只允许读工具
+export const READ_ONLY_POLICY: ToolPolicy = {
+  writableDomains: [],
+  destructiveDomains: [],
+  deniedTools: [],
+};
+
+/**
+ * 判断领域是否被选中
+ */
+function includesDomain(selector: DomainSelector, domain: string): boolean {
+  return selector === "*" || selector.includes(domain);
+}
+
+/**
+ * 检查策略是否允许调用工具
+ * @param tool 工具定义
+ * @param policy 权限策略
+ * @returns 不允许时返回原因，允许时返回null
+ */
+export function checkToolPolicy(
+  tool: ToolDefinition,
+  policy: ToolPolicy
+): string | null {
+  if (policy.deniedTools.includes(tool.name)) {
+    return `工具 '${tool.name}' 已被策略禁用`;
+  }
+
+  return checkDomainAccess(tool.domain, tool.access, policy);
+}
+
+/**
+ * 检查策略是否允许对领域执行某类操作
+ * 供需要按实际修改的数据授权的工具（如撤销）使用
+ * @param domain 领域
+ * @param access 操作分类
+ * @param policy 权限策略
+ * @returns 不允许时返回原因，允许时返回null
+ */
+export function checkDomainAccess(
+  domain: string,
+  access: ToolAccess,
+  policy: ToolPolicy
+): string | null {
+  if (access === "read") {
+    return null;
+  }
+
+  if (!includesDomain(policy.writableDomains, domain)) {
+    return `领域 '${domain}' 不允许写操作`;
+  }
+
+  if (
+    access === "destructive" &&
+    !includesDomain(policy.destructiveDomains, domain)
+  ) {
+    return `领域 '${domain}' 不允许破坏性操作`;
+  }
+
+  return null;
+}
+
+/**
+ * 策略是否为只读（不允许任何写操作）
+ * @param policy 权限策略
+ */
+export function isReadOnlyPolicy(policy: ToolPolicy): boolean {
+  return policy.writableDomains !== "*" && policy.writableDomains.length === 0;
+}
+
+/**
+ * 解析逗号分隔的领域列表
+ * "*"或"all"表示全部领域，"none"或空字符串表示不选任何领域
+ * @param value 领域列表字符串
+ */
+export function parseDomainSelector(value: string): DomainSelector {
+  const trimmed = value.trim();
+
+  if (trimmed === "*" || trimmed === "all") {
+    return "*";
+  }
+
+  if (trimmed === "" || trimmed === "none") {
+    return [];
+  }
+
+  return trimmed
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 把领域列表中的名称对应到已注册的领域名称（不区分大小写）
+ * 如"biodata"对应"bioData"
+ * @param selector 领域列表
+ * @param knownDomains 已注册工具的领域
+ * @returns 对应后的领域列表，以及无法对应的名称
+ */
+export function resolveDomainSelector(
+  selector: DomainSelector,
+  knownDomains: string[]
+): { selector: DomainSelector; unknown: string[] } {
+  if (selector === "*") {
+    return { selector, unknown: [] };
+  }
+
+  const resolved: string[] = [];
+  const unknown: string[] = [];
+
+  for (const name of selector) {
+    const domain = knownDomains.find(
+      (known) => known.toLowerCase() === name.toLowerCase()
+    );
+    if (!domain) {
+      unknown.push(name);
+    } else if (!resolved.includes(domain)) {
+      resolved.push(domain);
+    }
+  }
+
+  return { selector: resolved, unknown };
+}
+
+/**
+ * 根据只读模式和配置的策略得到最终生效的策略
+ * 只读模式优先于任何写权限配置，但保留禁用工具列表
+ * @param isReadOnlyMode 是否只读模式
+ * @param policy 配置的策略
+ */
+export function resolveToolPolicy(
+  isReadOnlyMode: boolean,
+  policy: ToolPolicy = FULL_ACCESS_POLICY
+): ToolPolicy {
+  if (isReadOnlyMode) {
+    return { ...READ_ONLY_POLICY, deniedTools: policy.deniedTools };
+  }
+  return policy;
+}
+
+/**
+ * 生成策略的简要描述，用于启动日志
+ * @param policy 权限策略
+ */
+export function describeToolPolicy(policy: ToolPolicy): string {
+  const formatSelector = (selector: DomainSelector) =>
+    selector === "*" ? "全部" : selector.length > 0 ? selector.join(", ") : "无";
+
+  let description = `可写领域: ${formatSelector(policy.writableDomains)}; 可删除领域: ${formatSelector(policy.destructiveDomains)}`;
+
+  if (policy.deniedTools.length > 0) {
+    description += `; 禁用工具: ${policy.deniedTools.join(", ")}`;
+  }
+
+  return description;
+}
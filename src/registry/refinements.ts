@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+/**
+ * 判断参数是否已提供（undefined、null、空字符串和false视为未提供）
+ */
+function isProvided(value: unknown): boolean {
+  return (
+    value !== undefined && value !== null && value !== "" && value !== false
+  );
+}
+
+/**
+ * 要求至少提供一组参数中的一个
+ * 用于"ID或名称"、"至少一个更新字段"等无法用必填字段表达的约束
+ * @param keys 参数名列表
+ * @param message 校验失败时的错误信息
+ * @returns 可传给superRefine的校验函数
+ */
+export function requireAnyOf<T extends Record<string, any>>(
+  keys: (keyof T & string)[],
+  message: string
+) {
+  return (value: T, ctx: z.RefinementCtx) => {
+    if (!keys.some((key) => isProvided(value[key]))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  };
+}
+
+/**
+ * 组合多个superRefine校验函数
+ * @param checks 校验函数列表
+ * @returns 依次执行所有校验的函数
+ */
+export function refineAll<T>(
+  ...checks: ((value: T, ctx: z.RefinementCtx) => void)[]
+) {
+  return (value: T, ctx: z.RefinementCtx) => {
+    for (const check of checks) {
+      check(value, ctx);
+    }
+  };
+}
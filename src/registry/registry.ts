@@ -0,0 +1,281 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ObjectId } from "mongodb";
+import { AuditedStorage } from "../storage/audit.js";
+import type { Storage } from "../storage/types.js";
+import type {
+  ToolContext,
+  ToolDefinition,
+  ToolResponse,
+  WriteAuthorization,
+} from "./types.js";
+import {
+  checkDomainAccess,
+  checkToolPolicy,
+  isReadOnlyPolicy,
+  type ToolPolicy,
+} from "./policy.js";
+
+// 工具行为提示，供客户端判断调用是否安全
+export interface ToolAnnotations {
+  title: string;
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean;
+}
+
+// tools/list 中的工具描述
+export interface ListedTool {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: { type: "object"; [key: string]: unknown };
+  outputSchema?: { type: "object"; [key: string]: unknown };
+  annotations: ToolAnnotations;
+}
+
+/**
+ * 参数校验的中文错误信息
+ */
+const validationErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === "undefined") {
+        return { message: "缺少必填参数" };
+      }
+      return {
+        message: `类型错误，应为${issue.expected}，实际为${issue.received}`,
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+      return {
+        message: `无效的取值: ${issue.received}，可选: ${issue.options.join(", ")}`,
+      };
+    case z.ZodIssueCode.too_small:
+      if (issue.type === "string") {
+        return {
+          message:
+            issue.minimum === 1 ? "不能为空" : `长度不能小于 ${issue.minimum}`,
+        };
+      }
+      return { message: `不能小于 ${issue.minimum}` };
+    case z.ZodIssueCode.too_big:
+      return { message: `不能大于 ${issue.maximum}` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+/**
+ * 将校验错误格式化为一行可读信息
+ * @param error zod校验错误
+ */
+function formatValidationIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * 工具注册表
+ * 保存所有工具定义，并据此生成工具列表、校验参数和路由调用
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  /**
+   * 注册工具
+   * @param definition 工具定义
+   * @throws 工具名称已被注册时抛出错误
+   */
+  register(definition: ToolDefinition<any>): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`工具 '${definition.name}' 已注册`);
+    }
+    this.tools.set(definition.name, definition);
+  }
+
+  /**
+   * 批量注册工具
+   * @param definitions 工具定义列表
+   */
+  registerAll(definitions: ToolDefinition<any>[]): void {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * 取消注册工具
+   * @param name 工具名称
+   * @returns 是否存在并已移除
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * 获取工具定义
+   * @param name 工具名称
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * 工具是否已注册
+   * @param name 工具名称
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * 按注册顺序列出所有工具定义
+   */
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * 列出已注册工具所属的全部领域（按首次出现的顺序，不重复）
+   */
+  listDomains(): string[] {
+    return Array.from(new Set(this.list().map((tool) => tool.domain)));
+  }
+
+  /**
+   * 生成tools/list响应中的工具列表
+   * 不包含权限策略不允许调用的工具
+   * @param policy 权限策略
+   */
+  listTools(policy: ToolPolicy): ListedTool[] {
+    return this.list()
+      .filter((tool) => checkToolPolicy(tool, policy) === null)
+      .map((tool) => ({
+        name: tool.name,
+        title: tool.title,
+        description: tool.description,
+        inputSchema: toObjectSchema(tool.inputSchema),
+        ...(tool.outputSchema && {
+          outputSchema: toObjectSchema(tool.outputSchema),
+        }),
+        annotations: toAnnotations(tool),
+      }));
+  }
+
+  /**
+   * 校验参数并调用工具
+   * 写工具对存储的修改会记录到审计日志
+   * @param name 工具名称
+   * @param args 原始参数
+   * @param context 执行上下文
+   * @throws 工具不存在、权限策略不允许或参数校验失败时抛出错误
+   */
+  async call(
+    name: string,
+    args: Record<string, unknown>,
+    context: Omit<ToolContext, "authorizeWrite">
+  ): Promise<ToolResponse> {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      throw new Error(`未知操作: ${name}`);
+    }
+
+    // 检查权限策略是否允许执行该操作
+    const denial = checkToolPolicy(tool, context.policy);
+    if (denial) {
+      if (isReadOnlyPolicy(context.policy) && tool.access !== "read") {
+        throw new Error(`ReadonlyError: 操作 '${name}' 在只读模式下不允许`);
+      }
+      throw new Error(`PermissionError: 操作 '${name}' 不被允许: ${denial}`);
+    }
+
+    const parsed = tool.inputSchema.safeParse(args, {
+      errorMap: validationErrorMap,
+    });
+
+    if (!parsed.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `工具 '${name}' 参数验证失败: ${formatValidationIssues(parsed.error)}`
+      );
+    }
+
+    // 写操作经由审计存储执行，记录本次调用修改的每个文档；
+    // 读工具只在按参数需要写入并通过权限检查时才创建审计存储
+    let audited: { db: Storage; callId: ObjectId } | null = null;
+    const openAudited = () => {
+      if (!audited) {
+        const callId = new ObjectId();
+        audited = {
+          callId,
+          db: new AuditedStorage(context.db, {
+            callId,
+            actor: context.actor,
+            tool: name,
+            arguments: args,
+          }),
+        };
+      }
+      return audited;
+    };
+
+    const authorizeWrite = (domain: string): WriteAuthorization => {
+      const denial = checkDomainAccess(domain, "write", context.policy);
+      if (denial) {
+        return {
+          denial: isReadOnlyPolicy(context.policy)
+            ? `只读模式下不允许写入领域 '${domain}'`
+            : denial,
+        };
+      }
+      return openAudited();
+    };
+
+    if (tool.access === "read") {
+      return tool.handler(parsed.data, { ...context, authorizeWrite });
+    }
+
+    const { db, callId } = openAudited();
+    return tool.handler(parsed.data, {
+      ...context,
+      db,
+      callId,
+      authorizeWrite,
+    });
+  }
+}
+
+/**
+ * 根据工具定义生成行为提示
+ * @param tool 工具定义
+ */
+function toAnnotations(tool: ToolDefinition): ToolAnnotations {
+  const readOnly = tool.access === "read" && !tool.mayWrite;
+  return {
+    title: tool.title,
+    readOnlyHint: readOnly,
+    destructiveHint: tool.access === "destructive",
+    idempotentHint: tool.idempotent ?? readOnly,
+    openWorldHint: tool.openWorld ?? false,
+  };
+}
+
+/**
+ * 将zod模式转换为tools/list使用的JSON Schema
+ * @param schema zod参数或输出模式
+ */
+function toObjectSchema(schema: z.ZodTypeAny): ListedTool["inputSchema"] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  return { ...jsonSchema, type: "object" };
+}
@@ -0,0 +1,78 @@
+import type { z } from "zod";
+import type { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import type { ToolResponse } from "../utils/response.js";
+import type { ToolPolicy } from "./policy.js";
+import type { RoutingProvider } from "../routing/types.js";
+
+export type { ToolResponse } from "../utils/response.js";
+
+// 工具的操作分类：只读、写入、破坏性（删除等不可逆操作）
+export type ToolAccess = "read" | "write" | "destructive";
+
+// 工具处理器的执行上下文
+export interface ToolContext {
+  // 存储后端
+  db: Storage;
+  // 服务器是否处于只读模式
+  isReadOnlyMode: boolean;
+  // 生效的权限策略
+  policy: ToolPolicy;
+  // 调用方标识（客户端名称/版本），写入审计日志
+  actor: string;
+  // 本次调用的ID，仅写工具有，与审计日志中的callId一致
+  callId?: ObjectId;
+  // 路线服务（地理编码、路径规划）
+  routing: RoutingProvider;
+  // 按参数需要写入某个领域前调用（如读工具可选创建提醒任务）：
+  // 策略允许写入该领域时返回经由审计存储的后端，否则返回不允许的原因
+  authorizeWrite: (domain: string) => WriteAuthorization;
+}
+
+// 写权限检查结果
+export type WriteAuthorization =
+  | { db: Storage; callId: ObjectId; denial?: undefined }
+  | { db?: undefined; callId?: undefined; denial: string };
+
+/**
+ * 工具定义
+ * 名称、参数模式、操作分类和处理器只在此处声明一次，
+ * 工具列表、参数校验和调用路由均由注册表根据定义生成
+ */
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  // 工具名称（全局唯一）
+  name: string;
+  // 展示给用户的标题
+  title: string;
+  // 工具描述
+  description: string;
+  // 操作分类，由权限策略决定是否可见、可调用
+  access: ToolAccess;
+  // 所属领域（通常为写入的集合名），权限策略按领域授权
+  domain: string;
+  // 只读工具是否可能按参数经authorizeWrite写入（如可选创建提醒任务），
+  // 为true时行为提示中不标为只读
+  mayWrite?: boolean;
+  // 相同参数重复调用是否不会产生额外影响（默认不写入的工具为true，其余为false）
+  idempotent?: boolean;
+  // 是否访问外部系统（如高德地图）
+  openWorld?: boolean;
+  // 参数模式，调用前用于校验并转换参数
+  inputSchema: S;
+  // 结构化输出（structuredContent）的模式
+  outputSchema?: z.ZodTypeAny;
+  // 处理器，接收校验后的参数
+  handler: (args: z.output<S>, context: ToolContext) => Promise<ToolResponse>;
+}
+
+/**
+ * 声明工具定义
+ * 仅用于推导处理器参数类型，不会注册工具
+ * @param definition 工具定义
+ * @returns 原样返回的工具定义
+ */
+export function defineTool<S extends z.ZodTypeAny>(
+  definition: ToolDefinition<S>
+): ToolDefinition<S> {
+  return definition;
+}
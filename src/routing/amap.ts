@@ -0,0 +1,192 @@
+import axios from "axios";
+import { DEFAULT_SPEEDS } from "./geo.js";
+import { convertCoordinates } from "./datum.js";
+import type {
+  Coordinates,
+  GeocodeResult,
+  ReverseGeocodeResult,
+  RouteResult,
+  RoutingProvider,
+  TravelMode,
+} from "./types.js";
+
+// 各交通方式对应的高德地图路径规划API端点
+const ROUTE_ENDPOINTS: Record<TravelMode, string> = {
+  walking: "https://restapi.amap.com/v5/direction/walking",
+  bicycling: "https://restapi.amap.com/v5/direction/bicycling",
+  driving: "https://restapi.amap.com/v5/direction/driving",
+  transit: "https://restapi.amap.com/v5/direction/transit/integrated",
+};
+
+/**
+ * 高德地图路线服务
+ * 通过高德Web服务API进行地理编码、逆地理编码和路径规划；
+ * 高德使用GCJ-02坐标系，其他坐标系的输入坐标在请求前转换
+ */
+export class AmapRoutingProvider implements RoutingProvider {
+  readonly name = "amap";
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * 地理编码 - 将地址转换为坐标
+   * @param address 地址或地名
+   * @returns 第一个匹配结果，无匹配时为null
+   */
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const url = `https://restapi.amap.com/v3/geocode/geo?address=${encodeURIComponent(
+      address
+    )}&key=${this.apiKey}`;
+    const data = await this.request(url);
+
+    if (!data.geocodes || data.geocodes.length === 0) {
+      return null;
+    }
+
+    const geocode = data.geocodes[0];
+    return {
+      coordinates: parseLocation(geocode.location),
+      formattedAddress: geocode.formatted_address,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 逆地理编码 - 将坐标转换为地址
+   * @param coordinates 坐标
+   * @returns 地址信息，无结果时为null
+   */
+  async reverseGeocode(
+    coordinates: Coordinates
+  ): Promise<ReverseGeocodeResult | null> {
+    const url = `https://restapi.amap.com/v3/geocode/regeo?location=${formatLocation(
+      coordinates
+    )}&key=${this.apiKey}`;
+    const data = await this.request(url);
+
+    const address = data.regeocode?.formatted_address;
+    // 无结果时高德返回空数组而不是字符串
+    if (!address || typeof address !== "string") {
+      return null;
+    }
+
+    return { address, provider: this.name };
+  }
+
+  /**
+   * 路径规划
+   * @param origin 起点坐标
+   * @param destination 终点坐标
+   * @param mode 交通方式
+   * @returns 第一条路线，无可行路线时为null
+   */
+  async route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
+    const endpoint = ROUTE_ENDPOINTS[mode] ?? ROUTE_ENDPOINTS.walking;
+    let url = `${endpoint}?key=${this.apiKey}&origin=${formatLocation(
+      origin
+    )}&destination=${formatLocation(destination)}`;
+
+    // 如果是公交方式，需要额外参数
+    if (mode === "transit") {
+      url += "&city1=010&city2=010"; // 默认北京市编码
+    }
+
+    const data = await this.request(url);
+
+    let distance = 0;
+    let duration = 0;
+
+    if (mode === "transit") {
+      // 公交规划
+      const transit = data.route?.transits?.[0];
+      if (!transit) {
+        return null;
+      }
+      distance = parseInt(transit.distance) || 0;
+
+      // 公交API没有直接返回duration，需要按分段累加
+      for (const segment of transit.segments || []) {
+        if (segment.walking && segment.walking.duration) {
+          duration += parseInt(segment.walking.duration) || 0;
+        }
+        if (segment.bus && segment.bus.duration) {
+          duration += parseInt(segment.bus.duration) || 0;
+        }
+        if (segment.railway && segment.railway.duration) {
+          duration += parseInt(segment.railway.duration) || 0;
+        }
+      }
+
+      // 转换为分钟
+      duration = duration / 60;
+    } else {
+      // 步行、骑行或驾车规划
+      const path = data.route?.paths?.[0];
+      if (!path) {
+        return null;
+      }
+      distance = parseInt(path.distance) || 0;
+
+      if (path.duration) {
+        // 转换为分钟
+        duration = (parseInt(path.duration) || 0) / 60;
+      } else {
+        // 未返回时长时使用默认速度计算
+        duration = distance / DEFAULT_SPEEDS[mode];
+      }
+    }
+
+    return {
+      distance,
+      duration,
+      personalized: false,
+      raw: data.route,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 调用高德API并校验响应状态
+   * @param url 请求URL
+   * @returns 响应数据
+   */
+  private async request(url: string): Promise<any> {
+    const response = await axios.get(url);
+    const data = response.data;
+
+    if (data.status !== "1") {
+      throw new Error(`高德地图API调用失败: ${data.info || "未知错误"}`);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * 解析高德"经度,纬度"格式的坐标
+ * @param location 坐标字符串
+ */
+function parseLocation(location: string): Coordinates {
+  const [longitude, latitude] = location.split(",");
+  return {
+    longitude: parseFloat(longitude),
+    latitude: parseFloat(latitude),
+    system: "gcj02",
+  };
+}
+
+/**
+ * 格式化为高德"经度,纬度"格式的GCJ-02坐标
+ * @param coordinates 坐标
+ */
+function formatLocation(coordinates: Coordinates): string {
+  const { longitude, latitude } = convertCoordinates(coordinates, "gcj02");
+  return `${longitude},${latitude}`;
+}
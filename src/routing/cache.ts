@@ -0,0 +1,147 @@
+import type { Storage } from "../storage/types.js";
+import { RouteCacheModel, toPointKey } from "../model/routeCache.js";
+import type { RouteCacheKind } from "../model/types.js";
+import type {
+  Coordinates,
+  GeocodeResult,
+  ReverseGeocodeResult,
+  RouteResult,
+  RoutingProvider,
+  TravelMode,
+} from "./types.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// 缓存有效期（毫秒）
+export interface RouteCacheTtl {
+  geocode: number;
+  reverseGeocode: number;
+  // 各交通方式的路径规划结果
+  route: Record<TravelMode, number>;
+}
+
+// 默认有效期：地名和地址很少变化；驾车和公交受路况、时刻表影响，有效期较短
+export const DEFAULT_ROUTE_CACHE_TTL: RouteCacheTtl = {
+  geocode: 30 * DAY,
+  reverseGeocode: 30 * DAY,
+  route: {
+    walking: 7 * DAY,
+    bicycling: 7 * DAY,
+    driving: DAY,
+    transit: DAY,
+  },
+};
+
+/**
+ * 带缓存的路线服务
+ * 把地理编码、逆地理编码和路径规划的结果按地址或坐标、交通方式保存到存储中，
+ * 有效期内直接返回缓存结果（标注cachedAt）。无结果（null）和请求失败不缓存；
+ * 缓存读写出错时记录警告并直接调用路线服务；只读时只读取缓存，
+ * 不写入也不清除过期条目
+ */
+export class CachedRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private provider: RoutingProvider;
+  private cache: RouteCacheModel;
+  private ttl: RouteCacheTtl;
+  private readOnly: boolean;
+
+  /**
+   * @param provider 被缓存的路线服务
+   * @param db 存储后端
+   * @param ttl 缓存有效期
+   * @param readOnly 是否只读取缓存（服务器处于只读模式时）
+   */
+  constructor(
+    provider: RoutingProvider,
+    db: Storage,
+    ttl: RouteCacheTtl = DEFAULT_ROUTE_CACHE_TTL,
+    readOnly = false
+  ) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.cache = new RouteCacheModel(db);
+    this.ttl = ttl;
+    this.readOnly = readOnly;
+  }
+
+  geocode(address: string): Promise<GeocodeResult | null> {
+    const normalized = address.trim();
+    return this.cached(
+      {
+        key: `geocode:${normalized}`,
+        kind: "geocode",
+        address: normalized,
+        points: [],
+      },
+      this.ttl.geocode,
+      () => this.provider.geocode(address)
+    );
+  }
+
+  reverseGeocode(
+    coordinates: Coordinates
+  ): Promise<ReverseGeocodeResult | null> {
+    const point = toPointKey(coordinates);
+    return this.cached(
+      { key: `reverseGeocode:${point}`, kind: "reverseGeocode", points: [point] },
+      this.ttl.reverseGeocode,
+      () => this.provider.reverseGeocode(coordinates)
+    );
+  }
+
+  route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
+    const from = toPointKey(origin);
+    const to = toPointKey(destination);
+    return this.cached(
+      { key: `route:${mode}:${from}>${to}`, kind: "route", points: [from, to] },
+      this.ttl.route[mode] ?? this.ttl.route.walking,
+      () => this.provider.route(origin, destination, mode)
+    );
+  }
+
+  /**
+   * 先读缓存，未命中时调用路线服务并写入缓存
+   * @param entry 缓存键和用于失效的信息
+   * @param ttl 有效期（毫秒）
+   * @param call 对路线服务的调用
+   */
+  private async cached<R extends { provider: string; cachedAt?: Date }>(
+    entry: {
+      key: string;
+      kind: RouteCacheKind;
+      address?: string;
+      points: string[];
+    },
+    ttl: number,
+    call: () => Promise<R | null>
+  ): Promise<R | null> {
+    try {
+      const hit = await this.cache.get(entry.key, !this.readOnly);
+      if (hit) {
+        return { ...(hit.result as R), cachedAt: hit.createdAt };
+      }
+    } catch (error) {
+      console.warn(`读取路线缓存失败: ${error}`);
+    }
+
+    const result = await call();
+
+    if (result && !this.readOnly) {
+      try {
+        await this.cache.set(
+          { ...entry, provider: result.provider, result },
+          ttl
+        );
+      } catch (error) {
+        console.warn(`写入路线缓存失败: ${error}`);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,205 @@
+import type { Coordinates, CoordinateSystem } from "./types.js";
+
+// 支持的坐标系
+export const COORDINATE_SYSTEMS = ["wgs84", "gcj02", "bd09"] as const;
+
+// 位置坐标统一以该坐标系存储（与高德地图一致）；未标注坐标系的旧数据按此处理
+export const STORAGE_COORDINATE_SYSTEM: CoordinateSystem = "gcj02";
+
+// GCJ-02使用的克拉索夫斯基椭球参数
+const KRASOVSKY_A = 6378245.0;
+const KRASOVSKY_EE = 0.00669342162296594323;
+// BD-09转换使用的常数
+const BD_X_PI = (Math.PI * 3000.0) / 180.0;
+// GCJ-02反算WGS-84的迭代精度（度，约1厘米）
+const INVERSE_PRECISION = 1e-7;
+const INVERSE_MAX_ITERATIONS = 30;
+
+/**
+ * 坐标是否在中国境内（粗略矩形范围）
+ * 境外坐标不做GCJ-02偏移，与高德等服务的处理一致
+ * @param coordinates 坐标
+ */
+export function isInChina(coordinates: Coordinates): boolean {
+  const { latitude, longitude } = coordinates;
+  return (
+    longitude >= 72.004 &&
+    longitude <= 137.8347 &&
+    latitude >= 0.8293 &&
+    latitude <= 55.8271
+  );
+}
+
+/**
+ * 在坐标系之间转换坐标
+ * @param coordinates 坐标
+ * @param to 目标坐标系
+ * @param from 源坐标系（默认为坐标自身标注的坐标系，否则为存储坐标系）
+ * @returns 转换后的坐标（标注目标坐标系）
+ */
+export function convertCoordinates(
+  coordinates: Coordinates,
+  to: CoordinateSystem,
+  from: CoordinateSystem = coordinates.system ?? STORAGE_COORDINATE_SYSTEM
+): Coordinates {
+  let point: Coordinates = {
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+  };
+
+  if (from !== to) {
+    // 统一经GCJ-02中转
+    if (from === "wgs84") point = wgs84ToGcj02(point);
+    if (from === "bd09") point = bd09ToGcj02(point);
+    if (to === "wgs84") point = gcj02ToWgs84(point);
+    if (to === "bd09") point = gcj02ToBd09(point);
+  }
+
+  return { ...point, system: to };
+}
+
+/**
+ * 将坐标转换为存储坐标系
+ * @param coordinates 坐标
+ * @param from 源坐标系（默认为坐标自身标注的坐标系，否则视为已是存储坐标系）
+ * @returns 标注了存储坐标系的坐标
+ */
+export function normalizeCoordinates(
+  coordinates: Coordinates,
+  from?: CoordinateSystem
+): Coordinates {
+  return convertCoordinates(coordinates, STORAGE_COORDINATE_SYSTEM, from);
+}
+
+/**
+ * WGS-84转GCJ-02
+ */
+function wgs84ToGcj02(point: Coordinates): Coordinates {
+  if (!isInChina(point)) {
+    return point;
+  }
+  const [dLat, dLng] = gcj02Offset(point);
+  return {
+    latitude: point.latitude + dLat,
+    longitude: point.longitude + dLng,
+  };
+}
+
+/**
+ * GCJ-02转WGS-84
+ * 偏移没有解析逆运算，从GCJ-02坐标出发迭代修正
+ */
+function gcj02ToWgs84(point: Coordinates): Coordinates {
+  if (!isInChina(point)) {
+    return point;
+  }
+  let result = { ...point };
+  for (let i = 0; i < INVERSE_MAX_ITERATIONS; i++) {
+    const shifted = wgs84ToGcj02(result);
+    const dLat = shifted.latitude - point.latitude;
+    const dLng = shifted.longitude - point.longitude;
+    result = {
+      latitude: result.latitude - dLat,
+      longitude: result.longitude - dLng,
+    };
+    if (
+      Math.abs(dLat) < INVERSE_PRECISION &&
+      Math.abs(dLng) < INVERSE_PRECISION
+    ) {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * GCJ-02转BD-09
+ */
+function gcj02ToBd09(point: Coordinates): Coordinates {
+  const x = point.longitude;
+  const y = point.latitude;
+  const z = Math.sqrt(x * x + y * y) + 0.00002 * Math.sin(y * BD_X_PI);
+  const theta = Math.atan2(y, x) + 0.000003 * Math.cos(x * BD_X_PI);
+  return {
+    latitude: z * Math.sin(theta) + 0.006,
+    longitude: z * Math.cos(theta) + 0.0065,
+  };
+}
+
+/**
+ * BD-09转GCJ-02
+ */
+function bd09ToGcj02(point: Coordinates): Coordinates {
+  const x = point.longitude - 0.0065;
+  const y = point.latitude - 0.006;
+  const z = Math.sqrt(x * x + y * y) - 0.00002 * Math.sin(y * BD_X_PI);
+  const theta = Math.atan2(y, x) - 0.000003 * Math.cos(x * BD_X_PI);
+  return {
+    latitude: z * Math.sin(theta),
+    longitude: z * Math.cos(theta),
+  };
+}
+
+/**
+ * 计算WGS-84坐标的GCJ-02偏移量
+ * @returns [纬度偏移, 经度偏移]（度）
+ */
+function gcj02Offset(point: Coordinates): [number, number] {
+  const x = point.longitude - 105.0;
+  const y = point.latitude - 35.0;
+
+  let dLat =
+    -100.0 +
+    2.0 * x +
+    3.0 * y +
+    0.2 * y * y +
+    0.1 * x * y +
+    0.2 * Math.sqrt(Math.abs(x));
+  dLat +=
+    ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) *
+      2.0) /
+    3.0;
+  dLat +=
+    ((20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin((y / 3.0) * Math.PI)) *
+      2.0) /
+    3.0;
+  dLat +=
+    ((160.0 * Math.sin((y / 12.0) * Math.PI) +
+      320 * Math.sin((y * Math.PI) / 30.0)) *
+      2.0) /
+    3.0;
+
+  let dLng =
+    300.0 +
+    x +
+    2.0 * y +
+    0.1 * x * x +
+    0.1 * x * y +
+    0.1 * Math.sqrt(Math.abs(x));
+  dLng +=
+    ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) *
+      2.0) /
+    3.0;
+  dLng +=
+    ((20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin((x / 3.0) * Math.PI)) *
+      2.0) /
+    3.0;
+  dLng +=
+    ((150.0 * Math.sin((x / 12.0) * Math.PI) +
+      300.0 * Math.sin((x / 30.0) * Math.PI)) *
+      2.0) /
+    3.0;
+
+  const radLat = (point.latitude / 180.0) * Math.PI;
+  let magic = Math.sin(radLat);
+  magic = 1 - KRASOVSKY_EE * magic * magic;
+  const sqrtMagic = Math.sqrt(magic);
+
+  dLat =
+    (dLat * 180.0) /
+    (((KRASOVSKY_A * (1 - KRASOVSKY_EE)) / (magic * sqrtMagic)) * Math.PI);
+  dLng =
+    (dLng * 180.0) / ((KRASOVSKY_A / sqrtMagic) * Math.cos(radLat) * Math.PI);
+
+  return [dLat, dLng];
+}
@@ -0,0 +1,78 @@
+import { DEFAULT_SPEEDS, haversineDistance } from "./geo.js";
+import type {
+  Coordinates,
+  GeocodeResult,
+  ReverseGeocodeResult,
+  RouteResult,
+  RoutingProvider,
+  TravelMode,
+} from "./types.js";
+
+// 模拟路线服务收到的调用
+export interface FakeRoutingCall {
+  method: "geocode" | "reverseGeocode" | "route";
+  args: unknown[];
+}
+
+/**
+ * 模拟路线服务，用于测试
+ * 不访问外部系统：只能地理编码构造时给定的地名，
+ * 路径规划按直线距离和默认速度给出确定的结果，并记录收到的调用
+ */
+export class FakeRoutingProvider implements RoutingProvider {
+  readonly name = "fake";
+  readonly calls: FakeRoutingCall[] = [];
+  private places: Record<string, Coordinates>;
+
+  /**
+   * @param places 可地理编码的地名及其坐标
+   */
+  constructor(places: Record<string, Coordinates> = {}) {
+    this.places = places;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    this.calls.push({ method: "geocode", args: [address] });
+
+    const coordinates = this.places[address];
+    if (!coordinates) {
+      return null;
+    }
+
+    return { coordinates, formattedAddress: address, provider: this.name };
+  }
+
+  async reverseGeocode(
+    coordinates: Coordinates
+  ): Promise<ReverseGeocodeResult | null> {
+    this.calls.push({ method: "reverseGeocode", args: [coordinates] });
+
+    const name = Object.keys(this.places).find(
+      (place) => haversineDistance(this.places[place], coordinates) < 1
+    );
+
+    return {
+      address:
+        name ??
+        `${coordinates.latitude.toFixed(6)},${coordinates.longitude.toFixed(6)}`,
+      name,
+      provider: this.name,
+    };
+  }
+
+  async route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
+    this.calls.push({ method: "route", args: [origin, destination, mode] });
+
+    const distance = haversineDistance(origin, destination);
+    return {
+      distance,
+      duration: distance / DEFAULT_SPEEDS[mode],
+      personalized: false,
+      provider: this.name,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import type {
+  Coordinates,
+  GeocodeResult,
+  ReverseGeocodeResult,
+  RouteResult,
+  RoutingProvider,
+  TravelMode,
+} from "./types.js";
+
+/**
+ * 依次尝试多个路线服务
+ * 返回第一个有结果的服务的结果；某个服务请求失败时记录警告并尝试下一个，
+ * 全部失败时抛出最后一个错误
+ */
+export class FallbackRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private providers: RoutingProvider[];
+
+  constructor(providers: RoutingProvider[]) {
+    this.providers = providers;
+    this.name = providers.map((provider) => provider.name).join("+");
+  }
+
+  geocode(address: string): Promise<GeocodeResult | null> {
+    return this.firstResult("地理编码", (provider) =>
+      provider.geocode(address)
+    );
+  }
+
+  reverseGeocode(
+    coordinates: Coordinates
+  ): Promise<ReverseGeocodeResult | null> {
+    return this.firstResult("逆地理编码", (provider) =>
+      provider.reverseGeocode(coordinates)
+    );
+  }
+
+  route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
+    return this.firstResult("路径规划", (provider) =>
+      provider.route(origin, destination, mode)
+    );
+  }
+
+  /**
+   * 依次调用各服务直到得到结果
+   * @param operation 操作名称，用于日志
+   * @param call 对单个服务的调用
+   */
+  private async firstResult<R>(
+    operation: string,
+    call: (provider: RoutingProvider) => Promise<R | null>
+  ): Promise<R | null> {
+    let lastError: unknown = null;
+    let failed = 0;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await call(provider);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        console.warn(`路线服务${provider.name}${operation}失败: ${error}`);
+        lastError = error;
+        failed++;
+      }
+    }
+
+    if (failed === this.providers.length && lastError) {
+      throw lastError;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import type { Coordinates, GeoPoint, TravelMode } from "./types.js";
+
+// 地球平均半径（米）
+export const EARTH_RADIUS = 6371e3;
+
+// 各交通方式的默认速度（米/分钟）
+export const DEFAULT_SPEEDS: Record<TravelMode, number> = {
+  walking: 80,
+  bicycling: 250,
+  driving: 500,
+  transit: 300,
+};
+
+/**
+ * 计算两个坐标点之间的球面距离（哈弗辛公式）
+ * @param from 起点
+ * @param to 终点
+ * @returns 距离（米）
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const R = EARTH_RADIUS;
+  const φ1 = (from.latitude * Math.PI) / 180;
+  const φ2 = (to.latitude * Math.PI) / 180;
+  const Δφ = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const Δλ = ((to.longitude - from.longitude) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+/**
+ * 将坐标转换为GeoJSON点
+ * @param coordinates 坐标
+ */
+export function toGeoPoint(coordinates: Coordinates): GeoPoint {
+  return {
+    type: "Point",
+    coordinates: [coordinates.longitude, coordinates.latitude],
+  };
+}
+
+/**
+ * 坐标是否完整有效
+ * @param coordinates 坐标
+ */
+export function hasCoordinates(
+  coordinates: Partial<Coordinates> | null | undefined
+): coordinates is Coordinates {
+  return (
+    !!coordinates &&
+    typeof coordinates.latitude === "number" &&
+    typeof coordinates.longitude === "number" &&
+    !Number.isNaN(coordinates.latitude) &&
+    !Number.isNaN(coordinates.longitude)
+  );
+}
@@ -0,0 +1,120 @@
+import type { Storage } from "../storage/types.js";
+import { AmapRoutingProvider } from "./amap.js";
+import { CachedRoutingProvider, DEFAULT_ROUTE_CACHE_TTL } from "./cache.js";
+import { FakeRoutingProvider } from "./fake.js";
+import { FallbackRoutingProvider } from "./fallback.js";
+import { OfflineRoutingProvider } from "./offline.js";
+import type { RoutingProvider } from "./types.js";
+
+export * from "./types.js";
+export {
+  DEFAULT_SPEEDS,
+  EARTH_RADIUS,
+  hasCoordinates,
+  haversineDistance,
+  toGeoPoint,
+} from "./geo.js";
+export {
+  COORDINATE_SYSTEMS,
+  STORAGE_COORDINATE_SYSTEM,
+  convertCoordinates,
+  isInChina,
+  normalizeCoordinates,
+} from "./datum.js";
+export { AmapRoutingProvider } from "./amap.js";
+export { OfflineRoutingProvider } from "./offline.js";
+export { FakeRoutingProvider, type FakeRoutingCall } from "./fake.js";
+export { FallbackRoutingProvider } from "./fallback.js";
+export {
+  CachedRoutingProvider,
+  DEFAULT_ROUTE_CACHE_TTL,
+  type RouteCacheTtl,
+} from "./cache.js";
+
+// 可选的路线服务
+export const ROUTING_PROVIDER_NAMES = ["amap", "offline", "fake"] as const;
+
+export type RoutingProviderName = (typeof ROUTING_PROVIDER_NAMES)[number];
+
+// 路线服务配置
+export interface RoutingConfig {
+  // 使用的路线服务
+  provider: RoutingProviderName;
+  // 高德地图API密钥（provider为amap时必需）
+  amapKey?: string;
+  // 是否缓存外部路线服务的结果（默认缓存）
+  cache: boolean;
+}
+
+// 路线服务的可读名称，用于说明估算依据
+const PROVIDER_LABELS: Record<string, string> = {
+  amap: "高德地图API",
+  offline: "本地路网",
+  fake: "模拟路线服务",
+};
+
+/**
+ * 从环境变量解析路线服务配置
+ * MCP_ROUTING_PROVIDER未设置时，配置了AMAP_API_KEY则使用高德地图，否则使用离线路网；
+ * MCP_ROUTING_CACHE=false时不缓存外部路线服务的结果
+ * @param env 环境变量
+ */
+export function resolveRoutingConfig(
+  env: NodeJS.ProcessEnv = process.env
+): RoutingConfig {
+  const amapKey = env.AMAP_API_KEY || undefined;
+  const provider = (env.MCP_ROUTING_PROVIDER ||
+    (amapKey ? "amap" : "offline")) as RoutingProviderName;
+  const cache = env.MCP_ROUTING_CACHE !== "false";
+  return { provider, amapKey, cache };
+}
+
+/**
+ * 创建路线服务
+ * 高德地图请求失败或无结果时回退到离线路网；高德地图的结果按配置缓存，
+ * 离线路网依赖随时变化的本地数据，不缓存
+ * @param config 路线服务配置
+ * @param db 存储后端，离线路网从中读取位置和路线记录，缓存也保存在其中
+ * @param readOnly 是否为只读模式，只读时只读取缓存，不写入
+ */
+export function createRoutingProvider(
+  config: RoutingConfig,
+  db: Storage,
+  readOnly = false
+): RoutingProvider {
+  switch (config.provider) {
+    case "amap":
+      if (!config.amapKey) {
+        throw new Error("使用高德地图路线服务需要配置AMAP_API_KEY");
+      }
+      return new FallbackRoutingProvider([
+        config.cache
+          ? new CachedRoutingProvider(
+              new AmapRoutingProvider(config.amapKey),
+              db,
+              DEFAULT_ROUTE_CACHE_TTL,
+              readOnly
+            )
+          : new AmapRoutingProvider(config.amapKey),
+        new OfflineRoutingProvider(db),
+      ]);
+    case "offline":
+      return new OfflineRoutingProvider(db);
+    case "fake":
+      return new FakeRoutingProvider();
+    default:
+      throw new Error(
+        `无效的路线服务: ${config.provider}，可选: ${ROUTING_PROVIDER_NAMES.join(
+          ", "
+        )}`
+      );
+  }
+}
+
+/**
+ * 获取路线服务的可读名称
+ * @param name 路线服务名称
+ */
+export function describeRoutingProvider(name: string): string {
+  return PROVIDER_LABELS[name] ?? name;
+}
@@ -0,0 +1,318 @@
+import type { Storage } from "../storage/types.js";
+import type { Location } from "../model/types.js";
+import { TripsModel } from "../model/trips.js";
+import { DEFAULT_SPEEDS, hasCoordinates, haversineDistance } from "./geo.js";
+import { normalizeCoordinates } from "./datum.js";
+import type {
+  Coordinates,
+  GeocodeResult,
+  ReverseGeocodeResult,
+  RouteResult,
+  RoutingProvider,
+  TravelMode,
+  RouteWaypoint,
+} from "./types.js";
+
+// 直线距离换算为实际路程的绕行系数
+const DETOUR_FACTOR = 1.3;
+
+// 逆地理编码时认为"位于"某个已知地点的最大距离（米）
+const NEARBY_RADIUS = 50;
+
+// 起点、终点与已知地点相距不超过该距离（米）时，只从该地点出入路网
+const SNAP_RADIUS = 30;
+
+// 路网中的节点
+interface GraphNode {
+  name?: string;
+  coordinates: Coordinates;
+}
+
+// 路网中的边
+interface GraphEdge {
+  to: number;
+  // 路程（米）
+  distance: number;
+  // 时长（分钟）
+  duration: number;
+  // 是否来自用户记录的路线
+  recorded: boolean;
+}
+
+/**
+ * 离线路线服务
+ * 不访问外部系统，在已知位置坐标和用户记录的路线组成的本地路网上规划路径：
+ * 任意两个有坐标的位置之间按直线距离乘以绕行系数连边，
+ * 同一交通方式的出行记录（用时中位数）作为实测路线边。
+ * 输入坐标先转换为位置坐标的存储坐标系
+ */
+export class OfflineRoutingProvider implements RoutingProvider {
+  readonly name = "offline";
+  private db: Storage;
+
+  constructor(db: Storage) {
+    this.db = db;
+  }
+
+  /**
+   * 地理编码 - 在已知位置中按名称查找坐标
+   * @param address 位置名称
+   * @returns 精确匹配优先、其次为名称包含该地址的位置，无匹配时为null
+   */
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const locations = await this.loadLocations();
+    const location =
+      locations.find((candidate) => candidate.name === address) ??
+      locations.find((candidate) => candidate.name.includes(address));
+
+    if (!location) {
+      return null;
+    }
+
+    return {
+      coordinates: location.coordinates as Coordinates,
+      formattedAddress: location.address || location.name,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 逆地理编码 - 查找距离坐标最近的已知位置
+   * @param coordinates 坐标
+   * @returns 最近位置的描述，没有任何已知位置时为null
+   */
+  async reverseGeocode(
+    coordinates: Coordinates
+  ): Promise<ReverseGeocodeResult | null> {
+    const locations = await this.loadLocations();
+    const point = normalizeCoordinates(coordinates);
+
+    let nearest: Location | null = null;
+    let nearestDistance = Infinity;
+    for (const location of locations) {
+      const distance = haversineDistance(
+        point,
+        location.coordinates as Coordinates
+      );
+      if (distance < nearestDistance) {
+        nearest = location;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest) {
+      return null;
+    }
+
+    return {
+      address:
+        nearestDistance <= NEARBY_RADIUS
+          ? nearest.address || nearest.name
+          : `${nearest.name}附近约${Math.round(nearestDistance)}米`,
+      name: nearest.name,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 路径规划 - 在本地路网上求时长最短的路径（Dijkstra）
+   * @param origin 起点坐标
+   * @param destination 终点坐标
+   * @param mode 交通方式
+   * @returns 规划结果
+   */
+  async route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
+    const { nodes, edges } = await this.buildGraph(origin, destination, mode);
+
+    // 节点0为起点，节点1为终点
+    const durations = nodes.map(() => Infinity);
+    const previous: Array<{ node: number; edge: GraphEdge } | null> = nodes.map(
+      () => null
+    );
+    const visited = nodes.map(() => false);
+    durations[0] = 0;
+
+    for (let round = 0; round < nodes.length; round++) {
+      let current = -1;
+      for (let i = 0; i < nodes.length; i++) {
+        if (!visited[i] && (current < 0 || durations[i] < durations[current])) {
+          current = i;
+        }
+      }
+      if (current < 0 || durations[current] === Infinity || current === 1) {
+        break;
+      }
+      visited[current] = true;
+
+      for (const edge of edges[current]) {
+        const duration = durations[current] + edge.duration;
+        if (duration < durations[edge.to]) {
+          durations[edge.to] = duration;
+          previous[edge.to] = { node: current, edge };
+        }
+      }
+    }
+
+    if (durations[1] === Infinity) {
+      return null;
+    }
+
+    // 回溯路径
+    const steps: Array<{ node: number; edge: GraphEdge }> = [];
+    for (let step = previous[1]; step; step = previous[step.node]) {
+      steps.unshift(step);
+    }
+
+    const waypoints: RouteWaypoint[] = steps
+      .slice(1)
+      .map((step) => nodes[step.node])
+      .map((node) => ({ name: node.name, coordinates: node.coordinates }));
+
+    return {
+      distance: steps.reduce((sum, step) => sum + step.edge.distance, 0),
+      duration: durations[1],
+      // 路径上的非零路段都是实测路线时，时长已是个人实际用时
+      personalized:
+        steps.some((step) => step.edge.recorded) &&
+        steps.every((step) => step.edge.recorded || step.edge.distance === 0),
+      waypoints,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 构建本地路网
+   * @param origin 起点坐标
+   * @param destination 终点坐标
+   * @param mode 交通方式
+   * @returns 节点（前两个为起点和终点）和邻接表
+   */
+  private async buildGraph(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<{ nodes: GraphNode[]; edges: GraphEdge[][] }> {
+    const locations = await this.loadLocations();
+
+    const nodes: GraphNode[] = [
+      { coordinates: normalizeCoordinates(origin) },
+      { coordinates: normalizeCoordinates(destination) },
+      ...locations.map((location) => ({
+        name: location.name,
+        coordinates: location.coordinates as Coordinates,
+      })),
+    ];
+    const edges: GraphEdge[][] = nodes.map(() => []);
+    const recordedRoutes = await this.loadRecordedRoutes(locations, mode);
+    const recordedPairs = new Set(
+      recordedRoutes.map(([from, to]) => `${from + 2}>${to + 2}`)
+    );
+
+    // 与已知地点重合的起点、终点只连到这些地点
+    const snapped = [0, 1].map((endpoint) => {
+      const indexes = new Set<number>();
+      for (let i = 2; i < nodes.length; i++) {
+        const distance = haversineDistance(
+          nodes[endpoint].coordinates,
+          nodes[i].coordinates
+        );
+        if (distance <= SNAP_RADIUS) {
+          indexes.add(i);
+        }
+      }
+      return indexes;
+    });
+    const connects = (i: number, j: number) => {
+      for (const endpoint of [0, 1]) {
+        if (snapped[endpoint].size === 0) continue;
+        if (i === endpoint && !snapped[endpoint].has(j)) return false;
+        if (j === endpoint && !snapped[endpoint].has(i)) return false;
+      }
+      return true;
+    };
+
+    // 直线边（有实测路线的位置之间不再连直线边）
+    const speed = DEFAULT_SPEEDS[mode] ?? DEFAULT_SPEEDS.walking;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = 0; j < nodes.length; j++) {
+        if (i === j || !connects(i, j) || recordedPairs.has(`${i}>${j}`)) {
+          continue;
+        }
+        const distance =
+          haversineDistance(nodes[i].coordinates, nodes[j].coordinates) *
+          DETOUR_FACTOR;
+        edges[i].push({
+          to: j,
+          distance,
+          duration: distance / speed,
+          recorded: false,
+        });
+      }
+    }
+
+    // 实测路线边，位置节点从下标2开始
+    for (const [from, to, duration] of recordedRoutes) {
+      const a = from + 2;
+      const b = to + 2;
+      edges[a].push({
+        to: b,
+        distance:
+          haversineDistance(nodes[a].coordinates, nodes[b].coordinates) *
+          DETOUR_FACTOR,
+        duration,
+        recorded: true,
+      });
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * 读取出行记录汇总的路线用时
+   * 只有一个方向有记录时，反方向使用同一用时
+   * @param locations 有坐标的位置
+   * @param mode 交通方式
+   * @returns [起点下标, 终点下标, 用时中位数（分钟）]列表
+   */
+  private async loadRecordedRoutes(
+    locations: Location[],
+    mode: TravelMode
+  ): Promise<Array<[number, number, number]>> {
+    const indexes = new Map(
+      locations.map((location, index) => [location._id.toString(), index])
+    );
+
+    const medians = new Map<string, [number, number, number]>();
+    for (const route of await new TripsModel(this.db).getRouteMedians(mode)) {
+      const from = indexes.get(route.originId.toString());
+      const to = indexes.get(route.destinationId.toString());
+      if (from === undefined || to === undefined || from === to) continue;
+      medians.set(`${from}>${to}`, [from, to, route.median]);
+    }
+
+    for (const [from, to, median] of Array.from(medians.values())) {
+      if (!medians.has(`${to}>${from}`)) {
+        medians.set(`${to}>${from}`, [to, from, median]);
+      }
+    }
+
+    return Array.from(medians.values());
+  }
+
+  /**
+   * 读取所有有坐标的位置
+   */
+  private async loadLocations(): Promise<Location[]> {
+    const locations = await this.db
+      .collection<Location>("locations")
+      .find({})
+      .toArray();
+    return locations.filter((location) =>
+      hasCoordinates(location.coordinates)
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// 坐标系: wgs84(GPS), gcj02(高德、腾讯), bd09(百度)
+export type CoordinateSystem = "wgs84" | "gcj02" | "bd09";
+
+// 经纬度坐标
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+  // 坐标系（未标注时视为存储坐标系）
+  system?: CoordinateSystem;
+}
+
+// GeoJSON点，坐标顺序为[经度, 纬度]
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
+// 交通方式
+export type TravelMode = "walking" | "bicycling" | "driving" | "transit";
+
+// 地理编码结果
+export interface GeocodeResult {
+  coordinates: Coordinates;
+  // 规范化的地址
+  formattedAddress?: string;
+  // 提供结果的路线服务
+  provider: string;
+  // 结果来自缓存时为写入缓存的时间
+  cachedAt?: Date;
+}
+
+// 逆地理编码结果
+export interface ReverseGeocodeResult {
+  // 地址描述
+  address: string;
+  // 最近的已知地点名称（如有）
+  name?: string;
+  provider: string;
+  cachedAt?: Date;
+}
+
+// 路线途经点
+export interface RouteWaypoint {
+  name?: string;
+  coordinates: Coordinates;
+}
+
+// 路径规划结果
+export interface RouteResult {
+  // 距离（米）
+  distance: number;
+  // 时长（分钟）
+  duration: number;
+  // 时长是否已基于个人记录（无需再按个人速度换算）
+  personalized: boolean;
+  // 途经点（如有）
+  waypoints?: RouteWaypoint[];
+  // 路线服务返回的原始路线数据（如有）
+  raw?: any;
+  provider: string;
+  cachedAt?: Date;
+}
+
+/**
+ * 路线服务接口
+ * 地理编码、逆地理编码和路径规划均可能无结果，此时返回null；
+ * 请求失败（网络错误、服务返回错误等）时抛出异常
+ */
+export interface RoutingProvider {
+  // 路线服务名称
+  readonly name: string;
+  geocode(address: string): Promise<GeocodeResult | null>;
+  reverseGeocode(coordinates: Coordinates): Promise<ReverseGeocodeResult | null>;
+  route(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null>;
+}
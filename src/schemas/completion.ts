@@ -2,7 +2,7 @@ import type {
   CompleteRequest,
   CompleteResult,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { CollectionInfo, Db, MongoClient } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
 import { LocationsModel } from "../model/locations.js";
 import { ContactsModel } from "../model/contacts.js";
@@ -14,13 +14,11 @@ import { TasksModel } from "../model/tasks.js";
  */
 export async function handleCompletionRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: CompleteRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }): Promise<CompleteResult> {
   const { ref, argument } = request.params;
@@ -28,7 +26,6 @@ export async function handleCompletionRequest({
   // 处理提示的自动完成
   if (ref.type === "ref/prompt") {
     return handlePromptCompletion(
-      client,
       db,
       isReadOnlyMode,
       ref.name,
@@ -39,7 +36,6 @@ export async function handleCompletionRequest({
   // 处理资源的自动完成
   if (ref.type === "ref/resource") {
     return handleResourceCompletion(
-      client,
       db,
       isReadOnlyMode,
       ref.uri,
@@ -55,8 +51,7 @@ export async function handleCompletionRequest({
  * 处理提示的自动完成
  */
 async function handlePromptCompletion(
-  client: MongoClient,
-  db: Db,
+  db: Storage,
   isReadOnlyMode: boolean,
   promptName: string | undefined,
   argument: { name: string; value: string }
@@ -111,8 +106,7 @@ async function handlePromptCompletion(
  * 处理资源的自动完成
  */
 async function handleResourceCompletion(
-  client: MongoClient,
-  db: Db,
+  db: Storage,
   isReadOnlyMode: boolean,
   uri: string | undefined,
   argument: { name: string; value: string }
@@ -126,9 +120,9 @@ async function handleResourceCompletion(
     const url = new URL(uri);
 
     // 处理ViteaOS特定资源
+    // 资源类型解析为主机名，与读取资源时一致
     if (url.protocol === "vitea:") {
-      const path = url.pathname.replace(/^\//, "");
-      const [resourceType, resourceId] = path.split("/");
+      const resourceType = url.host;
 
       // 根据资源类型和参数处理不同的自动完成场景
       switch (resourceType) {
@@ -179,7 +173,7 @@ async function handleResourceCompletion(
  * 自动完成物品名称
  */
 async function completeItemNames(
-  db: Db,
+  db: Storage,
   partialValue: string
 ): Promise<CompleteResult> {
   try {
@@ -211,7 +205,7 @@ async function completeItemNames(
  * 自动完成位置名称
  */
 async function completeLocationNames(
-  db: Db,
+  db: Storage,
   partialValue: string
 ): Promise<CompleteResult> {
   try {
@@ -243,7 +237,7 @@ async function completeLocationNames(
  * 自动完成联系人名称
  */
 async function completeContactNames(
-  db: Db,
+  db: Storage,
   partialValue: string
 ): Promise<CompleteResult> {
   try {
@@ -275,7 +269,7 @@ async function completeContactNames(
  * 自动完成测量类型
  */
 async function completeMeasurementTypes(
-  db: Db,
+  db: Storage,
   partialValue: string
 ): Promise<CompleteResult> {
   try {
@@ -304,7 +298,7 @@ async function completeMeasurementTypes(
  * 自动完成任务状态
  */
 async function completeTaskStatuses(
-  db: Db,
+  db: Storage,
   partialValue: string
 ): Promise<CompleteResult> {
   try {
@@ -334,18 +328,14 @@ async function completeTaskStatuses(
  */
 async function completeCollectionNames(
   partialValue: string,
-  db: Db
+  db: Storage
 ): Promise<CompleteResult> {
   try {
     // 获取集合列表
-    const collections: (
-      | CollectionInfo
-      | Pick<CollectionInfo, "type" | "name">
-    )[] = await db.listCollections().toArray();
+    const collections = await db.listCollections();
 
     // 按部分值过滤集合（不区分大小写）
     const matchingCollections = collections
-      .map((c) => c.name)
       .filter(
         (name) =>
           !name.startsWith("system.") &&
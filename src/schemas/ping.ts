@@ -1,5 +1,5 @@
 import type { PingRequest } from "@modelcontextprotocol/sdk/types.js";
-import type { Db, MongoClient } from "mongodb";
+import { VITEA_COLLECTIONS, type Storage } from "../storage/types.js";
 
 /**
  * 处理Ping请求
@@ -7,39 +7,21 @@ import type { Db, MongoClient } from "mongodb";
  */
 export async function handlePingRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: PingRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   try {
-    // 检查MongoDB连接
-    if (!client) {
-      throw new Error("MongoDB连接不可用");
-    }
-
-    // Ping MongoDB以验证连接
-    const pong = await db.command({ ping: 1 });
-
-    if (pong.ok !== 1) {
-      throw new Error(`MongoDB ping失败: ${pong.errmsg}`);
-    }
+    // Ping存储后端以验证连接
+    await db.ping();
 
     // 检查ViteaOS的核心集合
-    const collections = await db.listCollections().toArray();
-    const collectionNames = collections.map((c) => c.name);
+    const collectionNames = await db.listCollections();
 
-    const requiredCollections = [
-      "items",
-      "locations",
-      "contacts",
-      "bioData",
-      "tasks",
-    ];
+    const requiredCollections = VITEA_COLLECTIONS;
     const missingCollections = requiredCollections.filter(
       (name) => !collectionNames.includes(name)
     );
@@ -54,8 +36,9 @@ export async function handlePingRequest({
       vitea: {
         version: "0.1.7",
         mode: isReadOnlyMode ? "只读" : "读写",
+        storage: db.kind,
         collections: {
-          total: collections.length,
+          total: collectionNames.length,
           vitea: requiredCollections.filter((name) =>
             collectionNames.includes(name)
           ).length,
@@ -65,8 +48,8 @@ export async function handlePingRequest({
     };
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`MongoDB ping失败: ${error.message}`);
+      throw new Error(`存储ping失败: ${error.message}`);
     }
-    throw new Error("MongoDB ping失败: 未知错误");
+    throw new Error("存储ping失败: 未知错误");
   }
 }
@@ -2,7 +2,7 @@ import type {
   GetPromptRequest,
   ListPromptsRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { Db, MongoClient } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
 import { LocationsModel } from "../model/locations.js";
 import { ContactsModel } from "../model/contacts.js";
@@ -14,13 +14,11 @@ import { TasksModel } from "../model/tasks.js";
  */
 export async function handleListPromptsRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: ListPromptsRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   return {
@@ -105,13 +103,11 @@ export async function handleListPromptsRequest({
  */
 export async function handleGetPromptRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: GetPromptRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   const { name, arguments: args = {} } = request.params;
@@ -146,7 +142,7 @@ export async function handleGetPromptRequest({
  * 处理分析物品提示
  */
 async function handleAnalyzeItemPrompt(
-  db: Db,
+  db: Storage,
   itemName: string
 ): Promise<{
   messages: {
@@ -234,7 +230,7 @@ async function handleAnalyzeItemPrompt(
  * 处理分析位置提示
  */
 async function handleAnalyzeLocationPrompt(
-  db: Db,
+  db: Storage,
   locationName: string
 ): Promise<{
   messages: {
@@ -343,7 +339,7 @@ async function handleAnalyzeLocationPrompt(
  * 处理分析出行时间提示
  */
 async function handleAnalyzeTravelTimePrompt(
-  db: Db,
+  db: Storage,
   origin: string,
   destination: string
 ): Promise<{
@@ -444,7 +440,7 @@ async function handleAnalyzeTravelTimePrompt(
  * 处理分析联系人提示
  */
 async function handleAnalyzeContactPrompt(
-  db: Db,
+  db: Storage,
   contactName: string
 ): Promise<{
   messages: {
@@ -542,7 +538,7 @@ async function handleAnalyzeContactPrompt(
  * 处理分析生物数据提示
  */
 async function handleAnalyzeBioDataPrompt(
-  db: Db,
+  db: Storage,
   measurementType: string
 ): Promise<{
   messages: {
@@ -631,7 +627,7 @@ async function handleAnalyzeBioDataPrompt(
  * 处理分析任务提示
  */
 async function handleAnalyzeTasksPrompt(
-  db: Db,
+  db: Storage,
   status: string
 ): Promise<{
   messages: {
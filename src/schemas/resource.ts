@@ -2,13 +2,8 @@ import type {
   ListResourcesRequest,
   ReadResourceRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import {
-  ObjectId,
-  type CollectionInfo,
-  type Db,
-  type IndexDescriptionInfo,
-  type MongoClient,
-} from "mongodb";
+import { ObjectId } from "mongodb";
+import type { IndexInfo, Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
 import { LocationsModel } from "../model/locations.js";
 import { ContactsModel } from "../model/contacts.js";
@@ -21,21 +16,20 @@ import { Task } from "../model/types.js";
  */
 export async function handleReadResourceRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: ReadResourceRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   const url = new URL(request.params.uri);
-  const path = url.pathname.replace(/^\//, "");
+  // 名称等非ASCII参数在URI中是百分号编码的
+  const path = decodeURIComponent(url.pathname.replace(/^\//, ""));
 
-  // ViteaOS特定资源处理
+  // ViteaOS特定资源处理（vitea://items/all中资源类型解析为主机名）
   if (url.protocol === "vitea:") {
-    return await handleViteaResource(path, db);
+    return await handleViteaResource(`${url.host}/${path}`, db);
   }
 
   // 标准MongoDB集合处理
@@ -52,7 +46,7 @@ export async function handleReadResourceRequest({
             name: key,
             type: typeof value,
           })),
-          indexes: indexes.map((idx: IndexDescriptionInfo) => ({
+          indexes: indexes.map((idx: IndexInfo) => ({
             name: idx.name,
             keys: idx.key,
           })),
@@ -86,24 +80,22 @@ export async function handleReadResourceRequest({
  */
 export async function handleListResourcesRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: ListResourcesRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   try {
-    const collections = await db.listCollections().toArray();
+    const collections = await db.listCollections();
 
     // 基本MongoDB集合
-    const baseResources = collections.map((collection: CollectionInfo) => ({
-      uri: `mongodb:///${collection.name}`,
+    const baseResources = collections.map((name) => ({
+      uri: `mongodb:///${name}`,
       mimeType: "application/json",
-      name: collection.name,
-      description: getCollectionDescription(collection.name),
+      name,
+      description: getCollectionDescription(name),
     }));
 
     // 添加ViteaOS特定资源
@@ -114,6 +106,12 @@ export async function handleListResourcesRequest({
         name: "ViteaOS物品",
         description: "所有物品信息和位置",
       },
+      {
+        uri: "vitea://items/low-stock",
+        mimeType: "application/json",
+        name: "ViteaOS库存不足物品",
+        description: "数量不高于最低库存、需要补货的物品",
+      },
       {
         uri: "vitea://locations/all",
         mimeType: "application/json",
@@ -156,7 +154,7 @@ export async function handleListResourcesRequest({
  */
 async function handleViteaResource(
   path: string,
-  db: Db
+  db: Storage
 ): Promise<{
   contents: {
     uri: string;
@@ -209,7 +207,7 @@ async function handleViteaResource(
 /**
  * 获取物品资源
  */
-async function getItemsResource(db: Db, resourceId: string): Promise<any> {
+async function getItemsResource(db: Storage, resourceId: string): Promise<any> {
   const itemsModel = new ItemsModel(db);
 
   if (resourceId === "all") {
@@ -226,10 +224,23 @@ async function getItemsResource(db: Db, resourceId: string): Promise<any> {
           { name: "locationId", type: "ObjectId", description: "位置ID" },
           { name: "containerId", type: "ObjectId", description: "容器ID" },
           { name: "isContainer", type: "boolean", description: "是否为容器" },
+          { name: "quantity", type: "number", description: "数量" },
+          { name: "unit", type: "string", description: "数量单位" },
+          { name: "minQuantity", type: "number", description: "最低库存" },
           { name: "notes", type: "array", description: "备注" },
         ],
       },
     };
+  } else if (resourceId === "low-stock") {
+    // 查询库存不足的物品
+    const items = await itemsModel.getLowStockItems();
+
+    return {
+      resourceType: "ViteaOS物品",
+      status: resourceId,
+      count: items.length,
+      items,
+    };
   } else {
     // 查询特定物品
     const item = await itemsModel.getItemById(
@@ -254,7 +265,7 @@ async function getItemsResource(db: Db, resourceId: string): Promise<any> {
 /**
  * 获取位置资源
  */
-async function getLocationsResource(db: Db, resourceId: string): Promise<any> {
+async function getLocationsResource(db: Storage, resourceId: string): Promise<any> {
   const locationsModel = new LocationsModel(db);
 
   if (resourceId === "all") {
@@ -306,7 +317,7 @@ async function getLocationsResource(db: Db, resourceId: string): Promise<any> {
 /**
  * 获取联系人资源
  */
-async function getContactsResource(db: Db, resourceId: string): Promise<any> {
+async function getContactsResource(db: Storage, resourceId: string): Promise<any> {
   const contactsModel = new ContactsModel(db);
 
   if (resourceId === "all") {
@@ -350,7 +361,7 @@ async function getContactsResource(db: Db, resourceId: string): Promise<any> {
 /**
  * 获取生物数据资源
  */
-async function getBioDataResource(db: Db, resourceId: string): Promise<any> {
+async function getBioDataResource(db: Storage, resourceId: string): Promise<any> {
   const bioDataModel = new BioDataModel(db);
 
   if (resourceId === "all") {
@@ -410,7 +421,7 @@ async function getBioDataResource(db: Db, resourceId: string): Promise<any> {
 /**
  * 获取任务资源
  */
-async function getTasksResource(db: Db, resourceId: string): Promise<any> {
+async function getTasksResource(db: Storage, resourceId: string): Promise<any> {
   const tasksModel = new TasksModel(db);
 
   if (resourceId === "all") {
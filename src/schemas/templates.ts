@@ -1,18 +1,16 @@
 import type { ListResourceTemplatesRequest } from "@modelcontextprotocol/sdk/types.js";
-import type { Db, MongoClient } from "mongodb";
+import type { Storage } from "../storage/types.js";
 
 /**
  * 处理列出资源模板请求
  */
 export async function handleListResourceTemplatesRequest({
   request,
-  client,
   db,
   isReadOnlyMode,
 }: {
   request: ListResourceTemplatesRequest;
-  client: MongoClient;
-  db: Db;
+  db: Storage;
   isReadOnlyMode: boolean;
 }) {
   return {
@@ -30,11 +28,22 @@ export async function handleListResourceTemplatesRequest({
 2. 查询容器内物品：
    使用query_item工具，指定containerId和containerItems=true。
    例如：query_item(containerId="书包2的ID", containerItems=true)
+   使用get_container_tree工具查看容器内各层嵌套的物品。
+   例如：get_container_tree(containerName="收纳箱")
 
 3. 搜索物品：
    使用query_item工具，提供search参数。
    例如：query_item(search="书包")
 
+4. 消耗品库存：
+   使用consume_item和restock_item工具记录消耗和补货，
+   使用get_low_stock_items工具列出需要补货的物品。
+   例如：consume_item(itemName="咖啡豆")
+
+5. 到期事项：
+   使用get_item_deadlines工具列出即将过期、保修到期或需要维护的物品。
+   例如：get_item_deadlines(days=7)
+
 可用的物品状态包括：在用、备用、损坏、丢失等。
 物品可能位于特定位置，或者在某个容器内（如书包）。`,
       },
@@ -23,18 +23,32 @@ import {
 import { handleCallToolRequest } from "./schemas/call.js";
 import { handleListResourceTemplatesRequest } from "./schemas/templates.js";
 import { handleCompletionRequest } from "./schemas/completion.js";
-import type { Db, MongoClient } from "mongodb";
+import type { Storage } from "./storage/types.js";
+import { resolveToolPolicy, type ToolPolicy } from "./registry/index.js";
+import {
+  createRoutingProvider,
+  resolveRoutingConfig,
+  type RoutingProvider,
+} from "./routing/index.js";
 
 /**
  * 创建支持资源（列举/读取集合）、工具（查询数据）和提示（分析集合）
  * 的MCP服务器
+ * 只读模式下忽略policy中的写权限，只保留其禁用工具列表
+ * 未提供routing时按环境变量配置创建路线服务
  */
 export function createServer(
-  client: MongoClient,
-  db: Db,
+  db: Storage,
   isReadOnlyMode = false,
-  options = {}
+  options = {},
+  policy?: ToolPolicy,
+  routing?: RoutingProvider
 ) {
+  const toolPolicy = resolveToolPolicy(isReadOnlyMode, policy);
+  const routingProvider =
+    routing ??
+    createRoutingProvider(resolveRoutingConfig(), db, isReadOnlyMode);
+
   const server = new Server(
     {
       name: "codex-vitea-mcp",
@@ -55,64 +69,86 @@ export function createServer(
    * Ping请求处理器，用于检查服务器健康状况
    */
   server.setRequestHandler(PingRequestSchema, (request) =>
-    handlePingRequest({ request, client, db, isReadOnlyMode })
+    handlePingRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 列出可用集合作为资源的处理器
    */
   server.setRequestHandler(ListResourcesRequestSchema, (request) =>
-    handleListResourcesRequest({ request, client, db, isReadOnlyMode })
+    handleListResourcesRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 读取集合模式或内容的处理器
    */
   server.setRequestHandler(ReadResourceRequestSchema, (request) =>
-    handleReadResourceRequest({ request, client, db, isReadOnlyMode })
+    handleReadResourceRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 列出可用工具的处理器
    */
   server.setRequestHandler(ListToolsRequestSchema, (request) =>
-    handleListToolsRequest({ request, client, db, isReadOnlyMode })
+    handleListToolsRequest({
+      request,
+      db,
+      isReadOnlyMode,
+      policy: toolPolicy,
+    })
   );
 
   /**
    * MongoDB工具的处理器
    */
   server.setRequestHandler(CallToolRequestSchema, (request) =>
-    handleCallToolRequest({ request, client, db, isReadOnlyMode })
+    handleCallToolRequest({
+      request,
+      db,
+      isReadOnlyMode,
+      policy: toolPolicy,
+      actor: describeClient(server),
+      routing: routingProvider,
+    })
   );
 
   /**
    * 列出可用提示的处理器
    */
   server.setRequestHandler(ListPromptsRequestSchema, (request) =>
-    handleListPromptsRequest({ request, client, db, isReadOnlyMode })
+    handleListPromptsRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 集合分析提示的处理器
    */
   server.setRequestHandler(GetPromptRequestSchema, (request) =>
-    handleGetPromptRequest({ request, client, db, isReadOnlyMode })
+    handleGetPromptRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 列出模板的处理器
    */
   server.setRequestHandler(ListResourceTemplatesRequestSchema, (request) =>
-    handleListResourceTemplatesRequest({ request, client, db, isReadOnlyMode })
+    handleListResourceTemplatesRequest({ request, db, isReadOnlyMode })
   );
 
   /**
    * 完成请求的处理器
    */
   server.setRequestHandler(CompleteRequestSchema, (request) =>
-    handleCompletionRequest({ request, client, db, isReadOnlyMode })
+    handleCompletionRequest({ request, db, isReadOnlyMode })
   );
 
   return server;
 }
+
+/**
+ * 生成审计日志中的操作者标识
+ * 使用客户端初始化时声明的名称和版本
+ * @param server MCP服务器
+ */
+function describeClient(server: Server): string {
+  const client = server.getClientVersion();
+  return client ? `${client.name}/${client.version}` : "unknown";
+}
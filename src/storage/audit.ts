@@ -0,0 +1,213 @@
+import type { ObjectId } from "mongodb";
+import type {
+  DeleteResult,
+  Filter,
+  FindOptions,
+  IndexInfo,
+  IndexSpec,
+  InsertOneResult,
+  Repository,
+  RepositoryCursor,
+  Storage,
+  UpdateFilter,
+  UpdateResult,
+} from "./types.js";
+import { valuesEqual } from "./query.js";
+import { AuditLogModel } from "../model/auditLog.js";
+import { ROUTE_CACHE_COLLECTION } from "../model/routeCache.js";
+import type { AuditOperation } from "../model/types.js";
+
+// 审计日志集合名称，对它的写入不再记录审计
+export const AUDIT_LOG_COLLECTION = "auditLog";
+
+// 不记录审计的集合：审计日志本身，以及可随时重建的路线缓存
+const UNAUDITED_COLLECTIONS = [AUDIT_LOG_COLLECTION, ROUTE_CACHE_COLLECTION];
+
+// 一次工具调用的审计上下文
+export interface AuditContext {
+  // 工具调用ID
+  callId: ObjectId;
+  // 操作者
+  actor: string;
+  // 工具名称
+  tool: string;
+  // 工具参数
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * 带审计的集合仓储
+ * 写操作前后读取受影响的文档，并把快照写入审计日志
+ */
+class AuditedRepository<T = any> implements Repository<T> {
+  private inner: Repository<T>;
+  private auditLog: AuditLogModel;
+  private context: AuditContext;
+
+  constructor(
+    inner: Repository<T>,
+    auditLog: AuditLogModel,
+    context: AuditContext
+  ) {
+    this.inner = inner;
+    this.auditLog = auditLog;
+    this.context = context;
+  }
+
+  get collectionName(): string {
+    return this.inner.collectionName;
+  }
+
+  find(filter?: Filter, options?: FindOptions): RepositoryCursor<T> {
+    return this.inner.find(filter, options);
+  }
+
+  findOne(filter?: Filter, options?: FindOptions): Promise<T | null> {
+    return this.inner.findOne(filter, options);
+  }
+
+  async insertOne(doc: Partial<T>): Promise<InsertOneResult> {
+    const result = await this.inner.insertOne(doc);
+    const after = await this.inner.findOne({ _id: result.insertedId });
+    await this.write("insert", result.insertedId, null, after);
+    return result;
+  }
+
+  async updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const before: any = await this.inner.findOne(filter);
+    const result = await this.inner.updateOne(filter, update);
+
+    if (before && result.modifiedCount > 0) {
+      const after = await this.inner.findOne({ _id: before._id });
+      await this.write("update", before._id, before, after);
+    }
+    return result;
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const befores: any[] = await this.inner.find(filter).toArray();
+    const result = await this.inner.updateMany(filter, update);
+
+    if (result.modifiedCount > 0) {
+      for (const before of befores) {
+        const after: any = await this.inner.findOne({ _id: before._id });
+        if (!valuesEqual(before, after)) {
+          await this.write("update", before._id, before, after);
+        }
+      }
+    }
+    return result;
+  }
+
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    const before: any = await this.inner.findOne(filter);
+    const result = await this.inner.deleteOne(filter);
+
+    if (before && result.deletedCount > 0) {
+      await this.write("delete", before._id, before, null);
+    }
+    return result;
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    const befores: any[] = await this.inner.find(filter).toArray();
+    const result = await this.inner.deleteMany(filter);
+
+    if (result.deletedCount > 0) {
+      for (const before of befores) {
+        await this.write("delete", before._id, before, null);
+      }
+    }
+    return result;
+  }
+
+  countDocuments(filter?: Filter): Promise<number> {
+    return this.inner.countDocuments(filter);
+  }
+
+  distinct(field: string, filter?: Filter): Promise<any[]> {
+    return this.inner.distinct(field, filter);
+  }
+
+  indexes(): Promise<IndexInfo[]> {
+    return this.inner.indexes();
+  }
+
+  createIndex(spec: IndexSpec, options?: { name?: string }): Promise<string> {
+    return this.inner.createIndex(spec, options);
+  }
+
+  /**
+   * 写入一条审计记录
+   */
+  private async write(
+    operation: AuditOperation,
+    entityId: ObjectId,
+    before: any,
+    after: any
+  ): Promise<void> {
+    await this.auditLog.record({
+      callId: this.context.callId,
+      timestamp: new Date(),
+      actor: this.context.actor,
+      tool: this.context.tool,
+      arguments: this.context.arguments,
+      collection: this.inner.collectionName,
+      operation,
+      entityId,
+      before: before ?? null,
+      after: after ?? null,
+    });
+  }
+}
+
+/**
+ * 带审计的存储后端
+ * 包装另一个存储后端，记录一次工具调用期间对所有集合的修改
+ */
+export class AuditedStorage implements Storage {
+  private inner: Storage;
+  private auditLog: AuditLogModel;
+  private context: AuditContext;
+
+  constructor(inner: Storage, context: AuditContext) {
+    this.inner = inner;
+    this.auditLog = new AuditLogModel(inner);
+    this.context = context;
+  }
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  get databaseName(): string {
+    return this.inner.databaseName;
+  }
+
+  collection<T = any>(name: string): Repository<T> {
+    const repository = this.inner.collection<T>(name);
+    if (UNAUDITED_COLLECTIONS.includes(name)) {
+      return repository;
+    }
+    return new AuditedRepository<T>(repository, this.auditLog, this.context);
+  }
+
+  listCollections(): Promise<string[]> {
+    return this.inner.listCollections();
+  }
+
+  withTransaction<R>(fn: (tx: Storage) => Promise<R>): Promise<R> {
+    // 审计记录与修改写入同一事务，回滚时一并撤销
+    return this.inner.withTransaction((tx) =>
+      fn(new AuditedStorage(tx, this.context))
+    );
+  }
+
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+}
@@ -0,0 +1,265 @@
+import { ObjectId } from "mongodb";
+import {
+  applyProjection,
+  applyUpdate,
+  cloneDocument,
+  matchesFilter,
+  resolvePath,
+  sortDocuments,
+  valuesEqual,
+} from "./query.js";
+import { runWithCompensation } from "./transaction.js";
+import {
+  VITEA_COLLECTIONS,
+  type DeleteResult,
+  type Filter,
+  type FindOptions,
+  type IndexInfo,
+  type IndexSpec,
+  type InsertOneResult,
+  type Projection,
+  type Repository,
+  type RepositoryCursor,
+  type SortSpec,
+  type Storage,
+  type UpdateFilter,
+  type UpdateResult,
+} from "./types.js";
+
+/**
+ * 内存查询游标
+ * 在toArray时才执行排序、截取和投影，返回的文档均为副本
+ */
+class MemoryCursor<T> implements RepositoryCursor<T> {
+  private loadDocuments: () => any[];
+  private sortSpec?: SortSpec;
+  private limitCount = 0;
+  private projection?: Projection;
+
+  constructor(loadDocuments: () => any[], options: FindOptions = {}) {
+    this.loadDocuments = loadDocuments;
+    this.sortSpec = options.sort;
+    this.limitCount = options.limit || 0;
+    this.projection = options.projection;
+  }
+
+  sort(spec: SortSpec): RepositoryCursor<T> {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  limit(count: number): RepositoryCursor<T> {
+    this.limitCount = count;
+    return this;
+  }
+
+  project<P = any>(projection: Projection): RepositoryCursor<P> {
+    this.projection = projection;
+    return this as unknown as RepositoryCursor<P>;
+  }
+
+  async toArray(): Promise<T[]> {
+    let docs = this.loadDocuments();
+
+    if (this.sortSpec) {
+      docs = sortDocuments([...docs], this.sortSpec);
+    }
+
+    // 与MongoDB一致，limit(0)表示不限制
+    if (this.limitCount > 0) {
+      docs = docs.slice(0, this.limitCount);
+    }
+
+    return docs.map((doc) =>
+      this.projection
+        ? applyProjection(doc, this.projection)
+        : cloneDocument(doc)
+    );
+  }
+}
+
+/**
+ * 内存集合仓储
+ */
+export class MemoryRepository<T = any> implements Repository<T> {
+  readonly collectionName: string;
+  private documents: any[] = [];
+  // 已创建的索引（只记录定义，查询时不使用）
+  private indexList: IndexInfo[] = [{ name: "_id_", key: { _id: 1 } }];
+
+  constructor(collectionName: string) {
+    this.collectionName = collectionName;
+  }
+
+  find(filter: Filter = {}, options: FindOptions = {}): RepositoryCursor<T> {
+    return new MemoryCursor<T>(
+      () => this.documents.filter((doc) => matchesFilter(doc, filter)),
+      options
+    );
+  }
+
+  async findOne(filter: Filter = {}, options: FindOptions = {}): Promise<T | null> {
+    const [doc] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return doc ?? null;
+  }
+
+  async insertOne(doc: Partial<T>): Promise<InsertOneResult> {
+    const stored: any = cloneDocument(doc);
+
+    if (stored._id === undefined) {
+      stored._id = new ObjectId();
+    }
+
+    if (this.documents.some((existing) => valuesEqual(existing._id, stored._id))) {
+      throw new Error(
+        `集合 ${this.collectionName} 中已存在_id为 ${stored._id} 的文档`
+      );
+    }
+
+    this.documents.push(stored);
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const doc = this.documents.find((existing) => matchesFilter(existing, filter));
+
+    if (!doc) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
+    }
+
+    const modified = applyUpdate(doc, update);
+    return {
+      acknowledged: true,
+      matchedCount: 1,
+      modifiedCount: modified ? 1 : 0,
+    };
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const docs = this.documents.filter((existing) => matchesFilter(existing, filter));
+    let modifiedCount = 0;
+
+    for (const doc of docs) {
+      if (applyUpdate(doc, update)) {
+        modifiedCount++;
+      }
+    }
+
+    return { acknowledged: true, matchedCount: docs.length, modifiedCount };
+  }
+
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    const index = this.documents.findIndex((existing) =>
+      matchesFilter(existing, filter)
+    );
+
+    if (index === -1) {
+      return { acknowledged: true, deletedCount: 0 };
+    }
+
+    this.documents.splice(index, 1);
+    return { acknowledged: true, deletedCount: 1 };
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    const before = this.documents.length;
+    this.documents = this.documents.filter(
+      (existing) => !matchesFilter(existing, filter)
+    );
+    return { acknowledged: true, deletedCount: before - this.documents.length };
+  }
+
+  async countDocuments(filter: Filter = {}): Promise<number> {
+    return this.documents.filter((doc) => matchesFilter(doc, filter)).length;
+  }
+
+  async distinct(field: string, filter: Filter = {}): Promise<any[]> {
+    const values: any[] = [];
+
+    for (const doc of this.documents) {
+      if (!matchesFilter(doc, filter)) {
+        continue;
+      }
+
+      // 数组字段按元素去重，与MongoDB的distinct行为一致
+      for (const value of resolvePath(doc, field).flat()) {
+        if (
+          value !== undefined &&
+          !values.some((existing) => valuesEqual(existing, value))
+        ) {
+          values.push(cloneDocument(value));
+        }
+      }
+    }
+
+    return values;
+  }
+
+  async indexes(): Promise<IndexInfo[]> {
+    return cloneDocument(this.indexList);
+  }
+
+  async createIndex(
+    spec: IndexSpec,
+    options: { name?: string } = {}
+  ): Promise<string> {
+    // 默认名称与MongoDB一致，如 "geoPoint_2dsphere"
+    const name =
+      options.name ??
+      Object.entries(spec)
+        .map(([field, type]) => `${field}_${type}`)
+        .join("_");
+
+    const existing = this.indexList.find((index) => index.name === name);
+    if (existing && !valuesEqual(existing.key, spec)) {
+      throw new Error(`索引"${name}"已存在且定义不同`);
+    }
+    if (!existing) {
+      this.indexList.push({ name, key: { ...spec } });
+    }
+    return name;
+  }
+}
+
+/**
+ * 内存存储后端
+ * 数据只保存在进程内，适用于本地试用、演示和测试
+ */
+export class MemoryStorage implements Storage {
+  readonly kind = "memory" as const;
+  readonly databaseName: string;
+  private collections = new Map<string, MemoryRepository>();
+
+  constructor(databaseName = "vitea-memory") {
+    this.databaseName = databaseName;
+
+    // 预先创建核心集合，便于资源列表展示
+    for (const name of VITEA_COLLECTIONS) {
+      this.collections.set(name, new MemoryRepository(name));
+    }
+  }
+
+  collection<T = any>(name: string): Repository<T> {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new MemoryRepository(name));
+    }
+    return this.collections.get(name) as MemoryRepository<T>;
+  }
+
+  async listCollections(): Promise<string[]> {
+    return Array.from(this.collections.keys());
+  }
+
+  withTransaction<R>(fn: (tx: Storage) => Promise<R>): Promise<R> {
+    // 内存存储没有事务，失败时补偿撤销
+    return runWithCompensation(this, fn);
+  }
+
+  async ping(): Promise<void> {
+    // 内存存储始终可用
+  }
+
+  async close(): Promise<void> {
+    this.collections.clear();
+  }
+}
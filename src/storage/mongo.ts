@@ -0,0 +1,214 @@
+import type { ClientSession, Collection, Db, MongoClient } from "mongodb";
+import type {
+  DeleteResult,
+  Filter,
+  FindOptions,
+  IndexInfo,
+  IndexSpec,
+  InsertOneResult,
+  Repository,
+  RepositoryCursor,
+  Storage,
+  UpdateFilter,
+  UpdateResult,
+} from "./types.js";
+import { TransactionError, runWithCompensation } from "./transaction.js";
+
+/**
+ * MongoDB集合仓储
+ * 对MongoDB Collection的薄封装，在事务中时所有操作使用同一会话
+ */
+export class MongoRepository<T = any> implements Repository<T> {
+  private collection: Collection<any>;
+  private session?: ClientSession;
+
+  constructor(collection: Collection<any>, session?: ClientSession) {
+    this.collection = collection;
+    this.session = session;
+  }
+
+  get collectionName(): string {
+    return this.collection.collectionName;
+  }
+
+  find(filter: Filter = {}, options: FindOptions = {}): RepositoryCursor<T> {
+    // FindCursor本身支持sort/limit/project/toArray链式调用
+    return this.collection.find(filter, {
+      ...options,
+      session: this.session,
+    } as any) as unknown as RepositoryCursor<T>;
+  }
+
+  async findOne(filter: Filter = {}, options: FindOptions = {}): Promise<T | null> {
+    return (await this.collection.findOne(filter, {
+      ...options,
+      session: this.session,
+    } as any)) as T | null;
+  }
+
+  async insertOne(doc: Partial<T>): Promise<InsertOneResult> {
+    const result = await this.collection.insertOne(doc as any, {
+      session: this.session,
+    });
+    return {
+      acknowledged: result.acknowledged,
+      insertedId: result.insertedId,
+    };
+  }
+
+  async updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const result = await this.collection.updateOne(filter, update, {
+      session: this.session,
+    });
+    return {
+      acknowledged: result.acknowledged,
+      matchedCount: result.matchedCount,
+      modifiedCount: result.modifiedCount,
+    };
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const result = await this.collection.updateMany(filter, update, {
+      session: this.session,
+    });
+    return {
+      acknowledged: result.acknowledged,
+      matchedCount: result.matchedCount,
+      modifiedCount: result.modifiedCount,
+    };
+  }
+
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    const result = await this.collection.deleteOne(filter, {
+      session: this.session,
+    });
+    return {
+      acknowledged: result.acknowledged,
+      deletedCount: result.deletedCount,
+    };
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    const result = await this.collection.deleteMany(filter, {
+      session: this.session,
+    });
+    return {
+      acknowledged: result.acknowledged,
+      deletedCount: result.deletedCount,
+    };
+  }
+
+  async countDocuments(filter: Filter = {}): Promise<number> {
+    return await this.collection.countDocuments(filter, {
+      session: this.session,
+    });
+  }
+
+  async distinct(field: string, filter: Filter = {}): Promise<any[]> {
+    return await this.collection.distinct(field, filter, {
+      session: this.session,
+    });
+  }
+
+  async indexes(): Promise<IndexInfo[]> {
+    const indexes = await this.collection.indexes();
+    return indexes.map((idx) => ({ name: idx.name, key: idx.key }));
+  }
+
+  async createIndex(
+    spec: IndexSpec,
+    options: { name?: string } = {}
+  ): Promise<string> {
+    // 不使用会话：事务中不能在已有集合上创建索引
+    return await this.collection.createIndex(spec, options);
+  }
+}
+
+/**
+ * MongoDB存储后端
+ */
+export class MongoStorage implements Storage {
+  readonly kind = "mongodb" as const;
+  private client: MongoClient;
+  private db: Db;
+  private session?: ClientSession;
+  // 部署是否支持事务（副本集或分片集群），首次使用时检测
+  private transactionSupport?: Promise<boolean>;
+
+  constructor(client: MongoClient, db: Db, session?: ClientSession) {
+    this.client = client;
+    this.db = db;
+    this.session = session;
+  }
+
+  get databaseName(): string {
+    return this.db.databaseName;
+  }
+
+  collection<T = any>(name: string): Repository<T> {
+    return new MongoRepository<T>(this.db.collection(name), this.session);
+  }
+
+  async listCollections(): Promise<string[]> {
+    const collections = await this.db.listCollections().toArray();
+    return collections.map((c) => c.name);
+  }
+
+  async withTransaction<R>(fn: (tx: Storage) => Promise<R>): Promise<R> {
+    // 已在事务中时直接复用当前会话
+    if (this.session) {
+      return fn(this);
+    }
+
+    if (!(await this.supportsTransactions())) {
+      return runWithCompensation(this, fn);
+    }
+
+    const session = this.client.startSession();
+    try {
+      let result: R;
+      await session.withTransaction(async () => {
+        result = await fn(new MongoStorage(this.client, this.db, session));
+      });
+      return result!;
+    } catch (error) {
+      throw new TransactionError(error, {
+        mode: "transaction",
+        rolledBack: true,
+        writtenDocuments: 0,
+        unrestored: [],
+      });
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * 检测部署是否支持多文档事务
+   * 单机服务器不支持事务，只有副本集成员和mongos支持
+   */
+  private supportsTransactions(): Promise<boolean> {
+    if (!this.transactionSupport) {
+      this.transactionSupport = this.db
+        .command({ hello: 1 })
+        .then((hello) => Boolean(hello.setName) || hello.msg === "isdbgrid")
+        .catch((error) => {
+          console.warn("检测MongoDB事务支持失败，使用补偿模式:", error);
+          return false;
+        });
+    }
+    return this.transactionSupport;
+  }
+
+  async ping(): Promise<void> {
+    const pong = await this.db.command({ ping: 1 });
+
+    if (pong.ok !== 1) {
+      throw new Error(`MongoDB ping失败: ${pong.errmsg}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -0,0 +1,587 @@
+import { ObjectId } from "mongodb";
+import type { Filter, Projection, SortSpec, UpdateFilter } from "./types.js";
+
+/**
+ * 内存存储使用的查询/更新引擎
+ * 实现了模型层用到的MongoDB查询语法子集
+ */
+
+// 检查一个值是否为ObjectId
+function isObjectIdValue(value: any): value is ObjectId {
+  return (
+    value instanceof ObjectId ||
+    (typeof value === "object" &&
+      value !== null &&
+      value._bsontype === "ObjectId")
+  );
+}
+
+// 检查一个值是否为普通对象(非ObjectId/Date/RegExp/数组)
+function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp) &&
+    !isObjectIdValue(value)
+  );
+}
+
+// 检查一个条件是否为操作符对象，如 { $gt: 1 }
+function isOperatorObject(value: any): boolean {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+}
+
+/**
+ * 深拷贝文档(保留ObjectId、Date、RegExp等特殊类型)
+ * @param value 要拷贝的值
+ * @returns 拷贝后的值
+ */
+export function cloneDocument<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => cloneDocument(item)) as any;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as any;
+  }
+  if (isObjectIdValue(value) || value instanceof RegExp) {
+    // ObjectId和RegExp不可变，直接复用
+    return value;
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = cloneDocument(item);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * 比较两个值是否相等(ObjectId按值、Date按时间、对象和数组按结构比较)
+ */
+export function valuesEqual(a: any, b: any): boolean {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) {
+    return true;
+  }
+  if (isObjectIdValue(a) && isObjectIdValue(b)) {
+    return a.equals(b);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+    const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) => valuesEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+// BSON类型排序权重，与MongoDB的跨类型比较顺序一致
+function typeOrder(value: any): number {
+  if (value === null || value === undefined) return 1;
+  if (typeof value === "number") return 2;
+  if (typeof value === "string") return 3;
+  if (Array.isArray(value)) return 5;
+  if (isObjectIdValue(value)) return 7;
+  if (typeof value === "boolean") return 8;
+  if (value instanceof Date) return 9;
+  if (value instanceof RegExp) return 11;
+  return 4;
+}
+
+/**
+ * 比较两个值的大小，用于排序和范围查询
+ * @returns 负数表示a<b，0表示相等，正数表示a>b
+ */
+export function compareValues(a: any, b: any): number {
+  const orderA = typeOrder(a);
+  const orderB = typeOrder(b);
+
+  if (orderA !== orderB) {
+    return orderA - orderB;
+  }
+
+  switch (orderA) {
+    case 1:
+      return 0;
+    case 2:
+      return a - b;
+    case 3:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 7:
+      return compareValues(a.toHexString(), b.toHexString());
+    case 8:
+      return Number(a) - Number(b);
+    case 9:
+      return a.getTime() - b.getTime();
+    default:
+      return compareValues(JSON.stringify(a), JSON.stringify(b));
+  }
+}
+
+/**
+ * 按点分路径解析文档中的值
+ * 路径经过数组时会展开数组中的每个元素，与MongoDB的行为一致
+ * @param value 文档或子文档
+ * @param path 点分路径，如 "notes.metadata.tags"
+ * @returns 所有匹配到的值(缺失字段为undefined)
+ */
+export function resolvePath(value: any, path: string | string[]): any[] {
+  const parts = typeof path === "string" ? path.split(".") : path;
+
+  if (parts.length === 0) {
+    return [value];
+  }
+
+  if (value === null || value === undefined) {
+    return [undefined];
+  }
+
+  const [head, ...rest] = parts;
+
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(head)) {
+      return resolvePath(value[Number(head)], rest);
+    }
+    const results = value.flatMap((item) =>
+      isPlainObject(item) ? resolvePath(item, parts) : []
+    );
+    return results.length > 0 ? results : [undefined];
+  }
+
+  if (isPlainObject(value)) {
+    return resolvePath(value[head], rest);
+  }
+
+  return [undefined];
+}
+
+// 将候选值中的数组展开为元素，同时保留数组本身
+function expandValues(values: any[]): any[] {
+  const expanded: any[] = [];
+  for (const value of values) {
+    expanded.push(value);
+    if (Array.isArray(value)) {
+      expanded.push(...value);
+    }
+  }
+  return expanded;
+}
+
+// 正则匹配(只对字符串生效)
+function regexMatches(value: any, regex: RegExp): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  regex.lastIndex = 0;
+  return regex.test(value);
+}
+
+// 相等匹配(数组字段只要包含该值即可匹配)
+function equalityMatches(values: any[], expected: any): boolean {
+  if (expected instanceof RegExp) {
+    return expandValues(values).some((value) => regexMatches(value, expected));
+  }
+  return expandValues(values).some((value) => valuesEqual(value, expected));
+}
+
+// 范围比较只在同类型值之间进行
+function rangeMatches(
+  values: any[],
+  expected: any,
+  predicate: (result: number) => boolean
+): boolean {
+  return expandValues(values).some(
+    (value) =>
+      value !== undefined &&
+      value !== null &&
+      typeOrder(value) === typeOrder(expected) &&
+      predicate(compareValues(value, expected))
+  );
+}
+
+// 从GeoJSON点或[经度, 纬度]数组中取出坐标
+function pointOf(value: any): [number, number] | null {
+  const position =
+    isPlainObject(value) && value.type === "Point" ? value.coordinates : value;
+  if (
+    Array.isArray(position) &&
+    position.length >= 2 &&
+    typeof position[0] === "number" &&
+    typeof position[1] === "number"
+  ) {
+    return [position[0], position[1]];
+  }
+  return null;
+}
+
+// 两点之间的球面夹角（弧度）
+function angularDistance(
+  [lng1, lat1]: [number, number],
+  [lng2, lat2]: [number, number]
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// 射线法判断点是否在环内（边按经纬度平面直线处理，适用于小范围区域）
+function ringContains(ring: number[][], [x, y]: [number, number]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * $geoWithin匹配
+ * 支持$centerSphere（半径为弧度）和$geometry（Polygon，第一个环为外边界，其余为洞）
+ */
+function geoWithinMatches(values: any[], operand: Record<string, any>): boolean {
+  const points = values
+    .map((value) => pointOf(value))
+    .filter((point): point is [number, number] => point !== null);
+
+  if (operand.$centerSphere) {
+    const [center, radius] = operand.$centerSphere;
+    return points.some(
+      (point) => angularDistance(pointOf(center), point) <= radius
+    );
+  }
+
+  if (operand.$geometry) {
+    if (operand.$geometry.type !== "Polygon") {
+      throw new Error(
+        `内存存储不支持的$geoWithin几何类型: ${operand.$geometry.type}`
+      );
+    }
+    const [outer, ...holes] = operand.$geometry.coordinates as number[][][];
+    return points.some(
+      (point) =>
+        ringContains(outer, point) &&
+        !holes.some((hole) => ringContains(hole, point))
+    );
+  }
+
+  throw new Error(
+    `内存存储不支持的$geoWithin条件: ${Object.keys(operand).join(", ")}`
+  );
+}
+
+/**
+ * 检查候选值是否满足某个字段条件
+ * @param values 字段的候选值
+ * @param condition 条件(值、正则或操作符对象)
+ */
+function matchesCondition(values: any[], condition: any): boolean {
+  if (!isOperatorObject(condition)) {
+    return equalityMatches(values, condition);
+  }
+
+  const operators = Object.entries(condition as Record<string, any>);
+
+  return operators.every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return equalityMatches(values, operand);
+      case "$ne":
+        return !equalityMatches(values, operand);
+      case "$gt":
+        return rangeMatches(values, operand, (r) => r > 0);
+      case "$gte":
+        return rangeMatches(values, operand, (r) => r >= 0);
+      case "$lt":
+        return rangeMatches(values, operand, (r) => r < 0);
+      case "$lte":
+        return rangeMatches(values, operand, (r) => r <= 0);
+      case "$in":
+        return (operand as any[]).some((expected) =>
+          equalityMatches(values, expected)
+        );
+      case "$nin":
+        return !(operand as any[]).some((expected) =>
+          equalityMatches(values, expected)
+        );
+      case "$exists":
+        return operand
+          ? values.some((value) => value !== undefined)
+          : values.every((value) => value === undefined);
+      case "$regex": {
+        const regex =
+          operand instanceof RegExp
+            ? condition.$options
+              ? new RegExp(operand.source, condition.$options)
+              : operand
+            : new RegExp(operand, condition.$options || "");
+        return expandValues(values).some((value) => regexMatches(value, regex));
+      }
+      case "$options":
+        // 与$regex一起处理
+        return true;
+      case "$not":
+        return !matchesCondition(values, operand);
+      case "$all":
+        return (operand as any[]).every((expected) =>
+          equalityMatches(values, expected)
+        );
+      case "$size":
+        return values.some(
+          (value) => Array.isArray(value) && value.length === operand
+        );
+      case "$elemMatch":
+        return values.some(
+          (value) =>
+            Array.isArray(value) &&
+            value.some((element) =>
+              isOperatorObject(operand)
+                ? matchesCondition([element], operand)
+                : isPlainObject(element) && matchesFilter(element, operand)
+            )
+        );
+      case "$geoWithin":
+        return geoWithinMatches(values, operand);
+      default:
+        throw new Error(`内存存储不支持的查询操作符: ${operator}`);
+    }
+  });
+}
+
+/**
+ * 检查文档是否满足查询条件
+ * @param doc 文档
+ * @param filter 查询条件
+ * @returns 是否匹配
+ */
+export function matchesFilter(doc: any, filter: Filter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$or":
+        return (condition as Filter[]).some((sub) => matchesFilter(doc, sub));
+      case "$and":
+        return (condition as Filter[]).every((sub) => matchesFilter(doc, sub));
+      case "$nor":
+        return !(condition as Filter[]).some((sub) => matchesFilter(doc, sub));
+      default:
+        if (key.startsWith("$")) {
+          throw new Error(`内存存储不支持的查询操作符: ${key}`);
+        }
+        return matchesCondition(resolvePath(doc, key), condition);
+    }
+  });
+}
+
+/**
+ * 按排序规则排序文档(原地排序)
+ * @param docs 文档数组
+ * @param sort 排序规则
+ */
+export function sortDocuments<T>(docs: T[], sort: SortSpec): T[] {
+  const entries = Object.entries(sort);
+  return docs.sort((a, b) => {
+    for (const [path, direction] of entries) {
+      const result = compareValues(
+        resolvePath(a, path)[0],
+        resolvePath(b, path)[0]
+      );
+      if (result !== 0) {
+        return result * direction;
+      }
+    }
+    return 0;
+  });
+}
+
+// 读取点分路径上的值(不展开数组)
+function getPathValue(doc: any, path: string): any {
+  let current = doc;
+  for (const part of path.split(".")) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return current;
+}
+
+// 设置点分路径上的值，自动创建中间对象
+function setPathValue(doc: any, path: string, value: any): void {
+  const parts = path.split(".");
+  let current = doc;
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (current[parts[i]] === null || current[parts[i]] === undefined) {
+      current[parts[i]] = {};
+    }
+    current = current[parts[i]];
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+// 删除点分路径上的字段
+function unsetPathValue(doc: any, path: string): void {
+  const parts = path.split(".");
+  let current = doc;
+  for (let i = 0; i < parts.length - 1; i++) {
+    current = current?.[parts[i]];
+  }
+  if (current !== null && current !== undefined) {
+    delete current[parts[parts.length - 1]];
+  }
+}
+
+// 读取数组字段，缺失时返回空数组
+function getArrayField(doc: any, path: string, operator: string): any[] {
+  const current = getPathValue(doc, path);
+  if (current === null || current === undefined) {
+    const created: any[] = [];
+    setPathValue(doc, path, created);
+    return created;
+  }
+  if (!Array.isArray(current)) {
+    throw new Error(`无法对非数组字段 ${path} 执行 ${operator}`);
+  }
+  return current;
+}
+
+/**
+ * 将更新操作应用到文档(原地修改)
+ * @param doc 文档
+ * @param update 更新操作
+ * @returns 文档是否发生变化
+ */
+export function applyUpdate(doc: any, update: UpdateFilter): boolean {
+  const before = cloneDocument(doc);
+
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Record<string, any>)) {
+      switch (operator) {
+        case "$set":
+          setPathValue(doc, path, cloneDocument(value));
+          break;
+        case "$unset":
+          unsetPathValue(doc, path);
+          break;
+        case "$inc": {
+          const current = getPathValue(doc, path) || 0;
+          setPathValue(doc, path, current + value);
+          break;
+        }
+        case "$min":
+        case "$max": {
+          const current = getPathValue(doc, path);
+          const result = compareValues(value, current);
+          if (
+            current === undefined ||
+            (operator === "$min" ? result < 0 : result > 0)
+          ) {
+            setPathValue(doc, path, cloneDocument(value));
+          }
+          break;
+        }
+        case "$push": {
+          const array = getArrayField(doc, path, operator);
+          const hasModifiers = isPlainObject(value) && "$each" in value;
+          const items = (hasModifiers ? value.$each : [value]).map(
+            (item: any) => cloneDocument(item)
+          );
+          if (hasModifiers && typeof value.$position === "number") {
+            array.splice(value.$position, 0, ...items);
+          } else {
+            array.push(...items);
+          }
+          break;
+        }
+        case "$addToSet": {
+          const array = getArrayField(doc, path, operator);
+          const items =
+            isPlainObject(value) && "$each" in value ? value.$each : [value];
+          for (const item of items) {
+            if (!array.some((existing) => valuesEqual(existing, item))) {
+              array.push(cloneDocument(item));
+            }
+          }
+          break;
+        }
+        case "$pull": {
+          const current = getPathValue(doc, path);
+          if (!Array.isArray(current)) {
+            break;
+          }
+          const remaining = current.filter((element) => {
+            if (isOperatorObject(value)) {
+              return !matchesCondition([element], value);
+            }
+            if (isPlainObject(value) && isPlainObject(element)) {
+              return !matchesFilter(element, value);
+            }
+            return !valuesEqual(element, value);
+          });
+          setPathValue(doc, path, remaining);
+          break;
+        }
+        default:
+          throw new Error(`内存存储不支持的更新操作符: ${operator}`);
+      }
+    }
+  }
+
+  return !valuesEqual(before, doc);
+}
+
+/**
+ * 对文档应用字段投影
+ * @param doc 文档
+ * @param projection 投影规则
+ * @returns 投影后的新文档
+ */
+export function applyProjection(doc: any, projection: Projection): any {
+  const entries = Object.entries(projection);
+  const isInclusion = entries.some(([key, value]) => key !== "_id" && value);
+
+  if (isInclusion) {
+    const result: Record<string, any> = {};
+    if (projection._id !== 0) {
+      result._id = doc._id;
+    }
+    for (const [path, value] of entries) {
+      if (path === "_id" || !value) {
+        continue;
+      }
+      const fieldValue = getPathValue(doc, path);
+      if (fieldValue !== undefined) {
+        setPathValue(result, path, cloneDocument(fieldValue));
+      }
+    }
+    return result;
+  }
+
+  const result = cloneDocument(doc);
+  for (const [path, value] of entries) {
+    if (!value) {
+      unsetPathValue(result, path);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,317 @@
+import type { ObjectId } from "mongodb";
+import type {
+  DeleteResult,
+  Filter,
+  FindOptions,
+  IndexInfo,
+  IndexSpec,
+  InsertOneResult,
+  Repository,
+  RepositoryCursor,
+  Storage,
+  UpdateFilter,
+  UpdateResult,
+} from "./types.js";
+
+// 事务执行方式：数据库原生事务，或失败后逐条撤销的补偿模式
+export type TransactionMode = "transaction" | "compensation";
+
+// 补偿时未能恢复的文档
+export interface CompensationFailure {
+  collection: string;
+  entityId: ObjectId;
+  error: string;
+}
+
+// 多文档写操作失败时返回给调用方的详情
+export interface TransactionFailureDetails {
+  // 执行方式
+  mode: TransactionMode;
+  // 已执行的写操作是否全部撤销
+  rolledBack: boolean;
+  // 补偿模式下失败前已修改的文档数量（事务模式下修改未提交，为0）
+  writtenDocuments: number;
+  // 补偿后仍未恢复的文档
+  unrestored: CompensationFailure[];
+}
+
+/**
+ * 多文档写操作失败
+ * 包装原始错误，并说明已执行的修改是否已撤销
+ */
+export class TransactionError extends Error {
+  readonly details: TransactionFailureDetails;
+
+  constructor(cause: unknown, details: TransactionFailureDetails) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${reason}（${describeRollback(details)}）`, { cause });
+    this.name = "TransactionError";
+    this.details = details;
+  }
+}
+
+/**
+ * 描述失败后的回滚情况
+ * @param details 失败详情
+ */
+function describeRollback(details: TransactionFailureDetails): string {
+  if (details.rolledBack) {
+    return details.mode === "transaction"
+      ? "事务已回滚，未修改任何数据"
+      : `已撤销${details.writtenDocuments}个文档的修改`;
+  }
+
+  return `以下文档未能恢复，数据可能不一致: ${details.unrestored
+    .map((failure) => `${failure.collection}/${failure.entityId}`)
+    .join(", ")}`;
+}
+
+/**
+ * 从错误中提取多文档写操作的失败详情
+ * @param error 任意错误
+ * @returns 失败详情，非TransactionError时返回undefined
+ */
+export function getTransactionFailure(
+  error: unknown
+): TransactionFailureDetails | undefined {
+  return error instanceof TransactionError ? error.details : undefined;
+}
+
+/**
+ * 将文档恢复为指定内容
+ * 目标为null时删除文档，文档已不存在时按原ID重新插入，
+ * 否则还原所有字段并移除目标中没有的字段
+ * @param collection 集合仓储
+ * @param entityId 文档ID
+ * @param target 目标文档
+ * @returns 执行的恢复动作
+ */
+export async function restoreDocument(
+  collection: Repository,
+  entityId: ObjectId,
+  target: Record<string, any> | null
+): Promise<"restore" | "delete" | "reinsert" | "none"> {
+  const current: Record<string, any> | null = await collection.findOne({
+    _id: entityId,
+  });
+
+  if (!target) {
+    if (!current) {
+      return "none";
+    }
+    await collection.deleteOne({ _id: entityId });
+    return "delete";
+  }
+
+  if (!current) {
+    await collection.insertOne(target);
+    return "reinsert";
+  }
+
+  const { _id, ...fields } = target;
+  const addedFields = Object.keys(current).filter(
+    (key) => key !== "_id" && !(key in target)
+  );
+
+  await collection.updateOne(
+    { _id: entityId },
+    {
+      $set: fields,
+      ...(addedFields.length > 0 && {
+        $unset: Object.fromEntries(addedFields.map((key) => [key, ""])),
+      }),
+    }
+  );
+  return "restore";
+}
+
+// 补偿日志中的一条记录：写操作前的文档
+interface JournalEntry {
+  collection: string;
+  entityId: ObjectId;
+  before: Record<string, any> | null;
+}
+
+/**
+ * 记录补偿日志的集合仓储
+ * 每次写操作前保存受影响文档的原始内容
+ */
+class JournaledRepository<T = any> implements Repository<T> {
+  private inner: Repository<T>;
+  private journal: JournalEntry[];
+
+  constructor(inner: Repository<T>, journal: JournalEntry[]) {
+    this.inner = inner;
+    this.journal = journal;
+  }
+
+  get collectionName(): string {
+    return this.inner.collectionName;
+  }
+
+  find(filter?: Filter, options?: FindOptions): RepositoryCursor<T> {
+    return this.inner.find(filter, options);
+  }
+
+  findOne(filter?: Filter, options?: FindOptions): Promise<T | null> {
+    return this.inner.findOne(filter, options);
+  }
+
+  async insertOne(doc: Partial<T>): Promise<InsertOneResult> {
+    const result = await this.inner.insertOne(doc);
+    this.record(result.insertedId, null);
+    return result;
+  }
+
+  async updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const before: any = await this.inner.findOne(filter);
+    if (before) {
+      this.record(before._id, before);
+    }
+    return this.inner.updateOne(filter, update);
+  }
+
+  async updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult> {
+    const befores: any[] = await this.inner.find(filter).toArray();
+    for (const before of befores) {
+      this.record(before._id, before);
+    }
+    return this.inner.updateMany(filter, update);
+  }
+
+  async deleteOne(filter: Filter): Promise<DeleteResult> {
+    const before: any = await this.inner.findOne(filter);
+    if (before) {
+      this.record(before._id, before);
+    }
+    return this.inner.deleteOne(filter);
+  }
+
+  async deleteMany(filter: Filter): Promise<DeleteResult> {
+    const befores: any[] = await this.inner.find(filter).toArray();
+    for (const before of befores) {
+      this.record(before._id, before);
+    }
+    return this.inner.deleteMany(filter);
+  }
+
+  countDocuments(filter?: Filter): Promise<number> {
+    return this.inner.countDocuments(filter);
+  }
+
+  distinct(field: string, filter?: Filter): Promise<any[]> {
+    return this.inner.distinct(field, filter);
+  }
+
+  indexes(): Promise<IndexInfo[]> {
+    return this.inner.indexes();
+  }
+
+  createIndex(spec: IndexSpec, options?: { name?: string }): Promise<string> {
+    return this.inner.createIndex(spec, options);
+  }
+
+  private record(entityId: ObjectId, before: any): void {
+    this.journal.push({
+      collection: this.inner.collectionName,
+      entityId,
+      before: before ?? null,
+    });
+  }
+}
+
+/**
+ * 补偿模式下的存储后端
+ * 记录所有写操作前的文档，失败时按相反顺序恢复
+ */
+class JournaledStorage implements Storage {
+  private inner: Storage;
+  readonly journal: JournalEntry[] = [];
+
+  constructor(inner: Storage) {
+    this.inner = inner;
+  }
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  get databaseName(): string {
+    return this.inner.databaseName;
+  }
+
+  collection<T = any>(name: string): Repository<T> {
+    return new JournaledRepository<T>(
+      this.inner.collection<T>(name),
+      this.journal
+    );
+  }
+
+  listCollections(): Promise<string[]> {
+    return this.inner.listCollections();
+  }
+
+  withTransaction<R>(fn: (tx: Storage) => Promise<R>): Promise<R> {
+    // 嵌套调用共用同一份补偿日志
+    return fn(this);
+  }
+
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+}
+
+/**
+ * 以补偿模式执行多文档写操作
+ * 用于不支持事务的部署（单机MongoDB、内存存储）：
+ * 任何一步失败时把已修改的文档恢复为原始内容，再抛出TransactionError
+ * @param storage 存储后端
+ * @param fn 写操作
+ */
+export async function runWithCompensation<R>(
+  storage: Storage,
+  fn: (tx: Storage) => Promise<R>
+): Promise<R> {
+  const tx = new JournaledStorage(storage);
+
+  try {
+    return await fn(tx);
+  } catch (error) {
+    // 同一文档只需恢复为第一次写入前的内容
+    const originals = new Map<string, JournalEntry>();
+    for (const entry of tx.journal) {
+      const key = `${entry.collection}/${entry.entityId.toString()}`;
+      if (!originals.has(key)) {
+        originals.set(key, entry);
+      }
+    }
+
+    const unrestored: CompensationFailure[] = [];
+    for (const entry of Array.from(originals.values()).reverse()) {
+      try {
+        await restoreDocument(
+          storage.collection(entry.collection),
+          entry.entityId,
+          entry.before
+        );
+      } catch (restoreError) {
+        unrestored.push({
+          collection: entry.collection,
+          entityId: entry.entityId,
+          error: String(restoreError),
+        });
+      }
+    }
+
+    throw new TransactionError(error, {
+      mode: "compensation",
+      rolledBack: unrestored.length === 0,
+      writtenDocuments: originals.size,
+      unrestored,
+    });
+  }
+}
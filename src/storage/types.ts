@@ -0,0 +1,111 @@
+import type { ObjectId } from "mongodb";
+
+// 查询条件(MongoDB查询语法的子集)
+export type Filter = Record<string, any>;
+
+// 更新操作($set, $unset, $inc, $push, $addToSet, $pull等)
+export type UpdateFilter = Record<string, any>;
+
+// 排序规则: 1为升序, -1为降序
+export type SortSpec = Record<string, 1 | -1>;
+
+// 字段投影: 1为包含, 0为排除
+export type Projection = Record<string, 0 | 1>;
+
+// 查询选项
+export interface FindOptions {
+  sort?: SortSpec;
+  limit?: number;
+  projection?: Projection;
+}
+
+// 更新结果
+export interface UpdateResult {
+  acknowledged: boolean;
+  matchedCount: number;
+  modifiedCount: number;
+}
+
+// 插入结果
+export interface InsertOneResult {
+  acknowledged: boolean;
+  insertedId: ObjectId;
+}
+
+// 删除结果
+export interface DeleteResult {
+  acknowledged: boolean;
+  deletedCount: number;
+}
+
+// 索引信息
+export interface IndexInfo {
+  name: string;
+  key: Record<string, any>;
+}
+
+// 索引键: 1为升序, -1为降序, "2dsphere"为球面地理索引
+export type IndexSpec = Record<string, 1 | -1 | "2dsphere">;
+
+/**
+ * 查询游标接口
+ * 与MongoDB FindCursor的链式调用方式保持一致
+ */
+export interface RepositoryCursor<T> {
+  sort(spec: SortSpec): RepositoryCursor<T>;
+  limit(count: number): RepositoryCursor<T>;
+  project<P = any>(projection: Projection): RepositoryCursor<P>;
+  toArray(): Promise<T[]>;
+}
+
+/**
+ * 集合仓储接口
+ * 模型层只通过该接口访问数据，不直接依赖具体的存储实现
+ */
+export interface Repository<T = any> {
+  readonly collectionName: string;
+  find(filter?: Filter, options?: FindOptions): RepositoryCursor<T>;
+  findOne(filter?: Filter, options?: FindOptions): Promise<T | null>;
+  insertOne(doc: Partial<T>): Promise<InsertOneResult>;
+  updateOne(filter: Filter, update: UpdateFilter): Promise<UpdateResult>;
+  updateMany(filter: Filter, update: UpdateFilter): Promise<UpdateResult>;
+  deleteOne(filter: Filter): Promise<DeleteResult>;
+  deleteMany(filter: Filter): Promise<DeleteResult>;
+  countDocuments(filter?: Filter): Promise<number>;
+  distinct(field: string, filter?: Filter): Promise<any[]>;
+  indexes(): Promise<IndexInfo[]>;
+  /**
+   * 创建索引（已存在时不做任何操作）
+   * 索引不参与事务，事务中调用时直接作用于底层集合
+   * @returns 索引名称
+   */
+  createIndex(spec: IndexSpec, options?: { name?: string }): Promise<string>;
+}
+
+/**
+ * 存储后端接口
+ * 目前有MongoDB实现和纯内存实现两种
+ */
+export interface Storage {
+  readonly kind: "mongodb" | "memory";
+  readonly databaseName: string;
+  collection<T = any>(name: string): Repository<T>;
+  listCollections(): Promise<string[]>;
+  /**
+   * 以事务方式执行多文档写操作
+   * 支持事务的部署使用数据库事务，否则在失败时补偿撤销已执行的写操作；
+   * 失败时抛出TransactionError。在fn中必须通过tx访问数据
+   */
+  withTransaction<R>(fn: (tx: Storage) => Promise<R>): Promise<R>;
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// ViteaOS核心集合
+export const VITEA_COLLECTIONS = [
+  "items",
+  "locations",
+  "contacts",
+  "bioData",
+  "tasks",
+];
@@ -0,0 +1,257 @@
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+
+// 种子数据中各实体的ID，便于在测试中直接引用
+export interface FixtureIds {
+  locations: {
+    dormBuilding: ObjectId;
+    dormRoom: ObjectId;
+    mainBuilding: ObjectId;
+    library: ObjectId;
+  };
+  items: {
+    backpack: ObjectId;
+    eyeDrops: ObjectId;
+    umbrella: ObjectId;
+  };
+  contacts: {
+    zhangSan: ObjectId;
+    liSi: ObjectId;
+  };
+  bioData: {
+    walkingSpeed: ObjectId;
+    previousWalkingSpeed: ObjectId;
+    weight: ObjectId;
+  };
+  tasks: {
+    thesis: ObjectId;
+    homework: ObjectId;
+    finished: ObjectId;
+  };
+}
+
+// 同步字段默认值
+function syncFields(now: Date) {
+  return {
+    syncedToNotion: false,
+    modifiedSinceSync: false,
+    lastSync: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 写入一组固定的种子数据
+ * 覆盖位置层级、容器嵌套、联系人标签、生物数据历史和各状态的任务
+ * @param db 存储后端
+ * @param now 基准时间（默认当前时间），截止日期等相对该时间计算
+ * @returns 各实体的ID
+ */
+export async function seedFixtures(
+  db: Storage,
+  now: Date = new Date()
+): Promise<FixtureIds> {
+  const day = 24 * 60 * 60 * 1000;
+
+  const ids: FixtureIds = {
+    locations: {
+      dormBuilding: new ObjectId(),
+      dormRoom: new ObjectId(),
+      mainBuilding: new ObjectId(),
+      library: new ObjectId(),
+    },
+    items: {
+      backpack: new ObjectId(),
+      eyeDrops: new ObjectId(),
+      umbrella: new ObjectId(),
+    },
+    contacts: {
+      zhangSan: new ObjectId(),
+      liSi: new ObjectId(),
+    },
+    bioData: {
+      walkingSpeed: new ObjectId(),
+      previousWalkingSpeed: new ObjectId(),
+      weight: new ObjectId(),
+    },
+    tasks: {
+      thesis: new ObjectId(),
+      homework: new ObjectId(),
+      finished: new ObjectId(),
+    },
+  };
+
+  const locations = db.collection("locations");
+  await locations.insertOne({
+    _id: ids.locations.dormBuilding,
+    name: "宿舍楼",
+    type: "building",
+    address: "学生宿舍区1号楼",
+    childLocations: [ids.locations.dormRoom],
+    coordinates: { latitude: 39.9605, longitude: 116.3575, system: "gcj02" },
+    geoPoint: { type: "Point", coordinates: [116.3575, 39.9605] },
+    ...syncFields(now),
+  });
+  await locations.insertOne({
+    _id: ids.locations.dormRoom,
+    name: "宿舍",
+    type: "room",
+    parentLocationId: ids.locations.dormBuilding,
+    childLocations: [],
+    roomNumber: "305",
+    coordinates: { latitude: 39.9605, longitude: 116.3575, system: "gcj02" },
+    geoPoint: { type: "Point", coordinates: [116.3575, 39.9605] },
+    ...syncFields(now),
+  });
+  await locations.insertOne({
+    _id: ids.locations.mainBuilding,
+    name: "主楼",
+    type: "building",
+    address: "校园中心",
+    childLocations: [],
+    coordinates: { latitude: 39.9625, longitude: 116.3595, system: "gcj02" },
+    geoPoint: { type: "Point", coordinates: [116.3595, 39.9625] },
+    ...syncFields(now),
+  });
+  await locations.insertOne({
+    _id: ids.locations.library,
+    name: "图书馆",
+    type: "building",
+    childLocations: [],
+    openingHours: "08:00-22:00",
+    ...syncFields(now),
+  });
+
+  const items = db.collection("items");
+  await items.insertOne({
+    _id: ids.items.backpack,
+    name: "书包",
+    category: "日用品",
+    status: "在用",
+    quantity: 1,
+    isContainer: true,
+    containedItems: [ids.items.eyeDrops],
+    locationId: ids.locations.dormRoom,
+    notes: [],
+    ...syncFields(now),
+  });
+  await items.insertOne({
+    _id: ids.items.eyeDrops,
+    name: "眼药水",
+    category: "药品",
+    status: "在用",
+    quantity: 2,
+    isContainer: false,
+    containerId: ids.items.backpack,
+    notes: [
+      {
+        timestamp: "2024-01-01",
+        content: "医生建议每天两次",
+        metadata: { tags: ["健康"] },
+      },
+    ],
+    ...syncFields(now),
+  });
+  await items.insertOne({
+    _id: ids.items.umbrella,
+    name: "雨伞",
+    category: "日用品",
+    status: "在用",
+    quantity: 1,
+    isContainer: false,
+    locationId: ids.locations.mainBuilding,
+    notes: [],
+    ...syncFields(now),
+  });
+
+  const contacts = db.collection("contacts");
+  await contacts.insertOne({
+    _id: ids.contacts.zhangSan,
+    name: "张三",
+    phone: "13800000001",
+    school: "北京大学",
+    relationship: "同学",
+    tags: ["同学", "室友"],
+    notes: [],
+    ...syncFields(now),
+  });
+  await contacts.insertOne({
+    _id: ids.contacts.liSi,
+    name: "李四",
+    phone: "13800000002",
+    relationship: "朋友",
+    tags: ["朋友"],
+    notes: [],
+    ...syncFields(now),
+  });
+
+  const bioData = db.collection("bioData");
+  await bioData.insertOne({
+    _id: ids.bioData.previousWalkingSpeed,
+    recordName: "走路速度-旧",
+    measurementType: "走路速度",
+    value: 75,
+    unit: "米/分钟",
+    isLatest: false,
+    measuredAt: new Date(now.getTime() - 30 * day),
+    ...syncFields(now),
+  });
+  await bioData.insertOne({
+    _id: ids.bioData.walkingSpeed,
+    recordName: "走路速度-新",
+    measurementType: "走路速度",
+    value: 80,
+    unit: "米/分钟",
+    isLatest: true,
+    measuredAt: new Date(now.getTime() - day),
+    ...syncFields(now),
+  });
+  await bioData.insertOne({
+    _id: ids.bioData.weight,
+    recordName: "体重",
+    measurementType: "体重",
+    value: 62.5,
+    unit: "kg",
+    isLatest: true,
+    measuredAt: new Date(now.getTime() - 2 * day),
+    ...syncFields(now),
+  });
+
+  const tasks = db.collection("tasks");
+  await tasks.insertOne({
+    _id: ids.tasks.thesis,
+    name: "写论文",
+    status: "进行中",
+    priority: "高",
+    taskType: "学习",
+    dueDate: new Date(now.getTime() + 3 * day),
+    isOverdue: false,
+    tags: ["学习", "论文"],
+    notes: [],
+    ...syncFields(now),
+  });
+  await tasks.insertOne({
+    _id: ids.tasks.homework,
+    name: "交作业",
+    status: "未开始",
+    priority: "中",
+    taskType: "学习",
+    dueDate: new Date(now.getTime() - day),
+    isOverdue: true,
+    tags: ["学习"],
+    notes: [],
+    ...syncFields(now),
+  });
+  await tasks.insertOne({
+    _id: ids.tasks.finished,
+    name: "买菜",
+    status: "已完成",
+    taskType: "生活",
+    tags: ["生活"],
+    notes: [],
+    ...syncFields(now),
+  });
+
+  return ids;
+}
@@ -0,0 +1,238 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ObjectId } from "mongodb";
+import { createServer } from "../server.js";
+import type { ToolPolicy } from "../registry/index.js";
+import { FakeRoutingProvider } from "../routing/fake.js";
+import type { RoutingProvider } from "../routing/types.js";
+import { MemoryStorage } from "../storage/memory.js";
+import { seedFixtures, type FixtureIds } from "./fixtures.js";
+
+// 文档经formatResponse序列化后的形状：ObjectId和日期均为字符串
+export type Serialized<T> = T extends ObjectId | Date
+  ? string
+  : T extends (infer U)[]
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+// 所有工具共享的结果字段
+export interface ToolResult {
+  success?: boolean;
+  message?: string;
+  error?: string;
+}
+
+// 工具调用结果
+export interface ToolCallResult<T = unknown> {
+  // formatResponse输出的文本
+  text: string;
+  // 解析后的JSON（服务器返回错误时为null）
+  data: T | null;
+  // 服务器返回的structuredContent
+  structured: Record<string, unknown> | null;
+  // 服务器是否返回了错误
+  isError: boolean;
+  // 错误信息
+  error?: string;
+}
+
+// 测试环境选项
+export interface TestHarnessOptions {
+  // 是否以只读模式创建服务器
+  readOnly?: boolean;
+  // 工具权限策略（默认允许所有操作）
+  policy?: ToolPolicy;
+  // 是否写入种子数据（默认写入）
+  seed?: boolean;
+  // 种子数据的基准时间
+  now?: Date;
+  // 路线服务（默认为不访问外部系统的模拟路线服务）
+  routing?: RoutingProvider;
+}
+
+/**
+ * 端到端测试环境
+ * 使用内存存储创建MCP服务器，并通过进程内传输连接一个MCP客户端，
+ * 从客户端视角驱动工具、资源、提示和自动完成
+ */
+export class McpTestHarness {
+  readonly storage: MemoryStorage;
+  readonly server: Server;
+  readonly client: Client;
+  readonly fixtures: FixtureIds | null;
+
+  private constructor(
+    storage: MemoryStorage,
+    server: Server,
+    client: Client,
+    fixtures: FixtureIds | null
+  ) {
+    this.storage = storage;
+    this.server = server;
+    this.client = client;
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * 创建测试环境
+   * @param options 测试环境选项
+   * @returns 已连接的测试环境
+   */
+  static async create(
+    options: TestHarnessOptions = {}
+  ): Promise<McpTestHarness> {
+    const {
+      readOnly = false,
+      seed = true,
+      now,
+      policy,
+      routing = new FakeRoutingProvider(),
+    } = options;
+
+    const storage = new MemoryStorage("vitea-test");
+    const fixtures = seed ? await seedFixtures(storage, now) : null;
+
+    const server = createServer(storage, readOnly, {}, policy, routing);
+    const client = new Client({ name: "vitea-test-client", version: "0.0.0" });
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    return new McpTestHarness(storage, server, client, fixtures);
+  }
+
+  /**
+   * 调用工具并解析formatResponse输出的JSON
+   * 服务器抛出的错误会被转换为isError结果，而不是向外抛出
+   * @param name 工具名称
+   * @param args 工具参数
+   * @returns 工具调用结果，T为调用方预期的JSON结构
+   */
+  async callTool<T = unknown>(
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<ToolCallResult<T>> {
+    try {
+      const result = await this.client.callTool({ name, arguments: args });
+      const content =
+        (result.content as { type: string; text?: string }[]) || [];
+      const text = content
+        .filter((part) => part.type === "text")
+        .map((part) => part.text)
+        .join("\n");
+
+      let data: T | null = null;
+      try {
+        data = JSON.parse(text) as T;
+      } catch {
+        // 非JSON文本原样返回
+      }
+
+      return {
+        text,
+        data,
+        structured:
+          (result.structuredContent as Record<string, unknown>) ?? null,
+        isError: Boolean(result.isError),
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        return {
+          text: "",
+          data: null,
+          structured: null,
+          isError: true,
+          error: error.message,
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 列出工具名称
+   */
+  async listToolNames(): Promise<string[]> {
+    const { tools } = await this.client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  /**
+   * 读取资源并解析JSON内容
+   * @param uri 资源URI
+   * @returns 解析后的JSON，T为调用方预期的结构
+   */
+  async readResource<T = unknown>(uri: string): Promise<T> {
+    const result = await this.client.readResource({ uri });
+    const [content] = result.contents;
+    return JSON.parse(content.text as string) as T;
+  }
+
+  /**
+   * 获取提示的文本内容
+   * @param name 提示名称
+   * @param args 提示参数
+   */
+  async getPromptText(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<string> {
+    const result = await this.client.getPrompt({ name, arguments: args });
+    return result.messages
+      .map((message) =>
+        message.content.type === "text" ? message.content.text : ""
+      )
+      .join("\n");
+  }
+
+  /**
+   * 请求提示参数的自动完成
+   * @param promptName 提示名称
+   * @param argumentName 参数名称
+   * @param value 已输入的部分值
+   */
+  async completePrompt(
+    promptName: string,
+    argumentName: string,
+    value: string
+  ): Promise<string[]> {
+    const result = await this.client.complete({
+      ref: { type: "ref/prompt", name: promptName },
+      argument: { name: argumentName, value },
+    });
+    return result.completion.values;
+  }
+
+  /**
+   * 请求资源模板参数的自动完成
+   * @param uri 资源模板URI
+   * @param argumentName 参数名称
+   * @param value 已输入的部分值
+   */
+  async completeResource(
+    uri: string,
+    argumentName: string,
+    value: string
+  ): Promise<string[]> {
+    const result = await this.client.complete({
+      ref: { type: "ref/resource", uri },
+      argument: { name: argumentName, value },
+    });
+    return result.completion.values;
+  }
+
+  /**
+   * 关闭客户端、服务器和存储
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.server.close();
+    await this.storage.close();
+  }
+}
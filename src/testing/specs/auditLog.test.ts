@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { AuditLogEntry, Contact, Item } from "../../model/types.js";
+import { FULL_ACCESS_POLICY } from "../../registry/index.js";
+import type { Storage } from "../../storage/types.js";
+import { RevertChangeTool } from "../../tools/revertChange.js";
+
+interface AuditLogResult extends ToolResult {
+  entries: Serialized<AuditLogEntry>[];
+}
+
+interface RevertResult extends ToolResult {
+  tool?: string;
+  reverted?: { collection: string; entityId: string; action: string }[];
+  conflicts?: { collection: string; entityId: string }[];
+}
+
+describe("审计日志工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await h.close();
+  });
+
+  const getItem = (id: unknown) =>
+    h.storage.collection<Item>("items").findOne({ _id: id });
+
+  const getUmbrella = () => getItem(h.fixtures!.items.umbrella);
+
+  const queryLog = async (args: Record<string, unknown> = {}) => {
+    const { data } = await h.callTool<AuditLogResult>("query_audit_log", args);
+    return data.entries;
+  };
+
+  it("query_audit_log 记录写工具修改前后的文档", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+
+    const entries = await queryLog({ tool: "update_item_info" });
+
+    assert.equal(entries.length, 1);
+    const [entry] = entries;
+    assert.equal(entry.actor, "vitea-test-client/0.0.0");
+    assert.equal(entry.collection, "items");
+    assert.equal(entry.operation, "update");
+    assert.equal(entry.entityId, h.fixtures!.items.umbrella.toString());
+    assert.deepEqual(entry.arguments, { itemName: "雨伞", newStatus: "损坏" });
+    assert.equal(entry.before.status, "在用");
+    assert.equal(entry.after.status, "损坏");
+  });
+
+  it("query_audit_log 按时间范围过滤", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+
+    assert.deepEqual(await queryLog({ until: "2000-01-01" }), []);
+    assert.equal((await queryLog({ since: "2000-01-01" })).length, 1);
+  });
+
+  it("读工具不写审计日志", async () => {
+    await h.callTool("query_item", { search: "雨伞" });
+
+    assert.deepEqual(await queryLog(), []);
+  });
+
+  it("undo_last_change 撤销最近一次写操作", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+
+    const { data } = await h.callTool<RevertResult>("undo_last_change");
+
+    assert.equal(data.success, true);
+    assert.equal(data.tool, "update_item_info");
+    assert.deepEqual(data.reverted, [
+      {
+        collection: "items",
+        entityId: h.fixtures!.items.umbrella.toString(),
+        action: "restore",
+      },
+    ]);
+    assert.equal((await getUmbrella()).status, "在用");
+  });
+
+  it("revert_change 撤销指定调用，被删除的文档按原ID重新插入", async () => {
+    await h.callTool("delete_item", { itemName: "雨伞", isSoftDelete: false });
+    const [entry] = await queryLog({ tool: "delete_item" });
+
+    const { data } = await h.callTool<RevertResult>("revert_change", {
+      callId: entry.callId,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.reverted[0].action, "reinsert");
+    assert.equal((await getUmbrella()).name, "雨伞");
+  });
+
+  it("undo_last_change 没有修改时返回失败", async () => {
+    const { data } = await h.callTool<RevertResult>("undo_last_change");
+
+    assert.equal(data.success, false);
+    assert.equal(data.message, "没有可撤销的修改");
+  });
+
+  it("undo_last_change 连续调用时依次撤销更早的修改", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "丢失",
+    });
+
+    await h.callTool("undo_last_change");
+    assert.equal((await getUmbrella()).status, "损坏");
+
+    const { data } = await h.callTool<RevertResult>("undo_last_change");
+    assert.equal(data.success, true);
+    assert.equal((await getUmbrella()).status, "在用");
+  });
+
+  it("undo_last_change 一并恢复一次调用修改的多个文档", async () => {
+    const { items, locations } = h.fixtures!;
+    await h.callTool("transfer_item", {
+      itemName: "眼药水",
+      targetLocationId: locations.mainBuilding.toString(),
+      removeFromCurrentContainer: true,
+    });
+
+    const { data } = await h.callTool<RevertResult>("undo_last_change");
+
+    assert.equal(data.success, true);
+    assert.deepEqual(
+      data.reverted.map((entry) => entry.entityId).sort(),
+      [items.backpack.toString(), items.eyeDrops.toString()].sort()
+    );
+    const backpack = await getItem(items.backpack);
+    assert.deepEqual(backpack.containedItems, [items.eyeDrops]);
+    const eyeDrops = await getItem(items.eyeDrops);
+    assert.deepEqual(eyeDrops.containerId, items.backpack);
+  });
+
+  it("revert_change 事务重试时只报告最后一次执行恢复的文档", async () => {
+    const { items, locations } = h.fixtures!;
+    await h.callTool("transfer_item", {
+      itemName: "眼药水",
+      targetLocationId: locations.mainBuilding.toString(),
+      removeFromCurrentContainer: true,
+    });
+    const [entry] = await queryLog({ tool: "transfer_item" });
+
+    // 第一次执行后提交失败，回滚后重试
+    const withTransaction = h.storage.withTransaction.bind(h.storage);
+    mock.method(
+      h.storage,
+      "withTransaction",
+      async <R>(fn: (tx: Storage) => Promise<R>): Promise<R> => {
+        await assert.rejects(
+          withTransaction(async (tx) => {
+            await fn(tx);
+            throw new Error("提交失败");
+          })
+        );
+        return withTransaction(fn);
+      }
+    );
+
+    const result = await new RevertChangeTool(
+      h.storage,
+      FULL_ACCESS_POLICY
+    ).execute({ callId: entry.callId });
+
+    assert.equal(result.success, true);
+    assert.equal(result.reverted.length, 2);
+    const eyeDrops = await getItem(items.eyeDrops);
+    assert.deepEqual(eyeDrops.containerId, items.backpack);
+  });
+
+  it("revert_change 撤销创建时删除插入的文档", async () => {
+    await h.callTool("create_contact", { name: "王五" });
+    const [entry] = await queryLog({ tool: "create_contact" });
+
+    const { data } = await h.callTool<RevertResult>("revert_change", {
+      callId: entry.callId,
+    });
+
+    assert.equal(data.reverted[0].action, "delete");
+    const contact = await h.storage
+      .collection<Contact>("contacts")
+      .findOne({ name: "王五" });
+    assert.equal(contact, null);
+  });
+
+  it("revert_change 文档在调用之后又被修改时拒绝撤销", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    const [entry] = await queryLog({ tool: "update_item_info" });
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "丢失",
+    });
+
+    const { data } = await h.callTool<RevertResult>("revert_change", {
+      callId: entry.callId,
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /已被修改，拒绝撤销/);
+    assert.deepEqual(data.conflicts, [
+      {
+        collection: "items",
+        entityId: h.fixtures!.items.umbrella.toString(),
+      },
+    ]);
+    assert.equal((await getUmbrella()).status, "丢失");
+  });
+
+  it("revert_change 同一调用不能撤销两次", async () => {
+    await h.callTool("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    const [{ callId }] = await queryLog({ tool: "update_item_info" });
+
+    const first = await h.callTool<RevertResult>("revert_change", { callId });
+    assert.equal(first.data.success, true);
+
+    const { data } = await h.callTool<RevertResult>("revert_change", {
+      callId,
+    });
+    assert.equal(data.success, false);
+    assert.match(data.message, /已被撤销/);
+  });
+});
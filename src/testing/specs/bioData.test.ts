@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { BioData } from "../../model/types.js";
+
+interface BioDataResult extends ToolResult {
+  record?: Serialized<BioData>;
+  history?: Serialized<BioData>[];
+  stats?: {
+    count: number;
+    average: number;
+    min: number;
+    max: number;
+    latest?: Serialized<BioData>;
+  };
+}
+
+describe("生物数据工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("query_biodata 返回历史记录（新记录在前）和统计", async () => {
+    const history = await h.callTool<BioDataResult>("query_biodata", {
+      measurementType: "走路速度",
+      history: true,
+    });
+    assert.deepEqual(
+      history.data.history.map((record) => record.value),
+      [80, 75]
+    );
+
+    const stats = await h.callTool<BioDataResult>("query_biodata", {
+      measurementType: "走路速度",
+      stats: true,
+    });
+    assert.equal(stats.data.stats.count, 2);
+    assert.equal(stats.data.stats.average, 77.5);
+    assert.equal(stats.data.stats.min, 75);
+    assert.equal(stats.data.stats.max, 80);
+    assert.equal(stats.data.stats.latest.recordName, "走路速度-新");
+  });
+
+  it("get_latest_biodata 返回最新一条记录", async () => {
+    const { data } = await h.callTool<BioDataResult>("get_latest_biodata", {
+      measurementType: "体重",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.record.value, 62.5);
+    assert.equal(data.record.unit, "kg");
+  });
+
+  it("create_biodata 新记录成为最新记录", async () => {
+    const { data } = await h.callTool<BioDataResult>("create_biodata", {
+      measurementType: "体重",
+      value: 63,
+      unit: "kg",
+    });
+    assert.equal(data.success, true);
+    assert.equal(data.record.isLatest, true);
+
+    const latest = await h.callTool<BioDataResult>("get_latest_biodata", {
+      measurementType: "体重",
+    });
+    assert.equal(latest.data.record.value, 63);
+    const previous = await h.storage
+      .collection<BioData>("bioData")
+      .findOne({ _id: h.fixtures!.bioData.weight });
+    assert.equal(previous.isLatest, false);
+  });
+
+  it("delete_biodata 需要记录ID或测量类型加记录名称", async () => {
+    const rejected = await h.callTool("delete_biodata", { recordName: "体重" });
+    assert.equal(rejected.isError, true);
+    assert.match(rejected.error!, /参数验证失败/);
+
+    const { data } = await h.callTool<BioDataResult>("delete_biodata", {
+      measurementType: "体重",
+      recordName: "体重",
+    });
+    assert.equal(data.success, true);
+    assert.equal(
+      await h.storage
+        .collection("bioData")
+        .countDocuments({ _id: h.fixtures!.bioData.weight }),
+      0
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { Contact } from "../../model/types.js";
+
+interface ContactResult extends ToolResult {
+  contact?: Serialized<Contact>;
+  contacts?: Serialized<Contact>[];
+}
+
+describe("联系人工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("query_contact 按ID、标签和学校查询", async () => {
+    const byId = await h.callTool<ContactResult>("query_contact", {
+      contactId: h.fixtures!.contacts.liSi.toString(),
+    });
+    assert.equal(byId.data.contact.name, "李四");
+
+    const byTag = await h.callTool<ContactResult>("query_contact", {
+      tag: "室友",
+    });
+    assert.deepEqual(
+      byTag.data.contacts.map((contact) => contact.name),
+      ["张三"]
+    );
+
+    const bySchool = await h.callTool<ContactResult>("query_contact", {
+      school: "北京",
+    });
+    assert.deepEqual(
+      bySchool.data.contacts.map((contact) => contact.name),
+      ["张三"]
+    );
+  });
+
+  it("create_contact 创建联系人", async () => {
+    const { data } = await h.callTool<ContactResult>("create_contact", {
+      name: "王五",
+      phone: "13800000003",
+      tags: ["同事"],
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.contact.name, "王五");
+    assert.deepEqual(data.contact.tags, ["同事"]);
+    assert.equal(
+      await h.storage.collection("contacts").countDocuments({ name: "王五" }),
+      1
+    );
+  });
+
+  it("update_contact_info 更新联系人字段", async () => {
+    const { data } = await h.callTool<ContactResult>("update_contact_info", {
+      contactName: "李四",
+      newSchool: "清华大学",
+      newTags: ["朋友", "同学"],
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.contact.school, "清华大学");
+    assert.deepEqual(data.contact.tags, ["朋友", "同学"]);
+  });
+
+  it("delete_contact 删除联系人", async () => {
+    const { data } = await h.callTool<ContactResult>("delete_contact", {
+      contactName: "李四",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(
+      await h.storage
+        .collection("contacts")
+        .countDocuments({ _id: h.fixtures!.contacts.liSi }),
+      0
+    );
+  });
+});
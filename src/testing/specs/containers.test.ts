@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { Item } from "../../model/types.js";
+
+interface ItemResult extends ToolResult {
+  item?: Serialized<Item>;
+}
+
+describe("容器嵌套", () => {
+  let h: McpTestHarness;
+  // 书包中的收纳袋
+  let pouchId: string;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+    const { data } = await h.callTool<ItemResult>("create_item", {
+      name: "收纳袋",
+      isContainer: true,
+      containerName: "书包",
+    });
+    pouchId = data.item._id;
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  const getItem = (id: unknown) =>
+    h.storage.collection<Item>("items").findOne({ _id: id });
+
+  it("不能把容器放进它自己", async () => {
+    const { items } = h.fixtures!;
+
+    const { data } = await h.callTool<ItemResult>("transfer_item", {
+      itemName: "书包",
+      targetContainerName: "书包",
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /不能把"书包"放进它自己/);
+    assert.equal((await getItem(items.backpack)).containerId, undefined);
+  });
+
+  it("不能把容器放进它包含的容器中", async () => {
+    const { items, locations } = h.fixtures!;
+
+    const { data } = await h.callTool<ItemResult>("transfer_item", {
+      itemName: "书包",
+      targetContainerName: "收纳袋",
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /不能把"书包"放进它包含的容器"收纳袋"中/);
+    const backpack = await getItem(items.backpack);
+    assert.equal(backpack.containerId, undefined);
+    assert.deepEqual(backpack.locationId, locations.dormRoom);
+  });
+
+  it("update_item 同样拒绝循环嵌套", async () => {
+    const { items } = h.fixtures!;
+
+    const { data } = await h.callTool<ItemResult>("update_item", {
+      itemId: items.backpack.toString(),
+      containerId: pouchId,
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /放进它包含的容器/);
+  });
+
+  it("移动容器时各层物品的位置一并更新", async () => {
+    const { items, locations } = h.fixtures!;
+    await h.callTool<ItemResult>("transfer_item", {
+      itemName: "眼药水",
+      targetContainerName: "收纳袋",
+    });
+
+    const { data } = await h.callTool<ItemResult>("transfer_item", {
+      itemName: "书包",
+      targetLocationName: "主楼",
+    });
+
+    assert.equal(data.success, true);
+    assert.match(data.message, /2个物品/);
+    const moved = await h.storage
+      .collection<Item>("items")
+      .find({ name: { $in: ["收纳袋", "眼药水"] } })
+      .toArray();
+    assert.equal(moved.length, 2);
+    for (const item of moved) {
+      assert.deepEqual(item.locationId, locations.mainBuilding);
+    }
+    // 物品仍在原来的容器中
+    const eyeDrops = await getItem(items.eyeDrops);
+    assert.equal(eyeDrops.containerId.toString(), pouchId);
+  });
+
+  it("只指定目标容器时物品的位置取最外层容器的位置", async () => {
+    const { locations } = h.fixtures!;
+
+    const { data } = await h.callTool<ItemResult>("transfer_item", {
+      itemName: "雨伞",
+      targetContainerId: pouchId,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.item.locationId, locations.dormRoom.toString());
+
+    const found = await h.callTool("find_item", { itemName: "雨伞" });
+    assert.match(found.text, /收纳袋/);
+  });
+});
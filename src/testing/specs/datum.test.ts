@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { Location } from "../../model/types.js";
+import {
+  convertCoordinates,
+  isInChina,
+  normalizeCoordinates,
+} from "../../routing/datum.js";
+import type { Coordinates } from "../../routing/types.js";
+
+// 天安门附近（WGS-84）及其GCJ-02、BD-09坐标
+const WGS84 = { latitude: 39.915, longitude: 116.404 };
+const GCJ02 = { latitude: 39.91640428150164, longitude: 116.41024449916938 };
+// GCJ-02坐标(39.915, 116.404)对应的BD-09坐标
+const BD09 = { latitude: 39.92133699351022, longitude: 116.41036949371029 };
+
+// BD-09的反算公式是近似的，误差约0.1米
+const BD09_TOLERANCE = 1e-5;
+
+// 伦敦，不在中国境内
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+/**
+ * 断言两个坐标相差不超过tolerance度（默认约1厘米）
+ */
+function assertNear(
+  actual: Partial<Coordinates>,
+  expected: Coordinates,
+  tolerance = 1e-7
+) {
+  assert.ok(
+    Math.abs(actual.latitude - expected.latitude) < tolerance &&
+      Math.abs(actual.longitude - expected.longitude) < tolerance,
+    `${JSON.stringify(actual)} 与 ${JSON.stringify(expected)} 相差过大`
+  );
+}
+
+describe("坐标系转换", () => {
+  it("WGS-84转GCJ-02和GCJ-02转BD-09与已知坐标一致", () => {
+    const gcj02 = convertCoordinates(WGS84, "gcj02", "wgs84");
+    assertNear(gcj02, GCJ02);
+    assert.equal(gcj02.system, "gcj02");
+
+    assertNear(
+      convertCoordinates({ latitude: 39.915, longitude: 116.404 }, "bd09"),
+      BD09
+    );
+  });
+
+  it("各坐标系之间往返转换后回到原坐标", () => {
+    assertNear(
+      convertCoordinates(convertCoordinates(WGS84, "gcj02", "wgs84"), "wgs84"),
+      WGS84
+    );
+    assertNear(
+      convertCoordinates(convertCoordinates(GCJ02, "bd09", "gcj02"), "gcj02"),
+      GCJ02,
+      BD09_TOLERANCE
+    );
+    assertNear(
+      convertCoordinates(convertCoordinates(WGS84, "bd09", "wgs84"), "wgs84"),
+      WGS84,
+      BD09_TOLERANCE
+    );
+  });
+
+  it("未指定源坐标系时使用坐标标注的坐标系，否则按存储坐标系处理", () => {
+    assertNear(
+      convertCoordinates({ ...WGS84, system: "wgs84" }, "gcj02"),
+      GCJ02
+    );
+    assert.deepEqual(convertCoordinates(GCJ02, "gcj02"), {
+      ...GCJ02,
+      system: "gcj02",
+    });
+  });
+
+  it("中国境外的坐标不做GCJ-02偏移", () => {
+    assert.equal(isInChina(WGS84), true);
+    assert.equal(isInChina(LONDON), false);
+
+    assert.deepEqual(convertCoordinates(LONDON, "gcj02", "wgs84"), {
+      ...LONDON,
+      system: "gcj02",
+    });
+    assert.deepEqual(convertCoordinates(LONDON, "wgs84", "gcj02"), {
+      ...LONDON,
+      system: "wgs84",
+    });
+  });
+
+  it("normalizeCoordinates 转换为存储坐标系并标注", () => {
+    const normalized = normalizeCoordinates({ ...WGS84, system: "wgs84" });
+    assertNear(normalized, GCJ02);
+    assert.equal(normalized.system, "gcj02");
+
+    assertNear(
+      normalizeCoordinates(BD09, "bd09"),
+      { latitude: 39.915, longitude: 116.404 },
+      BD09_TOLERANCE
+    );
+  });
+});
+
+describe("位置坐标的存储", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  interface LocationResult extends ToolResult {
+    location: Serialized<Location>;
+  }
+
+  it("create_location 把WGS-84坐标转换为GCJ-02存储", async () => {
+    const { data } = await h.callTool<LocationResult>("create_location", {
+      name: "天安门",
+      coordinates: { ...WGS84, system: "wgs84" },
+    });
+
+    assert.equal(data.success, true);
+    const { coordinates, geoPoint } = data.location;
+    assertNear(coordinates, GCJ02);
+    assert.equal(coordinates.system, "gcj02");
+    assert.deepEqual(geoPoint.coordinates, [
+      coordinates.longitude,
+      coordinates.latitude,
+    ]);
+  });
+
+  it("update_location_info 把BD-09坐标转换为GCJ-02存储", async () => {
+    const { data } = await h.callTool<LocationResult>("update_location_info", {
+      locationName: "图书馆",
+      newCoordinates: { ...BD09, system: "bd09" },
+    });
+
+    assert.equal(data.success, true);
+    assertNear(
+      data.location.coordinates,
+      { latitude: 39.915, longitude: 116.404 },
+      BD09_TOLERANCE
+    );
+    assert.equal(data.location.coordinates.system, "gcj02");
+  });
+});
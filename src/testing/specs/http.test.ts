@@ -0,0 +1,185 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { request as httpRequest, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { startHttpServer } from "../../http.js";
+import { FakeRoutingProvider } from "../../routing/fake.js";
+import { createServer } from "../../server.js";
+import { MemoryStorage } from "../../storage/memory.js";
+
+interface HttpResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe("HTTP传输", () => {
+  let port: number;
+  let close: (() => Promise<void>) | null = null;
+  let client: Client | null = null;
+
+  const start = async (
+    options: {
+      allowedOrigins?: string[];
+      allowedHosts?: string[];
+      token?: string;
+    } = {}
+  ) => {
+    const storage = new MemoryStorage("vitea-test");
+    const started = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      createSessionServer: () =>
+        createServer(storage, false, {}, undefined, new FakeRoutingProvider()),
+      ...options,
+    });
+    port = (started.httpServer.address() as AddressInfo).port;
+    close = started.close;
+    return started;
+  };
+
+  /**
+   * 用node:http发送请求，以便自定义Host头
+   */
+  const request = (
+    method: string,
+    headers: Record<string, string> = {},
+    body?: unknown
+  ) =>
+    new Promise<HttpResponse>((resolve, reject) => {
+      const req = httpRequest(
+        {
+          host: "127.0.0.1",
+          port,
+          path: "/mcp",
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            ...headers,
+          },
+        },
+        (res) => {
+          let text = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk) => (text += chunk));
+          res.on("end", () =>
+            resolve({
+              status: res.statusCode!,
+              headers: res.headers,
+              body: text,
+            })
+          );
+        }
+      );
+      req.on("error", reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  // 不是初始化请求，也没有会话ID
+  const ping = { jsonrpc: "2.0", id: 1, method: "ping" };
+
+  const connect = async (token?: string) => {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`http://127.0.0.1:${port}/mcp`),
+      token
+        ? { requestInit: { headers: { Authorization: `Bearer ${token}` } } }
+        : undefined
+    );
+    client = new Client({ name: "vitea-test-client", version: "0.0.0" });
+    await client.connect(transport);
+    return transport;
+  };
+
+  afterEach(async () => {
+    await client?.close();
+    client = null;
+    await close?.();
+    close = null;
+  });
+
+  it("拒绝不在允许列表中的Host", async () => {
+    await start();
+
+    const rejected = await request(
+      "POST",
+      { Host: `evil.example:${port}` },
+      ping
+    );
+    assert.equal(rejected.status, 403);
+    assert.match(JSON.parse(rejected.body).error.message, /不允许的Host/);
+
+    const allowed = await request("POST", { Host: `localhost:${port}` }, ping);
+    assert.equal(allowed.status, 400);
+  });
+
+  it("只接受允许列表中的来源，并只对这些来源返回CORS头", async () => {
+    await start({ allowedOrigins: ["http://localhost:6274/"] });
+
+    const rejected = await request(
+      "POST",
+      { Origin: "http://evil.example" },
+      ping
+    );
+    assert.equal(rejected.status, 403);
+    assert.match(JSON.parse(rejected.body).error.message, /不允许的来源/);
+
+    const allowed = await request(
+      "POST",
+      { Origin: "http://localhost:6274" },
+      ping
+    );
+    assert.equal(allowed.status, 400);
+    assert.equal(
+      allowed.headers["access-control-allow-origin"],
+      "http://localhost:6274"
+    );
+  });
+
+  it("配置访问令牌时缺少或错误的令牌返回401", async () => {
+    await start({ token: "secret" });
+
+    const missing = await request("POST", {}, ping);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers["www-authenticate"], "Bearer");
+
+    const wrong = await request(
+      "POST",
+      { Authorization: "Bearer wrong" },
+      ping
+    );
+    assert.equal(wrong.status, 401);
+
+    await connect("secret");
+    const { tools } = await client!.listTools();
+    assert.ok(tools.some((tool) => tool.name === "query_item"));
+  });
+
+  it("初始化请求建立会话，DELETE后会话失效", async () => {
+    await start();
+
+    const transport = await connect();
+    const sessionId = transport.sessionId!;
+    assert.ok(sessionId);
+    const { tools } = await client!.listTools();
+    assert.ok(tools.length > 0);
+
+    await transport.terminateSession();
+
+    const closed = await request("GET", { "mcp-session-id": sessionId });
+    assert.equal(closed.status, 400);
+  });
+
+  it("close 关闭所有会话并停止监听", async () => {
+    const { httpServer } = await start();
+    await connect();
+
+    await close!();
+    close = null;
+
+    assert.equal(httpServer.listening, false);
+    await assert.rejects(request("POST", {}, ping), { code: "ECONNREFUSED" });
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { AuditLogEntry, BioData, Item } from "../../model/types.js";
+import type { IntegrityIssueReport } from "../../tools/checkIntegrity.js";
+
+interface IntegrityResult extends ToolResult {
+  issues: Serialized<IntegrityIssueReport>[];
+  summary: Record<string, number>;
+  repaired?: number;
+}
+
+describe("数据一致性工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  // 破坏容器的反向链接和生物数据的isLatest标记
+  const corrupt = async () => {
+    const { items, bioData } = h.fixtures!;
+    await h.storage
+      .collection<Item>("items")
+      .updateOne({ _id: items.backpack }, { $set: { containedItems: [] } });
+    await h.storage
+      .collection<BioData>("bioData")
+      .updateOne(
+        { _id: bioData.previousWalkingSpeed },
+        { $set: { isLatest: true } }
+      );
+  };
+
+  it("check_integrity 种子数据没有问题", async () => {
+    const { data } = await h.callTool<IntegrityResult>("check_integrity");
+
+    assert.equal(data.success, true);
+    assert.deepEqual(data.issues, []);
+  });
+
+  it("check_integrity 只报告问题，不修改数据", async () => {
+    await corrupt();
+
+    const { data } = await h.callTool<IntegrityResult>("check_integrity");
+
+    assert.deepEqual(data.summary, { asymmetric_link: 1, biodata_latest: 1 });
+    assert.ok(data.issues.every((issue) => issue.status === "found"));
+    const backpack = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.backpack });
+    assert.deepEqual(backpack.containedItems, []);
+  });
+
+  it("repair_integrity 修复问题并记入审计日志", async () => {
+    await corrupt();
+
+    const { data } = await h.callTool<IntegrityResult>("repair_integrity");
+    assert.equal(data.repaired, 2);
+    assert.ok(data.issues.every((issue) => issue.status === "repaired"));
+
+    const check = await h.callTool<IntegrityResult>("check_integrity");
+    assert.deepEqual(check.data.issues, []);
+
+    const log = await h.callTool<{ entries: Serialized<AuditLogEntry>[] }>(
+      "query_audit_log",
+      {
+        tool: "repair_integrity",
+      }
+    );
+    assert.equal(log.data.entries.length, 2);
+  });
+});
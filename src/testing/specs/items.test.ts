@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type {
+  ContainerTreeNode,
+  Item,
+  StructuredItemLocationResponse,
+} from "../../model/types.js";
+import type { ItemDeadline } from "../../tools/getItemDeadlines.js";
+import type { LowStockItem } from "../../tools/getLowStockItems.js";
+
+interface ItemResult extends ToolResult {
+  item?: Serialized<Item>;
+  items?: Serialized<Item>[];
+}
+
+interface FindItemResult extends ToolResult {
+  items: StructuredItemLocationResponse[];
+}
+
+describe("物品工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    mock.timers.reset();
+    await h.close();
+  });
+
+  it("find_item 返回物品所在位置和容器路径", async () => {
+    const { data, structured } = await h.callTool<FindItemResult>("find_item", {
+      itemName: "眼药",
+    });
+
+    assert.equal(data.success, true);
+    const [item] = data.items;
+    assert.equal(item.itemName, "眼药水");
+    assert.equal(item.location.name, "宿舍");
+    assert.equal(item.container.name, "书包");
+    assert.equal(item.path, "宿舍 › 书包");
+    assert.deepEqual(structured, data);
+  });
+
+  it("find_item 找不到物品时返回失败", async () => {
+    const { data } = await h.callTool<FindItemResult>("find_item", {
+      itemName: "不存在的东西",
+    });
+
+    assert.equal(data.success, false);
+  });
+
+  it("query_item 按ID、名称和容器查询", async () => {
+    const backpackId = h.fixtures!.items.backpack.toString();
+
+    const byId = await h.callTool<ItemResult>("query_item", {
+      itemId: backpackId,
+    });
+    assert.equal(byId.data.item.name, "书包");
+    assert.deepEqual(byId.data.item.containedItems, [
+      h.fixtures!.items.eyeDrops.toString(),
+    ]);
+
+    const bySearch = await h.callTool<ItemResult>("query_item", {
+      search: "伞",
+    });
+    assert.deepEqual(
+      bySearch.data.items.map((item) => item.name),
+      ["雨伞"]
+    );
+
+    const contents = await h.callTool<ItemResult>("query_item", {
+      containerId: backpackId,
+      containerItems: true,
+    });
+    assert.deepEqual(
+      contents.data.items.map((item) => item.name),
+      ["眼药水"]
+    );
+  });
+
+  it("create_item 按位置名称创建物品", async () => {
+    const { data } = await h.callTool<ItemResult>("create_item", {
+      name: "水杯",
+      category: "日用品",
+      locationName: "主楼",
+      quantity: 1,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.item.name, "水杯");
+    assert.equal(
+      data.item.locationId,
+      h.fixtures!.locations.mainBuilding.toString()
+    );
+    assert.equal(
+      await h.storage
+        .collection<Item>("items")
+        .countDocuments({ name: "水杯" }),
+      1
+    );
+  });
+
+  it("create_item 放入容器时更新容器的containedItems", async () => {
+    const { data } = await h.callTool<ItemResult>("create_item", {
+      name: "纸巾",
+      containerName: "书包",
+    });
+
+    assert.equal(data.success, true);
+    const backpack = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.backpack });
+    assert.equal(backpack.containedItems.length, 2);
+  });
+
+  it("update_item 把物品移出容器，物品留在容器所在位置", async () => {
+    const { data } = await h.callTool<ItemResult>("update_item", {
+      itemId: h.fixtures!.items.eyeDrops.toString(),
+      containerId: null,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.item.containerId, null);
+    assert.equal(
+      data.item.locationId,
+      h.fixtures!.locations.dormRoom.toString()
+    );
+    const backpack = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.backpack });
+    assert.deepEqual(backpack.containedItems, []);
+  });
+
+  it("update_item 移动容器时级联更新容器内物品的位置", async () => {
+    const { data } = await h.callTool<ItemResult>("update_item", {
+      itemId: h.fixtures!.items.backpack.toString(),
+      locationId: h.fixtures!.locations.mainBuilding.toString(),
+    });
+
+    assert.equal(data.success, true);
+    assert.match(data.message, /同时更新了容器内1个物品的位置/);
+    const eyeDrops = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.eyeDrops });
+    assert.equal(
+      eyeDrops.locationId.toString(),
+      h.fixtures!.locations.mainBuilding.toString()
+    );
+  });
+
+  it("update_item 没有提供位置或容器时返回失败", async () => {
+    const { data } = await h.callTool<ItemResult>("update_item", {
+      itemId: h.fixtures!.items.umbrella.toString(),
+    });
+
+    assert.equal(data.success, false);
+  });
+
+  it("update_item_info 更新状态和最低库存", async () => {
+    const { data } = await h.callTool<ItemResult>("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+      newMinQuantity: 2,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.item.status, "损坏");
+    assert.equal(data.item.minQuantity, 2);
+  });
+
+  it("transfer_item 把物品转移到容器中", async () => {
+    const { data } = await h.callTool<ItemResult>("transfer_item", {
+      itemName: "雨伞",
+      targetContainerName: "书包",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.item.containerId, h.fixtures!.items.backpack.toString());
+    // 只指定目标容器时取容器的实际位置
+    assert.equal(
+      data.item.locationId,
+      h.fixtures!.locations.dormRoom.toString()
+    );
+  });
+
+  it("consume_item 和 restock_item 调整数量并记录备注", async () => {
+    const consumed = await h.callTool<ItemResult>("consume_item", {
+      itemName: "眼药水",
+      amount: 1,
+    });
+    assert.equal(consumed.data.success, true);
+    assert.equal(consumed.data.item.quantity, 1);
+
+    const restocked = await h.callTool<ItemResult>("restock_item", {
+      itemName: "眼药水",
+      amount: 3,
+    });
+    assert.equal(restocked.data.success, true);
+    assert.equal(restocked.data.item.quantity, 4);
+    assert.deepEqual(restocked.data.item.notes.at(-1).metadata.tags, [
+      "quantity",
+      "restock",
+    ]);
+  });
+
+  it("consume_item 数量不足时不修改物品", async () => {
+    const { data } = await h.callTool<ItemResult>("consume_item", {
+      itemName: "眼药水",
+      amount: 5,
+    });
+
+    assert.equal(data.success, false);
+    const eyeDrops = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.eyeDrops });
+    assert.equal(eyeDrops.quantity, 2);
+  });
+
+  it("get_low_stock_items 列出低于最低库存的物品", async () => {
+    const empty = await h.callTool<ToolResult & { items: LowStockItem[] }>(
+      "get_low_stock_items"
+    );
+    assert.deepEqual(empty.data.items, []);
+
+    await h.callTool<ItemResult>("update_item_info", {
+      itemName: "雨伞",
+      newMinQuantity: 2,
+    });
+    const { data } = await h.callTool<ToolResult & { items: LowStockItem[] }>(
+      "get_low_stock_items"
+    );
+    assert.equal(data.items.length, 1);
+    assert.equal(data.items[0].name, "雨伞");
+    assert.equal(data.items[0].shortage, 1);
+    assert.equal(data.items[0].location, "主楼");
+  });
+
+  it("get_item_deadlines 按配置的时区计算今天，列出即将到期和已过期的物品", async () => {
+    await h.callTool<ItemResult>("update_item_info", {
+      itemName: "雨伞",
+      newExpiryDate: "2026-10-26",
+    });
+    await h.callTool<ItemResult>("update_item_info", {
+      itemName: "眼药水",
+      newExpiryDate: "2026-10-19",
+    });
+    // 北京时间10月20日7:00，UTC仍为10月19日
+    mock.timers.enable({
+      apis: ["Date"],
+      now: new Date("2026-10-20T07:00:00+08:00"),
+    });
+
+    const { data } = await h.callTool<
+      ToolResult & { deadlines: ItemDeadline[] }
+    >("get_item_deadlines", { days: 30 });
+
+    assert.equal(data.success, true);
+    assert.deepEqual(
+      data.deadlines.map((deadline) => [
+        deadline.item.name,
+        deadline.kind,
+        deadline.date,
+        deadline.daysLeft,
+        deadline.overdue,
+      ]),
+      [
+        ["眼药水", "expiry", "2026-10-19", -1, true],
+        ["雨伞", "expiry", "2026-10-26", 6, false],
+      ]
+    );
+  });
+
+  it("get_container_tree 返回容器的嵌套结构", async () => {
+    const { data } = await h.callTool<
+      ToolResult & { tree: ContainerTreeNode; path: string }
+    >("get_container_tree", {
+      containerName: "书包",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.tree.name, "书包");
+    assert.equal(data.tree.itemCount, 1);
+    assert.deepEqual(
+      data.tree.children.map((child) => [child.name, child.quantity]),
+      [["眼药水", 2]]
+    );
+    assert.equal(data.path, "宿舍 › 书包");
+  });
+
+  it("delete_item 默认软删除，isSoftDelete=false时删除文档", async () => {
+    const items = h.storage.collection<Item>("items");
+
+    const soft = await h.callTool<ItemResult>("delete_item", {
+      itemName: "雨伞",
+    });
+    assert.equal(soft.data.success, true);
+    assert.equal(
+      await items.countDocuments({ _id: h.fixtures!.items.umbrella }),
+      1
+    );
+
+    const hard = await h.callTool<ItemResult>("delete_item", {
+      itemName: "眼药水",
+      isSoftDelete: false,
+    });
+    assert.equal(hard.data.success, true);
+    assert.equal(
+      await items.countDocuments({ _id: h.fixtures!.items.eyeDrops }),
+      0
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import { isLoanOverdue } from "../../model/loans.js";
+import type { Item, Loan } from "../../model/types.js";
+import type { ContactLoans } from "../../tools/queryLoans.js";
+
+interface LoanResult extends ToolResult {
+  loan: Serialized<Loan>;
+}
+
+interface LoanQueryResult extends ToolResult {
+  contacts: Serialized<ContactLoans>[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("借出工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    mock.timers.reset();
+    await h.close();
+  });
+
+  it("lend_item 关联物品和联系人，并在两者上记录", async () => {
+    const { data } = await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      dueDate: "2099-01-01",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.loan.itemName, "雨伞");
+    assert.equal(data.loan.contactName, "张三");
+    assert.equal(data.loan.status, "outstanding");
+    assert.equal(data.loan.previousItemStatus, "在用");
+
+    const umbrella = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.umbrella });
+    assert.deepEqual(umbrella.notes.at(-1).metadata.tags, ["loan", "lend"]);
+  });
+
+  it("lend_item 拒绝早于借出日期的归还日期", async () => {
+    const { data } = await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      lentAt: "2026-10-10",
+      dueDate: "2026-10-01",
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /不能早于借出日期/);
+  });
+
+  it("query_loans 按联系人汇总未归还的借出", async () => {
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      dueDate: "2099-01-01",
+    });
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "书包",
+      contactName: "李四",
+      dueDate: "2099-01-01",
+    });
+
+    const { data } = await h.callTool<LoanQueryResult>("query_loans");
+
+    assert.equal(data.success, true);
+    assert.deepEqual(
+      data.contacts.map((entry) => [
+        entry.contact.name,
+        entry.outstanding,
+        entry.loans.map((loan) => loan.itemName),
+      ]),
+      [
+        ["张三", 1, ["雨伞"]],
+        ["李四", 1, ["书包"]],
+      ]
+    );
+
+    const filtered = await h.callTool<LoanQueryResult>("query_loans", {
+      contactName: "李四",
+    });
+    assert.deepEqual(
+      filtered.data.contacts.map((entry) => entry.contact.name),
+      ["李四"]
+    );
+  });
+
+  it("return_item 结束借出并恢复物品状态", async () => {
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      dueDate: "2099-01-01",
+    });
+
+    const { data } = await h.callTool<LoanResult>("return_item", {
+      itemName: "雨伞",
+    });
+    assert.equal(data.success, true);
+    assert.equal(data.loan.status, "returned");
+    assert.ok(data.loan.returnedAt);
+
+    const outstanding = await h.callTool<LoanQueryResult>("query_loans");
+    assert.deepEqual(outstanding.data.contacts, []);
+    const returned = await h.callTool<LoanQueryResult>("query_loans", {
+      status: "returned",
+    });
+    assert.equal(returned.data.contacts[0].loans[0].itemName, "雨伞");
+
+    const umbrella = await h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.umbrella });
+    assert.equal(umbrella.status, "在用");
+  });
+
+  it("return_item 没有未归还的借出时返回失败", async () => {
+    const { data } = await h.callTool<LoanResult>("return_item", {
+      itemName: "雨伞",
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /没有未归还的借出记录/);
+  });
+
+  it("lend_item 日期只接受YYYY-MM-DD", async () => {
+    const result = await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      dueDate: "2026-10-20T08:00",
+    });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!, /请使用YYYY-MM-DD格式/);
+  });
+
+  it("query_loans 标出逾期天数，有逾期的借用人排在前面", async () => {
+    // 北京时间10月20日7:00，UTC仍为10月19日
+    mock.timers.enable({
+      apis: ["Date"],
+      now: new Date("2026-10-20T07:00:00+08:00"),
+    });
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      dueDate: "2099-01-01",
+    });
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "眼药水",
+      contactName: "张三",
+    });
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "书包",
+      contactName: "李四",
+      lentAt: "2020-01-01",
+      dueDate: "2020-01-10",
+    });
+
+    const { data } = await h.callTool<LoanQueryResult>("query_loans");
+
+    const [first, second] = data.contacts;
+    assert.equal(first.contact.name, "李四");
+    assert.equal(first.overdue, 1);
+    assert.equal(first.loans[0].overdue, true);
+    assert.equal(
+      first.loans[0].daysOverdue,
+      (Date.UTC(2026, 9, 20) - Date.UTC(2020, 0, 10)) / DAY_MS
+    );
+    assert.equal(second.contact.name, "张三");
+    assert.equal(second.overdue, 0);
+    assert.ok(
+      second.loans.every(
+        (loan) => !loan.overdue && loan.daysOverdue === undefined
+      )
+    );
+
+    const overdue = await h.callTool<LoanQueryResult>("query_loans", {
+      status: "overdue",
+    });
+    assert.deepEqual(
+      overdue.data.contacts.map((entry) => [
+        entry.contact.name,
+        entry.loans.map((loan) => loan.itemName),
+      ]),
+      [["李四", ["书包"]]]
+    );
+  });
+
+  it("return_item 逾期归还时在消息中说明逾期天数", async () => {
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+      lentAt: "2026-10-10",
+      dueDate: "2026-10-20",
+    });
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "书包",
+      contactName: "李四",
+      lentAt: "2026-10-10",
+      dueDate: "2026-10-20",
+    });
+
+    const late = await h.callTool<LoanResult>("return_item", {
+      itemName: "雨伞",
+      returnedAt: "2026-10-23",
+    });
+    assert.equal(late.data.message, '"张三"已归还物品"雨伞"，逾期3天');
+
+    const onTime = await h.callTool<LoanResult>("return_item", {
+      itemName: "书包",
+      returnedAt: "2026-10-20",
+    });
+    assert.equal(onTime.data.message, '"李四"已归还物品"书包"');
+  });
+
+  it("未指定日期时按配置的时区取今天作为借出和归还日期", async () => {
+    // 北京时间10月20日7:00，UTC仍为10月19日
+    mock.timers.enable({
+      apis: ["Date"],
+      now: new Date("2026-10-20T07:00:00+08:00"),
+    });
+    const lent = await h.callTool<LoanResult>("lend_item", {
+      itemName: "雨伞",
+      contactName: "张三",
+    });
+    assert.equal(lent.data.loan.lentAt, "2026-10-20T00:00:00.000Z");
+
+    await h.callTool<LoanResult>("lend_item", {
+      itemName: "书包",
+      contactName: "李四",
+      lentAt: "2026-10-10",
+      dueDate: "2026-10-19",
+    });
+    const { data } = await h.callTool<LoanQueryResult>("query_loans", {
+      status: "overdue",
+    });
+    assert.equal(data.contacts.length, 1);
+    assert.equal(data.contacts[0].loans[0].itemName, "书包");
+    assert.equal(data.contacts[0].loans[0].daysOverdue, 1);
+
+    const returned = await h.callTool<LoanResult>("return_item", {
+      itemName: "书包",
+    });
+    assert.equal(returned.data.loan.returnedAt, "2026-10-20T00:00:00.000Z");
+    assert.equal(returned.data.message, '"李四"已归还物品"书包"，逾期1天');
+  });
+});
+
+describe("借出逾期判断", () => {
+  const loan = (overrides: Partial<Loan>) =>
+    ({
+      status: "outstanding",
+      lentAt: new Date("2026-10-01T00:00:00Z"),
+      dueDate: new Date("2026-10-20T00:00:00Z"),
+      ...overrides,
+    }) as Loan;
+
+  it("归还日期当天（按配置的时区）不算逾期，之后的一天算逾期", () => {
+    assert.equal(
+      isLoanOverdue(loan({}), new Date("2026-10-20T23:59:00+08:00")),
+      false
+    );
+    assert.equal(
+      isLoanOverdue(loan({}), new Date("2026-10-21T00:00:00+08:00")),
+      true
+    );
+  });
+
+  it("已归还或没有预计归还日期时不算逾期", () => {
+    const now = new Date("2026-12-01T00:00:00Z");
+
+    assert.equal(isLoanOverdue(loan({ status: "returned" }), now), false);
+    assert.equal(isLoanOverdue(loan({ dueDate: undefined }), now), false);
+  });
+});
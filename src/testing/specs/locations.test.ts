@@ -0,0 +1,319 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type TestHarnessOptions,
+  type ToolResult,
+} from "../harness.js";
+import type {
+  Location,
+  TravelTimeEstimationResponse,
+} from "../../model/types.js";
+import { FakeRoutingProvider } from "../../routing/fake.js";
+import type { EnrichmentChange } from "../../tools/enrichLocations.js";
+import type { OpeningStatus } from "../../tools/isLocationOpen.js";
+import type { NearbyLocation } from "../../tools/queryNearby.js";
+import type { PendingSuggestion } from "../../tools/reviewLocationSuggestions.js";
+
+interface LocationResult extends ToolResult {
+  location?: Serialized<Location>;
+  locations?: Serialized<Location>[];
+  children?: Serialized<Location>[];
+  hierarchy?: { current: Serialized<Location> };
+}
+
+interface EstimationResult extends ToolResult {
+  estimation: TravelTimeEstimationResponse;
+}
+
+// 模拟路线服务可以地理编码的地点
+const CANTEEN = { latitude: 39.961, longitude: 116.358 };
+
+describe("位置工具", () => {
+  let h: McpTestHarness;
+
+  const setup = async (options: TestHarnessOptions = {}) => {
+    h = await McpTestHarness.create(options);
+    return h;
+  };
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("query_location 按名称、层级和子位置查询", async () => {
+    await setup();
+    const { dormBuilding, dormRoom } = h.fixtures!.locations;
+
+    const bySearch = await h.callTool<LocationResult>("query_location", {
+      search: "图书",
+    });
+    assert.deepEqual(
+      bySearch.data.locations.map((location) => location.name),
+      ["图书馆"]
+    );
+
+    const hierarchy = await h.callTool<LocationResult>("query_location", {
+      hierarchyFor: dormRoom.toString(),
+    });
+    assert.equal(hierarchy.data.hierarchy.current.name, "宿舍");
+
+    const children = await h.callTool<LocationResult>("query_location", {
+      childrenOf: dormBuilding.toString(),
+    });
+    assert.deepEqual(
+      children.data.children.map((location) => location.name),
+      ["宿舍"]
+    );
+  });
+
+  it("query_location 缺少查询条件时拒绝调用", async () => {
+    await setup();
+
+    const { isError, error } = await h.callTool<LocationResult>(
+      "query_location",
+      {
+        openAt: "2026-10-20T10:00",
+      }
+    );
+
+    assert.equal(isError, true);
+    assert.match(error!, /参数验证失败/);
+  });
+
+  it("query_location 按openAt只返回该时刻开放的位置", async () => {
+    await setup();
+
+    const open = await h.callTool<LocationResult>("query_location", {
+      search: "图书馆",
+      openAt: "2026-10-20T10:00+08:00",
+    });
+    assert.equal(open.data.locations.length, 1);
+
+    const closed = await h.callTool<LocationResult>("query_location", {
+      search: "图书馆",
+      openAt: "2026-10-20T23:00+08:00",
+    });
+    assert.equal(closed.data.locations.length, 0);
+  });
+
+  it("is_location_open 给出是否开放和下次开放时间", async () => {
+    await setup();
+
+    const { data } = await h.callTool<
+      ToolResult & { status: Serialized<OpeningStatus> }
+    >("is_location_open", {
+      location: "图书馆",
+      time: "2026-10-20T23:00+08:00",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.status.open, false);
+    assert.equal(data.status.today, "08:00-22:00");
+    assert.equal(data.status.nextOpening, "2026-10-21T00:00:00.000Z");
+  });
+
+  it("estimate_time 没有出行记录时按路线服务和个人速度估算", async () => {
+    await setup();
+
+    const { data, structured } = await h.callTool<EstimationResult>(
+      "estimate_time",
+      {
+        origin: "宿舍",
+        destination: "主楼",
+      }
+    );
+
+    assert.equal(data.success, true);
+    assert.equal(data.estimation.origin.name, "宿舍");
+    assert.equal(data.estimation.destination.name, "主楼");
+    assert.equal(data.estimation.provider, "fake");
+    assert.equal(data.estimation.baseSpeed, 80);
+    assert.ok(data.estimation.estimatedTime > 0);
+    assert.deepEqual(structured, data);
+  });
+
+  it("estimate_time 无法解析终点时返回失败", async () => {
+    await setup();
+
+    const { data } = await h.callTool<EstimationResult>("estimate_time", {
+      origin: "宿舍",
+      destination: "体育馆",
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /无法解析终点"体育馆"/);
+  });
+
+  it("estimate_time 把地理编码得到的地点记为位置建议，由review_location_suggestions接受", async () => {
+    await setup({ routing: new FakeRoutingProvider({ 食堂: CANTEEN }) });
+
+    const estimate = await h.callTool<EstimationResult>("estimate_time", {
+      origin: "宿舍",
+      destination: "食堂",
+    });
+    assert.equal(estimate.data.success, true);
+    assert.equal(estimate.data.estimation.geocoded[0].name, "食堂");
+    assert.equal(estimate.data.estimation.geocoded[0].suggested, true);
+
+    const list = await h.callTool<
+      ToolResult & { suggestions: Serialized<PendingSuggestion>[] }
+    >("review_location_suggestions");
+    assert.equal(list.data.success, true);
+    const [{ suggestion, candidates }] = list.data.suggestions;
+    assert.equal(suggestion.name, "食堂");
+    assert.equal(suggestion.status, "pending");
+    assert.ok(
+      candidates.some((candidate) => candidate.location.name === "宿舍")
+    );
+
+    const accepted = await h.callTool<
+      ToolResult & { suggestions: Serialized<PendingSuggestion>[] }
+    >("review_location_suggestions", {
+      action: "accept",
+      suggestionId: suggestion._id,
+      type: "canteen",
+    });
+    assert.equal(accepted.data.success, true);
+    const canteen = await h.storage
+      .collection<Location>("locations")
+      .findOne({ name: "食堂" });
+    assert.equal(canteen.type, "canteen");
+    assert.equal(canteen.coordinates.latitude, CANTEEN.latitude);
+  });
+
+  it("estimate_time 在只读模式下不记录位置建议", async () => {
+    await setup({
+      readOnly: true,
+      routing: new FakeRoutingProvider({ 食堂: CANTEEN }),
+    });
+
+    const { data } = await h.callTool<EstimationResult>("estimate_time", {
+      origin: "宿舍",
+      destination: "食堂",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.estimation.geocoded[0].suggested, false);
+    assert.equal(
+      await h.storage.collection("locationSuggestions").countDocuments({}),
+      0
+    );
+  });
+
+  it("query_nearby 按位置名称或坐标查找附近位置", async () => {
+    await setup();
+
+    const byName = await h.callTool<
+      ToolResult & { locations: Serialized<NearbyLocation>[] }
+    >("query_nearby", {
+      near: "宿舍",
+      radius: 500,
+    });
+    assert.equal(byName.data.success, true);
+    assert.deepEqual(
+      byName.data.locations.map((entry) => entry.location.name).sort(),
+      ["主楼", "宿舍楼"].sort()
+    );
+
+    const byCoordinates = await h.callTool<
+      ToolResult & { locations: Serialized<NearbyLocation>[] }
+    >("query_nearby", {
+      coordinates: { latitude: 39.9605, longitude: 116.3575 },
+      radius: 100,
+      includeItems: true,
+    });
+    assert.deepEqual(
+      byCoordinates.data.locations.map((entry) => entry.distance),
+      [0, 0]
+    );
+    assert.ok(
+      byCoordinates.data.locations.every((entry) => Array.isArray(entry.items))
+    );
+  });
+
+  it("create_location 创建位置并生成geoPoint", async () => {
+    await setup();
+
+    const { data } = await h.callTool<LocationResult>("create_location", {
+      name: "食堂",
+      type: "canteen",
+      coordinates: CANTEEN,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.location.name, "食堂");
+    assert.deepEqual(data.location.geoPoint, {
+      type: "Point",
+      coordinates: [CANTEEN.longitude, CANTEEN.latitude],
+    });
+  });
+
+  it("update_location_info 更新开放时间时重新解析开放规则", async () => {
+    await setup();
+
+    const { data } = await h.callTool<LocationResult>("update_location_info", {
+      locationName: "图书馆",
+      newOpeningHours: "周一闭馆，其他时间9:00-17:00",
+    });
+
+    assert.equal(data.success, true);
+    const { weekly } = data.location.openingSchedule;
+    assert.deepEqual(weekly[0], [{ open: 540, close: 1020 }]);
+    assert.deepEqual(weekly[1], []);
+  });
+
+  it("delete_location 有子位置或物品引用时需要force", async () => {
+    await setup();
+
+    const blocked = await h.callTool<LocationResult>("delete_location", {
+      locationName: "宿舍楼",
+    });
+    assert.equal(blocked.data.success, false);
+    assert.match(blocked.data.message, /包含1个子位置/);
+
+    const referenced = await h.callTool<LocationResult>("delete_location", {
+      locationName: "主楼",
+    });
+    assert.equal(referenced.data.success, false);
+    assert.match(referenced.data.message, /被1个物品引用/);
+
+    const forced = await h.callTool<LocationResult>("delete_location", {
+      locationName: "宿舍楼",
+      force: true,
+    });
+    assert.equal(forced.data.success, true);
+    const dormRoom = await h.storage
+      .collection<Location>("locations")
+      .findOne({ _id: h.fixtures!.locations.dormRoom });
+    assert.equal(dormRoom.parentLocationId ?? null, null);
+  });
+
+  it("enrich_locations 预览时不写入，之后按反向地理编码补全地址", async () => {
+    await setup();
+    const locations = h.storage.collection<Location>("locations");
+
+    const preview = await h.callTool<
+      ToolResult & { changes: EnrichmentChange[] }
+    >("enrich_locations", { dryRun: true });
+    assert.equal(preview.data.success, true);
+    assert.deepEqual(
+      preview.data.changes.map((change) => [
+        change.location.name,
+        change.field,
+        change.applied,
+      ]),
+      [["宿舍", "address", false]]
+    );
+    const before = await locations.findOne({ name: "宿舍" });
+    assert.equal(before.address, undefined);
+
+    const applied = await h.callTool<
+      ToolResult & { changes: EnrichmentChange[] }
+    >("enrich_locations");
+    assert.equal(applied.data.changes[0].applied, true);
+    const after = await locations.findOne({ name: "宿舍" });
+    assert.equal(after.address, applied.data.changes[0].after);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { StructuredNote } from "../../model/types.js";
+
+interface NoteResult extends ToolResult {
+  note: Serialized<StructuredNote>;
+}
+
+// 按标签搜索时每条结果带上所属实体
+interface TaggedNote {
+  collectionName: string;
+  entityId: string;
+  note: Serialized<StructuredNote>;
+}
+
+interface NoteSearchResult<T> extends ToolResult {
+  results: T[];
+}
+
+describe("笔记工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("add_structured_note 为实体添加笔记，search_notes 按标签找到它", async () => {
+    const added = await h.callTool<NoteResult>("add_structured_note", {
+      entityType: "item",
+      entityName: "雨伞",
+      content: "伞骨坏了一根",
+      tags: ["维修"],
+    });
+    assert.equal(added.data.success, true);
+    assert.equal(added.data.note.content, "伞骨坏了一根");
+
+    const { data } = await h.callTool<NoteSearchResult<TaggedNote>>(
+      "search_notes",
+      {
+        tag: "维修",
+      }
+    );
+    assert.equal(data.success, true);
+    assert.equal(data.results.length, 1);
+    assert.equal(data.results[0].collectionName, "items");
+    assert.equal(
+      data.results[0].entityId,
+      h.fixtures!.items.umbrella.toString()
+    );
+    assert.equal(data.results[0].note.content, "伞骨坏了一根");
+  });
+
+  it("search_notes 列出指定实体的笔记", async () => {
+    const { data } = await h.callTool<
+      NoteSearchResult<Serialized<StructuredNote>>
+    >("search_notes", {
+      entityType: "item",
+      entityName: "眼药水",
+    });
+
+    assert.equal(data.success, true);
+    assert.deepEqual(
+      data.results.map((note) => note.content),
+      ["医生建议每天两次"]
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import type { ObjectId } from "mongodb";
+import { TripsModel } from "../../model/trips.js";
+import type { Location } from "../../model/types.js";
+import { createRoutingProvider } from "../../routing/index.js";
+import { OfflineRoutingProvider } from "../../routing/offline.js";
+import type { Coordinates } from "../../routing/types.js";
+import { MemoryStorage } from "../../storage/memory.js";
+
+// 自西向东排成一线的三个位置，相邻两个相距约512米
+const DORM = { latitude: 39.96, longitude: 116.35 };
+const CANTEEN = { latitude: 39.96, longitude: 116.356 };
+const MAIN = { latitude: 39.96, longitude: 116.362 };
+
+// 与DORM相距约10米和约100米的点
+const NEAR_DORM = { latitude: 39.96009, longitude: 116.35 };
+const OFF_DORM = { latitude: 39.9591, longitude: 116.35 };
+
+describe("离线路线服务", () => {
+  let storage: MemoryStorage;
+  let provider: OfflineRoutingProvider;
+  let ids: Record<string, ObjectId>;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage("vitea-test");
+    provider = new OfflineRoutingProvider(storage);
+
+    const locations = storage.collection<Partial<Location>>("locations");
+    ids = {};
+    for (const [name, coordinates] of [
+      ["宿舍", DORM],
+      ["食堂", CANTEEN],
+      ["主楼东门", MAIN],
+      ["主楼", MAIN],
+    ] as const) {
+      ids[name] = (await locations.insertOne({ name, coordinates })).insertedId;
+    }
+    // 没有坐标的位置不进入路网
+    await locations.insertOne({ name: "图书馆" });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  // 记录一次步行出行
+  const recordTrip = (origin: string, destination: string, minutes: number) =>
+    new TripsModel(storage).recordTrip({
+      originId: ids[origin],
+      originName: origin,
+      destinationId: ids[destination],
+      destinationName: destination,
+      mode: "walking",
+      startTime: new Date("2026-10-19T00:00:00Z"),
+      endTime: new Date(Date.UTC(2026, 9, 19, 0, minutes)),
+    });
+
+  const waypointNames = (result: { waypoints?: { name?: string }[] } | null) =>
+    result?.waypoints?.map((waypoint) => waypoint.name);
+
+  it("geocode 精确匹配名称优先，其次为包含该名称的位置", async () => {
+    const exact = await provider.geocode("主楼");
+    assert.equal(exact.formattedAddress, "主楼");
+    assert.deepEqual(exact.coordinates, MAIN);
+    assert.equal(exact.provider, "offline");
+
+    assert.equal((await provider.geocode("东门")).formattedAddress, "主楼东门");
+    assert.equal(await provider.geocode("图书馆"), null);
+    assert.equal(await provider.geocode("体育馆"), null);
+  });
+
+  it("reverseGeocode 给出最近的已知位置", async () => {
+    assert.equal((await provider.reverseGeocode(NEAR_DORM)).address, "宿舍");
+    assert.equal(
+      (await provider.reverseGeocode(OFF_DORM)).address,
+      "宿舍附近约100米"
+    );
+  });
+
+  it("route 没有出行记录时按直线距离乘以绕行系数估算", async () => {
+    const result = await provider.route(DORM, CANTEEN, "walking");
+
+    assert.equal(result.provider, "offline");
+    assert.equal(result.personalized, false);
+    assert.ok(Math.abs(result.distance - 512 * 1.3) < 5);
+    assert.equal(result.duration, result.distance / 80);
+  });
+
+  it("route 经过出行记录更快时走实测路线，反方向使用同一用时", async () => {
+    await recordTrip("宿舍", "食堂", 3);
+
+    const recorded = await provider.route(DORM, CANTEEN, "walking");
+    assert.equal(recorded.duration, 3);
+    assert.equal(recorded.personalized, true);
+
+    const reversed = await provider.route(CANTEEN, DORM, "walking");
+    assert.equal(reversed.duration, 3);
+
+    // 宿舍→食堂用实测的3分钟，食堂→主楼按直线估算，比直接走更快
+    const via = await provider.route(DORM, MAIN, "walking");
+    assert.deepEqual(waypointNames(via), ["宿舍", "食堂", "主楼东门"]);
+    assert.equal(via.personalized, false);
+    assert.ok(via.duration < (1024 * 1.3) / 80);
+
+    // 其他交通方式不使用步行记录
+    const bicycling = await provider.route(DORM, CANTEEN, "bicycling");
+    assert.equal(bicycling.personalized, false);
+  });
+
+  it("route 起点在已知位置附近时只从该位置出发", async () => {
+    const snapped = await provider.route(NEAR_DORM, MAIN, "walking");
+    assert.deepEqual(waypointNames(snapped), ["宿舍", "主楼东门"]);
+
+    const unsnapped = await provider.route(OFF_DORM, MAIN, "walking");
+    assert.deepEqual(waypointNames(unsnapped), ["主楼东门"]);
+  });
+
+  it("route 把其他坐标系的坐标转换后再规划", async () => {
+    // 宿舍的WGS-84坐标
+    const wgs84: Coordinates = {
+      latitude: 39.958657,
+      longitude: 116.343824,
+      system: "wgs84",
+    };
+
+    const result = await provider.route(wgs84, CANTEEN, "walking");
+    assert.deepEqual(waypointNames(result), ["宿舍", "食堂"]);
+  });
+});
+
+describe("高德地图回退到离线路网", () => {
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage("vitea-test");
+    const locations = storage.collection<Partial<Location>>("locations");
+    await locations.insertOne({ name: "宿舍", coordinates: DORM });
+    await locations.insertOne({ name: "食堂", coordinates: CANTEEN });
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await storage.close();
+  });
+
+  it("高德地图请求失败时使用离线路网的结果", async () => {
+    const get = mock.method(axios, "get", async () => {
+      throw new Error("网络不可用");
+    });
+    const provider = createRoutingProvider(
+      { provider: "amap", amapKey: "test-key", cache: false },
+      storage
+    );
+    assert.equal(provider.name, "amap+offline");
+
+    const geocoded = await provider.geocode("食堂");
+    assert.equal(geocoded.provider, "offline");
+    assert.deepEqual(geocoded.coordinates, CANTEEN);
+
+    const route = await provider.route(DORM, CANTEEN, "walking");
+    assert.equal(route.provider, "offline");
+    assert.equal(get.mock.callCount(), 2);
+  });
+});
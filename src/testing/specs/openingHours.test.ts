@@ -0,0 +1,188 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_CONTINUOUS_DAYS,
+  formatOpeningPeriods,
+  getOpeningPeriods,
+  isOpenAt,
+  nextClosingTime,
+  nextOpeningTime,
+  parseOpeningHours,
+  type OpeningSchedule,
+} from "../../utils/openingHours.js";
+
+const TZ = { timeZone: "Asia/Shanghai" };
+
+// 按上海时间构造时刻，2026-10-19为周一
+const at = (local: string) => new Date(`${local}+08:00`);
+
+const parse = (text: string): OpeningSchedule => {
+  const schedule = parseOpeningHours(text);
+  assert.ok(schedule, `无法解析: ${text}`);
+  return schedule;
+};
+
+const period = (open: string, close: string) => {
+  const toMinute = (time: string) => {
+    const [hour, minute] = time.split(":").map(Number);
+    return hour * 60 + minute;
+  };
+  return { open: toMinute(open), close: toMinute(close) };
+};
+
+describe("开放时间解析", () => {
+  it("按星期范围解析中文写法", () => {
+    const schedule = parse("周一至周五 8:00-22:00，周末 9:00-17:00");
+
+    for (const day of [1, 2, 3, 4, 5]) {
+      assert.deepEqual(schedule.weekly[day], [period("08:00", "22:00")]);
+    }
+    assert.deepEqual(schedule.weekly[6], [period("09:00", "17:00")]);
+    assert.deepEqual(schedule.weekly[0], [period("09:00", "17:00")]);
+  });
+
+  it("逗号之后未指定日期的时间段属于上一条规则", () => {
+    const schedule = parse("工作日 8:00-12:00，14:00-18:00");
+
+    assert.deepEqual(schedule.weekly[1], [
+      period("08:00", "12:00"),
+      period("14:00", "18:00"),
+    ]);
+    assert.deepEqual(schedule.weekly[6], []);
+  });
+
+  it("解析OSM写法", () => {
+    const schedule = parse("Mo-Fr 08:00-18:00; Sa 10:00-14:00; Su off");
+
+    assert.deepEqual(schedule.weekly[3], [period("08:00", "18:00")]);
+    assert.deepEqual(schedule.weekly[6], [period("10:00", "14:00")]);
+    assert.deepEqual(schedule.weekly[0], []);
+  });
+
+  it("不开放的日期不被其他时间的规则覆盖", () => {
+    for (const text of [
+      "周一闭馆，其他时间9:00-17:00",
+      "9:00-17:00（周一休息）",
+      "9:00-17:00 周一闭馆",
+    ]) {
+      const schedule = parse(text);
+      assert.deepEqual(schedule.weekly[1], [], text);
+      assert.deepEqual(schedule.weekly[2], [period("09:00", "17:00")], text);
+    }
+  });
+
+  it("忽略括号中与开放时间无关的说明", () => {
+    const schedule = parse("每天 9:00-17:00（需提前预约）");
+
+    assert.deepEqual(schedule.weekly[4], [period("09:00", "17:00")]);
+  });
+
+  it("支持点钟写法和次日", () => {
+    assert.deepEqual(parse("每天 8点半-18点").weekly[0], [
+      period("08:30", "18:00"),
+    ]);
+    assert.deepEqual(parse("每天 18:00-次日2:00").weekly[0], [
+      period("18:00", "02:00"),
+    ]);
+  });
+
+  it("解析节假日和指定日期的安排", () => {
+    const schedule = parse(
+      "每天 9:00-17:00，节假日休息，10月1日至10月7日闭馆"
+    );
+
+    assert.deepEqual(schedule.holiday, []);
+    assert.deepEqual(
+      schedule.exceptions.map((exception) => exception.date),
+      ["10-01", "10-02", "10-03", "10-04", "10-05", "10-06", "10-07"]
+    );
+  });
+
+  it("无法识别的内容返回null", () => {
+    assert.equal(parseOpeningHours("看心情"), null);
+    assert.equal(parseOpeningHours("周一"), null);
+    assert.equal(
+      parseOpeningHours("9:00-17:00（寒暑假闭馆安排另行通知）"),
+      null
+    );
+    assert.equal(parseOpeningHours("节假日休息"), null);
+  });
+});
+
+describe("开放状态", () => {
+  it("指定日期优先于节假日，节假日优先于每周安排", () => {
+    const schedule = parse(
+      "每天 9:00-17:00，节假日 10:00-16:00，10月3日闭馆"
+    );
+    const options = { ...TZ, holidays: ["2026-10-02", "2026-10-03"] };
+    const periodsOn = (local: string) =>
+      getOpeningPeriods(schedule, at(local), options);
+
+    assert.deepEqual(periodsOn("2026-10-01T12:00"), [period("09:00", "17:00")]);
+    assert.deepEqual(periodsOn("2026-10-02T12:00"), [period("10:00", "16:00")]);
+    assert.deepEqual(periodsOn("2026-10-03T12:00"), []);
+  });
+
+  it("跨午夜的时间段在次日凌晨仍然开放", () => {
+    const schedule = parse("每天 18:00-次日2:00");
+
+    assert.equal(isOpenAt(schedule, at("2026-10-19T23:00"), TZ), true);
+    assert.equal(isOpenAt(schedule, at("2026-10-20T01:30"), TZ), true);
+    assert.equal(isOpenAt(schedule, at("2026-10-20T02:00"), TZ), false);
+    assert.deepEqual(
+      nextClosingTime(schedule, at("2026-10-20T01:30"), TZ),
+      at("2026-10-20T02:00")
+    );
+  });
+
+  it("24小时开放时结束时间最多向后计算7天", () => {
+    const schedule = parse("24小时");
+    const time = at("2026-10-19T03:00");
+
+    assert.equal(isOpenAt(schedule, time, TZ), true);
+    assert.deepEqual(
+      nextClosingTime(schedule, time, TZ),
+      new Date(time.getTime() + MAX_CONTINUOUS_DAYS * 24 * 60 * 60 * 1000)
+    );
+  });
+
+  it("nextOpeningTime 跳过不开放的日期", () => {
+    const schedule = parse("周一闭馆，其他时间9:00-17:00");
+
+    assert.deepEqual(
+      nextOpeningTime(schedule, at("2026-10-18T20:00"), TZ),
+      at("2026-10-20T09:00")
+    );
+    assert.equal(
+      nextOpeningTime(schedule, at("2026-10-18T20:00"), TZ, 1),
+      null
+    );
+  });
+
+  it("按指定的时区计算星期和钟表时间", () => {
+    const schedule = parse("周一至周五 9:00-17:00");
+    // 上海时间周一10:00，UTC为周一02:00
+    const time = new Date("2026-10-19T02:00:00Z");
+
+    assert.equal(isOpenAt(schedule, time, TZ), true);
+    assert.equal(isOpenAt(schedule, time, { timeZone: "UTC" }), false);
+    // 上海时间周六05:00，洛杉矶时间仍为周五
+    const friday = new Date("2026-10-23T21:00:00Z");
+    assert.equal(isOpenAt(schedule, friday, TZ), false);
+    assert.equal(
+      isOpenAt(schedule, friday, { timeZone: "America/Los_Angeles" }),
+      true
+    );
+  });
+
+  it("formatOpeningPeriods 标出跨午夜和不开放", () => {
+    assert.equal(
+      formatOpeningPeriods([
+        period("08:00", "12:00"),
+        period("18:00", "02:00"),
+      ]),
+      "08:00-12:00、18:00-次日02:00"
+    );
+    assert.equal(formatOpeningPeriods([]), "不开放");
+  });
+});
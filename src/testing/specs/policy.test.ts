@@ -0,0 +1,178 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import {
+  McpTestHarness,
+  type TestHarnessOptions,
+  type ToolResult,
+} from "../harness.js";
+import {
+  parseDomainSelector,
+  resolveDomainSelector,
+  type ToolPolicy,
+} from "../../registry/index.js";
+import type { Item } from "../../model/types.js";
+import { AuditedStorage } from "../../storage/audit.js";
+
+describe("工具权限策略", () => {
+  let h: McpTestHarness;
+
+  const setup = async (options: TestHarnessOptions = {}) => {
+    h = await McpTestHarness.create(options);
+    return h;
+  };
+
+  const policy = (overrides: Partial<ToolPolicy>): ToolPolicy => ({
+    writableDomains: "*",
+    destructiveDomains: "*",
+    deniedTools: [],
+    ...overrides,
+  });
+
+  const getUmbrella = () =>
+    h.storage
+      .collection<Item>("items")
+      .findOne({ _id: h.fixtures!.items.umbrella });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("只读模式只列出读工具，调用写工具被拒绝且不修改数据", async () => {
+    await setup({ readOnly: true });
+
+    const names = await h.listToolNames();
+    assert.ok(names.includes("query_item"));
+    assert.ok(names.includes("plan_departure"));
+    assert.ok(!names.includes("update_item_info"));
+    assert.ok(!names.includes("delete_item"));
+
+    const result = await h.callTool<ToolResult>("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.error!, /ReadonlyError/);
+    assert.equal((await getUmbrella()).status, "在用");
+  });
+
+  it("只读模式仍保留禁用工具列表", async () => {
+    await setup({
+      readOnly: true,
+      policy: policy({ deniedTools: ["query_item"] }),
+    });
+
+    const names = await h.listToolNames();
+    assert.ok(!names.includes("query_item"));
+    assert.ok(!names.includes("create_item"));
+    assert.ok(names.includes("find_item"));
+  });
+
+  it("禁用的工具不出现在列表中，调用时被拒绝", async () => {
+    await setup({ policy: policy({ deniedTools: ["update_item_info"] }) });
+
+    assert.ok(!(await h.listToolNames()).includes("update_item_info"));
+
+    const result = await h.callTool<ToolResult>("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    assert.equal(result.isError, true);
+    assert.match(result.error!, /PermissionError.*已被策略禁用/);
+    assert.equal((await getUmbrella()).status, "在用");
+  });
+
+  it("只允许写入指定领域", async () => {
+    await setup({ policy: policy({ writableDomains: ["tasks"] }) });
+
+    const names = await h.listToolNames();
+    assert.ok(names.includes("create_task"));
+    assert.ok(!names.includes("create_item"));
+
+    const task = await h.callTool<ToolResult>("create_task", { name: "复习" });
+    assert.equal(task.data.success, true);
+
+    const item = await h.callTool("create_item", { name: "水杯" });
+    assert.equal(item.isError, true);
+    assert.match(item.error!, /领域 'items' 不允许写操作/);
+  });
+
+  it("可写但不允许破坏性操作的领域只能修改，不能删除", async () => {
+    await setup({ policy: policy({ destructiveDomains: [] }) });
+
+    const update = await h.callTool<ToolResult>("update_item_info", {
+      itemName: "雨伞",
+      newStatus: "损坏",
+    });
+    assert.equal(update.data.success, true);
+
+    const result = await h.callTool("delete_item", { itemName: "雨伞" });
+    assert.equal(result.isError, true);
+    assert.match(result.error!, /领域 'items' 不允许破坏性操作/);
+    assert.equal((await getUmbrella()).status, "损坏");
+  });
+
+  it("读工具按参数需要写入时检查对应领域的权限", async () => {
+    await setup({ policy: policy({ writableDomains: ["items"] }) });
+
+    const { data } = await h.callTool<ToolResult>("plan_departure", {
+      origin: "宿舍",
+      destination: "主楼",
+      arriveBy: "2026-10-20T09:00+08:00",
+      createReminder: true,
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /领域 'tasks' 不允许写操作/);
+  });
+
+  it("撤销时按被修改数据的领域检查权限", async () => {
+    await setup({
+      policy: policy({ writableDomains: ["auditLog"] }),
+    });
+    // 模拟此前一次修改物品的调用
+    await new AuditedStorage(h.storage, {
+      callId: new ObjectId(),
+      actor: "vitea-test-client/0.0.0",
+      tool: "update_item_info",
+      arguments: {},
+    })
+      .collection("items")
+      .updateOne(
+        { _id: h.fixtures!.items.umbrella },
+        { $set: { status: "损坏" } }
+      );
+
+    const { data } = await h.callTool<ToolResult>("undo_last_change");
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /领域 'items' 不允许写操作/);
+    assert.equal((await getUmbrella()).status, "损坏");
+  });
+});
+
+describe("领域列表", () => {
+  it("parseDomainSelector 解析全部、无和逗号分隔的列表", () => {
+    assert.equal(parseDomainSelector("*"), "*");
+    assert.equal(parseDomainSelector("all"), "*");
+    assert.deepEqual(parseDomainSelector(""), []);
+    assert.deepEqual(parseDomainSelector("none"), []);
+    assert.deepEqual(parseDomainSelector(" items, tasks ,"), [
+      "items",
+      "tasks",
+    ]);
+  });
+
+  it("resolveDomainSelector 不区分大小写对应已注册的领域", () => {
+    const known = ["items", "bioData", "tasks"];
+
+    assert.deepEqual(
+      resolveDomainSelector(["BIODATA", "biodata", "Items", "notes"], known),
+      { selector: ["bioData", "items"], unknown: ["notes"] }
+    );
+    assert.deepEqual(resolveDomainSelector("*", known), {
+      selector: "*",
+      unknown: [],
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpTestHarness } from "../harness.js";
+
+describe("提示和自动完成", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("列出所有提示及其参数", async () => {
+    const { prompts } = await h.client.listPrompts();
+
+    assert.deepEqual(
+      prompts.map((prompt) => [
+        prompt.name,
+        prompt.arguments?.map((argument) => argument.name),
+      ]),
+      [
+        ["analyze_vitea_item", ["itemName"]],
+        ["analyze_vitea_location", ["locationName"]],
+        ["analyze_travel_time", ["origin", "destination"]],
+        ["analyze_vitea_contact", ["contactName"]],
+        ["analyze_vitea_biodata", ["measurementType"]],
+        ["analyze_vitea_tasks", ["status"]],
+      ]
+    );
+  });
+
+  it("analyze_vitea_item 包含物品的位置、容器和备注", async () => {
+    const text = await h.getPromptText("analyze_vitea_item", {
+      itemName: "眼药水",
+    });
+
+    assert.match(text, /物品名称：眼药水/);
+    assert.match(text, /位置：宿舍/);
+    assert.match(text, /容器：书包/);
+    assert.match(text, /医生建议每天两次/);
+  });
+
+  it("analyze_vitea_item 找不到物品时说明未找到", async () => {
+    const text = await h.getPromptText("analyze_vitea_item", {
+      itemName: "不存在的物品",
+    });
+
+    assert.match(text, /未找到匹配项/);
+  });
+
+  it("analyze_vitea_location 包含开放时间", async () => {
+    const text = await h.getPromptText("analyze_vitea_location", {
+      locationName: "图书馆",
+    });
+
+    assert.match(text, /位置名称：图书馆/);
+    assert.match(text, /开放时间：08:00-22:00/);
+  });
+
+  it("analyze_travel_time 包含出行时间估算", async () => {
+    const text = await h.getPromptText("analyze_travel_time", {
+      origin: "宿舍",
+      destination: "主楼",
+    });
+
+    assert.match(text, /终点：主楼/);
+    assert.match(text, /预估时间：[\d.]+ 分钟/);
+    assert.match(text, /基础速度：80 米\/分钟/);
+  });
+
+  it("analyze_vitea_contact 包含联系人信息和标签", async () => {
+    const text = await h.getPromptText("analyze_vitea_contact", {
+      contactName: "张三",
+    });
+
+    assert.match(text, /联系人名称：张三/);
+    assert.match(text, /学校：北京大学/);
+    assert.match(text, /标签：同学, 室友/);
+  });
+
+  it("analyze_vitea_biodata 包含测量历史", async () => {
+    const text = await h.getPromptText("analyze_vitea_biodata", {
+      measurementType: "走路速度",
+    });
+
+    assert.match(text, /走路速度/);
+    assert.doesNotMatch(text, /未找到任何记录/);
+  });
+
+  it("analyze_vitea_tasks 汇总指定状态的任务", async () => {
+    const text = await h.getPromptText("analyze_vitea_tasks", {
+      status: "进行中",
+    });
+
+    assert.match(text, /状态为"进行中"的任务总数：1/);
+    assert.match(text, /写论文 \[优先级: 高\]/);
+  });
+
+  it("提示参数按已输入的部分自动完成", async () => {
+    assert.deepEqual(
+      await h.completePrompt("analyze_vitea_item", "itemName", "眼"),
+      ["眼药水"]
+    );
+    assert.deepEqual(
+      (await h.completePrompt("analyze_travel_time", "origin", "宿")).sort(),
+      ["宿舍", "宿舍楼"].sort()
+    );
+    assert.deepEqual(
+      await h.completePrompt("analyze_vitea_contact", "contactName", "张"),
+      ["张三"]
+    );
+    assert.deepEqual(
+      await h.completePrompt("analyze_vitea_biodata", "measurementType", "体"),
+      ["体重"]
+    );
+    assert.deepEqual(
+      await h.completePrompt("analyze_vitea_tasks", "status", "完成"),
+      ["已完成"]
+    );
+  });
+
+  it("未知提示或参数没有自动完成结果", async () => {
+    assert.deepEqual(
+      await h.completePrompt("analyze_vitea_item", "unknown", "眼"),
+      []
+    );
+    assert.deepEqual(await h.completePrompt("unknown_prompt", "x", ""), []);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpTestHarness } from "../harness.js";
+import { FULL_ACCESS_POLICY, toolRegistry } from "../../registry/index.js";
+import { itemOutput } from "../../registry/outputs.js";
+
+describe("工具注册表", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("列出注册表中的所有工具", async () => {
+    const names = await h.listToolNames();
+
+    assert.deepEqual(
+      names.sort(),
+      toolRegistry
+        .list()
+        .map((tool) => tool.name)
+        .sort()
+    );
+  });
+
+  it("可能按参数写入的只读工具不标为只读", () => {
+    const hints = Object.fromEntries(
+      toolRegistry
+        .listTools(FULL_ACCESS_POLICY)
+        .map((tool) => [tool.name, tool.annotations.readOnlyHint])
+    );
+
+    assert.equal(hints.query_item, true);
+    assert.equal(hints.estimate_time, false);
+    assert.equal(hints.plan_departure, false);
+    assert.equal(hints.get_item_deadlines, false);
+    assert.equal(hints.update_item, false);
+  });
+
+  it("物品的输出模式接受早期数据的字符串备注", () => {
+    const item = { _id: "0123456789abcdef01234567", name: "雨伞" };
+
+    assert.ok(itemOutput.safeParse({ ...item, notes: "放在门口" }).success);
+    assert.ok(
+      itemOutput.safeParse({ ...item, notes: [{ content: "放在门口" }] })
+        .success
+    );
+    assert.ok(!itemOutput.safeParse({ ...item, notes: 1 }).success);
+  });
+
+  it("未知工具返回错误", async () => {
+    const result = await h.callTool("no_such_tool");
+
+    assert.equal(result.isError, true);
+  });
+});
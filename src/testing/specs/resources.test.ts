@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpTestHarness, type Serialized } from "../harness.js";
+import type {
+  BioData,
+  Contact,
+  Item,
+  Location,
+  StructuredItemLocationResponse,
+  Task,
+} from "../../model/types.js";
+
+interface ItemList {
+  count: number;
+  items: Serialized<Item>[];
+}
+
+interface TaskList {
+  count: number;
+  tasks: Serialized<Task>[];
+}
+
+describe("资源", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("列出集合资源、ViteaOS资源和资源模板", async () => {
+    const { resources } = await h.client.listResources();
+    assert.deepEqual(
+      resources.map((resource) => resource.uri),
+      [
+        "mongodb:///items",
+        "mongodb:///locations",
+        "mongodb:///contacts",
+        "mongodb:///bioData",
+        "mongodb:///tasks",
+        "vitea://items/all",
+        "vitea://items/low-stock",
+        "vitea://locations/all",
+        "vitea://contacts/all",
+        "vitea://biodata/all",
+        "vitea://tasks/all",
+      ]
+    );
+
+    const { resourceTemplates } = await h.client.listResourceTemplates();
+    assert.deepEqual(
+      resourceTemplates.map((template) => template.uriTemplate),
+      [
+        "vitea://items/{itemName}",
+        "vitea://locations/{locationName}",
+        "vitea://contacts/{contactName}",
+        "vitea://tasks/{status}",
+        "vitea://biodata/{measurementType}",
+      ]
+    );
+  });
+
+  it("mongodb集合资源描述字段", async () => {
+    const schema = await h.readResource<{
+      type: string;
+      name: string;
+      fields: { name: string; type: string }[];
+    }>("mongodb:///items");
+
+    assert.equal(schema.type, "collection");
+    assert.equal(schema.name, "items");
+    assert.ok(schema.fields.some((field) => field.name === "name"));
+  });
+
+  it("all资源列出集合中的全部文档", async () => {
+    const items = await h.readResource<ItemList>("vitea://items/all");
+    assert.equal(items.count, 3);
+    assert.deepEqual(
+      items.items.map((item) => item.name).sort(),
+      ["书包", "眼药水", "雨伞"].sort()
+    );
+
+    const locations = await h.readResource<{ count: number }>(
+      "vitea://locations/all"
+    );
+    assert.equal(locations.count, 4);
+
+    const contacts = await h.readResource<{ contacts: Serialized<Contact>[] }>(
+      "vitea://contacts/all"
+    );
+    assert.deepEqual(
+      contacts.contacts.map((contact) => contact.name),
+      ["张三", "李四"]
+    );
+
+    const tasks = await h.readResource<TaskList>("vitea://tasks/all");
+    assert.equal(tasks.count, 3);
+  });
+
+  it("biodata/all 列出每种测量类型的最新记录", async () => {
+    const bioData = await h.readResource<{
+      measurementTypes: string[];
+      latestRecords: Serialized<BioData>[];
+    }>("vitea://biodata/all");
+
+    assert.deepEqual(bioData.measurementTypes, ["体重", "走路速度"]);
+    assert.deepEqual(
+      bioData.latestRecords.map((record) => [
+        record.measurementType,
+        record.value,
+      ]),
+      [
+        ["体重", 62.5],
+        ["走路速度", 80],
+      ]
+    );
+  });
+
+  it("items/low-stock 列出低于补货阈值的物品", async () => {
+    const empty = await h.readResource<ItemList>("vitea://items/low-stock");
+    assert.equal(empty.count, 0);
+
+    await h.callTool("create_item", {
+      name: "纸巾",
+      quantity: 1,
+      minQuantity: 2,
+    });
+    const { items } = await h.readResource<ItemList>("vitea://items/low-stock");
+    assert.deepEqual(
+      items.map((item) => item.name),
+      ["纸巾"]
+    );
+  });
+
+  it("按ID读取物品时附带位置和容器信息", async () => {
+    const { items } = h.fixtures!;
+
+    const resource = await h.readResource<{
+      item: Serialized<Item>;
+      locationInfo: StructuredItemLocationResponse;
+    }>(`vitea://items/${items.eyeDrops}`);
+
+    assert.equal(resource.item.name, "眼药水");
+    assert.equal(resource.locationInfo.container.name, "书包");
+  });
+
+  it("按ID读取位置和联系人", async () => {
+    const { locations, contacts } = h.fixtures!;
+
+    const location = await h.readResource<{ location: Serialized<Location> }>(
+      `vitea://locations/${locations.library}`
+    );
+    assert.equal(location.location.name, "图书馆");
+
+    const contact = await h.readResource<{ contact: Serialized<Contact> }>(
+      `vitea://contacts/${contacts.zhangSan}`
+    );
+    assert.equal(contact.contact.name, "张三");
+  });
+
+  it("tasks资源按待办和逾期筛选", async () => {
+    const pending = await h.readResource<TaskList>("vitea://tasks/pending");
+    assert.deepEqual(
+      pending.tasks.map((task) => task.name).sort(),
+      ["交作业", "写论文"].sort()
+    );
+
+    const overdue = await h.readResource<TaskList>("vitea://tasks/overdue");
+    assert.deepEqual(
+      overdue.tasks.map((task) => task.name),
+      ["交作业"]
+    );
+  });
+
+  it("biodata资源按中文测量类型查询历史和统计", async () => {
+    const resource = await h.readResource<{
+      measurementType: string;
+      records: Serialized<BioData>[];
+      stats: { count: number; max: number };
+    }>(`vitea://biodata/${encodeURIComponent("走路速度")}`);
+
+    assert.equal(resource.measurementType, "走路速度");
+    assert.equal(resource.records.length, 2);
+    assert.equal(resource.stats.count, 2);
+    assert.equal(resource.stats.max, 80);
+  });
+
+  it("资源模板参数可以自动完成", async () => {
+    assert.deepEqual(
+      await h.completeResource("vitea://items/{itemName}", "itemName", "雨"),
+      ["雨伞"]
+    );
+    assert.deepEqual(
+      await h.completeResource(
+        "vitea://contacts/{contactName}",
+        "contactName",
+        "李"
+      ),
+      ["李四"]
+    );
+    assert.deepEqual(
+      await h.completeResource("vitea://tasks/{status}", "status", "进行"),
+      ["进行中"]
+    );
+  });
+});
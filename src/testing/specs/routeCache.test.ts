@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpTestHarness, type ToolResult } from "../harness.js";
+import { RouteCacheModel, toPointKey } from "../../model/routeCache.js";
+import type {
+  RouteCacheEntry,
+  TravelTimeEstimationResponse,
+} from "../../model/types.js";
+import {
+  CachedRoutingProvider,
+  DEFAULT_ROUTE_CACHE_TTL,
+} from "../../routing/cache.js";
+import { FakeRoutingProvider } from "../../routing/fake.js";
+import { MemoryStorage } from "../../storage/memory.js";
+
+const DORM = { latitude: 39.9605, longitude: 116.3575 };
+const MAIN = { latitude: 39.9625, longitude: 116.3595 };
+const CANTEEN = { latitude: 39.961, longitude: 116.358 };
+
+describe("路线缓存", () => {
+  let storage: MemoryStorage;
+  let fake: FakeRoutingProvider;
+  let provider: CachedRoutingProvider;
+
+  beforeEach(() => {
+    storage = new MemoryStorage("vitea-test");
+    fake = new FakeRoutingProvider({ 食堂: CANTEEN });
+    provider = new CachedRoutingProvider(fake, storage);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  const cache = () => storage.collection<RouteCacheEntry>("routeCache");
+
+  const callCount = (method: string) =>
+    fake.calls.filter((call) => call.method === method).length;
+
+  it("有效期内返回缓存结果并标注cachedAt", async () => {
+    const first = await provider.route(DORM, MAIN, "walking");
+    assert.equal(first.cachedAt, undefined);
+
+    const second = await provider.route(DORM, MAIN, "walking");
+    assert.ok(second.cachedAt instanceof Date);
+    assert.equal(second.duration, first.duration);
+    assert.equal(callCount("route"), 1);
+
+    // 交通方式不同时不共用缓存
+    await provider.route(DORM, MAIN, "bicycling");
+    assert.equal(callCount("route"), 2);
+  });
+
+  it("无结果时不缓存", async () => {
+    assert.equal(await provider.geocode("体育馆"), null);
+    assert.equal(await provider.geocode("体育馆"), null);
+
+    assert.equal(callCount("geocode"), 2);
+    assert.equal(await cache().countDocuments({}), 0);
+  });
+
+  it("过期的条目视为未命中，清除后重新请求", async () => {
+    await provider.geocode("食堂");
+    await cache().updateOne(
+      { key: "geocode:食堂" },
+      { $set: { expiresAt: new Date(Date.now() - 1000) } }
+    );
+
+    const result = await provider.geocode("食堂");
+
+    assert.equal(result.cachedAt, undefined);
+    assert.equal(callCount("geocode"), 2);
+    const [entry] = await cache().find({}).toArray();
+    assert.ok(entry.expiresAt.getTime() > Date.now());
+  });
+
+  it("只读时过期的条目视为未命中，但不清除也不写入", async () => {
+    await provider.geocode("食堂");
+    const expiresAt = new Date(Date.now() - 1000);
+    await cache().updateOne({ key: "geocode:食堂" }, { $set: { expiresAt } });
+    const readOnly = new CachedRoutingProvider(
+      fake,
+      storage,
+      DEFAULT_ROUTE_CACHE_TTL,
+      true
+    );
+
+    const result = await readOnly.geocode("食堂");
+
+    assert.equal(result.cachedAt, undefined);
+    assert.equal(callCount("geocode"), 2);
+    const entries = await cache().find({}).toArray();
+    assert.equal(entries.length, 1);
+    assert.deepEqual(entries[0].expiresAt, expiresAt);
+  });
+
+  it("invalidateLocation 清除该名称的地理编码和以原坐标为端点的结果", async () => {
+    await provider.geocode("食堂");
+    await provider.route(CANTEEN, MAIN, "walking");
+    await provider.route(MAIN, CANTEEN, "walking");
+    await provider.route(DORM, MAIN, "walking");
+
+    const deleted = await new RouteCacheModel(storage).invalidateLocation(
+      "食堂",
+      CANTEEN
+    );
+
+    assert.equal(deleted, 3);
+    const remaining = await cache().find({}).toArray();
+    assert.deepEqual(
+      remaining.map((entry) => entry.key),
+      [`route:walking:${toPointKey(DORM)}>${toPointKey(MAIN)}`]
+    );
+  });
+});
+
+describe("路线缓存与位置工具", () => {
+  let h: McpTestHarness;
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  interface EstimationResult extends ToolResult {
+    estimation: TravelTimeEstimationResponse;
+  }
+
+  it("estimate_time 报告路线和地理编码是否来自缓存", async () => {
+    h = await McpTestHarness.create({
+      routing: new CachedRoutingProvider(
+        new FakeRoutingProvider({ 食堂: CANTEEN }),
+        new MemoryStorage("vitea-cache")
+      ),
+    });
+    const args = { origin: "宿舍", destination: "食堂" };
+
+    const first = await h.callTool<EstimationResult>("estimate_time", args);
+    assert.deepEqual(first.data.estimation.cache, {
+      route: false,
+      geocode: [],
+    });
+
+    const second = await h.callTool<EstimationResult>("estimate_time", args);
+    assert.deepEqual(second.data.estimation.cache, {
+      route: true,
+      geocode: ["食堂"],
+    });
+    assert.match(second.data.estimation.notes, /路线数据来自缓存/);
+  });
+
+  it("update_location_info 修改坐标时清除该位置的缓存", async () => {
+    h = await McpTestHarness.create();
+    const model = new RouteCacheModel(h.storage);
+    const entry = (key: string, points: string[]) =>
+      model.set(
+        { key, kind: "route", provider: "fake", points, result: {} },
+        60 * 1000
+      );
+    await entry("dorm", [toPointKey(DORM), toPointKey(MAIN)]);
+    await entry("other", [toPointKey(CANTEEN), toPointKey(MAIN)]);
+
+    await h.callTool("update_location_info", {
+      locationName: "宿舍",
+      newCoordinates: CANTEEN,
+    });
+
+    const remaining = await h.storage
+      .collection<RouteCacheEntry>("routeCache")
+      .find({})
+      .toArray();
+    assert.deepEqual(
+      remaining.map((entry) => entry.key),
+      ["other"]
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { Task } from "../../model/types.js";
+
+interface TaskResult extends ToolResult {
+  task?: Serialized<Task>;
+  tasks?: Serialized<Task>[];
+}
+
+describe("任务工具", () => {
+  let h: McpTestHarness;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  const names = (tasks: Serialized<Task>[]) =>
+    tasks.map((task) => task.name).sort();
+
+  it("query_task 按逾期、即将到期和标签查询", async () => {
+    const overdue = await h.callTool<TaskResult>("query_task", {
+      overdue: true,
+    });
+    assert.deepEqual(names(overdue.data.tasks), ["交作业"]);
+
+    const upcoming = await h.callTool<TaskResult>("query_task", {
+      upcoming: true,
+      days: 7,
+    });
+    assert.deepEqual(names(upcoming.data.tasks), ["写论文"]);
+
+    const byTag = await h.callTool<TaskResult>("query_task", { tag: "学习" });
+    assert.deepEqual(names(byTag.data.tasks), ["交作业", "写论文"]);
+  });
+
+  it("get_pending_tasks 不包含已完成的任务", async () => {
+    const { data } = await h.callTool<TaskResult>("get_pending_tasks");
+
+    assert.equal(data.success, true);
+    assert.deepEqual(names(data.tasks), ["交作业", "写论文"]);
+  });
+
+  it("create_task 创建带截止日期的任务", async () => {
+    const { data } = await h.callTool<TaskResult>("create_task", {
+      name: "复习",
+      dueDate: "2099-10-25",
+      priority: "高",
+      tags: ["学习"],
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.task.name, "复习");
+    assert.equal(data.task.status, "未开始");
+    assert.equal(data.task.isOverdue, false);
+    assert.equal(data.task.dueDate.slice(0, 10), "2099-10-25");
+  });
+
+  it("update_task_info 更新优先级和截止日期", async () => {
+    const { data } = await h.callTool<TaskResult>("update_task_info", {
+      taskName: "写论文",
+      newPriority: "中",
+      newDueDate: "2099-10-30",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.task.priority, "中");
+    assert.equal(data.task.dueDate.slice(0, 10), "2099-10-30");
+  });
+
+  it("update_task_status 更新状态并记录状态变更笔记", async () => {
+    const { data } = await h.callTool<TaskResult>("update_task_status", {
+      taskName: "交作业",
+      newStatus: "已完成",
+      comment: "补交了",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.task.status, "已完成");
+    assert.ok(Array.isArray(data.task.notes));
+    const note = data.task.notes.at(-1);
+    assert.equal(note.content, "补交了");
+    assert.equal(note.metadata.previousStatus, "未开始");
+    assert.equal(note.metadata.newStatus, "已完成");
+  });
+
+  it("delete_task 删除任务", async () => {
+    const { data } = await h.callTool<TaskResult>("delete_task", {
+      taskName: "买菜",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(
+      await h.storage
+        .collection("tasks")
+        .countDocuments({ _id: h.fixtures!.tasks.finished }),
+      0
+    );
+  });
+});
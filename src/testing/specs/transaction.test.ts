@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import {
+  McpTestHarness,
+  type Serialized,
+  type ToolResult,
+} from "../harness.js";
+import type { AuditLogEntry } from "../../model/types.js";
+import { MemoryStorage } from "../../storage/memory.js";
+import {
+  TransactionError,
+  runWithCompensation,
+  type TransactionFailureDetails,
+} from "../../storage/transaction.js";
+import type { Repository, UpdateFilter } from "../../storage/types.js";
+
+/**
+ * 让仓储的updateOne在满足条件的第一次调用时失败，之后恢复正常
+ */
+function failNextUpdate(
+  repository: Repository,
+  shouldFail: (update: UpdateFilter) => boolean
+): void {
+  const updateOne = repository.updateOne.bind(repository);
+  let failed = false;
+  repository.updateOne = async (filter, update) => {
+    if (!failed && shouldFail(update)) {
+      failed = true;
+      throw new Error("模拟写入失败");
+    }
+    return updateOne(filter, update);
+  };
+}
+
+describe("补偿模式", () => {
+  let storage: MemoryStorage;
+  let kept: ObjectId;
+  let removed: ObjectId;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage("vitea-test");
+    const items = storage.collection("items");
+    kept = (await items.insertOne({ name: "书包", quantity: 1 })).insertedId;
+    removed = (await items.insertOne({ name: "雨伞" })).insertedId;
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it("成功时返回结果并保留修改", async () => {
+    const result = await runWithCompensation(storage, async (tx) => {
+      await tx
+        .collection("items")
+        .updateOne({ _id: kept }, { $set: { quantity: 2 } });
+      return "ok";
+    });
+
+    assert.equal(result, "ok");
+    const item = await storage.collection("items").findOne({ _id: kept });
+    assert.equal(item.quantity, 2);
+  });
+
+  it("失败时恢复修改、删除和插入的文档", async () => {
+    const error = await runWithCompensation(storage, async (tx) => {
+      const items = tx.collection("items");
+      await items.updateOne(
+        { _id: kept },
+        { $set: { quantity: 2, status: "在用" } }
+      );
+      await items.updateOne({ _id: kept }, { $set: { quantity: 3 } });
+      await items.deleteOne({ _id: removed });
+      await items.insertOne({ name: "水杯" });
+      throw new Error("模拟写入失败");
+    }).catch((error) => error);
+
+    assert.ok(error instanceof TransactionError);
+    assert.match(error.message, /模拟写入失败（已撤销3个文档的修改）/);
+    assert.deepEqual(error.details, {
+      mode: "compensation",
+      rolledBack: true,
+      writtenDocuments: 3,
+      unrestored: [],
+    });
+
+    const items = await storage.collection("items").find({}).toArray();
+    assert.deepEqual(
+      items.map((item) => [item.name, item.quantity, item.status]),
+      [
+        ["书包", 1, undefined],
+        ["雨伞", undefined, undefined],
+      ]
+    );
+  });
+
+  it("恢复失败时报告未能恢复的文档", async () => {
+    failNextUpdate(storage.collection("items"), (update) =>
+      Boolean(update.$unset)
+    );
+
+    const error = await runWithCompensation(storage, async (tx) => {
+      await tx
+        .collection("items")
+        .updateOne({ _id: kept }, { $set: { status: "在用" } });
+      throw new Error("模拟写入失败");
+    }).catch((error) => error);
+
+    assert.ok(error instanceof TransactionError);
+    assert.equal(error.details.rolledBack, false);
+    assert.deepEqual(
+      error.details.unrestored.map((failure) => [
+        failure.collection,
+        failure.entityId,
+      ]),
+      [["items", kept]]
+    );
+    assert.match(error.message, /未能恢复，数据可能不一致/);
+  });
+});
+
+describe("多文档写操作回滚", () => {
+  let h: McpTestHarness;
+  let box: ObjectId;
+
+  beforeEach(async () => {
+    h = await McpTestHarness.create();
+    box = (
+      await h.storage.collection("items").insertOne({
+        name: "收纳盒",
+        isContainer: true,
+        containedItems: [],
+        locationId: h.fixtures!.locations.dormRoom,
+      })
+    ).insertedId;
+  });
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  it("transfer_item 中途失败时撤销已写入的文档并返回回滚详情", async () => {
+    const { items } = h.fixtures!;
+    const before = await h.storage.collection("items").find({}).toArray();
+    // 物品和旧容器已更新后，写入新容器时失败
+    failNextUpdate(h.storage.collection("items"), (update) =>
+      Boolean(update.$addToSet)
+    );
+
+    const { data } = await h.callTool<
+      ToolResult & { rollback: Serialized<TransactionFailureDetails> }
+    >("transfer_item", {
+      itemName: "眼药水",
+      targetContainerId: box.toString(),
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /模拟写入失败/);
+    assert.equal(data.rollback.mode, "compensation");
+    assert.equal(data.rollback.rolledBack, true);
+    assert.deepEqual(data.rollback.unrestored, []);
+
+    const after = await h.storage.collection("items").find({}).toArray();
+    assert.deepEqual(after, before);
+    const backpack = await h.storage
+      .collection("items")
+      .findOne({ _id: items.backpack });
+    assert.deepEqual(backpack.containedItems, [items.eyeDrops]);
+  });
+
+  it("回滚的调用不留下审计记录", async () => {
+    failNextUpdate(h.storage.collection("items"), (update) =>
+      Boolean(update.$addToSet)
+    );
+
+    await h.callTool("transfer_item", {
+      itemName: "眼药水",
+      targetContainerId: box.toString(),
+    });
+
+    const { data } = await h.callTool<{
+      entries: Serialized<AuditLogEntry>[];
+    }>("query_audit_log");
+    assert.deepEqual(data.entries, []);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  McpTestHarness,
+  type Serialized,
+  type TestHarnessOptions,
+  type ToolResult,
+} from "../harness.js";
+import type { RouteDurationModel } from "../../model/trips.js";
+import type {
+  Task,
+  TravelTimeEstimationResponse,
+  Trip,
+} from "../../model/types.js";
+import { FakeRoutingProvider } from "../../routing/fake.js";
+import type { DeparturePlan } from "../../tools/planDeparture.js";
+import type { Itinerary } from "../../tools/planItinerary.js";
+
+interface TripResult extends ToolResult {
+  trip: Serialized<Trip>;
+  route: Serialized<RouteDurationModel>;
+}
+
+interface DepartureResult extends ToolResult {
+  plan: Serialized<DeparturePlan>;
+  reminder?: Serialized<Task>;
+}
+
+describe("出行工具", () => {
+  let h: McpTestHarness;
+
+  const setup = async (options: TestHarnessOptions = {}) => {
+    h = await McpTestHarness.create(options);
+    return h;
+  };
+
+  afterEach(async () => {
+    await h.close();
+  });
+
+  const recordTrip = (minutes: number, day = 19) =>
+    h.callTool<TripResult>("record_trip", {
+      origin: "宿舍",
+      destination: "主楼",
+      mode: "walking",
+      startTime: `2026-10-${day}T08:00+08:00`,
+      endTime: `2026-10-${day}T08:${String(minutes).padStart(2, "0")}+08:00`,
+    });
+
+  it("record_trip 记录出行并汇总该路线的用时", async () => {
+    await setup();
+
+    const { data } = await recordTrip(12);
+
+    assert.equal(data.success, true);
+    assert.equal(data.trip.originName, "宿舍");
+    assert.equal(data.trip.destinationName, "主楼");
+    assert.equal(data.trip.duration, 12);
+    assert.equal(data.route.sampleCount, 1);
+    assert.equal(data.route.median, 12);
+    assert.equal(data.route.timeOfDay.morning_peak.sampleCount, 1);
+  });
+
+  it("record_trip 拒绝到达早于出发的记录", async () => {
+    await setup();
+
+    const { data } = await h.callTool<TripResult>("record_trip", {
+      origin: "宿舍",
+      destination: "主楼",
+      startTime: "2026-10-19T08:30+08:00",
+      endTime: "2026-10-19T08:00+08:00",
+    });
+
+    assert.equal(data.success, false);
+  });
+
+  it("estimate_time 有出行记录时直接使用，记录少于3次时不给出范围", async () => {
+    await setup();
+    await recordTrip(12);
+
+    const single = await h.callTool<
+      ToolResult & { estimation: TravelTimeEstimationResponse }
+    >("estimate_time", {
+      origin: "宿舍",
+      destination: "主楼",
+    });
+    assert.equal(single.data.estimation.estimatedTime, 12);
+    assert.equal(single.data.estimation.sampleCount, 1);
+    assert.equal(single.data.estimation.range, undefined);
+
+    await recordTrip(10, 20);
+    await recordTrip(14, 21);
+    const { data } = await h.callTool<
+      ToolResult & { estimation: TravelTimeEstimationResponse }
+    >("estimate_time", {
+      origin: "宿舍",
+      destination: "主楼",
+    });
+    assert.equal(data.estimation.estimatedTime, 12);
+    assert.ok(data.estimation.range.low <= 12);
+    assert.ok(data.estimation.range.high >= 12);
+  });
+
+  it("plan_departure 按截止时间倒推最晚出发时间", async () => {
+    await setup();
+    await recordTrip(12);
+
+    const { data } = await h.callTool<DepartureResult>("plan_departure", {
+      origin: "宿舍",
+      destination: "主楼",
+      arriveBy: "2026-10-20T09:00+08:00",
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.plan.estimatedTime, 12);
+    assert.equal(data.plan.bufferMinutes, 5);
+    // 09:00 - 12分钟 - 5分钟
+    assert.equal(data.plan.latestDeparture, "2026-10-20T00:43:00.000Z");
+    assert.equal(data.reminder, undefined);
+  });
+
+  it("plan_departure 未提供起点时使用最近一次出行的终点", async () => {
+    await setup();
+    await recordTrip(12);
+
+    const { data } = await h.callTool<DepartureResult>("plan_departure", {
+      destination: "宿舍",
+      arriveBy: "2026-10-20T09:00+08:00",
+    });
+
+    assert.equal(data.plan.origin.name, "主楼");
+    // 只有反方向的出行记录时用反方向推算
+    assert.equal(data.plan.estimatedTime, 12);
+  });
+
+  it("plan_departure createReminder=true 时创建出发提醒任务", async () => {
+    await setup();
+
+    const { data } = await h.callTool<DepartureResult>("plan_departure", {
+      origin: "宿舍",
+      destination: "主楼",
+      arriveBy: "2026-10-20T09:00+08:00",
+      createReminder: true,
+    });
+
+    assert.equal(data.success, true);
+    assert.equal(data.reminder.name, "出发前往主楼");
+    assert.deepEqual(data.reminder.tags, ["出发提醒"]);
+    assert.equal(data.reminder.dueDate, data.plan.latestDeparture);
+  });
+
+  it("plan_departure 只读模式下可以规划，但不能创建提醒", async () => {
+    await setup({ readOnly: true });
+
+    const plan = await h.callTool<DepartureResult>("plan_departure", {
+      origin: "宿舍",
+      destination: "主楼",
+      arriveBy: "2026-10-20T09:00+08:00",
+    });
+    assert.equal(plan.data.success, true);
+
+    const reminder = await h.callTool<DepartureResult>("plan_departure", {
+      origin: "宿舍",
+      destination: "主楼",
+      arriveBy: "2026-10-20T09:00+08:00",
+      createReminder: true,
+    });
+    assert.equal(reminder.data.success, false);
+    assert.match(reminder.data.message, /无法创建出发提醒任务/);
+    const reminders = await h.storage
+      .collection("tasks")
+      .countDocuments({ name: "出发前往主楼" });
+    assert.equal(reminders, 0);
+  });
+
+  it("plan_itinerary 求总用时最短的访问顺序并等待开放", async () => {
+    await setup({
+      routing: new FakeRoutingProvider({
+        图书馆: { latitude: 39.963, longitude: 116.356 },
+      }),
+    });
+
+    const { data } = await h.callTool<
+      ToolResult & { itinerary: Serialized<Itinerary> }
+    >("plan_itinerary", {
+      origin: "宿舍",
+      stops: [{ location: "图书馆" }, { location: "主楼", dwellMinutes: 10 }],
+      departureTime: "2026-10-20T07:00+08:00",
+    });
+
+    assert.equal(data.success, true);
+    const { itinerary } = data;
+    assert.equal(itinerary.method, "exact");
+    assert.deepEqual(itinerary.unroutable, []);
+    // 图书馆8点开放，先去主楼
+    assert.deepEqual(
+      itinerary.legs.map((leg) => leg.to.name),
+      ["主楼", "图书馆"]
+    );
+    assert.equal(itinerary.legs[0].dwellMinutes, 10);
+    assert.ok(itinerary.legs[1].waitMinutes > 0);
+    assert.equal(
+      itinerary.totalTravelMinutes,
+      Math.round(
+        itinerary.legs.reduce((sum, leg) => sum + leg.travelMinutes, 0) * 10
+      ) / 10
+    );
+  });
+
+  it("plan_itinerary 无法估算的站点不排入行程，每个地点只地理编码一次", async () => {
+    const routing = new FakeRoutingProvider();
+    await setup({ routing });
+    await h.storage.collection("locations").insertOne({
+      name: "食堂",
+      type: "canteen",
+      coordinates: { latitude: 39.961, longitude: 116.358 },
+    });
+
+    const { data } = await h.callTool<
+      ToolResult & { itinerary: Serialized<Itinerary> }
+    >("plan_itinerary", {
+      origin: "宿舍",
+      stops: [
+        { location: "主楼" },
+        { location: "图书馆" },
+        { location: "食堂" },
+      ],
+    });
+
+    assert.equal(data.success, true);
+    assert.deepEqual(
+      data.itinerary.legs.map((leg) => leg.to.name).sort(),
+      ["主楼", "食堂"].sort()
+    );
+    assert.deepEqual(
+      data.itinerary.unroutable.map((stop) => stop.name),
+      ["图书馆"]
+    );
+    assert.match(data.itinerary.warnings[0], /图书馆: 未排入行程/);
+    assert.deepEqual(
+      routing.calls
+        .filter((call) => call.method === "geocode")
+        .map((call) => call.args[0]),
+      ["图书馆"]
+    );
+  });
+
+  it("plan_itinerary 所有站点都无法估算时返回失败", async () => {
+    await setup();
+
+    const { data } = await h.callTool<
+      ToolResult & { itinerary: Serialized<Itinerary> }
+    >("plan_itinerary", {
+      origin: "宿舍",
+      stops: [{ location: "图书馆" }],
+    });
+
+    assert.equal(data.success, false);
+    assert.match(data.message, /没有可以估算出行时间的站点/);
+  });
+
+  it("plan_itinerary 拒绝无效的关联任务ID并指出是哪个站点", async () => {
+    await setup();
+
+    const { isError, error } = await h.callTool("plan_itinerary", {
+      origin: "宿舍",
+      stops: [{ location: "主楼" }, { location: "图书馆", taskId: "abc" }],
+    });
+
+    assert.equal(isError, true);
+    assert.match(error!, /stops\.1\.taskId: 无效的ID/);
+  });
+});
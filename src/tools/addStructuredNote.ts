@@ -1,4 +1,4 @@
-import { ObjectId, Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { NotesModel } from "../model/notes.js";
 import { StructuredNote } from "../model/types.js";
 
@@ -9,7 +9,7 @@ import { StructuredNote } from "../model/types.js";
 export class AddStructuredNoteTool {
   private notesModel: NotesModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.notesModel = new NotesModel(db);
   }
 
@@ -81,7 +81,7 @@ export class AddStructuredNoteTool {
       // 解析实体ID
       let resolvedEntityId = entityId;
       if (!resolvedEntityId && entityName) {
-        resolvedEntityId = await this.resolveEntityIdByName(
+        resolvedEntityId = await this.notesModel.resolveEntityIdByName(
           collectionName,
           entityName
         );
@@ -113,7 +113,7 @@ export class AddStructuredNoteTool {
         let relatedEntityId = relatedEntity.id;
 
         if (!relatedEntityId && relatedEntity.name) {
-          relatedEntityId = await this.resolveEntityIdByName(
+          relatedEntityId = await this.notesModel.resolveEntityIdByName(
             relatedCollectionName,
             relatedEntity.name
           );
@@ -159,7 +159,7 @@ export class AddStructuredNoteTool {
       const entityTypeName = this.getEntityTypeName(entityType);
       const entityNameStr =
         entityName ||
-        (await this.getEntityNameById(collectionName, resolvedEntityId!));
+        (await this.notesModel.getEntityNameById(collectionName, resolvedEntityId!));
 
       let successMessage = `已成功为${entityTypeName}"${entityNameStr}"添加笔记`;
 
@@ -226,59 +226,4 @@ export class AddStructuredNoteTool {
         return entityType;
     }
   }
-
-  /**
-   * 根据名称解析实体ID
-   */
-  private async resolveEntityIdByName(
-    collectionName: string,
-    name: string
-  ): Promise<string | null> {
-    try {
-      const collection = this.notesModel["db"].collection(collectionName);
-
-      // 尝试精确匹配
-      const entity = await collection.findOne({
-        name: new RegExp(`^${name}$`, "i"),
-      });
-
-      if (entity) {
-        return entity._id.toString();
-      }
-
-      // 尝试模糊匹配
-      const fuzzyEntity = await collection.findOne({
-        name: new RegExp(name, "i"),
-      });
-
-      if (fuzzyEntity) {
-        return fuzzyEntity._id.toString();
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`解析实体名称时出错: ${error}`);
-      return null;
-    }
-  }
-
-  /**
-   * 根据ID获取实体名称
-   */
-  private async getEntityNameById(
-    collectionName: string,
-    id: string
-  ): Promise<string> {
-    try {
-      const collection = this.notesModel["db"].collection(collectionName);
-      const entity = await collection.findOne(
-        { _id: new ObjectId(id) },
-        { projection: { name: 1 } }
-      );
-
-      return entity?.name || id;
-    } catch (error) {
-      return id;
-    }
-  }
 }
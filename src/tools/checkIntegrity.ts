@@ -0,0 +1,147 @@
+import type { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import {
+  getTransactionFailure,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
+import {
+  IntegrityModel,
+  type IntegrityIssue,
+  type IntegrityIssueType,
+} from "../model/integrity.js";
+import { checkDomainAccess, type ToolPolicy } from "../registry/policy.js";
+
+// 报告中的问题（不含内部修复操作）
+export interface IntegrityIssueReport {
+  type: IntegrityIssueType;
+  collection: string;
+  entityId: ObjectId;
+  field: string;
+  description: string;
+  repair: string;
+  status: "found" | "repaired" | "skipped";
+}
+
+/**
+ * 数据一致性检查工具
+ * 检查并（可选）修复容器、位置层级等反范式化数据的不一致
+ */
+export class CheckIntegrityTool {
+  private integrityModel: IntegrityModel;
+
+  constructor(db: Storage) {
+    this.integrityModel = new IntegrityModel(db);
+  }
+
+  /**
+   * 执行一致性检查
+   * @param params 检查参数；repair为true时修复发现的问题，
+   *   提供policy时跳过策略不允许写入的集合
+   * @returns 检查结果
+   */
+  async execute(params: {
+    repair?: boolean;
+    now?: Date;
+    policy?: ToolPolicy;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    summary?: Partial<Record<IntegrityIssueType, number>>;
+    issues?: IntegrityIssueReport[];
+    repaired?: number;
+    skipped?: number;
+    rollback?: TransactionFailureDetails;
+  }> {
+    try {
+      const { repair = false, now = new Date(), policy } = params;
+
+      const issues = await this.integrityModel.check(now);
+
+      const summary: Partial<Record<IntegrityIssueType, number>> = {};
+      for (const issue of issues) {
+        summary[issue.type] = (summary[issue.type] ?? 0) + 1;
+      }
+
+      if (issues.length === 0) {
+        return {
+          success: true,
+          message: "未发现数据一致性问题",
+          summary,
+          issues: [],
+          repaired: 0,
+          skipped: 0,
+        };
+      }
+
+      if (!repair) {
+        return {
+          success: true,
+          message: `发现${issues.length}个数据一致性问题，可使用修复模式修复`,
+          summary,
+          issues: issues.map((issue) => toReport(issue, "found")),
+        };
+      }
+
+      // 跳过策略不允许写入的集合
+      const allowed = issues.filter(
+        (issue) =>
+          !policy ||
+          checkDomainAccess(issue.fix.collection, "write", policy) === null
+      );
+
+      try {
+        await this.integrityModel.repair(allowed);
+      } catch (error) {
+        return {
+          success: false,
+          message: `修复数据一致性问题失败: ${error}`,
+          summary,
+          issues: issues.map((issue) => toReport(issue, "found")),
+          rollback: getTransactionFailure(error),
+        };
+      }
+
+      const skipped = issues.length - allowed.length;
+
+      return {
+        success: true,
+        message: `发现${issues.length}个数据一致性问题，已修复${allowed.length}个${
+          skipped > 0 ? `，${skipped}个因权限策略跳过` : ""
+        }`,
+        summary,
+        issues: issues.map((issue) =>
+          toReport(issue, allowed.includes(issue) ? "repaired" : "skipped")
+        ),
+        repaired: allowed.length,
+        skipped,
+      };
+    } catch (error) {
+      console.error("检查数据一致性时出错:", error);
+      return {
+        success: false,
+        message: `检查数据一致性时出错: ${error}`,
+      };
+    }
+  }
+}
+
+/**
+ * 生成问题报告
+ * @param issue 一致性问题
+ * @param status 处理状态
+ */
+function toReport(
+  issue: IntegrityIssue,
+  status: IntegrityIssueReport["status"]
+): IntegrityIssueReport {
+  return {
+    type: issue.type,
+    collection: issue.collection,
+    entityId: issue.entityId,
+    field: issue.field,
+    description: issue.description,
+    repair: issue.repair,
+    status,
+  };
+}
@@ -0,0 +1,103 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel, isLowStock } from "../model/items.js";
+import { Item } from "../model/types.js";
+
+/**
+ * 物品消耗工具
+ * 用于减少消耗品的数量，并在数量降到最低库存时提醒补货
+ */
+export class ConsumeItemTool {
+  private itemsModel: ItemsModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+  }
+
+  /**
+   * 执行物品消耗
+   * @param params 消耗参数；amount为消耗的数量（默认为1）
+   * @returns 消耗结果
+   */
+  async execute(params: {
+    itemId?: string;
+    itemName?: string;
+    amount?: number;
+    note?: string;
+  }): Promise<{
+    success: boolean;
+    item?: Item;
+    lowStock?: boolean;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const { itemId, itemName, amount = 1, note } = params;
+
+      // 验证参数 - 需要提供物品ID或名称
+      if (!itemId && !itemName) {
+        return {
+          success: false,
+          message: "必须提供物品ID或名称",
+        };
+      }
+
+      if (amount <= 0) {
+        return {
+          success: false,
+          message: "消耗数量必须大于0",
+        };
+      }
+
+      // 解析物品ID
+      let resolvedItemId = itemId;
+      if (!resolvedItemId && itemName) {
+        const items = await this.itemsModel.findItems(itemName);
+        if (items.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${itemName}"的物品`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedItemId = items[0]._id.toString();
+      }
+
+      const result = await this.itemsModel.adjustQuantity(
+        resolvedItemId!,
+        -amount,
+        "consume",
+        note
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      // 构建成功消息
+      const item = result.item!;
+      const unit = item.unit || "";
+      const lowStock = isLowStock(item);
+      let successMessage = `已消耗物品"${item.name}"${amount}${unit}，剩余${item.quantity}${unit}`;
+
+      if (lowStock) {
+        successMessage += `，已不高于最低库存${item.minQuantity}${unit}，需要补货`;
+      }
+
+      return {
+        success: true,
+        item,
+        lowStock,
+        message: successMessage,
+      };
+    } catch (error) {
+      console.error("消耗物品时出错:", error);
+      return {
+        success: false,
+        message: `消耗物品时出错: ${error}`,
+      };
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { BioDataModel } from "../model/bioData.js";
 import { BioData } from "../model/types.js";
 
@@ -9,7 +9,7 @@ import { BioData } from "../model/types.js";
 export class CreateBioDataTool {
   private bioDataModel: BioDataModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.bioDataModel = new BioDataModel(db);
   }
 
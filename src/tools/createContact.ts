@@ -1,4 +1,4 @@
-import { ObjectId, Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ContactsModel } from "../model/contacts.js";
 import { Contact } from "../model/types.js";
 
@@ -9,7 +9,7 @@ import { Contact } from "../model/types.js";
 export class CreateContactTool {
   private contactsModel: ContactsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.contactsModel = new ContactsModel(db);
   }
 
@@ -90,7 +90,7 @@ export class CreateContactTool {
       }
 
       // 创建联系人
-      const result = await this.createContact(contactData);
+      const result = await this.contactsModel.createContact(contactData);
 
       if (!result.success) {
         return {
@@ -139,54 +139,4 @@ export class CreateContactTool {
     }
   }
 
-  /**
-   * 创建联系人
-   * @param contactData 联系人数据
-   * @returns 创建结果
-   */
-  private async createContact(contactData: Partial<Contact>): Promise<{
-    success: boolean;
-    contact?: Contact;
-    error?: string;
-  }> {
-    try {
-      // 添加通用字段
-      const newContact: Partial<Contact> = {
-        ...contactData,
-        notes: [],
-        syncedToNotion: false,
-        modifiedSinceSync: true,
-        lastSync: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // 插入联系人
-      const result = await this.contactsModel["contactsCollection"].insertOne(
-        newContact as any
-      );
-
-      if (!result.acknowledged) {
-        return {
-          success: false,
-          error: "插入联系人失败",
-        };
-      }
-
-      // 查询插入的联系人
-      const contact = await this.contactsModel.getContactById(
-        result.insertedId
-      );
-
-      return {
-        success: true,
-        contact: contact || undefined,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `创建联系人失败: ${error}`,
-      };
-    }
-  }
 }
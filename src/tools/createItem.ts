@@ -1,6 +1,16 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
-import { Item } from "../model/types.js";
+import { LocationsModel } from "../model/locations.js";
+import { Item, RecurrenceInterval } from "../model/types.js";
+import {
+  addInterval,
+  describeInterval,
+  formatItemDate,
+  parseItemDates,
+  startOfToday,
+  validateItemDates,
+} from "../utils/itemDeadlines.js";
 
 /**
  * 物品创建工具
@@ -8,9 +18,11 @@ import { Item } from "../model/types.js";
  */
 export class CreateItemTool {
   private itemsModel: ItemsModel;
+  private locationsModel: LocationsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.itemsModel = new ItemsModel(db);
+    this.locationsModel = new LocationsModel(db);
   }
 
   /**
@@ -23,6 +35,13 @@ export class CreateItemTool {
     category?: string;
     status?: string;
     quantity?: number;
+    unit?: string;
+    minQuantity?: number;
+    acquisitionDate?: string;
+    expiryDate?: string;
+    warrantyEndDate?: string;
+    nextMaintenanceDate?: string;
+    maintenanceInterval?: RecurrenceInterval;
     isContainer?: boolean;
     locationId?: string;
     locationName?: string;
@@ -41,6 +60,13 @@ export class CreateItemTool {
         category,
         status,
         quantity,
+        unit,
+        minQuantity,
+        acquisitionDate,
+        expiryDate,
+        warrantyEndDate,
+        nextMaintenanceDate,
+        maintenanceInterval,
         isContainer = false,
         locationId,
         locationName,
@@ -57,6 +83,30 @@ export class CreateItemTool {
         };
       }
 
+      // 解析并验证日期
+      const { dates, error: dateError } = parseItemDates({
+        acquisitionDate,
+        expiryDate,
+        warrantyEndDate,
+        nextMaintenanceDate,
+      });
+      const dateValidationError =
+        dateError || validateItemDates({ ...dates, maintenanceInterval });
+      if (dateValidationError) {
+        return {
+          success: false,
+          message: dateValidationError,
+        };
+      }
+
+      // 设置了维护周期但没有下次维护日期时，从今天起按周期推算
+      if (maintenanceInterval && !dates.nextMaintenanceDate) {
+        dates.nextMaintenanceDate = addInterval(
+          startOfToday(),
+          maintenanceInterval
+        );
+      }
+
       // 解析位置ID
       let resolvedLocationId = locationId;
       if (!resolvedLocationId && locationName) {
@@ -81,6 +131,10 @@ export class CreateItemTool {
         category,
         status,
         quantity,
+        unit,
+        minQuantity,
+        ...dates,
+        maintenanceInterval,
         isContainer,
         locationId: resolvedLocationId,
         containerId: resolvedContainerId,
@@ -106,10 +160,7 @@ export class CreateItemTool {
           },
         };
 
-        await this.itemsModel["itemsCollection"].updateOne(
-          { _id: result.item._id },
-          { $push: { notes: noteObj } }
-        );
+        await this.itemsModel.addItemNote(result.item._id, noteObj);
 
         // 重新查询物品以获取更新的数据
         const updatedItem = await this.itemsModel.getItemById(result.item._id);
@@ -131,6 +182,24 @@ export class CreateItemTool {
         successMessage += `，容器: "${containerName}"`;
       }
 
+      if (dates.expiryDate) {
+        successMessage += `，过期日期: ${formatItemDate(dates.expiryDate)}`;
+      }
+
+      if (dates.warrantyEndDate) {
+        successMessage += `，保修至: ${formatItemDate(dates.warrantyEndDate)}`;
+      }
+
+      if (dates.nextMaintenanceDate) {
+        successMessage += `，下次维护: ${formatItemDate(
+          dates.nextMaintenanceDate
+        )}${
+          maintenanceInterval
+            ? `（${describeInterval(maintenanceInterval)}）`
+            : ""
+        }`;
+      }
+
       return {
         success: true,
         item: result.item,
@@ -150,11 +219,7 @@ export class CreateItemTool {
    */
   private async resolveLocationByName(locationName: string) {
     try {
-      const db = this.itemsModel["db"];
-      const locationsCollection = db.collection("locations");
-      return await locationsCollection.findOne({
-        name: new RegExp(`^${locationName}$`, "i"),
-      });
+      return await this.locationsModel.findLocationByExactName(locationName);
     } catch (error) {
       console.error("解析位置名称时出错:", error);
       return null;
@@ -179,11 +244,8 @@ export class CreateItemTool {
    * 获取位置名称
    */
   private async getLocationName(locationId: string) {
-    const db = this.itemsModel["db"];
-    const locationsCollection = db.collection("locations");
-    const location = await locationsCollection.findOne(
-      { _id: new ObjectId(locationId) },
-      { projection: { name: 1 } }
+    const location = await this.locationsModel.getLocationById(
+      new ObjectId(locationId)
     );
     return location?.name || "未知位置";
   }
@@ -1,6 +1,12 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { LocationsModel } from "../model/locations.js";
 import { Location } from "../model/types.js";
+import type { Coordinates } from "../routing/types.js";
+import {
+  normalizeCoordinates,
+  STORAGE_COORDINATE_SYSTEM,
+} from "../routing/datum.js";
 
 /**
  * 位置创建工具
@@ -9,7 +15,7 @@ import { Location } from "../model/types.js";
 export class CreateLocationTool {
   private locationsModel: LocationsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.locationsModel = new LocationsModel(db);
   }
 
@@ -26,7 +32,7 @@ export class CreateLocationTool {
     phone?: string;
     parentLocationId?: string;
     parentLocationName?: string;
-    coordinates?: { latitude: number; longitude: number };
+    coordinates?: Coordinates;
     notes?: string;
   }): Promise<{
     success: boolean;
@@ -74,7 +80,10 @@ export class CreateLocationTool {
         openingHours,
         phone,
         notes,
-        coordinates,
+        // 坐标统一转换为存储坐标系
+        coordinates: coordinates
+          ? normalizeCoordinates(coordinates)
+          : undefined,
       };
 
       if (resolvedParentLocationId) {
@@ -82,7 +91,7 @@ export class CreateLocationTool {
       }
 
       // 创建位置
-      const result = await this.createLocation(locationData);
+      const result = await this.locationsModel.createLocation(locationData);
 
       if (!result.success) {
         return {
@@ -115,6 +124,17 @@ export class CreateLocationTool {
         successMessage += `，地址: "${address}"`;
       }
 
+      if (
+        coordinates?.system &&
+        coordinates.system !== STORAGE_COORDINATE_SYSTEM
+      ) {
+        successMessage += `，坐标已从${coordinates.system}转换为${STORAGE_COORDINATE_SYSTEM}`;
+      }
+
+      if (openingHours && !result.location?.openingSchedule) {
+        successMessage += `。注意：无法解析开放时间"${openingHours}"，开放状态查询将无法使用`;
+      }
+
       return {
         success: true,
         location: result.location,
@@ -129,57 +149,6 @@ export class CreateLocationTool {
     }
   }
 
-  /**
-   * 创建位置
-   * @param locationData 位置数据
-   * @returns 创建结果
-   */
-  private async createLocation(locationData: Partial<Location>): Promise<{
-    success: boolean;
-    location?: Location;
-    error?: string;
-  }> {
-    try {
-      // 添加通用字段
-      const newLocation: Partial<Location> = {
-        ...locationData,
-        childLocations: [],
-        syncedToNotion: false,
-        modifiedSinceSync: true,
-        lastSync: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // 插入位置
-      const result = await this.locationsModel["locationsCollection"].insertOne(
-        newLocation as any
-      );
-
-      if (!result.acknowledged) {
-        return {
-          success: false,
-          error: "插入位置失败",
-        };
-      }
-
-      // 查询插入的位置
-      const location = await this.locationsModel.getLocationById(
-        result.insertedId
-      );
-
-      return {
-        success: true,
-        location: location || undefined,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `创建位置失败: ${error}`,
-      };
-    }
-  }
-
   /**
    * 更新父位置的childLocations数组
    * @param parentId 父位置ID
@@ -190,16 +159,7 @@ export class CreateLocationTool {
     childId: ObjectId
   ): Promise<void> {
     try {
-      await this.locationsModel["locationsCollection"].updateOne(
-        { _id: new ObjectId(parentId) },
-        {
-          $addToSet: { childLocations: childId },
-          $set: {
-            updatedAt: new Date(),
-            modifiedSinceSync: true,
-          },
-        }
-      );
+      await this.locationsModel.addChildLocation(parentId, childId);
     } catch (error) {
       console.error("更新父位置时出错:", error);
     }
@@ -1,4 +1,5 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { BioDataModel } from "../model/bioData.js";
 
 /**
@@ -8,7 +9,7 @@ import { BioDataModel } from "../model/bioData.js";
 export class DeleteBioDataTool {
   private bioDataModel: BioDataModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.bioDataModel = new BioDataModel(db);
   }
 
@@ -41,12 +42,10 @@ export class DeleteBioDataTool {
       let resolvedRecordId = recordId;
       if (!resolvedRecordId && measurementType && recordName) {
         // 通过测量类型和记录名称查找记录
-        const records = await this.bioDataModel["bioDataCollection"]
-          .find({
-            measurementType: new RegExp(measurementType, "i"),
-            recordName: new RegExp(recordName, "i"),
-          })
-          .toArray();
+        const records = await this.bioDataModel.findRecordsByName(
+          measurementType,
+          recordName
+        );
 
         if (records.length === 0) {
           return {
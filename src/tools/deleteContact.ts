@@ -1,4 +1,5 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ContactsModel } from "../model/contacts.js";
 
 /**
@@ -8,7 +9,7 @@ import { ContactsModel } from "../model/contacts.js";
 export class DeleteContactTool {
   private contactsModel: ContactsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.contactsModel = new ContactsModel(db);
   }
 
@@ -59,7 +60,7 @@ export class DeleteContactTool {
       }
 
       // 执行删除
-      const result = await this.deleteContact(resolvedContactId!);
+      const result = await this.contactsModel.deleteContact(resolvedContactId!);
 
       if (!result.success) {
         return {
@@ -84,36 +85,4 @@ export class DeleteContactTool {
     }
   }
 
-  /**
-   * 删除联系人
-   * @param contactId 联系人ID
-   * @returns 删除结果
-   */
-  private async deleteContact(contactId: string): Promise<{
-    success: boolean;
-    error?: string;
-  }> {
-    try {
-      const id = new ObjectId(contactId);
-
-      // 执行删除
-      const result = await this.contactsModel["contactsCollection"].deleteOne({
-        _id: id,
-      });
-
-      if (result.deletedCount === 0) {
-        return {
-          success: false,
-          error: "删除联系人失败",
-        };
-      }
-
-      return { success: true };
-    } catch (error) {
-      return {
-        success: false,
-        error: `删除联系人失败: ${error}`,
-      };
-    }
-  }
 }
@@ -1,4 +1,5 @@
-import { Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import type { TransactionFailureDetails } from "../storage/transaction.js";
 import { ItemsModel } from "../model/items.js";
 
 /**
@@ -8,7 +9,7 @@ import { ItemsModel } from "../model/items.js";
 export class DeleteItemTool {
   private itemsModel: ItemsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.itemsModel = new ItemsModel(db);
   }
 
@@ -25,6 +26,7 @@ export class DeleteItemTool {
     success: boolean;
     message?: string;
     error?: string;
+    rollback?: TransactionFailureDetails;
   }> {
     try {
       const { itemId, itemName, isSoftDelete = true } = params;
@@ -74,6 +76,7 @@ export class DeleteItemTool {
         return {
           success: false,
           error: result.error,
+          rollback: result.rollback,
         };
       }
 
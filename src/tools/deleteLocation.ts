@@ -1,15 +1,25 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import {
+  getTransactionFailure,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
 import { LocationsModel } from "../model/locations.js";
+import { ItemsModel } from "../model/items.js";
 
 /**
  * 位置删除工具
  * 用于删除系统中的位置
  */
 export class DeleteLocationTool {
+  private db: Storage;
   private locationsModel: LocationsModel;
+  private itemsModel: ItemsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
+    this.db = db;
     this.locationsModel = new LocationsModel(db);
+    this.itemsModel = new ItemsModel(db);
   }
 
   /**
@@ -25,6 +35,7 @@ export class DeleteLocationTool {
     success: boolean;
     message?: string;
     error?: string;
+    rollback?: TransactionFailureDetails;
   }> {
     try {
       const { locationId, locationName, force = false } = params;
@@ -85,59 +96,54 @@ export class DeleteLocationTool {
         };
       }
 
-      // 如果有父位置，从父位置的childLocations中移除
-      if (location.parentLocationId) {
-        await this.removeFromParentLocation(
-          location.parentLocationId.toString(),
-          location._id
-        );
-      }
+      // 父位置、子位置、物品引用和删除本身在同一事务中执行
+      try {
+        await this.db.withTransaction(async (tx) => {
+          const locationsModel = new LocationsModel(tx);
+          const itemsModel = new ItemsModel(tx);
+
+          // 如果有父位置，从父位置的childLocations中移除
+          if (location.parentLocationId) {
+            await locationsModel.removeChildLocation(
+              location.parentLocationId,
+              location._id
+            );
+          }
+
+          // 执行删除
+          const deleted = await locationsModel.deleteLocation(
+            resolvedLocationId!
+          );
 
-      // 执行删除
-      const result = await this.locationsModel["locationsCollection"].deleteOne(
-        {
-          _id: new ObjectId(resolvedLocationId),
-        }
-      );
+          if (!deleted) {
+            throw new Error("位置已不存在");
+          }
+
+          // 如果强制删除，需要处理子位置和引用
+          if (force) {
+            // 更新子位置，移除父位置引用
+            if (
+              location.childLocations &&
+              location.childLocations.length > 0
+            ) {
+              await locationsModel.clearParentReferences(resolvedLocationId!);
+            }
 
-      if (result.deletedCount === 0) {
+            // 更新引用的物品，移除位置引用
+            if (itemsCount > 0) {
+              await itemsModel.clearLocationReference(resolvedLocationId!);
+            }
+          }
+        });
+      } catch (error) {
+        console.error("删除位置时出错:", error);
         return {
           success: false,
-          message: "删除位置失败",
+          message: `删除位置失败: ${error}`,
+          rollback: getTransactionFailure(error),
         };
       }
 
-      // 如果强制删除，需要处理子位置和引用
-      if (force) {
-        // 更新子位置，移除父位置引用
-        if (location.childLocations && location.childLocations.length > 0) {
-          await this.locationsModel["locationsCollection"].updateMany(
-            { parentLocationId: new ObjectId(resolvedLocationId) },
-            {
-              $set: {
-                parentLocationId: null,
-                updatedAt: new Date(),
-                modifiedSinceSync: true,
-              },
-            }
-          );
-        }
-
-        // 更新引用的物品，移除位置引用
-        if (itemsCount > 0) {
-          await this.locationsModel["db"].collection("items").updateMany(
-            { locationId: new ObjectId(resolvedLocationId) },
-            {
-              $set: {
-                locationId: null,
-                updatedAt: new Date(),
-                modifiedSinceSync: true,
-              },
-            }
-          );
-        }
-      }
-
       // 构建成功消息
       let successMessage = `成功删除位置"${location.name}"`;
 
@@ -169,31 +175,6 @@ export class DeleteLocationTool {
     }
   }
 
-  /**
-   * 从父位置的childLocations中移除
-   * @param parentId 父位置ID
-   * @param childId 子位置ID
-   */
-  private async removeFromParentLocation(
-    parentId: string,
-    childId: ObjectId
-  ): Promise<void> {
-    try {
-      await this.locationsModel["locationsCollection"].updateOne(
-        { _id: new ObjectId(parentId) },
-        {
-          $pull: { childLocations: childId },
-          $set: {
-            updatedAt: new Date(),
-            modifiedSinceSync: true,
-          },
-        }
-      );
-    } catch (error) {
-      console.error("从父位置移除时出错:", error);
-    }
-  }
-
   /**
    * 统计引用位置的物品数量
    * @param locationId 位置ID
@@ -203,11 +184,7 @@ export class DeleteLocationTool {
     locationId: string
   ): Promise<number> {
     try {
-      return await this.locationsModel["db"]
-        .collection("items")
-        .countDocuments({
-          locationId: new ObjectId(locationId),
-        });
+      return await this.itemsModel.countItemsAtLocation(locationId);
     } catch (error) {
       console.error("统计引用位置的物品数量时出错:", error);
       return 0;
@@ -1,4 +1,5 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { TasksModel } from "../model/tasks.js";
 
 /**
@@ -8,7 +9,7 @@ import { TasksModel } from "../model/tasks.js";
 export class DeleteTaskTool {
   private tasksModel: TasksModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.tasksModel = new TasksModel(db);
   }
 
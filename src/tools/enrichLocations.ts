@@ -0,0 +1,297 @@
+import type { Storage } from "../storage/types.js";
+import {
+  LocationsModel,
+  ENRICHABLE_LOCATION_FIELDS,
+  type EnrichmentCandidate,
+} from "../model/locations.js";
+import { RouteCacheModel } from "../model/routeCache.js";
+import type { EnrichableLocationField, Location } from "../model/types.js";
+import type { Coordinates, RoutingProvider } from "../routing/types.js";
+import { hasCoordinates } from "../routing/geo.js";
+import { normalizeCoordinates } from "../routing/datum.js";
+
+// 默认每次最多处理的位置数量
+const DEFAULT_LIMIT = 20;
+// 默认每秒最多请求路线服务的次数（高德地图个人开发者的并发限制为每秒3次）
+const DEFAULT_REQUESTS_PER_SECOND = 3;
+// 只基于本地位置数据的路线服务，其结果不能提供新的信息
+const LOCAL_PROVIDERS = ["offline"];
+
+// 一个字段的补全结果
+export interface EnrichmentChange {
+  location: { id: string; name: string };
+  field: EnrichableLocationField;
+  before?: string | Coordinates;
+  after: string | Coordinates;
+  provider: string;
+  // 是否已写入（预览时为false）
+  applied: boolean;
+}
+
+// 未能补全的字段
+export interface EnrichmentSkip {
+  location: { id: string; name: string };
+  field: EnrichableLocationField;
+  reason: string;
+}
+
+/**
+ * 位置信息补全工具
+ * 通过路线服务为有坐标没有地址的位置逆地理编码地址、为有地址没有坐标的位置地理编码坐标。
+ * 只填写缺少的字段，补全的字段记录来源；手动修改过的字段不会被覆盖
+ */
+export class EnrichLocationsTool {
+  private locationsModel: LocationsModel;
+  private cacheModel: RouteCacheModel;
+  private routing: RoutingProvider;
+  // 上一次请求路线服务的时间
+  private lastRequestAt = 0;
+
+  constructor(db: Storage, routing: RoutingProvider) {
+    this.locationsModel = new LocationsModel(db);
+    this.cacheModel = new RouteCacheModel(db);
+    this.routing = routing;
+  }
+
+  /**
+   * 执行位置信息补全
+   * @param params 补全参数；dryRun为true时只预览，不写入；
+   *   refresh为true时重新补全之前自动补全的字段
+   * @returns 补全结果
+   */
+  async execute(params: {
+    locations?: string[];
+    fields?: EnrichableLocationField[];
+    dryRun?: boolean;
+    refresh?: boolean;
+    limit?: number;
+    requestsPerSecond?: number;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    changes?: EnrichmentChange[];
+    skipped?: EnrichmentSkip[];
+    remaining?: number;
+  }> {
+    try {
+      const {
+        locations: references,
+        fields = ENRICHABLE_LOCATION_FIELDS,
+        dryRun = false,
+        refresh = false,
+        limit = DEFAULT_LIMIT,
+        requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+      } = params;
+
+      let locationIds: Location["_id"][] | undefined;
+      if (references && references.length > 0) {
+        locationIds = [];
+        for (const reference of references) {
+          const location =
+            await this.locationsModel.findLocationByReference(reference);
+          if (!location) {
+            return { success: false, message: `未找到位置"${reference}"` };
+          }
+          locationIds.push(location._id);
+        }
+      }
+
+      const candidates = await this.locationsModel.findEnrichmentCandidates(
+        fields,
+        refresh,
+        locationIds
+      );
+      if (candidates.length === 0) {
+        return {
+          success: true,
+          message: "没有需要补全地址或坐标的位置",
+          changes: [],
+          skipped: [],
+          remaining: 0,
+        };
+      }
+
+      const batch = candidates.slice(0, limit);
+      const interval = 1000 / requestsPerSecond;
+      const changes: EnrichmentChange[] = [];
+      const skipped: EnrichmentSkip[] = [];
+
+      for (const candidate of batch) {
+        const result = await this.enrichLocation(candidate, interval, dryRun);
+        changes.push(...result.changes);
+        skipped.push(...result.skipped);
+      }
+
+      const remaining = candidates.length - batch.length;
+      const applied = changes.filter((change) => change.applied).length;
+      let message = dryRun
+        ? `预览：检查了${batch.length}个位置，可补全${changes.length}个字段`
+        : `检查了${batch.length}个位置，补全了${applied}个字段`;
+      if (skipped.length > 0) {
+        message += `，${skipped.length}个字段未能补全`;
+      }
+      if (remaining > 0) {
+        message += `，还有${remaining}个位置待处理`;
+      }
+      const lines = changes.map((change) => {
+        const value = describeValue(change.after);
+        const before = change.before
+          ? `（原为${describeValue(change.before)}）`
+          : "";
+        return `- "${change.location.name}"的${
+          FIELD_LABELS[change.field]
+        }: ${value}${before}`;
+      });
+      if (lines.length > 0) {
+        message += `\n${lines.join("\n")}`;
+      }
+
+      return { success: true, message, changes, skipped, remaining };
+    } catch (error) {
+      console.error("补全位置信息时出错:", error);
+      return {
+        success: false,
+        message: `补全位置信息时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+
+  /**
+   * 补全单个位置：先查询所有字段，再一次写入
+   * @param candidate 位置及要补全的字段
+   * @param interval 两次请求路线服务的最小间隔（毫秒）
+   * @param dryRun 是否只预览
+   */
+  private async enrichLocation(
+    { location, fields }: EnrichmentCandidate,
+    interval: number,
+    dryRun: boolean
+  ): Promise<{ changes: EnrichmentChange[]; skipped: EnrichmentSkip[] }> {
+    const ref = { id: location._id.toString(), name: location.name };
+    const changes: EnrichmentChange[] = [];
+    const skipped: EnrichmentSkip[] = [];
+    const values: { address?: string; coordinates?: Coordinates } = {};
+    let provider = this.routing.name;
+
+    for (const field of fields) {
+      try {
+        await this.throttle(interval);
+        if (field === "address") {
+          const result = await this.routing.reverseGeocode(
+            location.coordinates as Coordinates
+          );
+          if (!result || LOCAL_PROVIDERS.includes(result.provider)) {
+            skipped.push({ location: ref, field, reason: "逆地理编码无结果" });
+            continue;
+          }
+          if (result.address === location.address) {
+            continue;
+          }
+          values.address = result.address;
+          provider = result.provider;
+        } else {
+          const result = await this.routing.geocode(location.address);
+          if (!result || LOCAL_PROVIDERS.includes(result.provider)) {
+            skipped.push({ location: ref, field, reason: "地理编码无结果" });
+            continue;
+          }
+          const coordinates = normalizeCoordinates(result.coordinates);
+          if (
+            hasCoordinates(location.coordinates) &&
+            coordinates.latitude === location.coordinates.latitude &&
+            coordinates.longitude === location.coordinates.longitude
+          ) {
+            continue;
+          }
+          values.coordinates = coordinates;
+          provider = result.provider;
+        }
+      } catch (error) {
+        skipped.push({
+          location: ref,
+          field,
+          reason: `路线服务请求失败: ${error}`,
+        });
+      }
+    }
+
+    const filled = Object.keys(values) as EnrichableLocationField[];
+    if (filled.length === 0) {
+      return { changes, skipped };
+    }
+
+    let applied = false;
+    if (!dryRun) {
+      applied = await this.locationsModel.applyEnrichment(
+        location._id,
+        values,
+        provider
+      );
+      if (!applied) {
+        for (const field of filled) {
+          skipped.push({
+            location: ref,
+            field,
+            reason: "期间已被手动修改，未覆盖",
+          });
+        }
+        return { changes, skipped };
+      }
+      // 重新补全的坐标发生变化时，使原坐标的路线缓存失效
+      if (values.coordinates && hasCoordinates(location.coordinates)) {
+        await this.cacheModel.invalidateLocation(
+          location.name,
+          location.coordinates as Coordinates
+        );
+      }
+    }
+
+    for (const field of filled) {
+      const before =
+        field === "address"
+          ? location.address || undefined
+          : hasCoordinates(location.coordinates)
+          ? (location.coordinates as Coordinates)
+          : undefined;
+      changes.push({
+        location: ref,
+        field,
+        before,
+        after: values[field],
+        provider,
+        applied,
+      });
+    }
+
+    return { changes, skipped };
+  }
+
+  /**
+   * 限制请求路线服务的频率：距上一次请求不足间隔时等待
+   * @param interval 最小间隔（毫秒）
+   */
+  private async throttle(interval: number): Promise<void> {
+    const wait = this.lastRequestAt + interval - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    this.lastRequestAt = Date.now();
+  }
+}
+
+// 字段的可读名称
+const FIELD_LABELS: Record<EnrichableLocationField, string> = {
+  address: "地址",
+  coordinates: "坐标",
+};
+
+/**
+ * 描述字段值
+ */
+function describeValue(value: string | Coordinates): string {
+  return typeof value === "string"
+    ? `"${value}"`
+    : `(${value.latitude}, ${value.longitude})`;
+}
@@ -1,33 +1,82 @@
 // src/tools/estimateTime.ts
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { LocationsModel } from "../model/locations.js";
 import { ContactsModel } from "../model/contacts.js";
 import { BioDataModel } from "../model/bioData.js";
-import { TravelTimeEstimationResponse, Location } from "../model/types.js";
-import axios from "axios";
+import { TIME_OF_DAY_LABELS, TripsModel } from "../model/trips.js";
+import { LocationSuggestionsModel } from "../model/locationSuggestions.js";
+import {
+  GeocodedPlace,
+  TravelTimeEstimationResponse,
+} from "../model/types.js";
+import {
+  createRoutingProvider,
+  describeRoutingProvider,
+  DEFAULT_SPEEDS,
+  haversineDistance,
+  normalizeCoordinates,
+  resolveRoutingConfig,
+  type Coordinates,
+  type GeocodeResult,
+  type RouteResult,
+  type RoutingProvider,
+  type TravelMode,
+} from "../routing/index.js";
+import { round } from "../utils/math.js";
+
+// 解析后的起点或终点
+export interface ResolvedEndpoint {
+  // 位置文档（地理编码得到的地点为带临时ID的虚拟位置）
+  location: any;
+  coordinates?: Coordinates;
+  // 是否已按名称地理编码过，避免重复请求
+  geocodeAttempted?: boolean;
+}
+
+// 给出出行记录用时范围所需的最少记录数，记录更少时百分位范围没有意义
+const MIN_RANGE_SAMPLES = 3;
 
 /**
  * 出行时间估算工具
- * 结合个人生物数据和高德地图API进行更精确的时间估算
+ * 优先使用该路线的出行记录，没有记录时结合个人生物数据和路线服务
+ * （高德地图或本地路网）进行估算
  */
 export class EstimateTimeTool {
   private locationsModel: LocationsModel;
   private contactsModel: ContactsModel;
   private bioDataModel: BioDataModel;
-  private amapKey: string;
-  private db: Db;
+  private tripsModel: TripsModel;
+  // 记录位置建议，没有写入权限时为null
+  private suggestionsModel: LocationSuggestionsModel | null;
+  private routing: RoutingProvider;
+  private db: Storage;
+  // 本次估算中命中缓存的地理编码地址
+  private cachedGeocodes: string[] = [];
+  // 本次估算中由地理编码得到的地点
+  private geocodedPlaces: GeocodedPlace[] = [];
 
-  constructor(db: Db) {
+  /**
+   * @param db 存储后端
+   * @param routing 路线服务（默认按环境变量配置创建）
+   * @param suggestionsDb 记录位置建议使用的存储后端，为null时只在结果中给出
+   *   地理编码得到的地点，不写入（只读模式或没有locations领域的写权限时）
+   */
+  constructor(
+    db: Storage,
+    routing?: RoutingProvider,
+    suggestionsDb: Storage | null = null
+  ) {
     this.locationsModel = new LocationsModel(db);
     this.contactsModel = new ContactsModel(db);
     this.bioDataModel = new BioDataModel(db);
+    this.tripsModel = new TripsModel(db);
+    this.suggestionsModel = suggestionsDb
+      ? new LocationSuggestionsModel(suggestionsDb)
+      : null;
     this.db = db;
-
-    // 从环境变量获取高德地图API密钥
-    this.amapKey = process.env.AMAP_API_KEY || "";
-    if (!this.amapKey) {
-      console.warn("警告: 未配置高德地图API密钥，将使用本地估算");
-    }
+    this.routing =
+      routing ?? createRoutingProvider(resolveRoutingConfig(), db);
   }
 
   /**
@@ -39,18 +88,23 @@ export class EstimateTimeTool {
     origin: string;
     destination: string;
     contactName?: string;
-    transportation?: string;
+    transportation?: TravelMode;
+    departureTime?: Date;
   }): Promise<{
     success: boolean;
     estimation?: TravelTimeEstimationResponse;
     message?: string;
   }> {
+    this.cachedGeocodes = [];
+    this.geocodedPlaces = [];
+
     try {
       const {
         origin,
         destination,
         contactName,
         transportation = "walking",
+        departureTime = new Date(),
       } = params;
 
       // 验证参数
@@ -61,66 +115,110 @@ export class EstimateTimeTool {
         };
       }
 
-      // 1. 解析起点和终点（可能是位置名称、位置ID、或关键词）
-      const originInfo = await this.resolveLocation(origin, true);
-      let destinationInfo = await this.resolveLocation(destination, true);
-
-      // 2. 如果提供了联系人名称，检查目的地是否需要关联到联系人
-      if (contactName && !destinationInfo.success) {
-        const contactInfo = await this.resolveContactLocation(
-          contactName,
-          destination
-        );
-        if (contactInfo.success) {
-          destinationInfo = contactInfo;
-        }
+      // 1. 解析起点和终点（可能是位置名称、位置ID、或关键词），
+      // 无法解析时通过路线服务的地理编码获取坐标
+      const originInfo = await this.resolveEndpoint(origin);
+      if (!originInfo) {
+        return {
+          success: false,
+          message: `无法解析起点"${origin}"的位置信息`,
+        };
       }
 
-      // 3. 如果无法解析起点或终点，尝试使用高德地图地理编码API获取坐标
-      if (!originInfo.success) {
-        const geocodedOrigin = await this.geocodeLocation(origin);
-        if (geocodedOrigin.success) {
-          // 创建新位置并保存到数据库（异步，不等待完成）
-          this.saveLocationToDatabase(origin, geocodedOrigin.coordinates);
-          originInfo.success = true;
-          originInfo.location = {
-            name: origin,
-            _id: new ObjectId(), // 临时ID
-            coordinates: geocodedOrigin.coordinates,
-          };
-          originInfo.coordinates = geocodedOrigin.coordinates;
-        } else {
-          return {
-            success: false,
-            message: `无法解析起点"${origin}"的位置信息`,
-          };
-        }
+      // 2. 如果提供了联系人名称，目的地可以关联到联系人的地址
+      const destinationInfo = await this.resolveEndpoint(
+        destination,
+        contactName
+      );
+      if (!destinationInfo) {
+        return {
+          success: false,
+          message: `无法解析终点"${destination}"的位置信息`,
+        };
       }
 
-      if (!destinationInfo.success) {
-        const geocodedDestination = await this.geocodeLocation(destination);
-        if (geocodedDestination.success) {
-          // 创建新位置并保存到数据库（异步，不等待完成）
-          this.saveLocationToDatabase(
-            destination,
-            geocodedDestination.coordinates
-          );
-          destinationInfo.success = true;
-          destinationInfo.location = {
-            name: destination,
-            _id: new ObjectId(), // 临时ID
-            coordinates: geocodedDestination.coordinates,
-          };
-          destinationInfo.coordinates = geocodedDestination.coordinates;
-        } else {
-          return {
-            success: false,
-            message: `无法解析终点"${destination}"的位置信息`,
-          };
-        }
+      return await this.estimateBetween(
+        originInfo,
+        destinationInfo,
+        transportation,
+        departureTime
+      );
+    } catch (error) {
+      console.error("估算时间时出错:", error);
+      return {
+        success: false,
+        message: `估算时间时出错: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 解析起点或终点
+   * 依次尝试位置ID、名称、联系人地址，都找不到时通过路线服务地理编码，
+   * 地理编码得到的地点记为待确认的位置建议，不直接创建位置
+   * @param reference 位置名称、ID或关键词
+   * @param contactName 联系人名称（可选），用于解析"学校"、"家"等
+   * @returns 解析结果，无法解析时返回null
+   */
+  async resolveEndpoint(
+    reference: string,
+    contactName?: string
+  ): Promise<ResolvedEndpoint | null> {
+    let info = await this.resolveLocation(reference, true);
+
+    if (!info.success && contactName) {
+      const contactInfo = await this.resolveContactLocation(
+        contactName,
+        reference
+      );
+      if (contactInfo.success) {
+        info = contactInfo;
       }
+    }
+
+    if (info.success) {
+      return { location: info.location, coordinates: info.coordinates };
+    }
+
+    const geocoded = await this.geocodeLocation(reference);
+    if (!geocoded) {
+      return null;
+    }
+
+    await this.suggestLocation(reference, geocoded);
+    return {
+      location: {
+        name: reference,
+        _id: new ObjectId(), // 临时ID
+        coordinates: geocoded.coordinates,
+      },
+      coordinates: geocoded.coordinates,
+      geocodeAttempted: true,
+    };
+  }
 
-      // 4. 检查是否有室内路径计算需求（如主楼内的位置）
+  /**
+   * 估算两个已解析地点之间的出行时间
+   * 多次估算共用同一组解析结果时（如行程规划的用时矩阵），
+   * 缺少坐标的地点只按名称地理编码一次
+   * @param originInfo 起点
+   * @param destinationInfo 终点
+   * @param transportation 交通方式
+   * @param departureTime 出发时间
+   * @returns 估算结果
+   */
+  async estimateBetween(
+    originInfo: ResolvedEndpoint,
+    destinationInfo: ResolvedEndpoint,
+    transportation: TravelMode = "walking",
+    departureTime: Date = new Date()
+  ): Promise<{
+    success: boolean;
+    estimation?: TravelTimeEstimationResponse;
+    message?: string;
+  }> {
+    try {
+      // 1. 检查是否有室内路径计算需求（如主楼内的位置）
       const originIndoorTime = await this.calculateIndoorTime(
         originInfo.location
       );
@@ -128,108 +226,157 @@ export class EstimateTimeTool {
         destinationInfo.location
       );
 
-      // 5. 获取个人行走速度
+      // 2. 获取个人行走速度
       const walkingSpeed = await this.getPersonalWalkingSpeed();
 
-      // 6. 使用高德地图API计算路径（如果配置了密钥）
-      let routeResult: any = null;
-      let distance = 0;
-      let duration = 0;
+      const indoorTime = originIndoorTime + destinationIndoorTime;
+      const endpoints = {
+        origin: {
+          name: originInfo.location.name,
+          id: originInfo.location._id.toString(),
+        },
+        destination: {
+          name: destinationInfo.location.name,
+          id: destinationInfo.location._id.toString(),
+        },
+      };
 
-      if (this.amapKey) {
-        // 如果有坐标信息，使用坐标进行路径规划
-        if (originInfo.coordinates && destinationInfo.coordinates) {
-          routeResult = await this.callAmapRouteAPI(
-            originInfo.coordinates,
-            destinationInfo.coordinates,
-            transportation
-          );
-        }
-        // 否则使用地名直接进行路径规划（高德API支持地名）
-        else {
-          routeResult = await this.callAmapRouteAPIByName(
-            originInfo.location.name,
-            destinationInfo.location.name,
-            transportation
-          );
-        }
+      // 3. 优先使用该路线的出行记录
+      const learned = await this.tripsModel.estimateDuration(
+        originInfo.location._id,
+        destinationInfo.location._id,
+        transportation,
+        departureTime
+      );
 
-        if (routeResult.success) {
-          distance = routeResult.distance;
-          duration = routeResult.duration;
-        }
+      // 出行记录是门到门的实际用时，已包含室内行走，不再另加室内时间
+      if (learned) {
+        const { model } = learned;
+        const hasRange = model.sampleCount >= MIN_RANGE_SAMPLES;
+        return {
+          success: true,
+          estimation: {
+            ...endpoints,
+            estimatedTime: round(learned.estimate),
+            unit: "分钟",
+            context: `基于${model.sampleCount}次出行记录${
+              learned.timeOfDayAdjusted
+                ? `，按${TIME_OF_DAY_LABELS[learned.timeOfDay]}时段估算`
+                : ""
+            }`,
+            ...(hasRange && {
+              range: { low: round(learned.low), high: round(learned.high) },
+            }),
+            sampleCount: model.sampleCount,
+            notes: `${
+              hasRange
+                ? `通常用时${round(learned.low)}-${round(learned.high)}分钟`
+                : `出行记录少于${MIN_RANGE_SAMPLES}次，暂不给出用时范围`
+            }${model.reversed ? "，由反方向的出行记录推算" : ""}`,
+          },
+        };
       }
 
-      // 7. 如果高德API调用失败或未配置，使用本地估算
-      if (!routeResult || !routeResult.success) {
-        // 尝试使用数据库中已有的信息估算
-        const localEstimation = await this.locationsModel.estimateTravelTime(
-          originInfo.location._id,
-          destinationInfo.location._id
-        );
+      // 4. 没有出行记录时使用路线服务计算路径
+      // 缺少坐标时先对位置名称进行地理编码
+      const originCoordinates = await this.ensureCoordinates(originInfo);
+      const destinationCoordinates = await this.ensureCoordinates(
+        destinationInfo
+      );
 
-        if (localEstimation) {
-          distance = localEstimation.baseSpeed || 0; // 这里使用了不太合适的字段存储距离，应调整模型
-          duration = localEstimation.estimatedTime || 0;
-        } else {
-          // 如果数据库中没有特定路径的信息，使用坐标计算估算
-          if (originInfo.coordinates && destinationInfo.coordinates) {
-            distance = this.calculateDistance(
-              originInfo.coordinates.latitude,
-              originInfo.coordinates.longitude,
-              destinationInfo.coordinates.latitude,
-              destinationInfo.coordinates.longitude
-            );
+      if (!originCoordinates || !destinationCoordinates) {
+        return {
+          success: false,
+          message: `"${originInfo.location.name}"到"${destinationInfo.location.name}"没有出行记录，且缺少坐标信息，无法估算`,
+        };
+      }
 
-            // 根据个人行走速度计算时间
-            duration = walkingSpeed ? distance / walkingSpeed : distance / 80; // 默认80米/分钟
-          } else {
-            // 如果没有坐标信息，返回默认值
-            distance = 0;
-            duration = 15; // 默认15分钟
-          }
-        }
+      let distance = 0;
+      let duration = 0;
+      // 时长是否已基于个人数据（无需再按个人行走速度换算）
+      let personalized = false;
+
+      const routeResult = await this.planRoute(
+        originCoordinates,
+        destinationCoordinates,
+        transportation
+      );
+
+      if (routeResult) {
+        distance = routeResult.distance;
+        duration = routeResult.duration;
+        personalized = routeResult.personalized;
+      } else {
+        // 5. 路线服务没有结果时，按个人速度和直线距离估算
+        distance = haversineDistance(originCoordinates, destinationCoordinates);
+        duration = distance / DEFAULT_SPEEDS[transportation];
       }
 
-      // 8. 调整时间估算以考虑个人行走速度和室内时间
+      // 6. 调整时间估算以考虑个人行走速度和室内时间
       let adjustedDuration = duration;
 
       // 如果是步行方式且有个人行走速度数据，调整时间估算
-      if (transportation === "walking" && walkingSpeed && walkingSpeed > 0) {
-        // 高德API返回的步行速度约为80米/分钟
-        const defaultSpeed = 80; // 米/分钟
-        const speedRatio = defaultSpeed / walkingSpeed;
+      if (
+        transportation === "walking" &&
+        !personalized &&
+        walkingSpeed &&
+        walkingSpeed > 0
+      ) {
+        // 路线服务按默认步行速度计算时长
+        const speedRatio = DEFAULT_SPEEDS.walking / walkingSpeed;
         adjustedDuration = duration * speedRatio;
       }
 
       // 加上室内时间
-      adjustedDuration += originIndoorTime + destinationIndoorTime;
+      adjustedDuration += indoorTime;
 
-      // 9. 构建返回结果
+      // 7. 构建返回结果
       const result: TravelTimeEstimationResponse = {
-        origin: {
-          name: originInfo.location.name,
-          id: originInfo.location._id.toString(),
-        },
-        destination: {
-          name: destinationInfo.location.name,
-          id: destinationInfo.location._id.toString(),
-        },
-        estimatedTime: Math.round(adjustedDuration * 10) / 10, // 保留一位小数
+        ...endpoints,
+        estimatedTime: round(adjustedDuration),
         unit: "分钟",
-        context: this.amapKey
-          ? "基于高德地图API和个人行走速度计算"
+        context: routeResult
+          ? `基于${describeRoutingProvider(
+              routeResult.provider
+            )}和个人行走速度计算`
           : "基于坐标和个人行走速度估算",
         baseSpeed: walkingSpeed || 0,
         speedUnit: "米/分钟",
-        notes: `总距离约${Math.round(distance)}米，室内行走时间约${
-          originIndoorTime + destinationIndoorTime
-        }分钟`,
+        notes: `总距离约${Math.round(
+          distance
+        )}米，室内行走时间约${indoorTime}分钟`,
       };
 
-      if (routeResult && routeResult.route) {
-        result.route = routeResult.route;
+      if (routeResult) {
+        result.provider = routeResult.provider;
+        if (routeResult.raw || routeResult.waypoints) {
+          result.route = routeResult.raw ?? routeResult.waypoints;
+        }
+        if (routeResult.cachedAt) {
+          result.notes += `，路线数据来自缓存（${describeAge(
+            routeResult.cachedAt
+          )}获取）`;
+        }
+      }
+      const suggested = this.geocodedPlaces.filter((place) => place.suggested);
+      const unsaved = this.geocodedPlaces.filter((place) => !place.suggested);
+      if (suggested.length > 0) {
+        result.notes += `。${describePlaces(
+          suggested
+        )}不是已保存的位置，已记为待确认的位置建议（可通过review_location_suggestions接受、合并或拒绝）`;
       }
+      if (unsaved.length > 0) {
+        result.notes += `。${describePlaces(
+          unsaved
+        )}不是已保存的位置，按地理编码结果估算，未记为位置建议`;
+      }
+      if (this.geocodedPlaces.length > 0) {
+        result.geocoded = this.geocodedPlaces;
+      }
+      result.cache = {
+        route: Boolean(routeResult?.cachedAt),
+        geocode: this.cachedGeocodes,
+      };
 
       return {
         success: true,
@@ -245,166 +392,101 @@ export class EstimateTimeTool {
   }
 
   /**
-   * 高德地图地理编码API - 将地址转换为坐标
+   * 获取地点坐标，缺少坐标时按名称地理编码并把结果（包括没有结果）记在地点上
+   * @param endpoint 已解析的地点
+   * @returns 坐标，无法获取时返回undefined
+   */
+  private async ensureCoordinates(
+    endpoint: ResolvedEndpoint
+  ): Promise<Coordinates | undefined> {
+    if (!endpoint.coordinates && !endpoint.geocodeAttempted) {
+      endpoint.geocodeAttempted = true;
+      endpoint.coordinates = (
+        await this.geocodeLocation(endpoint.location.name)
+      )?.coordinates;
+    }
+    return endpoint.coordinates;
+  }
+
+  /**
+   * 使用路线服务进行地理编码
+   * 结果坐标转换为存储坐标系（如高德返回的GCJ-02），
+   * 请求失败时记录错误并视为无结果
    * @param address 地址或地名
-   * @returns 坐标信息
+   * @returns 地理编码结果
    */
-  private async geocodeLocation(address: string): Promise<{
-    success: boolean;
-    coordinates?: { latitude: number; longitude: number };
-    message?: string;
-    formattedAddress?: string;
-  }> {
+  private async geocodeLocation(
+    address: string
+  ): Promise<GeocodeResult | null> {
     try {
-      if (!this.amapKey) {
-        return {
-          success: false,
-          message: "未配置高德地图API密钥，无法进行地理编码",
-        };
-      }
-
-      // 调用高德地图地理编码API
-      const url = `https://restapi.amap.com/v3/geocode/geo?address=${encodeURIComponent(
-        address
-      )}&key=${this.amapKey}`;
-      const response = await axios.get(url);
-      const data = response.data;
-
-      // 验证响应
-      if (data.status !== "1" || !data.geocodes || data.geocodes.length === 0) {
-        return {
-          success: false,
-          message: data.info || `无法找到"${address}"的坐标信息`,
-        };
+      const result = await this.routing.geocode(address);
+      if (result?.cachedAt) {
+        this.cachedGeocodes.push(address);
       }
-
-      // 获取第一个匹配结果
-      const geocode = data.geocodes[0];
-      const location = geocode.location.split(",");
-
-      return {
-        success: true,
-        coordinates: {
-          longitude: parseFloat(location[0]),
-          latitude: parseFloat(location[1]),
-        },
-        formattedAddress: geocode.formatted_address,
-      };
+      return result
+        ? { ...result, coordinates: normalizeCoordinates(result.coordinates) }
+        : null;
     } catch (error) {
       console.error(`地理编码时出错: ${error}`);
-      return {
-        success: false,
-        message: `地理编码时出错: ${error}`,
-      };
+      return null;
     }
   }
 
   /**
-   * 将位置信息保存到数据库（异步操作）
-   * @param locationName 位置名称
-   * @param coordinates 坐标信息
+   * 使用路线服务进行路径规划
+   * 请求失败时记录错误并视为无结果
+   * @param origin 起点坐标
+   * @param destination 终点坐标
+   * @param mode 交通方式
+   * @returns 路径规划结果
    */
-  private async saveLocationToDatabase(
-    locationName: string,
-    coordinates: { latitude: number; longitude: number }
-  ): Promise<void> {
+  private async planRoute(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode
+  ): Promise<RouteResult | null> {
     try {
-      // 检查位置是否已存在
-      const existingLocations = await this.locationsModel.findLocations(
-        locationName
-      );
-
-      if (existingLocations && existingLocations.length > 0) {
-        // 如果位置已存在但没有坐标，更新坐标信息
-        const location = existingLocations[0];
-        if (!location.coordinates) {
-          await this.locationsModel["locationsCollection"].updateOne(
-            { _id: location._id },
-            {
-              $set: {
-                coordinates,
-                updatedAt: new Date(),
-                modifiedSinceSync: true,
-              },
-            }
-          );
-          console.log(`已更新位置"${locationName}"的坐标信息`);
-        }
-      } else {
-        // 创建新位置
-        const locationData: Partial<Location> = {
-          name: locationName,
-          coordinates,
-          type: "place", // 默认类型
-          syncedToNotion: false,
-          modifiedSinceSync: true,
-          lastSync: null,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        // 插入新位置
-        await this.locationsModel["locationsCollection"].insertOne(
-          locationData as any
-        );
-        console.log(`已创建新位置"${locationName}"`);
-      }
+      return await this.routing.route(origin, destination, mode);
     } catch (error) {
-      console.error(`保存位置信息到数据库时出错: ${error}`);
-      // 不抛出异常，因为这是异步操作，不影响主流程
+      console.error(`路径规划时出错: ${error}`);
+      return null;
     }
   }
 
   /**
-   * 使用位置名称调用高德地图路径规划API
-   * @param originName 起点名称
-   * @param destinationName 终点名称
-   * @param mode 交通方式
-   * @returns API响应结果
+   * 将地理编码得到的地点记为待确认的位置建议
+   * 建议由review_location_suggestions审核，记录失败或没有写入权限时不影响估算
+   * @param locationName 位置名称
+   * @param geocoded 地理编码结果
    */
-  private async callAmapRouteAPIByName(
-    originName: string,
-    destinationName: string,
-    mode: string = "walking"
-  ): Promise<{
-    success: boolean;
-    distance?: number;
-    duration?: number;
-    route?: any;
-    message?: string;
-  }> {
-    try {
-      // 确保有API密钥
-      if (!this.amapKey) {
-        return {
-          success: false,
-          message: "未配置高德地图API密钥",
-        };
-      }
-
-      // 首先进行地理编码，获取起终点坐标
-      const originGeocode = await this.geocodeLocation(originName);
-      const destinationGeocode = await this.geocodeLocation(destinationName);
-
-      if (!originGeocode.success || !destinationGeocode.success) {
-        return {
-          success: false,
-          message: "无法获取起点或终点的地理编码",
-        };
-      }
+  private async suggestLocation(
+    locationName: string,
+    geocoded: GeocodeResult
+  ): Promise<void> {
+    const place: GeocodedPlace = {
+      name: locationName,
+      address: geocoded.formattedAddress,
+      coordinates: geocoded.coordinates,
+      provider: geocoded.provider,
+      suggested: false,
+    };
+    this.geocodedPlaces.push(place);
+
+    if (!this.suggestionsModel) {
+      return;
+    }
 
-      // 使用坐标进行路径规划
-      return await this.callAmapRouteAPI(
-        originGeocode.coordinates!,
-        destinationGeocode.coordinates!,
-        mode
-      );
+    try {
+      const { suggestion } = await this.suggestionsModel.suggestLocation({
+        name: locationName,
+        coordinates: geocoded.coordinates,
+        address: geocoded.formattedAddress,
+        provider: geocoded.provider,
+        source: "estimate_time",
+      });
+      place.suggested = suggestion.status === "pending";
     } catch (error) {
-      console.error(`使用位置名称调用高德地图API时出错: ${error}`);
-      return {
-        success: false,
-        message: `使用位置名称调用高德地图API时出错: ${error}`,
-      };
+      console.error(`记录位置建议时出错: ${error}`);
     }
   }
 
@@ -443,10 +525,13 @@ export class EstimateTimeTool {
         }
       }
 
-      // 2. 尝试精确名称匹配
-      const locations = await this.locationsModel.findLocations(
+      // 2. 尝试精确名称匹配，其次按名称、类型、地址查找
+      const exact = await this.locationsModel.findLocationByExactName(
         locationNameOrId
       );
+      const locations = exact
+        ? [exact]
+        : await this.locationsModel.findLocations(locationNameOrId);
       if (locations && locations.length > 0) {
         // 使用第一个匹配项
         return {
@@ -461,11 +546,9 @@ export class EstimateTimeTool {
 
       // 3. 如果允许部分匹配，尝试模糊匹配
       if (allowPartialMatch) {
-        const fuzzyLocations = await this.locationsModel["locationsCollection"]
-          .find({
-            name: { $regex: locationNameOrId, $options: "i" },
-          })
-          .toArray();
+        const fuzzyLocations = await this.locationsModel.findLocationsByName(
+          locationNameOrId
+        );
 
         if (fuzzyLocations && fuzzyLocations.length > 0) {
           return {
@@ -594,12 +677,10 @@ export class EstimateTimeTool {
     // 如果是房间（有roomNumber字段），需要计算室内时间
     if (location && location.roomNumber) {
       // 查询是否有特定的室内行走记录
-      const indoorRecords = await this.bioDataModel["bioDataCollection"]
-        .find({
-          recordName: { $regex: location.name, $options: "i" },
-          measurementType: "室内行走时间",
-        })
-        .toArray();
+      const indoorRecords = await this.bioDataModel.findRecordsByName(
+        "室内行走时间",
+        location.name
+      );
 
       if (indoorRecords && indoorRecords.length > 0) {
         // 返回匹配记录的时间
@@ -636,20 +717,14 @@ export class EstimateTimeTool {
       }
 
       // 如果没有具体的"走路速度"记录，查询其他可能的记录
-      const walkRecords = await this.bioDataModel["bioDataCollection"]
-        .find({
-          $or: [
-            { measurementType: "步行速度" },
-            { measurementType: "行走速度" },
-            { measurementType: "步速" },
-          ],
-        })
-        .sort({ measuredAt: -1 })
-        .limit(1)
-        .toArray();
-
-      if (walkRecords && walkRecords.length > 0) {
-        return walkRecords[0].value;
+      const walkRecord = await this.bioDataModel.getLatestMeasurementOfTypes([
+        "步行速度",
+        "行走速度",
+        "步速",
+      ]);
+
+      if (walkRecord) {
+        return walkRecord.value;
       }
 
       return null; // 未找到速度记录
@@ -659,174 +734,6 @@ export class EstimateTimeTool {
     }
   }
 
-  /**
-   * 调用高德地图路径规划API
-   * @param origin 起点坐标
-   * @param destination 终点坐标
-   * @param mode 交通方式
-   * @returns API响应结果
-   */
-  private async callAmapRouteAPI(
-    origin: { latitude: number; longitude: number },
-    destination: { latitude: number; longitude: number },
-    mode: string = "walking"
-  ): Promise<{
-    success: boolean;
-    distance?: number;
-    duration?: number;
-    route?: any;
-    message?: string;
-  }> {
-    try {
-      // 确保有API密钥
-      if (!this.amapKey) {
-        return {
-          success: false,
-          message: "未配置高德地图API密钥",
-        };
-      }
-
-      // 准备API参数
-      const originStr = `${origin.longitude},${origin.latitude}`;
-      const destinationStr = `${destination.longitude},${destination.latitude}`;
-
-      // 选择合适的API端点
-      let endpoint = "";
-      switch (mode) {
-        case "walking":
-          endpoint = "https://restapi.amap.com/v5/direction/walking";
-          break;
-        case "bicycling":
-          endpoint = "https://restapi.amap.com/v5/direction/bicycling";
-          break;
-        case "driving":
-          endpoint = "https://restapi.amap.com/v5/direction/driving";
-          break;
-        case "transit":
-          endpoint = "https://restapi.amap.com/v5/direction/transit/integrated";
-          break;
-        default:
-          endpoint = "https://restapi.amap.com/v5/direction/walking";
-      }
-
-      // 构建请求URL
-      let url = `${endpoint}?key=${this.amapKey}&origin=${originStr}&destination=${destinationStr}`;
-
-      // 如果是公交方式，需要额外参数
-      if (mode === "transit") {
-        url += "&city1=010&city2=010"; // 默认北京市编码
-      }
-
-      // 调用API
-      const response = await axios.get(url);
-      const data = response.data;
-
-      // 验证响应
-      if (data.status !== "1") {
-        return {
-          success: false,
-          message: data.info || "API调用失败",
-        };
-      }
-
-      // 解析结果
-      let distance = 0;
-      let duration = 0;
-
-      // 根据不同的交通方式解析结果
-      if (mode === "transit") {
-        // 公交规划
-        if (
-          data.route &&
-          data.route.transits &&
-          data.route.transits.length > 0
-        ) {
-          const transit = data.route.transits[0];
-          distance = parseInt(transit.distance) || 0;
-
-          // 公交API没有直接返回duration，需要计算
-          for (const segment of transit.segments) {
-            if (segment.walking && segment.walking.duration) {
-              duration += parseInt(segment.walking.duration) || 0;
-            }
-            if (segment.bus && segment.bus.duration) {
-              duration += parseInt(segment.bus.duration) || 0;
-            }
-            if (segment.railway && segment.railway.duration) {
-              duration += parseInt(segment.railway.duration) || 0;
-            }
-          }
-
-          // 转换为分钟
-          duration = duration / 60;
-        }
-      } else {
-        // 步行、骑行或驾车规划
-        if (data.route && data.route.paths && data.route.paths.length > 0) {
-          const path = data.route.paths[0];
-          distance = parseInt(path.distance) || 0;
-
-          // 如果返回了duration
-          if (path.duration) {
-            duration = parseInt(path.duration) || 0;
-            // 转换为分钟
-            duration = duration / 60;
-          } else {
-            // 使用默认速度计算
-            const speeds = {
-              walking: 80, // 米/分钟
-              bicycling: 250, // 米/分钟
-              driving: 500, // 米/分钟
-            };
-            duration = distance / (speeds[mode] || 80);
-          }
-        }
-      }
-
-      return {
-        success: true,
-        distance,
-        duration,
-        route: data.route,
-      };
-    } catch (error) {
-      console.error(`调用高德地图API时出错: ${error}`);
-      return {
-        success: false,
-        message: `调用高德地图API时出错: ${error}`,
-      };
-    }
-  }
-
-  /**
-   * 计算两个坐标点之间的距离（米）
-   * @param lat1 起点纬度
-   * @param lon1 起点经度
-   * @param lat2 终点纬度
-   * @param lon2 终点经度
-   * @returns 距离（米）
-   */
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371e3; // 地球半径（米）
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c;
-
-    return distance;
-  }
-
   /**
    * 格式化响应为易读文本
    * @param result 估算结果
@@ -861,3 +768,25 @@ export class EstimateTimeTool {
     return response;
   }
 }
+
+/**
+ * 描述距今的时间，如"3小时前"
+ * @param since 时间
+ */
+function describeAge(since: Date): string {
+  const minutes = Math.floor((Date.now() - since.getTime()) / 60000);
+  if (minutes < 60) {
+    return minutes < 1 ? "刚刚" : `${minutes}分钟前`;
+  }
+  if (minutes < 24 * 60) {
+    return `${Math.floor(minutes / 60)}小时前`;
+  }
+  return `${Math.floor(minutes / (24 * 60))}天前`;
+}
+
+/**
+ * 列出地点名称，如"食堂"、"体育馆"
+ */
+function describePlaces(places: GeocodedPlace[]): string {
+  return places.map((place) => `"${place.name}"`).join("、");
+}
@@ -1,4 +1,4 @@
-import { Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
 import { StructuredItemLocationResponse } from "../model/types.js";
 
@@ -9,7 +9,7 @@ import { StructuredItemLocationResponse } from "../model/types.js";
 export class FindItemTool {
   private itemsModel: ItemsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.itemsModel = new ItemsModel(db);
   }
 
@@ -111,21 +111,13 @@ export class FindItemTool {
       const item = result.items[0];
       let response = `物品"${item.itemName}"`;
 
-      if (item.container) {
-        response += `在${item.container.name}里`;
-      }
+      if (item.path) {
+        response += `位于${item.path}`;
 
-      if (item.location) {
-        if (item.container) {
-          response += `，${item.container.name}位于${item.location.name}`;
-        } else {
-          response += `位于${item.location.name}`;
-        }
-
-        if (item.location.address) {
+        if (item.location?.address) {
           response += `（地址：${item.location.address}）`;
         }
-      } else if (!item.container) {
+      } else {
         response += "，但未记录位置信息";
       }
 
@@ -154,18 +146,8 @@ export class FindItemTool {
         const item = result.items[i];
         response += `${i + 1}. ${item.itemName}`;
 
-        const locationParts = [];
-
-        if (item.container) {
-          locationParts.push(`在${item.container.name}里`);
-        }
-
-        if (item.location) {
-          locationParts.push(`位于${item.location.name}`);
-        }
-
-        if (locationParts.length > 0) {
-          response += `（${locationParts.join("，")}）`;
+        if (item.path) {
+          response += `（位于${item.path}）`;
         }
 
         if (item.status) {
@@ -0,0 +1,122 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel, ITEM_PATH_SEPARATOR } from "../model/items.js";
+import { ContainerTreeNode } from "../model/types.js";
+
+/**
+ * 容器结构查询工具
+ * 列出容器内各层嵌套的物品，以及每层的物品数量和金额合计
+ */
+export class GetContainerTreeTool {
+  private itemsModel: ItemsModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+  }
+
+  /**
+   * 执行容器结构查询
+   * @param params 查询参数
+   * @returns 容器树和容器所在的完整路径
+   */
+  async execute(params: {
+    containerId?: string;
+    containerName?: string;
+  }): Promise<{
+    success: boolean;
+    tree?: ContainerTreeNode;
+    path?: string;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const { containerId, containerName } = params;
+
+      // 验证参数 - 需要提供容器ID或名称
+      if (!containerId && !containerName) {
+        return {
+          success: false,
+          message: "必须提供容器ID或名称",
+        };
+      }
+
+      // 解析容器ID
+      let resolvedContainerId = containerId;
+      if (!resolvedContainerId && containerName) {
+        const items = await this.itemsModel.findItems(containerName);
+        const container = items.find((item) => item.isContainer === true);
+        if (!container) {
+          return {
+            success: false,
+            message: `未找到名为"${containerName}"的容器`,
+          };
+        }
+        resolvedContainerId = container._id.toString();
+      }
+
+      const container = await this.itemsModel.getItemById(resolvedContainerId!);
+      if (!container) {
+        return {
+          success: false,
+          message: `未找到ID为"${resolvedContainerId}"的物品`,
+        };
+      }
+      if (!container.isContainer) {
+        return {
+          success: false,
+          message: `物品"${container.name}"不是容器`,
+        };
+      }
+
+      const tree = await this.itemsModel.getContainerTree(container._id);
+      const { containers, location } = await this.itemsModel.getItemPath(
+        container
+      );
+      const path = [
+        ...(location ? [location.name] : []),
+        ...containers.map((item) => item.name),
+        container.name,
+      ].join(ITEM_PATH_SEPARATOR);
+
+      return {
+        success: true,
+        tree,
+        path,
+        message: `${path}\n${renderTree(tree).join("\n")}`,
+      };
+    } catch (error) {
+      console.error("查询容器结构时出错:", error);
+      return {
+        success: false,
+        message: `查询容器结构时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+}
+
+/**
+ * 以缩进列表渲染容器树
+ * @param node 节点
+ * @param depth 层级
+ */
+function renderTree(node: ContainerTreeNode, depth = 0): string[] {
+  let line = `${"  ".repeat(depth)}${depth > 0 ? "- " : ""}${node.name}`;
+  if (node.quantity && node.quantity > 1) {
+    line += ` ×${node.quantity}`;
+  }
+  if (node.isContainer) {
+    const summary = [`${node.itemCount}件物品`];
+    const values = Object.entries(node.totalValue).map(
+      ([currency, value]) => `${value} ${currency}`
+    );
+    if (values.length > 0) {
+      summary.push(`合计${values.join(" + ")}`);
+    }
+    line += `（${summary.join("，")}）`;
+  }
+
+  return [
+    line,
+    ...node.children.flatMap((child) => renderTree(child, depth + 1)),
+  ];
+}
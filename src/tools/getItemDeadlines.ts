@@ -0,0 +1,227 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel } from "../model/items.js";
+import { TasksModel } from "../model/tasks.js";
+import { Item, ItemDeadlineKind } from "../model/types.js";
+import {
+  ITEM_DEADLINE_FIELDS,
+  ITEM_DEADLINE_KINDS,
+  ITEM_DEADLINE_LABELS,
+  addInterval,
+  daysUntil,
+  describeInterval,
+  formatItemDate,
+  startOfToday,
+} from "../utils/itemDeadlines.js";
+
+// 默认查询的天数
+const DEFAULT_DAYS = 30;
+// 自动创建的任务的类型
+const DEADLINE_TASK_TYPE = "物品到期";
+
+// 物品的一个到期事项
+export interface ItemDeadline {
+  item: { id: string; name: string };
+  kind: ItemDeadlineKind;
+  // 到期日期（YYYY-MM-DD）
+  date: string;
+  // 距今天数，已过期时为负数
+  daysLeft: number;
+  overdue: boolean;
+  // 维护周期的描述（仅维护）
+  recurrence?: string;
+  // 对应的任务（createTasks为true时）
+  task?: { id: string; name: string; created: boolean };
+}
+
+/**
+ * 物品到期查询工具
+ * 列出即将过期、保修即将到期或需要维护的物品，可为每个到期事项创建任务
+ */
+export class GetItemDeadlinesTool {
+  private itemsModel: ItemsModel;
+  private tasksModel: TasksModel;
+
+  /**
+   * @param db 存储后端
+   * @param taskDb 创建任务使用的存储后端（默认为db）
+   */
+  constructor(db: Storage, taskDb: Storage = db) {
+    this.itemsModel = new ItemsModel(db);
+    this.tasksModel = new TasksModel(taskDb);
+  }
+
+  /**
+   * 执行物品到期查询
+   * @param params 查询参数；days为向后查询的天数，includeOverdue为是否包括已过期的事项，
+   *   createTasks为true时为每个事项创建任务（已有同名同日期的任务时不重复创建）
+   * @returns 按日期排序的到期事项
+   */
+  async execute(params: {
+    days?: number;
+    kinds?: ItemDeadlineKind[];
+    includeOverdue?: boolean;
+    createTasks?: boolean;
+  }): Promise<{
+    success: boolean;
+    deadlines?: ItemDeadline[];
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const {
+        days = DEFAULT_DAYS,
+        kinds = ITEM_DEADLINE_KINDS,
+        includeOverdue = true,
+        createTasks = false,
+      } = params;
+
+      const now = new Date();
+      const today = startOfToday(now);
+      const until = addInterval(today, { value: days, unit: "day" });
+      const items = await this.itemsModel.getItemsWithDatesBetween(
+        kinds.map((kind) => ITEM_DEADLINE_FIELDS[kind]),
+        until,
+        includeOverdue ? undefined : today
+      );
+
+      const deadlines: ItemDeadline[] = [];
+      for (const item of items) {
+        for (const kind of kinds) {
+          const value = item[ITEM_DEADLINE_FIELDS[kind]];
+          if (!value) {
+            continue;
+          }
+          const date = new Date(value);
+          const daysLeft = daysUntil(date, now);
+          if (date > until || (!includeOverdue && daysLeft < 0)) {
+            continue;
+          }
+          deadlines.push({
+            item: { id: item._id.toString(), name: item.name },
+            kind,
+            date: formatItemDate(date),
+            daysLeft,
+            overdue: daysLeft < 0,
+            ...(kind === "maintenance" &&
+              item.maintenanceInterval && {
+                recurrence: describeInterval(item.maintenanceInterval),
+              }),
+          });
+        }
+      }
+      deadlines.sort((a, b) => a.daysLeft - b.daysLeft);
+
+      if (deadlines.length === 0) {
+        return {
+          success: true,
+          deadlines,
+          message: `未来${days}天内没有到期的物品`,
+        };
+      }
+
+      if (createTasks) {
+        const itemsById = new Map(
+          items.map((item) => [item._id.toString(), item])
+        );
+        for (const deadline of deadlines) {
+          deadline.task = await this.ensureTask(
+            itemsById.get(deadline.item.id)!,
+            deadline
+          );
+        }
+      }
+
+      const lines = deadlines.map((deadline) => {
+        let line = `- ${deadline.item.name}: ${describeDeadline(deadline)}（${
+          deadline.date
+        }）`;
+        if (deadline.recurrence) {
+          line += `，${deadline.recurrence}`;
+        }
+        if (deadline.task?.created) {
+          line += `，已创建任务"${deadline.task.name}"`;
+        }
+        return line;
+      });
+      const created = deadlines.filter((deadline) => deadline.task?.created);
+
+      let message = `未来${days}天内有${deadlines.length}个物品到期事项:\n${lines.join(
+        "\n"
+      )}`;
+      if (createTasks) {
+        message += `\n新建了${created.length}个任务`;
+      }
+
+      return { success: true, deadlines, message };
+    } catch (error) {
+      console.error("查询物品到期事项时出错:", error);
+      return {
+        success: false,
+        message: `查询物品到期事项时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+
+  /**
+   * 为到期事项创建任务，已有同名且截止日期相同的任务时直接使用
+   * @param item 物品
+   * @param deadline 到期事项
+   */
+  private async ensureTask(
+    item: Item,
+    deadline: ItemDeadline
+  ): Promise<{ id: string; name: string; created: boolean }> {
+    const name = TASK_NAMES[deadline.kind](item.name);
+    const dueDate = new Date(deadline.date);
+
+    const [existing] = await this.tasksModel.getAllTasks({ name, dueDate }, 1);
+    if (existing) {
+      return { id: existing._id.toString(), name, created: false };
+    }
+
+    const result = await this.tasksModel.addTask({
+      name,
+      dueDate,
+      taskType: DEADLINE_TASK_TYPE,
+      description: `物品"${item.name}"（ID: ${item._id}）${
+        ITEM_DEADLINE_LABELS[deadline.kind]
+      }日期为${deadline.date}`,
+      tags: ["物品", ITEM_DEADLINE_LABELS[deadline.kind]],
+      notes: [],
+    });
+    if (!result.success || !result.task) {
+      throw new Error(result.error || "创建任务失败");
+    }
+
+    return { id: result.task._id.toString(), name, created: true };
+  }
+}
+
+// 自动创建的任务名称
+const TASK_NAMES: Record<ItemDeadlineKind, (name: string) => string> = {
+  expiry: (name) => `处理即将过期的「${name}」`,
+  warranty: (name) => `「${name}」保修即将到期`,
+  maintenance: (name) => `维护「${name}」`,
+};
+
+// 已过期的事项的描述
+const OVERDUE_LABELS: Record<ItemDeadlineKind, string> = {
+  expiry: "已过期",
+  warranty: "保修已到期",
+  maintenance: "维护已逾期",
+};
+
+/**
+ * 描述到期事项的剩余时间
+ */
+function describeDeadline({ kind, daysLeft }: ItemDeadline): string {
+  const label = ITEM_DEADLINE_LABELS[kind];
+  if (daysLeft < 0) {
+    return `${OVERDUE_LABELS[kind]}${-daysLeft}天`;
+  }
+  if (daysLeft === 0) {
+    return `今天${label}`;
+  }
+  return `${daysLeft}天后${label}`;
+}
@@ -0,0 +1,98 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel } from "../model/items.js";
+import { LocationsModel } from "../model/locations.js";
+import { ensureObjectId } from "../model/types.js";
+
+// 库存不足的物品
+export interface LowStockItem {
+  id: string;
+  name: string;
+  category?: string;
+  quantity: number;
+  minQuantity: number;
+  unit?: string;
+  // 补足到最低库存还差的数量
+  shortage: number;
+  // 所在位置名称
+  location?: string;
+}
+
+/**
+ * 库存不足物品查询工具
+ * 列出数量不高于最低库存的消耗品，用于生成购物清单
+ */
+export class GetLowStockItemsTool {
+  private itemsModel: ItemsModel;
+  private locationsModel: LocationsModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+    this.locationsModel = new LocationsModel(db);
+  }
+
+  /**
+   * 执行库存不足物品查询
+   * @param params 查询参数；category只查询该类别的物品
+   * @returns 库存不足的物品
+   */
+  async execute(params: { category?: string }): Promise<{
+    success: boolean;
+    items?: LowStockItem[];
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const items = await this.itemsModel.getLowStockItems(params.category);
+
+      if (items.length === 0) {
+        return {
+          success: true,
+          items: [],
+          message: params.category
+            ? `类别"${params.category}"中没有库存不足的物品`
+            : "没有库存不足的物品",
+        };
+      }
+
+      const lowStockItems: LowStockItem[] = [];
+      for (const item of items) {
+        const quantity = item.quantity ?? 0;
+        const location = item.locationId
+          ? await this.locationsModel.getLocationById(
+              ensureObjectId(item.locationId)
+            )
+          : null;
+        lowStockItems.push({
+          id: item._id.toString(),
+          name: item.name,
+          category: item.category,
+          quantity,
+          minQuantity: item.minQuantity,
+          unit: item.unit,
+          shortage: Math.max(item.minQuantity - quantity, 0),
+          location: location?.name,
+        });
+      }
+
+      const lines = lowStockItems.map((item) => {
+        const unit = item.unit || "";
+        return `- ${item.name}: 剩余${item.quantity}${unit}，最低库存${item.minQuantity}${unit}${
+          item.location ? `（${item.location}）` : ""
+        }`;
+      });
+
+      return {
+        success: true,
+        items: lowStockItems,
+        message: `有${lowStockItems.length}个物品库存不足:\n${lines.join("\n")}`,
+      };
+    } catch (error) {
+      console.error("查询库存不足物品时出错:", error);
+      return {
+        success: false,
+        message: `查询库存不足物品时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import type { Storage } from "../storage/types.js";
+import { getOpeningSchedule, LocationsModel } from "../model/locations.js";
+import {
+  formatClockTime,
+  formatDateKey,
+  formatOpeningPeriods,
+  formatRelativeTime,
+  getOpeningPeriods,
+  MAX_CONTINUOUS_DAYS,
+  nextClosingTime,
+  nextOpeningTime,
+  type OpeningHoursOptions,
+} from "../utils/openingHours.js";
+
+// 开放状态
+export interface OpeningStatus {
+  location: { id: string; name: string };
+  time: Date;
+  open: boolean;
+  openingHours: string;
+  // 开放时间继承自的父位置（位置本身未设置开放时间时）
+  inheritedFrom?: { id: string; name: string };
+  // 当天的开放时间段
+  today: string;
+  // 开放时：本时间段的结束时间
+  closesAt?: Date;
+  // 不开放时：下一次开放时间（7天内）
+  nextOpening?: Date;
+}
+
+/**
+ * 位置开放状态查询工具
+ * 回答"现在开门吗""什么时候开门/关门"
+ */
+export class IsLocationOpenTool {
+  private locationsModel: LocationsModel;
+
+  constructor(db: Storage) {
+    this.locationsModel = new LocationsModel(db);
+  }
+
+  /**
+   * 执行开放状态查询
+   * @param params 查询参数；time默认为当前时间，isHoliday为true时按节假日安排计算
+   * @returns 查询结果
+   */
+  async execute(params: {
+    location: string;
+    time?: Date;
+    isHoliday?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    status?: OpeningStatus;
+  }> {
+    try {
+      const { location: reference, time = new Date(), isHoliday } = params;
+      const when = params.time
+        ? `${formatDateKey(time)} ${formatClockTime(time)}`
+        : "现在";
+
+      const location =
+        await this.locationsModel.findLocationByReference(reference);
+      if (!location) {
+        return { success: false, message: `未找到位置"${reference}"` };
+      }
+
+      const source = await this.locationsModel.findOpeningHoursSource(
+        location._id
+      );
+      if (!source) {
+        return {
+          success: false,
+          message: `位置"${location.name}"（及其上级位置）没有设置开放时间`,
+        };
+      }
+
+      const schedule = getOpeningSchedule(source);
+      if (!schedule) {
+        return {
+          success: false,
+          message: `无法解析"${source.name}"的开放时间"${source.openingHours}"`,
+        };
+      }
+
+      const options: OpeningHoursOptions = isHoliday
+        ? { holidays: [formatDateKey(time)] }
+        : {};
+      const closesAt = nextClosingTime(schedule, time, options);
+      const status: OpeningStatus = {
+        location: { id: location._id.toString(), name: location.name },
+        time,
+        open: closesAt !== null,
+        openingHours: source.openingHours,
+        today: formatOpeningPeriods(getOpeningPeriods(schedule, time, options)),
+      };
+
+      if (!source._id.equals(location._id)) {
+        status.inheritedFrom = {
+          id: source._id.toString(),
+          name: source.name,
+        };
+      }
+
+      let message: string;
+      if (closesAt) {
+        status.closesAt = closesAt;
+        message =
+          closesAt.getTime() - time.getTime() >=
+          MAX_CONTINUOUS_DAYS * 24 * 60 * 60 * 1000
+            ? `"${location.name}"全天开放`
+            : `"${location.name}"${when}开放，${formatRelativeTime(
+                closesAt,
+                time
+              )}关闭`;
+      } else {
+        const opening = nextOpeningTime(schedule, time, options);
+        message = `"${location.name}"${when}不开放`;
+        if (opening) {
+          status.nextOpening = opening;
+          message += `，下次开放时间: ${formatRelativeTime(opening, time)}`;
+        } else {
+          message += "，7天内没有开放时间";
+        }
+      }
+      message += `（当天开放时间: ${status.today}${
+        status.inheritedFrom
+          ? `，沿用"${status.inheritedFrom.name}"的开放时间`
+          : ""
+      }）`;
+
+      return { success: true, message, status };
+    } catch (error) {
+      console.error("查询开放状态时出错:", error);
+      return {
+        success: false,
+        message: `查询开放状态时出错: ${error}`,
+      };
+    }
+  }
+}
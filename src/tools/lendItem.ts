@@ -0,0 +1,162 @@
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import type { TransactionFailureDetails } from "../storage/transaction.js";
+import { ItemsModel } from "../model/items.js";
+import { ContactsModel } from "../model/contacts.js";
+import { LoansModel } from "../model/loans.js";
+import { Loan } from "../model/types.js";
+import {
+  formatItemDate,
+  startOfDay,
+  startOfToday,
+} from "../utils/itemDeadlines.js";
+
+/**
+ * 物品借出工具
+ * 用于把物品借给联系人，记录借出日期和预计归还日期
+ */
+export class LendItemTool {
+  private itemsModel: ItemsModel;
+  private contactsModel: ContactsModel;
+  private loansModel: LoansModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+    this.contactsModel = new ContactsModel(db);
+    this.loansModel = new LoansModel(db);
+  }
+
+  /**
+   * 执行物品借出
+   * @param params 借出参数；lentAt默认为今天
+   * @returns 借出结果
+   */
+  async execute(params: {
+    itemId?: string;
+    itemName?: string;
+    contactId?: string;
+    contactName?: string;
+    lentAt?: Date;
+    dueDate?: Date;
+    note?: string;
+  }): Promise<{
+    success: boolean;
+    loan?: Loan;
+    message?: string;
+    error?: string;
+    rollback?: TransactionFailureDetails;
+  }> {
+    try {
+      const {
+        itemId,
+        itemName,
+        contactId,
+        contactName,
+        lentAt = startOfToday(),
+        dueDate,
+        note,
+      } = params;
+
+      // 验证参数 - 需要提供物品和借用人
+      if (!itemId && !itemName) {
+        return {
+          success: false,
+          message: "必须提供物品ID或名称",
+        };
+      }
+
+      if (!contactId && !contactName) {
+        return {
+          success: false,
+          message: "必须提供借用人ID或名称",
+        };
+      }
+
+      if (dueDate && startOfDay(dueDate) < startOfDay(lentAt)) {
+        return {
+          success: false,
+          message: "预计归还日期不能早于借出日期",
+        };
+      }
+
+      // 解析物品ID
+      let resolvedItemId = itemId;
+      if (!resolvedItemId && itemName) {
+        const items = await this.itemsModel.findItems(itemName);
+        if (items.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${itemName}"的物品`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedItemId = items[0]._id.toString();
+      }
+
+      const item = await this.itemsModel.getItemById(resolvedItemId!);
+      if (!item || item.status === "已删除") {
+        return {
+          success: false,
+          message: `未找到ID为"${resolvedItemId}"的物品`,
+        };
+      }
+
+      // 解析联系人ID
+      let resolvedContactId = contactId;
+      if (!resolvedContactId && contactName) {
+        const contacts = await this.contactsModel.findContacts(contactName);
+        if (contacts.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${contactName}"的联系人`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedContactId = contacts[0]._id.toString();
+      }
+
+      const contact = await this.contactsModel.getContactById(
+        new ObjectId(resolvedContactId!)
+      );
+      if (!contact) {
+        return {
+          success: false,
+          message: `未找到ID为"${resolvedContactId}"的联系人`,
+        };
+      }
+
+      const result = await this.loansModel.lendItem({
+        item,
+        contact,
+        lentAt,
+        dueDate,
+        note,
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          rollback: result.rollback,
+        };
+      }
+
+      let successMessage = `已将物品"${item.name}"借给"${contact.name}"`;
+      if (dueDate) {
+        successMessage += `，预计${formatItemDate(dueDate)}归还`;
+      }
+
+      return {
+        success: true,
+        loan: result.loan,
+        message: successMessage,
+      };
+    } catch (error) {
+      console.error("借出物品时出错:", error);
+      return {
+        success: false,
+        message: `借出物品时出错: ${error}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import type { Storage } from "../storage/types.js";
+import type { RoutingProvider, TravelMode } from "../routing/types.js";
+import { LocationsModel } from "../model/locations.js";
+import { getTimeOfDay, TripsModel } from "../model/trips.js";
+import { Task } from "../model/types.js";
+import { EstimateTimeTool } from "./estimateTime.js";
+import { CreateTaskTool } from "./createTask.js";
+import {
+  formatClockTime,
+  isOpenAt,
+  parseOpeningHours,
+} from "../utils/openingHours.js";
+
+// 没有出行记录给出用时范围时，按估算用时的该比例上下浮动
+const UNCERTAINTY_RATIO = 0.2;
+
+// 出发计划
+export interface DeparturePlan {
+  origin: { name: string; id?: string };
+  destination: { name: string; id?: string };
+  arriveBy: Date;
+  // 预计用时（分钟）
+  estimatedTime: number;
+  // 预留的缓冲时间（分钟）
+  bufferMinutes: number;
+  // 最晚出发时间（按预计用时）
+  latestDeparture: Date;
+  // 出发时间范围：earliest按较慢的用时（更稳妥），latest按较快的用时
+  confidenceRange: { earliest: Date; latest: Date };
+  // 估算依据
+  basis?: string;
+  // 目的地开放时间
+  openingHours?: string;
+  warnings: string[];
+}
+
+/**
+ * 出发时间规划工具
+ * 根据到达截止时间、出行时间估算和缓冲时间倒推最晚出发时间
+ */
+export class PlanDepartureTool {
+  private locationsModel: LocationsModel;
+  private tripsModel: TripsModel;
+  private estimateTimeTool: EstimateTimeTool;
+  private createTaskTool: CreateTaskTool;
+
+  /**
+   * @param db 存储后端
+   * @param routing 路线服务
+   * @param taskDb 创建出发提醒任务使用的存储后端（默认为db）
+   */
+  constructor(db: Storage, routing?: RoutingProvider, taskDb: Storage = db) {
+    this.locationsModel = new LocationsModel(db);
+    this.tripsModel = new TripsModel(db);
+    this.estimateTimeTool = new EstimateTimeTool(db, routing);
+    this.createTaskTool = new CreateTaskTool(taskDb);
+  }
+
+  /**
+   * 执行出发时间规划
+   * @param params 规划参数，未提供起点时使用最近一次出行的终点
+   * @returns 出发计划及（可选）创建的出发提醒任务
+   */
+  async execute(params: {
+    destination: string;
+    arriveBy: Date;
+    origin?: string;
+    transportation?: TravelMode;
+    bufferMinutes?: number;
+    createReminder?: boolean;
+    now?: Date;
+  }): Promise<{
+    success: boolean;
+    plan?: DeparturePlan;
+    reminder?: Task;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const {
+        destination,
+        arriveBy,
+        transportation = "walking",
+        bufferMinutes = 5,
+        createReminder = false,
+        now = new Date(),
+      } = params;
+
+      let origin = params.origin;
+      if (!origin) {
+        const latestTrip = await this.tripsModel.getLatestTrip();
+        if (!latestTrip) {
+          return {
+            success: false,
+            message: "未提供起点，且没有出行记录可以推断当前位置",
+          };
+        }
+        origin = latestTrip.destinationId.toString();
+      }
+
+      // 先按到达时间估算用时，出发时间落在其他时段时按出发时段重新估算
+      const estimate = (departureTime: Date) =>
+        this.estimateTimeTool.execute({
+          origin,
+          destination,
+          transportation,
+          departureTime,
+        });
+
+      let result = await estimate(arriveBy);
+      if (result.success && result.estimation) {
+        const departureTime = new Date(
+          arriveBy.getTime() -
+            (result.estimation.estimatedTime + bufferMinutes) * 60000
+        );
+        if (getTimeOfDay(departureTime) !== getTimeOfDay(arriveBy)) {
+          result = await estimate(departureTime);
+        }
+      }
+
+      if (!result.success || !result.estimation) {
+        return {
+          success: false,
+          message: result.message || "无法估算出行时间",
+        };
+      }
+
+      const estimation = result.estimation;
+      const estimatedTime = estimation.estimatedTime;
+      const low =
+        estimation.range?.low ?? estimatedTime * (1 - UNCERTAINTY_RATIO);
+      const high =
+        estimation.range?.high ?? estimatedTime * (1 + UNCERTAINTY_RATIO);
+
+      const departAt = (minutes: number) =>
+        floorToMinute(
+          new Date(arriveBy.getTime() - (minutes + bufferMinutes) * 60000)
+        );
+
+      const plan: DeparturePlan = {
+        origin: estimation.origin,
+        destination: estimation.destination,
+        arriveBy,
+        estimatedTime,
+        bufferMinutes,
+        latestDeparture: departAt(estimatedTime),
+        confidenceRange: {
+          earliest: departAt(high),
+          latest: departAt(low),
+        },
+        basis: estimation.context,
+        warnings: [],
+      };
+
+      // 检查目的地开放时间
+      const openingHours = estimation.destination.id
+        ? await this.locationsModel.getEffectiveOpeningHours(
+            estimation.destination.id
+          )
+        : null;
+      if (openingHours) {
+        plan.openingHours = openingHours;
+        const warning = checkOpeningHours(
+          openingHours,
+          arriveBy,
+          estimation.destination.name
+        );
+        if (warning) {
+          plan.warnings.push(warning);
+        }
+      }
+
+      if (plan.latestDeparture.getTime() < now.getTime()) {
+        plan.warnings.push("按预计用时已经来不及准时到达");
+      }
+
+      let message = `最晚${formatClockTime(plan.latestDeparture)}从${
+        plan.origin.name
+      }出发（稳妥起见${formatClockTime(
+        plan.confidenceRange.earliest
+      )}出发），可在${formatClockTime(arriveBy)}前到达${
+        plan.destination.name
+      }；预计用时${estimatedTime}分钟，预留${bufferMinutes}分钟`;
+      if (plan.warnings.length > 0) {
+        message += `\n注意: ${plan.warnings.join("；")}`;
+      }
+
+      if (!createReminder) {
+        return { success: true, plan, message };
+      }
+
+      // 创建出发提醒任务
+      const reminder = await this.createTaskTool.execute({
+        name: `出发前往${plan.destination.name}`,
+        dueDate: plan.latestDeparture.toISOString(),
+        taskType: "出行",
+        tags: ["出发提醒"],
+        description: message,
+      });
+
+      if (!reminder.success) {
+        return {
+          success: false,
+          plan,
+          message: `${message}\n创建出发提醒失败: ${
+            reminder.message || reminder.error
+          }`,
+          error: reminder.error,
+        };
+      }
+
+      return {
+        success: true,
+        plan,
+        reminder: reminder.task,
+        message: `${message}\n已创建出发提醒任务"${reminder.task?.name}"`,
+      };
+    } catch (error) {
+      console.error("规划出发时间时出错:", error);
+      return {
+        success: false,
+        message: `规划出发时间时出错: ${error}`,
+      };
+    }
+  }
+}
+
+/**
+ * 检查到达时目的地是否开放
+ * @param openingHours 开放时间
+ * @param arriveAt 到达时间
+ * @param name 目的地名称
+ * @returns 警告信息，开放或无法解析时为null
+ */
+function checkOpeningHours(
+  openingHours: string,
+  arriveAt: Date,
+  name: string
+): string | null {
+  const schedule = parseOpeningHours(openingHours);
+  if (!schedule || isOpenAt(schedule, arriveAt)) {
+    return null;
+  }
+
+  return `${formatClockTime(
+    arriveAt
+  )}到达时${name}不在开放时间内（${openingHours}）`;
+}
+
+/**
+ * 向下取整到分钟
+ */
+function floorToMinute(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / 60000) * 60000);
+}
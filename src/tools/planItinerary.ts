@@ -0,0 +1,588 @@
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import type { RoutingProvider, TravelMode } from "../routing/types.js";
+import { LocationsModel } from "../model/locations.js";
+import { TasksModel } from "../model/tasks.js";
+import { TripsModel } from "../model/trips.js";
+import { EstimateTimeTool, type ResolvedEndpoint } from "./estimateTime.js";
+import {
+  formatClockTime,
+  isOpenAt,
+  nextOpeningTime,
+  parseOpeningHours,
+  type OpeningSchedule,
+} from "../utils/openingHours.js";
+import { round } from "../utils/math.js";
+
+// 不超过该站点数时穷举求精确解，否则使用启发式算法
+const EXACT_STOP_LIMIT = 8;
+
+// 2-opt改进的最大轮数
+const MAX_IMPROVEMENT_ROUNDS = 50;
+
+// 行程站点
+export interface ItineraryStopInput {
+  // 位置名称或ID
+  location: string;
+  // 关联任务ID，任务的截止日期作为到达期限
+  taskId?: string;
+  // 在该站点停留的时间（分钟）
+  dwellMinutes?: number;
+}
+
+// 行程中的一段
+export interface ItineraryLeg {
+  from: { name: string; id?: string };
+  to: { name: string; id?: string };
+  // 路上用时（分钟）
+  travelMinutes: number;
+  departAt: Date;
+  arriveAt: Date;
+  // 等待开放的时间（分钟）
+  waitMinutes: number;
+  dwellMinutes: number;
+  // 离开该站点的时间
+  leaveAt: Date;
+  taskId?: string;
+  taskName?: string;
+  dueDate?: Date;
+  warnings: string[];
+}
+
+// 规划好的行程
+export interface Itinerary {
+  origin: { name: string; id?: string };
+  departureTime: Date;
+  legs: ItineraryLeg[];
+  totalTravelMinutes: number;
+  totalWaitMinutes: number;
+  // 从出发到最后离开（或返回起点）的总时长（分钟）
+  totalMinutes: number;
+  finishTime: Date;
+  returnToOrigin: boolean;
+  // 精确解或启发式解
+  method: "exact" | "heuristic";
+  // 无法估算出行时间、未排入行程的站点
+  unroutable: UnroutableStop[];
+  warnings: string[];
+}
+
+// 未排入行程的站点
+export interface UnroutableStop {
+  // 输入的位置名称或ID
+  location: string;
+  name?: string;
+  id?: string;
+  reason: string;
+}
+
+// 求解所需的站点信息（下标0为起点）
+interface PlanningNode {
+  name: string;
+  id?: string;
+  dwellMinutes: number;
+  schedule: OpeningSchedule | null;
+  openingHours?: string;
+  taskId?: string;
+  taskName?: string;
+  dueDate?: Date;
+}
+
+// 按某一顺序模拟得到的日程
+interface Schedule {
+  order: number[];
+  legs: ItineraryLeg[];
+  // 无法在开放时间内到达或晚于截止日期的站点数
+  violations: number;
+  // 晚于截止日期的总分钟数
+  lateMinutes: number;
+  finishTime: Date;
+}
+
+/**
+ * 多站点行程规划工具
+ * 通过出行时间估算计算站点之间的用时矩阵，
+ * 在考虑开放时间和任务截止日期的前提下求总用时最短的访问顺序
+ */
+export class PlanItineraryTool {
+  private locationsModel: LocationsModel;
+  private tasksModel: TasksModel;
+  private tripsModel: TripsModel;
+  private estimateTimeTool: EstimateTimeTool;
+
+  constructor(db: Storage, routing?: RoutingProvider) {
+    this.locationsModel = new LocationsModel(db);
+    this.tasksModel = new TasksModel(db);
+    this.tripsModel = new TripsModel(db);
+    this.estimateTimeTool = new EstimateTimeTool(db, routing);
+  }
+
+  /**
+   * 执行行程规划
+   * @param params 规划参数，未提供起点时使用最近一次出行的终点
+   * @returns 规划好的行程
+   */
+  async execute(params: {
+    stops: ItineraryStopInput[];
+    origin?: string;
+    transportation?: TravelMode;
+    departureTime?: Date;
+    returnToOrigin?: boolean;
+  }): Promise<{
+    success: boolean;
+    itinerary?: Itinerary;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const {
+        stops,
+        transportation = "walking",
+        departureTime = new Date(),
+        returnToOrigin = false,
+      } = params;
+
+      if (stops.length === 0) {
+        return {
+          success: false,
+          message: "必须提供至少一个站点",
+        };
+      }
+
+      let origin = params.origin;
+      if (!origin) {
+        const latestTrip = await this.tripsModel.getLatestTrip();
+        if (!latestTrip) {
+          return {
+            success: false,
+            message: "未提供起点，且没有出行记录可以推断当前位置",
+          };
+        }
+        origin = latestTrip.destinationId.toString();
+      }
+
+      // 1. 解析各地点，每个地点只解析（必要时地理编码）一次
+      const references = [origin, ...stops.map((stop) => stop.location)];
+      const endpoints: Array<ResolvedEndpoint | null> = [];
+      for (const reference of references) {
+        endpoints.push(
+          await this.estimateTimeTool.resolveEndpoint(reference)
+        );
+      }
+
+      if (!endpoints[0]) {
+        return {
+          success: false,
+          message: `无法解析起点"${origin}"的位置信息`,
+        };
+      }
+
+      // 2. 计算用时矩阵，无法估算的路段记为null
+      const size = references.length;
+      const matrix: Array<Array<number | null>> = references.map(() =>
+        references.map(() => null)
+      );
+      const failures = new Map<number, string>();
+
+      for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+          // 不返回起点时无需计算回到起点的用时
+          if (i === j || (j === 0 && !returnToOrigin)) continue;
+          if (!endpoints[i] || !endpoints[j]) continue;
+
+          const result = await this.estimateTimeTool.estimateBetween(
+            endpoints[i],
+            endpoints[j],
+            transportation,
+            departureTime
+          );
+
+          if (result.success && result.estimation) {
+            matrix[i][j] = result.estimation.estimatedTime;
+          } else {
+            const reason = result.message || "未知原因";
+            for (const index of [i, j]) {
+              if (index > 0 && !failures.has(index)) {
+                failures.set(index, reason);
+              }
+            }
+          }
+        }
+      }
+
+      // 3. 无法解析或缺少路段用时的站点不排入行程，
+      // 每次去掉缺少路段最多的站点，直到剩余站点之间的用时都已知
+      const unroutable: UnroutableStop[] = [];
+      let planned = stops.map((_, index) => index + 1);
+
+      const excludeStop = (index: number, reason: string) => {
+        planned = planned.filter((other) => other !== index);
+        unroutable.push({
+          location: references[index],
+          name: endpoints[index]?.location.name,
+          id: endpoints[index]?.location._id.toString(),
+          reason,
+        });
+      };
+
+      for (const index of planned) {
+        if (!endpoints[index]) {
+          excludeStop(index, `无法解析位置"${references[index]}"`);
+        }
+      }
+
+      const countMissingLegs = (index: number) =>
+        [0, ...planned]
+          .filter((other) => other !== index)
+          .reduce(
+            (count, other) =>
+              count +
+              (matrix[other][index] === null ? 1 : 0) +
+              (matrix[index][other] === null && (other !== 0 || returnToOrigin)
+                ? 1
+                : 0),
+            0
+          );
+
+      while (planned.length > 0) {
+        let worst = planned[0];
+        for (const index of planned) {
+          if (countMissingLegs(index) > countMissingLegs(worst)) {
+            worst = index;
+          }
+        }
+        if (countMissingLegs(worst) === 0) break;
+        excludeStop(worst, failures.get(worst) ?? "无法估算出行时间");
+      }
+
+      if (planned.length === 0) {
+        return {
+          success: false,
+          message: `没有可以估算出行时间的站点: ${unroutable
+            .map((stop) => stop.reason)
+            .join("；")}`,
+        };
+      }
+
+      // 求解只使用起点和可以排入行程的站点
+      const included = [0, ...planned];
+      const plannedMatrix = included.map((i) =>
+        included.map((j) => matrix[i][j] ?? 0)
+      );
+
+      // 4. 读取开放时间和任务截止日期
+      const nodes: PlanningNode[] = [];
+      for (const index of included) {
+        const stop = index > 0 ? stops[index - 1] : null;
+        const { location } = endpoints[index]!;
+        const node: PlanningNode = {
+          name: location.name,
+          id: location._id.toString(),
+          dwellMinutes: stop?.dwellMinutes ?? 0,
+          schedule: null,
+        };
+
+        if (stop && node.id) {
+          const openingHours =
+            await this.locationsModel.getEffectiveOpeningHours(node.id);
+          if (openingHours) {
+            node.openingHours = openingHours;
+            node.schedule = parseOpeningHours(openingHours);
+          }
+        }
+
+        if (stop?.taskId) {
+          const task = await this.tasksModel.getTaskById(
+            new ObjectId(stop.taskId)
+          );
+          if (!task) {
+            return {
+              success: false,
+              message: `未找到任务: ${stop.taskId}`,
+            };
+          }
+          node.taskId = stop.taskId;
+          node.taskName = task.name;
+          node.dueDate = task.dueDate ? new Date(task.dueDate) : undefined;
+        }
+
+        nodes.push(node);
+      }
+
+      // 5. 求访问顺序
+      const stopIndexes = planned.map((_, index) => index + 1);
+      const simulate = (order: number[], complete = true) =>
+        this.simulate(
+          order,
+          nodes,
+          plannedMatrix,
+          departureTime,
+          returnToOrigin && complete
+        );
+
+      const method =
+        stopIndexes.length <= EXACT_STOP_LIMIT ? "exact" : "heuristic";
+      const best =
+        method === "exact"
+          ? this.solveExact(stopIndexes, simulate)
+          : this.solveHeuristic(stopIndexes, plannedMatrix, simulate);
+
+      // 6. 汇总
+      const totalTravelMinutes = round(
+        best.legs.reduce((sum, leg) => sum + leg.travelMinutes, 0)
+      );
+      const totalWaitMinutes = round(
+        best.legs.reduce((sum, leg) => sum + leg.waitMinutes, 0)
+      );
+      const warnings = [
+        ...unroutable.map(
+          (stop) => `${stop.name ?? stop.location}: 未排入行程（${stop.reason}）`
+        ),
+        ...best.legs.flatMap((leg) =>
+          leg.warnings.map((warning) => `${leg.to.name}: ${warning}`)
+        ),
+      ];
+
+      const itinerary: Itinerary = {
+        origin: { name: nodes[0].name, id: nodes[0].id },
+        departureTime,
+        legs: best.legs,
+        totalTravelMinutes,
+        totalWaitMinutes,
+        totalMinutes: round(
+          (best.finishTime.getTime() - departureTime.getTime()) / 60000
+        ),
+        finishTime: best.finishTime,
+        returnToOrigin,
+        method,
+        unroutable,
+        warnings,
+      };
+
+      let message = `行程: ${[
+        itinerary.origin.name,
+        ...best.legs.map((leg) => leg.to.name),
+      ].join(" → ")}，路上共${totalTravelMinutes}分钟，预计${formatClockTime(
+        best.finishTime
+      )}${returnToOrigin ? "返回起点" : "结束"}`;
+      if (warnings.length > 0) {
+        message += `\n注意: ${warnings.join("；")}`;
+      }
+
+      return {
+        success: true,
+        itinerary,
+        message,
+      };
+    } catch (error) {
+      console.error("规划行程时出错:", error);
+      return {
+        success: false,
+        message: `规划行程时出错: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * 按给定顺序模拟行程
+   * 到达时尚未开放则等待到开放，当天不再开放或晚于截止日期记为违反约束
+   * @param order 站点访问顺序（不含起点）
+   * @param nodes 站点信息
+   * @param matrix 用时矩阵（分钟）
+   * @param departureTime 出发时间
+   * @param returnToOrigin 是否返回起点
+   */
+  private simulate(
+    order: number[],
+    nodes: PlanningNode[],
+    matrix: number[][],
+    departureTime: Date,
+    returnToOrigin: boolean
+  ): Schedule {
+    const legs: ItineraryLeg[] = [];
+    let violations = 0;
+    let lateMinutes = 0;
+    let current = 0;
+    let time = departureTime.getTime();
+
+    const route = returnToOrigin ? [...order, 0] : order;
+
+    for (const next of route) {
+      const node = nodes[next];
+      const travelMinutes = matrix[current][next];
+      const departAt = new Date(time);
+      const arriveAt = new Date(time + travelMinutes * 60000);
+      const warnings: string[] = [];
+      let waitMinutes = 0;
+
+      // 起点不检查开放时间和截止日期，也不停留
+      const isStop = next !== 0;
+
+      if (isStop && node.schedule && !isOpenAt(node.schedule, arriveAt)) {
+        // 只等待当天的开放时间
+        const opening = nextOpeningTime(node.schedule, arriveAt, {}, 0);
+        if (opening) {
+          waitMinutes = (opening.getTime() - arriveAt.getTime()) / 60000;
+          warnings.push(
+            `${formatClockTime(arriveAt)}到达，需等待到${formatClockTime(
+              opening
+            )}开放`
+          );
+        } else {
+          violations++;
+          warnings.push(
+            `${formatClockTime(arriveAt)}到达时已不在开放时间内（${
+              node.openingHours
+            }）`
+          );
+        }
+      }
+
+      if (isStop && node.dueDate) {
+        const late =
+          (arriveAt.getTime() + waitMinutes * 60000 - node.dueDate.getTime()) /
+          60000;
+        if (late > 0) {
+          violations++;
+          lateMinutes += late;
+          warnings.push(
+            `晚于任务"${node.taskName}"的截止时间约${Math.ceil(late)}分钟`
+          );
+        }
+      }
+
+      const dwellMinutes = isStop ? node.dwellMinutes : 0;
+      const leaveAt = new Date(
+        arriveAt.getTime() + (waitMinutes + dwellMinutes) * 60000
+      );
+
+      legs.push({
+        from: { name: nodes[current].name, id: nodes[current].id },
+        to: { name: node.name, id: node.id },
+        travelMinutes,
+        departAt,
+        arriveAt,
+        waitMinutes: round(waitMinutes),
+        dwellMinutes,
+        leaveAt,
+        taskId: isStop ? node.taskId : undefined,
+        taskName: isStop ? node.taskName : undefined,
+        dueDate: isStop ? node.dueDate : undefined,
+        warnings,
+      });
+
+      current = next;
+      time = leaveAt.getTime();
+    }
+
+    return {
+      order,
+      legs,
+      violations,
+      lateMinutes,
+      finishTime: new Date(time),
+    };
+  }
+
+  /**
+   * 穷举所有顺序求精确解（分支定界）
+   * 违反约束数、迟到时间和结束时间随站点增加只增不减，
+   * 部分顺序（不含返回起点）已不优于当前最优解时剪枝
+   * @param stops 站点下标
+   * @param simulate 模拟函数，complete为false时不含返回起点
+   */
+  private solveExact(
+    stops: number[],
+    simulate: (order: number[], complete?: boolean) => Schedule
+  ): Schedule {
+    let best: Schedule | null = null;
+
+    const search = (order: number[], remaining: number[]) => {
+      if (remaining.length === 0) {
+        const schedule = simulate(order);
+        if (!best || compareSchedules(schedule, best) < 0) {
+          best = schedule;
+        }
+        return;
+      }
+
+      if (best && compareSchedules(simulate(order, false), best) >= 0) {
+        return;
+      }
+
+      for (const stop of remaining) {
+        search(
+          [...order, stop],
+          remaining.filter((other) => other !== stop)
+        );
+      }
+    };
+
+    search([], stops);
+    return best!;
+  }
+
+  /**
+   * 启发式求解：最近邻构造初始顺序，再用2-opt反转片段改进
+   * @param stops 站点下标
+   * @param matrix 用时矩阵
+   * @param simulate 模拟函数
+   */
+  private solveHeuristic(
+    stops: number[],
+    matrix: number[][],
+    simulate: (order: number[]) => Schedule
+  ): Schedule {
+    // 最近邻
+    const order: number[] = [];
+    const remaining = new Set(stops);
+    let current = 0;
+    while (remaining.size > 0) {
+      let nearest = -1;
+      for (const stop of remaining) {
+        if (nearest < 0 || matrix[current][stop] < matrix[current][nearest]) {
+          nearest = stop;
+        }
+      }
+      order.push(nearest);
+      remaining.delete(nearest);
+      current = nearest;
+    }
+
+    // 2-opt
+    let best = simulate(order);
+    for (let pass = 0; pass < MAX_IMPROVEMENT_ROUNDS; pass++) {
+      let improved = false;
+      for (let i = 0; i < best.order.length - 1; i++) {
+        for (let j = i + 1; j < best.order.length; j++) {
+          const candidate = simulate([
+            ...best.order.slice(0, i),
+            ...best.order.slice(i, j + 1).reverse(),
+            ...best.order.slice(j + 1),
+          ]);
+          if (compareSchedules(candidate, best) < 0) {
+            best = candidate;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    return best;
+  }
+}
+
+/**
+ * 比较两个日程：违反约束少的优先，其次迟到时间短的，再次结束早的
+ * @returns 负数表示a更优
+ */
+function compareSchedules(a: Schedule, b: Schedule): number {
+  if (a.violations !== b.violations) {
+    return a.violations - b.violations;
+  }
+  if (a.lateMinutes !== b.lateMinutes) {
+    return a.lateMinutes - b.lateMinutes;
+  }
+  return a.finishTime.getTime() - b.finishTime.getTime();
+}
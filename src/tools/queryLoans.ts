@@ -0,0 +1,208 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel } from "../model/items.js";
+import { ContactsModel } from "../model/contacts.js";
+import { LoansModel, isLoanOverdue } from "../model/loans.js";
+import { Loan, LoanStatus } from "../model/types.js";
+import { daysUntil, formatItemDate } from "../utils/itemDeadlines.js";
+
+// 查询的借出记录范围：未归还、逾期、已归还或全部
+export type LoanQueryStatus = "outstanding" | "overdue" | "returned" | "all";
+
+// 带逾期信息的借出记录
+export interface LoanEntry extends Loan {
+  overdue: boolean;
+  // 逾期天数（仅逾期时）
+  daysOverdue?: number;
+}
+
+// 一位借用人的借出记录
+export interface ContactLoans {
+  contact: { id: string; name: string };
+  // 未归还的数量
+  outstanding: number;
+  // 逾期的数量
+  overdue: number;
+  loans: LoanEntry[];
+}
+
+/**
+ * 借出记录查询工具
+ * 按借用人汇总未归还和逾期的物品
+ */
+export class QueryLoansTool {
+  private itemsModel: ItemsModel;
+  private contactsModel: ContactsModel;
+  private loansModel: LoansModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+    this.contactsModel = new ContactsModel(db);
+    this.loansModel = new LoansModel(db);
+  }
+
+  /**
+   * 执行借出记录查询
+   * @param params 查询参数；status默认为outstanding（未归还，包括逾期）
+   * @returns 按借用人分组的借出记录，有逾期的借用人在前
+   */
+  async execute(params: {
+    contactId?: string;
+    contactName?: string;
+    itemId?: string;
+    itemName?: string;
+    status?: LoanQueryStatus;
+  }): Promise<{
+    success: boolean;
+    contacts?: ContactLoans[];
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const {
+        contactId,
+        contactName,
+        itemId,
+        itemName,
+        status = "outstanding",
+      } = params;
+
+      // 解析联系人ID
+      let resolvedContactId = contactId;
+      if (!resolvedContactId && contactName) {
+        const contacts = await this.contactsModel.findContacts(contactName);
+        if (contacts.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${contactName}"的联系人`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedContactId = contacts[0]._id.toString();
+      }
+
+      // 解析物品ID
+      let resolvedItemId = itemId;
+      if (!resolvedItemId && itemName) {
+        const items = await this.itemsModel.findItems(itemName);
+        if (items.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${itemName}"的物品`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedItemId = items[0]._id.toString();
+      }
+
+      const loans = await this.loansModel.getLoans({
+        contactId: resolvedContactId,
+        itemId: resolvedItemId,
+        status: STATUS_FILTERS[status],
+      });
+
+      const now = new Date();
+      const groups = new Map<string, ContactLoans>();
+      for (const loan of loans) {
+        const overdue = isLoanOverdue(loan, now);
+        if (status === "overdue" && !overdue) {
+          continue;
+        }
+
+        const key = loan.contactId.toString();
+        if (!groups.has(key)) {
+          groups.set(key, {
+            contact: { id: key, name: loan.contactName },
+            outstanding: 0,
+            overdue: 0,
+            loans: [],
+          });
+        }
+        const group = groups.get(key)!;
+        group.loans.push({
+          ...loan,
+          overdue,
+          ...(overdue && { daysOverdue: -daysUntil(loan.dueDate, now) }),
+        });
+        if (loan.status === "outstanding") group.outstanding++;
+        if (overdue) group.overdue++;
+      }
+
+      const contacts = Array.from(groups.values()).sort(
+        (a, b) => b.overdue - a.overdue || b.outstanding - a.outstanding
+      );
+
+      if (contacts.length === 0) {
+        return {
+          success: true,
+          contacts,
+          message: `没有${STATUS_LABELS[status]}借出记录`,
+        };
+      }
+
+      const lines: string[] = [];
+      for (const group of contacts) {
+        lines.push(
+          `${group.contact.name}（未归还${group.outstanding}件${
+            group.overdue > 0 ? `，逾期${group.overdue}件` : ""
+          }）:`
+        );
+        for (const loan of group.loans) {
+          lines.push(`- ${loan.itemName}: ${describeLoan(loan)}`);
+        }
+      }
+
+      const total = contacts.reduce(
+        (sum, group) => sum + group.loans.length,
+        0
+      );
+
+      return {
+        success: true,
+        contacts,
+        message: `共有${total}条${STATUS_LABELS[status]}借出记录:\n${lines.join(
+          "\n"
+        )}`,
+      };
+    } catch (error) {
+      console.error("查询借出记录时出错:", error);
+      return {
+        success: false,
+        message: `查询借出记录时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+}
+
+// 查询范围对应的记录状态（逾期在未归还的记录中筛选）
+const STATUS_FILTERS: Record<LoanQueryStatus, LoanStatus | undefined> = {
+  outstanding: "outstanding",
+  overdue: "outstanding",
+  returned: "returned",
+  all: undefined,
+};
+
+// 查询范围的可读名称
+const STATUS_LABELS: Record<LoanQueryStatus, string> = {
+  outstanding: "未归还的",
+  overdue: "逾期的",
+  returned: "已归还的",
+  all: "",
+};
+
+/**
+ * 描述借出记录的日期和状态
+ */
+function describeLoan(loan: LoanEntry): string {
+  let text = `${formatItemDate(loan.lentAt)}借出`;
+  if (loan.returnedAt) {
+    return `${text}，${formatItemDate(loan.returnedAt)}归还`;
+  }
+  if (loan.dueDate) {
+    text += `，预计${formatItemDate(loan.dueDate)}归还`;
+  }
+  if (loan.overdue) {
+    text += `，已逾期${loan.daysOverdue}天`;
+  }
+  return text;
+}
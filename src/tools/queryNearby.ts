@@ -0,0 +1,236 @@
+import type { Storage } from "../storage/types.js";
+import type {
+  Coordinates,
+  CoordinateSystem,
+  RoutingProvider,
+} from "../routing/types.js";
+import { hasCoordinates } from "../routing/geo.js";
+import { normalizeCoordinates } from "../routing/datum.js";
+import { LocationsModel, type GeoArea } from "../model/locations.js";
+import { ItemsModel } from "../model/items.js";
+import { Item, Location } from "../model/types.js";
+
+// 默认查询半径（米）
+const DEFAULT_RADIUS = 500;
+// 默认最多返回的位置数量
+const DEFAULT_LIMIT = 20;
+
+// 矩形范围（经纬度）
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  system?: CoordinateSystem;
+}
+
+// 附近的位置
+export interface NearbyLocation {
+  location: Location;
+  // 到参考点的直线距离（米）
+  distance: number;
+  // 位于该位置（包括其中的容器内）的物品
+  items?: Item[];
+}
+
+/**
+ * 附近位置查询工具
+ * 按圆形、多边形或矩形范围查找位置及其中的物品，结果按距离由近到远排序
+ */
+export class QueryNearbyTool {
+  private locationsModel: LocationsModel;
+  private itemsModel: ItemsModel;
+  private routing?: RoutingProvider;
+
+  constructor(db: Storage, routing?: RoutingProvider) {
+    this.locationsModel = new LocationsModel(db);
+    this.itemsModel = new ItemsModel(db);
+    this.routing = routing;
+  }
+
+  /**
+   * 执行附近位置查询
+   * @param params 查询参数；near或coordinates与radius组成圆形范围，
+   *   polygon和bounds分别指定多边形和矩形范围，三种范围只能选一种
+   * @returns 查询结果
+   */
+  async execute(params: {
+    near?: string;
+    coordinates?: Coordinates;
+    radius?: number;
+    polygon?: Coordinates[];
+    bounds?: BoundingBox;
+    includeItems?: boolean;
+    limit?: number;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    center?: Coordinates;
+    locations?: NearbyLocation[];
+    total?: number;
+  }> {
+    try {
+      const {
+        near,
+        coordinates,
+        radius = DEFAULT_RADIUS,
+        polygon,
+        bounds,
+        includeItems = true,
+        limit = DEFAULT_LIMIT,
+      } = params;
+
+      const areaCount = [near || coordinates, polygon, bounds].filter(
+        Boolean
+      ).length;
+      if (areaCount !== 1) {
+        return {
+          success: false,
+          message: "必须且只能提供一种查询范围：near/coordinates、polygon或bounds",
+        };
+      }
+
+      let area: GeoArea;
+      let center: Coordinates | undefined;
+      let reference: Location | null = null;
+      let label: string;
+
+      if (polygon) {
+        if (polygon.length < 3) {
+          return { success: false, message: "多边形至少需要3个顶点" };
+        }
+        area = {
+          polygon: polygon.map((point) => normalizeCoordinates(point)),
+        };
+        label = "多边形范围内";
+      } else if (bounds) {
+        if (bounds.south >= bounds.north || bounds.west >= bounds.east) {
+          return {
+            success: false,
+            message: "矩形范围无效：south必须小于north，west必须小于east",
+          };
+        }
+        area = {
+          polygon: boundsToPolygon(bounds).map((point) =>
+            normalizeCoordinates(point, bounds.system)
+          ),
+        };
+        label = "矩形范围内";
+      } else {
+        if (coordinates) {
+          center = normalizeCoordinates(coordinates);
+          label = `坐标(${coordinates.latitude}, ${coordinates.longitude})`;
+        } else {
+          const resolved = await this.resolveCenter(near);
+          if (!resolved.center) {
+            return { success: false, message: resolved.message };
+          }
+          center = resolved.center;
+          reference = resolved.location;
+          label = `"${near}"`;
+        }
+        if (!(radius > 0)) {
+          return { success: false, message: "查询半径必须大于0" };
+        }
+        area = { center, radius };
+        label += `附近${radius}米内`;
+      }
+
+      const matched = (
+        await this.locationsModel.findLocationsWithin(area, center)
+      ).filter(
+        ({ location }) => !reference || !location._id.equals(reference._id)
+      );
+
+      const locations: NearbyLocation[] = matched.slice(0, limit);
+
+      if (includeItems) {
+        const itemsByLocation = await this.itemsModel.getItemsAtLocations(
+          locations.map(({ location }) => location._id)
+        );
+        for (const entry of locations) {
+          entry.items = itemsByLocation.get(entry.location._id.toString());
+        }
+      }
+
+      if (locations.length === 0) {
+        return {
+          success: true,
+          message: `${label}没有找到位置`,
+          center,
+          locations: [],
+          total: 0,
+        };
+      }
+
+      return {
+        success: true,
+        message: `${label}找到${matched.length}个位置${
+          matched.length > locations.length
+            ? `，返回最近的${locations.length}个`
+            : ""
+        }`,
+        center,
+        locations,
+        total: matched.length,
+      };
+    } catch (error) {
+      console.error("查询附近位置时出错:", error);
+      return {
+        success: false,
+        message: `查询附近位置时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+
+  /**
+   * 解析圆形范围的中心
+   * 依次按位置ID、精确名称、模糊名称查找已知位置，都找不到时通过路线服务解析地名
+   * @param reference 位置ID、名称或地名
+   */
+  private async resolveCenter(reference: string): Promise<{
+    center?: Coordinates;
+    location: Location | null;
+    message?: string;
+  }> {
+    const location =
+      await this.locationsModel.findLocationByReference(reference);
+
+    if (location) {
+      if (hasCoordinates(location.coordinates)) {
+        return { center: location.coordinates, location };
+      }
+      return {
+        location,
+        message: `位置"${location.name}"没有坐标信息，无法查询附近位置`,
+      };
+    }
+
+    const geocoded = this.routing
+      ? await this.routing.geocode(reference)
+      : null;
+    if (geocoded) {
+      return {
+        center: normalizeCoordinates(geocoded.coordinates),
+        location: null,
+      };
+    }
+
+    return { location: null, message: `未找到位置"${reference}"` };
+  }
+}
+
+/**
+ * 将矩形范围转换为多边形顶点（逆时针）
+ * @param bounds 矩形范围
+ */
+function boundsToPolygon(bounds: BoundingBox): Coordinates[] {
+  return [
+    { latitude: bounds.south, longitude: bounds.west },
+    { latitude: bounds.south, longitude: bounds.east },
+    { latitude: bounds.north, longitude: bounds.east },
+    { latitude: bounds.north, longitude: bounds.west },
+  ];
+}
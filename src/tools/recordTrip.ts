@@ -0,0 +1,126 @@
+import type { Storage } from "../storage/types.js";
+import type { TravelMode } from "../routing/types.js";
+import { LocationsModel } from "../model/locations.js";
+import { TripsModel, type RouteDurationModel } from "../model/trips.js";
+import { Trip } from "../model/types.js";
+import { round } from "../utils/math.js";
+
+/**
+ * 出行记录工具
+ * 记录一次实际出行的用时，用于学习个人路线用时
+ */
+export class RecordTripTool {
+  private locationsModel: LocationsModel;
+  private tripsModel: TripsModel;
+
+  constructor(db: Storage) {
+    this.locationsModel = new LocationsModel(db);
+    this.tripsModel = new TripsModel(db);
+  }
+
+  /**
+   * 执行出行记录
+   * @param params 出行参数
+   * @returns 记录结果及该路线更新后的用时模型
+   */
+  async execute(params: {
+    origin: string;
+    destination: string;
+    mode?: TravelMode;
+    startTime: Date;
+    endTime: Date;
+    notes?: string;
+  }): Promise<{
+    success: boolean;
+    trip?: Trip;
+    route?: RouteDurationModel;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const {
+        origin,
+        destination,
+        mode = "walking",
+        startTime,
+        endTime,
+        notes,
+      } = params;
+
+      if (endTime.getTime() <= startTime.getTime()) {
+        return {
+          success: false,
+          message: "到达时间必须晚于出发时间",
+        };
+      }
+
+      const originLocation =
+        await this.locationsModel.findLocationByReference(origin);
+      if (!originLocation) {
+        return {
+          success: false,
+          message: `未找到起点位置: ${origin}`,
+        };
+      }
+
+      const destinationLocation =
+        await this.locationsModel.findLocationByReference(destination);
+      if (!destinationLocation) {
+        return {
+          success: false,
+          message: `未找到终点位置: ${destination}`,
+        };
+      }
+
+      if (originLocation._id.equals(destinationLocation._id)) {
+        return {
+          success: false,
+          message: "起点和终点不能是同一位置",
+        };
+      }
+
+      const result = await this.tripsModel.recordTrip({
+        originId: originLocation._id,
+        originName: originLocation.name,
+        destinationId: destinationLocation._id,
+        destinationName: destinationLocation.name,
+        mode,
+        startTime,
+        endTime,
+        notes,
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      const route = await this.tripsModel.getRouteModel(
+        originLocation._id,
+        destinationLocation._id,
+        mode
+      );
+
+      return {
+        success: true,
+        trip: result.trip,
+        route: route || undefined,
+        message: `已记录从"${originLocation.name}"到"${
+          destinationLocation.name
+        }"的出行，用时${round(result.trip!.duration)}分钟；该路线共${
+          route?.sampleCount ?? 1
+        }次记录，用时中位数${round(
+          route?.median ?? result.trip!.duration
+        )}分钟`,
+      };
+    } catch (error) {
+      console.error("记录出行时出错:", error);
+      return {
+        success: false,
+        message: `记录出行时出错: ${error}`,
+      };
+    }
+  }
+}
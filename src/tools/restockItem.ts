@@ -0,0 +1,103 @@
+import type { Storage } from "../storage/types.js";
+import { ItemsModel, isLowStock } from "../model/items.js";
+import { Item } from "../model/types.js";
+
+/**
+ * 物品补货工具
+ * 用于购买或补充消耗品后增加数量
+ */
+export class RestockItemTool {
+  private itemsModel: ItemsModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+  }
+
+  /**
+   * 执行物品补货
+   * @param params 补货参数；amount为增加的数量
+   * @returns 补货结果
+   */
+  async execute(params: {
+    itemId?: string;
+    itemName?: string;
+    amount?: number;
+    note?: string;
+  }): Promise<{
+    success: boolean;
+    item?: Item;
+    lowStock?: boolean;
+    message?: string;
+    error?: string;
+  }> {
+    try {
+      const { itemId, itemName, amount, note } = params;
+
+      // 验证参数 - 需要提供物品ID或名称
+      if (!itemId && !itemName) {
+        return {
+          success: false,
+          message: "必须提供物品ID或名称",
+        };
+      }
+
+      if (!amount || amount <= 0) {
+        return {
+          success: false,
+          message: "补货数量必须大于0",
+        };
+      }
+
+      // 解析物品ID
+      let resolvedItemId = itemId;
+      if (!resolvedItemId && itemName) {
+        const items = await this.itemsModel.findItems(itemName);
+        if (items.length === 0) {
+          return {
+            success: false,
+            message: `未找到名为"${itemName}"的物品`,
+          };
+        }
+        // 使用第一个匹配项
+        resolvedItemId = items[0]._id.toString();
+      }
+
+      const result = await this.itemsModel.adjustQuantity(
+        resolvedItemId!,
+        amount,
+        "restock",
+        note
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      // 构建成功消息
+      const item = result.item!;
+      const unit = item.unit || "";
+      const lowStock = isLowStock(item);
+      let successMessage = `已为物品"${item.name}"补货${amount}${unit}，现有${item.quantity}${unit}`;
+
+      if (lowStock) {
+        successMessage += `，仍不高于最低库存${item.minQuantity}${unit}`;
+      }
+
+      return {
+        success: true,
+        item,
+        lowStock,
+        message: successMessage,
+      };
+    } catch (error) {
+      console.error("物品补货时出错:", error);
+      return {
+        success: false,
+        message: `物品补货时出错: ${error}`,
+      };
+    }
+  }
+}
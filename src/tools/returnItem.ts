@@ -0,0 +1,139 @@
+import type { Storage } from "../storage/types.js";
+import type { TransactionFailureDetails } from "../storage/transaction.js";
+import { ItemsModel } from "../model/items.js";
+import { LoansModel } from "../model/loans.js";
+import { Loan } from "../model/types.js";
+import {
+  daysBetween,
+  startOfDay,
+  startOfToday,
+} from "../utils/itemDeadlines.js";
+
+/**
+ * 物品归还工具
+ * 用于记录借出的物品已归还，并恢复物品借出前的状态
+ */
+export class ReturnItemTool {
+  private itemsModel: ItemsModel;
+  private loansModel: LoansModel;
+
+  constructor(db: Storage) {
+    this.itemsModel = new ItemsModel(db);
+    this.loansModel = new LoansModel(db);
+  }
+
+  /**
+   * 执行物品归还
+   * @param params 归还参数；可以用loanId指定借出记录，或用物品查找其未归还的记录；
+   *   returnedAt默认为今天
+   * @returns 归还结果
+   */
+  async execute(params: {
+    loanId?: string;
+    itemId?: string;
+    itemName?: string;
+    returnedAt?: Date;
+    note?: string;
+  }): Promise<{
+    success: boolean;
+    loan?: Loan;
+    message?: string;
+    error?: string;
+    rollback?: TransactionFailureDetails;
+  }> {
+    try {
+      const {
+        loanId,
+        itemId,
+        itemName,
+        returnedAt = startOfToday(),
+        note,
+      } = params;
+
+      // 验证参数 - 需要提供借出记录或物品
+      if (!loanId && !itemId && !itemName) {
+        return {
+          success: false,
+          message: "必须提供借出记录ID、物品ID或物品名称",
+        };
+      }
+
+      let loan: Loan | null = null;
+      if (loanId) {
+        loan = await this.loansModel.getLoanById(loanId);
+        if (!loan) {
+          return {
+            success: false,
+            message: `未找到ID为"${loanId}"的借出记录`,
+          };
+        }
+      } else {
+        // 解析物品ID
+        let resolvedItemId = itemId;
+        if (!resolvedItemId && itemName) {
+          const items = await this.itemsModel.findItems(itemName);
+          if (items.length === 0) {
+            return {
+              success: false,
+              message: `未找到名为"${itemName}"的物品`,
+            };
+          }
+          // 使用第一个匹配项
+          resolvedItemId = items[0]._id.toString();
+        }
+
+        loan = await this.loansModel.getOutstandingLoan(resolvedItemId!);
+        if (!loan) {
+          return {
+            success: false,
+            message: `物品"${itemName || resolvedItemId}"没有未归还的借出记录`,
+          };
+        }
+      }
+
+      if (loan.status !== "outstanding") {
+        return {
+          success: false,
+          message: `物品"${loan.itemName}"已归还`,
+        };
+      }
+
+      if (startOfDay(returnedAt) < startOfDay(loan.lentAt)) {
+        return {
+          success: false,
+          message: "归还日期不能早于借出日期",
+        };
+      }
+
+      const result = await this.loansModel.returnItem(loan, returnedAt, note);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          rollback: result.rollback,
+        };
+      }
+
+      let successMessage = `"${loan.contactName}"已归还物品"${loan.itemName}"`;
+      const overdueDays = loan.dueDate
+        ? daysBetween(loan.dueDate, returnedAt)
+        : 0;
+      if (overdueDays > 0) {
+        successMessage += `，逾期${overdueDays}天`;
+      }
+
+      return {
+        success: true,
+        loan: result.loan,
+        message: successMessage,
+      };
+    } catch (error) {
+      console.error("归还物品时出错:", error);
+      return {
+        success: false,
+        message: `归还物品时出错: ${error}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import type { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import { valuesEqual } from "../storage/query.js";
+import {
+  getTransactionFailure,
+  restoreDocument,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
+import { AuditLogModel } from "../model/auditLog.js";
+import type { AuditLogEntry } from "../model/types.js";
+import { checkDomainAccess, type ToolPolicy } from "../registry/policy.js";
+
+// 撤销类工具本身的修改不参与"撤销上一次修改"
+export const REVERT_TOOL_NAMES = ["undo_last_change", "revert_change"];
+
+// 已恢复的文档及执行的恢复动作
+interface RevertedDocument {
+  collection: string;
+  entityId: ObjectId;
+  action: "restore" | "delete" | "reinsert" | "none";
+}
+
+// 一次调用中对同一文档的全部修改
+interface EntityChange {
+  collection: string;
+  entityId: ObjectId;
+  // 调用前的文档（调用中插入时为null）
+  original: Record<string, any> | null;
+  // 调用后的文档（调用中删除时为null）
+  final: Record<string, any> | null;
+}
+
+/**
+ * 修改撤销工具
+ * 根据审计日志把一次工具调用修改过的所有文档恢复到调用前的状态
+ */
+export class RevertChangeTool {
+  private db: Storage;
+  private auditLogModel: AuditLogModel;
+  private policy: ToolPolicy;
+
+  constructor(db: Storage, policy: ToolPolicy) {
+    this.db = db;
+    this.auditLogModel = new AuditLogModel(db);
+    this.policy = policy;
+  }
+
+  /**
+   * 执行撤销
+   * @param params 撤销参数，未提供callId时撤销最近一次未被撤销的修改
+   * @returns 撤销结果
+   */
+  async execute(params: {
+    callId?: string;
+    actor?: string;
+    revertedByCallId?: ObjectId;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    callId?: string;
+    tool?: string;
+    reverted?: RevertedDocument[];
+    rollback?: TransactionFailureDetails;
+    conflicts?: Array<{ collection: string; entityId: ObjectId }>;
+  }> {
+    try {
+      // 解析要撤销的调用
+      let callId = params.callId;
+      if (!callId) {
+        const latest = await this.auditLogModel.findLatestRevertible(
+          params.actor,
+          REVERT_TOOL_NAMES
+        );
+        if (!latest) {
+          return {
+            success: false,
+            message: "没有可撤销的修改",
+          };
+        }
+        callId = latest.callId.toString();
+      }
+
+      const entries = await this.auditLogModel.getCallEntries(callId);
+      if (entries.length === 0) {
+        return {
+          success: false,
+          message: `未找到调用ID为"${callId}"的修改记录`,
+        };
+      }
+
+      const tool = entries[0].tool;
+      if (entries.some((entry) => entry.revertedAt)) {
+        return {
+          success: false,
+          message: `调用"${callId}"（${tool}）的修改已被撤销`,
+        };
+      }
+
+      const changes = this.collectChanges(entries);
+
+      // 检查权限：恢复文档需要领域可写，删除调用中插入的文档需要允许破坏性操作
+      for (const change of changes) {
+        const denial = checkDomainAccess(
+          change.collection,
+          change.original ? "write" : "destructive",
+          this.policy
+        );
+        if (denial) {
+          return {
+            success: false,
+            message: `无法撤销调用"${callId}"（${tool}）: ${denial}`,
+          };
+        }
+      }
+
+      // 检查冲突：文档在调用之后又被修改过时拒绝撤销
+      const conflicts: Array<{ collection: string; entityId: ObjectId }> = [];
+      for (const change of changes) {
+        const current = await this.db
+          .collection(change.collection)
+          .findOne({ _id: change.entityId });
+        if (!valuesEqual(current, change.final)) {
+          conflicts.push({
+            collection: change.collection,
+            entityId: change.entityId,
+          });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return {
+          success: false,
+          message: `调用"${callId}"（${tool}）之后以下文档已被修改，拒绝撤销: ${conflicts
+            .map((conflict) => `${conflict.collection}/${conflict.entityId}`)
+            .join(", ")}`,
+          callId,
+          tool,
+          conflicts,
+        };
+      }
+
+      // 按与原调用相反的顺序恢复每个文档，所有恢复在同一事务中执行；
+      // 事务可能重试，每次执行都重新记录恢复结果
+      const reverted = await this.db.withTransaction(async (tx) => {
+        const restored: RevertedDocument[] = [];
+        for (const change of [...changes].reverse()) {
+          const action = await restoreDocument(
+            tx.collection(change.collection),
+            change.entityId,
+            change.original
+          );
+          restored.push({
+            collection: change.collection,
+            entityId: change.entityId,
+            action,
+          });
+        }
+
+        await new AuditLogModel(tx).markReverted(
+          callId,
+          params.revertedByCallId
+        );
+        return restored;
+      });
+
+      return {
+        success: true,
+        message: `成功撤销调用"${callId}"（${tool}），恢复了${reverted.length}个文档`,
+        callId,
+        tool,
+        reverted,
+      };
+    } catch (error) {
+      console.error("撤销修改时出错:", error);
+      return {
+        success: false,
+        message: `撤销修改时出错: ${error}`,
+        rollback: getTransactionFailure(error),
+      };
+    }
+  }
+
+  /**
+   * 按文档合并一次调用的审计记录
+   * 取每个文档第一条记录的before和最后一条记录的after
+   * @param entries 按写入顺序排列的审计记录
+   */
+  private collectChanges(entries: AuditLogEntry[]): EntityChange[] {
+    const changes = new Map<string, EntityChange>();
+
+    for (const entry of entries) {
+      const key = `${entry.collection}/${entry.entityId.toString()}`;
+      const existing = changes.get(key);
+
+      if (existing) {
+        existing.final = entry.after;
+      } else {
+        changes.set(key, {
+          collection: entry.collection,
+          entityId: entry.entityId,
+          original: entry.before,
+          final: entry.after,
+        });
+      }
+    }
+
+    return Array.from(changes.values());
+  }
+}
@@ -0,0 +1,330 @@
+import type { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import {
+  getTransactionFailure,
+  type TransactionFailureDetails,
+} from "../storage/transaction.js";
+import { LocationsModel } from "../model/locations.js";
+import { LocationSuggestionsModel } from "../model/locationSuggestions.js";
+import { Location, LocationSuggestion } from "../model/types.js";
+import { hasCoordinates } from "../routing/geo.js";
+
+// 视为可能重复的已有位置的最大距离（米）
+const DUPLICATE_RADIUS = 200;
+
+// 审核操作
+export type SuggestionReviewAction = "list" | "accept" | "merge" | "reject";
+
+// 可能与建议重复的已有位置
+export interface SuggestionCandidate {
+  location: { id: string; name: string };
+  // 到建议坐标的直线距离（米），已有位置没有坐标时为空
+  distance?: number;
+}
+
+// 待确认的建议及可能重复的已有位置
+export interface PendingSuggestion {
+  suggestion: LocationSuggestion;
+  candidates: SuggestionCandidate[];
+}
+
+/**
+ * 位置建议审核工具
+ * 列出地理编码得到的待确认位置，并按用户决定创建为新位置、合并到已有位置或拒绝
+ */
+export class ReviewLocationSuggestionsTool {
+  private locationsModel: LocationsModel;
+  private suggestionsModel: LocationSuggestionsModel;
+  private db: Storage;
+
+  constructor(db: Storage) {
+    this.locationsModel = new LocationsModel(db);
+    this.suggestionsModel = new LocationSuggestionsModel(db);
+    this.db = db;
+  }
+
+  /**
+   * 执行审核操作
+   * @param params 审核参数；list列出待确认的建议，accept创建为新位置
+   *   （可用name、type、parentLocation调整），merge合并到targetLocation，reject拒绝
+   * @returns 审核结果
+   */
+  async execute(params: {
+    action?: SuggestionReviewAction;
+    suggestionId?: string;
+    targetLocation?: string;
+    name?: string;
+    type?: string;
+    parentLocation?: string;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    error?: string;
+    suggestions?: PendingSuggestion[];
+    location?: Location;
+    rollback?: TransactionFailureDetails;
+  }> {
+    try {
+      const { action = "list", suggestionId } = params;
+
+      if (action === "list") {
+        return await this.listPending();
+      }
+
+      if (!suggestionId) {
+        return { success: false, message: `${action}操作必须提供suggestionId` };
+      }
+
+      const suggestion =
+        await this.suggestionsModel.getSuggestionById(suggestionId);
+      if (!suggestion) {
+        return { success: false, message: `未找到ID为"${suggestionId}"的建议` };
+      }
+      if (suggestion.status !== "pending") {
+        return {
+          success: false,
+          message: `建议"${suggestion.name}"已处理（${suggestion.status}）`,
+        };
+      }
+
+      switch (action) {
+        case "accept":
+          return await this.accept(suggestion, params);
+        case "merge":
+          return await this.merge(suggestion, params.targetLocation);
+        case "reject":
+          await this.suggestionsModel.resolveSuggestion(
+            suggestion._id,
+            "rejected"
+          );
+          return {
+            success: true,
+            message: `已拒绝位置建议"${suggestion.name}"，以后查询该名称时不再建议`,
+          };
+        default:
+          return { success: false, message: `未知的审核操作: ${action}` };
+      }
+    } catch (error) {
+      console.error("审核位置建议时出错:", error);
+      return {
+        success: false,
+        message: `审核位置建议时出错: ${error}`,
+        error: `${error}`,
+      };
+    }
+  }
+
+  /**
+   * 列出待确认的建议及可能重复的已有位置（附近或名称相近）
+   */
+  private async listPending(): Promise<{
+    success: boolean;
+    message: string;
+    suggestions: PendingSuggestion[];
+  }> {
+    const pending = await this.suggestionsModel.getPendingSuggestions();
+    const suggestions: PendingSuggestion[] = [];
+
+    for (const suggestion of pending) {
+      const candidates = new Map<string, SuggestionCandidate>();
+      const nearby = await this.locationsModel.findLocationsWithin(
+        { center: suggestion.coordinates, radius: DUPLICATE_RADIUS },
+        suggestion.coordinates
+      );
+      for (const { location, distance } of nearby) {
+        candidates.set(location._id.toString(), {
+          location: { id: location._id.toString(), name: location.name },
+          distance,
+        });
+      }
+      for (const location of await this.locationsModel.findLocationsByName(
+        suggestion.name
+      )) {
+        const id = location._id.toString();
+        if (!candidates.has(id)) {
+          candidates.set(id, { location: { id, name: location.name } });
+        }
+      }
+      suggestions.push({
+        suggestion,
+        candidates: Array.from(candidates.values()),
+      });
+    }
+
+    if (suggestions.length === 0) {
+      return { success: true, message: "没有待确认的位置建议", suggestions };
+    }
+
+    const lines = suggestions.map(({ suggestion, candidates }) => {
+      let line = `- "${suggestion.name}"（${suggestion.address || "无地址"}，查询${suggestion.occurrences}次，ID: ${suggestion._id}）`;
+      if (candidates.length > 0) {
+        line += `，可能与已有位置重复: ${candidates
+          .map(({ location, distance }) =>
+            distance === undefined
+              ? `"${location.name}"`
+              : `"${location.name}"（${distance}米）`
+          )
+          .join("、")}`;
+      }
+      return line;
+    });
+
+    return {
+      success: true,
+      message: `有${suggestions.length}个待确认的位置建议:\n${lines.join("\n")}`,
+      suggestions,
+    };
+  }
+
+  /**
+   * 接受建议：创建新位置
+   * 已有同名位置时拒绝创建，提示改用合并
+   * @param suggestion 建议
+   * @param options 新位置的名称、类型和父位置
+   */
+  private async accept(
+    suggestion: LocationSuggestion,
+    options: { name?: string; type?: string; parentLocation?: string }
+  ) {
+    const name = options.name || suggestion.name;
+
+    const duplicate = await this.locationsModel.findLocationByExactName(name);
+    if (duplicate) {
+      return {
+        success: false,
+        message: `已存在名为"${duplicate.name}"的位置，请使用merge合并到该位置，或用name指定其他名称`,
+      };
+    }
+
+    let parent: Location | null = null;
+    if (options.parentLocation) {
+      parent = await this.locationsModel.findLocationByReference(
+        options.parentLocation
+      );
+      if (!parent) {
+        return {
+          success: false,
+          message: `未找到父位置"${options.parentLocation}"`,
+        };
+      }
+    }
+
+    let location: Location | undefined;
+    try {
+      // 创建位置、更新父位置和处理建议在同一事务中执行
+      await this.db.withTransaction(async (tx) => {
+        const locationsModel = new LocationsModel(tx);
+        const result = await locationsModel.createLocation({
+          name,
+          type: options.type || "place",
+          address: suggestion.address,
+          coordinates: suggestion.coordinates,
+          ...(parent && { parentLocationId: parent._id }),
+        });
+        if (!result.success || !result.location) {
+          throw new Error(result.error || "创建位置失败");
+        }
+        location = result.location;
+
+        if (parent) {
+          await locationsModel.addChildLocation(parent._id, location._id);
+        }
+        await this.resolve(tx, suggestion, "accepted", location._id);
+      });
+    } catch (error) {
+      console.error("接受位置建议时出错:", error);
+      return {
+        success: false,
+        message: `接受位置建议失败: ${error}`,
+        rollback: getTransactionFailure(error),
+      };
+    }
+
+    return {
+      success: true,
+      message: `已根据建议创建位置"${name}"${
+        parent ? `，父位置: "${parent.name}"` : ""
+      }`,
+      location,
+    };
+  }
+
+  /**
+   * 合并建议到已有位置：已有位置缺少坐标或地址时用建议补全
+   * @param suggestion 建议
+   * @param targetLocation 目标位置名称或ID
+   */
+  private async merge(suggestion: LocationSuggestion, targetLocation?: string) {
+    if (!targetLocation) {
+      return { success: false, message: "merge操作必须提供targetLocation" };
+    }
+
+    const target =
+      await this.locationsModel.findLocationByReference(targetLocation);
+    if (!target) {
+      return { success: false, message: `未找到位置"${targetLocation}"` };
+    }
+
+    const updates: Partial<Location> = {};
+    if (!hasCoordinates(target.coordinates)) {
+      updates.coordinates = suggestion.coordinates;
+    }
+    if (!target.address && suggestion.address) {
+      updates.address = suggestion.address;
+    }
+
+    let location: Location = target;
+    try {
+      await this.db.withTransaction(async (tx) => {
+        if (Object.keys(updates).length > 0) {
+          const result = await new LocationsModel(tx).updateLocation(
+            target._id,
+            updates
+          );
+          if (!result.success || !result.location) {
+            throw new Error(result.error || "更新位置失败");
+          }
+          location = result.location;
+        }
+        await this.resolve(tx, suggestion, "merged", target._id);
+      });
+    } catch (error) {
+      console.error("合并位置建议时出错:", error);
+      return {
+        success: false,
+        message: `合并位置建议失败: ${error}`,
+        rollback: getTransactionFailure(error),
+      };
+    }
+
+    const filled = [
+      updates.coordinates && "坐标",
+      updates.address && "地址",
+    ].filter(Boolean);
+
+    return {
+      success: true,
+      message: `已将建议"${suggestion.name}"合并到位置"${target.name}"${
+        filled.length > 0 ? `，补全了${filled.join("和")}` : ""
+      }`,
+      location,
+    };
+  }
+
+  /**
+   * 在事务中处理建议，建议已被并发处理时抛出异常以回滚
+   */
+  private async resolve(
+    tx: Storage,
+    suggestion: LocationSuggestion,
+    status: "accepted" | "merged",
+    locationId: ObjectId
+  ): Promise<void> {
+    const resolved = await new LocationSuggestionsModel(
+      tx
+    ).resolveSuggestion(suggestion._id, status, locationId);
+    if (!resolved) {
+      throw new Error(`建议"${suggestion.name}"已被处理`);
+    }
+  }
+}
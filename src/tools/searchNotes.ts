@@ -1,4 +1,4 @@
-import { ObjectId, Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { NotesModel } from "../model/notes.js";
 
 /**
@@ -8,7 +8,7 @@ import { NotesModel } from "../model/notes.js";
 export class SearchNotesTool {
   private notesModel: NotesModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.notesModel = new NotesModel(db);
   }
 
@@ -82,7 +82,7 @@ export class SearchNotesTool {
         // 解析实体ID
         let resolvedEntityId = entityId;
         if (!resolvedEntityId && entityName) {
-          resolvedEntityId = await this.resolveEntityIdByName(
+          resolvedEntityId = await this.notesModel.resolveEntityIdByName(
             collectionName,
             entityName
           );
@@ -118,7 +118,7 @@ export class SearchNotesTool {
 
         // 如果没有笔记
         if (!result.notes || result.notes.length === 0) {
-          entityName = await this.getEntityNameById(
+          entityName = await this.notesModel.getEntityNameById(
             collectionName,
             resolvedEntityId
           );
@@ -131,7 +131,7 @@ export class SearchNotesTool {
           };
         }
 
-        entityName = await this.getEntityNameById(
+        entityName = await this.notesModel.getEntityNameById(
           collectionName,
           resolvedEntityId
         );
@@ -196,59 +196,4 @@ export class SearchNotesTool {
         return entityType;
     }
   }
-
-  /**
-   * 根据名称解析实体ID
-   */
-  private async resolveEntityIdByName(
-    collectionName: string,
-    name: string
-  ): Promise<string | null> {
-    try {
-      const collection = this.notesModel["db"].collection(collectionName);
-
-      // 尝试精确匹配
-      const entity = await collection.findOne({
-        name: new RegExp(`^${name}$`, "i"),
-      });
-
-      if (entity) {
-        return entity._id.toString();
-      }
-
-      // 尝试模糊匹配
-      const fuzzyEntity = await collection.findOne({
-        name: new RegExp(name, "i"),
-      });
-
-      if (fuzzyEntity) {
-        return fuzzyEntity._id.toString();
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`解析实体名称时出错: ${error}`);
-      return null;
-    }
-  }
-
-  /**
-   * 根据ID获取实体名称
-   */
-  private async getEntityNameById(
-    collectionName: string,
-    id: string
-  ): Promise<string> {
-    try {
-      const collection = this.notesModel["db"].collection(collectionName);
-      const entity = await collection.findOne(
-        { _id: new ObjectId(id) },
-        { projection: { name: 1 } }
-      );
-
-      return entity?.name || id;
-    } catch (error) {
-      return id;
-    }
-  }
 }
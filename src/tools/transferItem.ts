@@ -1,5 +1,8 @@
-import { ObjectId, type Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
+import type { TransactionFailureDetails } from "../storage/transaction.js";
 import { ItemsModel } from "../model/items.js";
+import { LocationsModel } from "../model/locations.js";
 import { Item } from "../model/types.js";
 
 /**
@@ -8,9 +11,11 @@ import { Item } from "../model/types.js";
  */
 export class TransferItemTool {
   private itemsModel: ItemsModel;
+  private locationsModel: LocationsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.itemsModel = new ItemsModel(db);
+    this.locationsModel = new LocationsModel(db);
   }
 
   /**
@@ -27,11 +32,13 @@ export class TransferItemTool {
     targetContainerName?: string;
     note?: string;
     removeFromCurrentContainer?: boolean;
+    cascadeLocation?: boolean;
   }): Promise<{
     success: boolean;
     item?: Item;
     message?: string;
     error?: string;
+    rollback?: TransactionFailureDetails;
   }> {
     try {
       const {
@@ -43,6 +50,7 @@ export class TransferItemTool {
         targetContainerName,
         note,
         removeFromCurrentContainer = true,
+        cascadeLocation = true,
       } = params;
 
       // 验证参数 - 需要提供物品ID或名称
@@ -106,13 +114,15 @@ export class TransferItemTool {
         resolvedLocationId || null,
         resolvedContainerId || null,
         note,
-        removeFromCurrentContainer
+        removeFromCurrentContainer,
+        cascadeLocation
       );
 
       if (!result.success) {
         return {
           success: false,
           error: result.error,
+          rollback: result.rollback,
         };
       }
 
@@ -139,6 +149,10 @@ export class TransferItemTool {
         successMessage += `容器"${containerName}"中`;
       }
 
+      if (result.cascaded) {
+        successMessage += `，同时更新了容器内${result.cascaded}个物品的位置`;
+      }
+
       return {
         success: true,
         item: result.item,
@@ -158,11 +172,7 @@ export class TransferItemTool {
    */
   private async resolveLocationByName(locationName: string) {
     try {
-      const db = this.itemsModel["db"];
-      const locationsCollection = db.collection("locations");
-      return await locationsCollection.findOne({
-        name: new RegExp(`^${locationName}$`, "i"),
-      });
+      return await this.locationsModel.findLocationByExactName(locationName);
     } catch (error) {
       console.error("解析位置名称时出错:", error);
       return null;
@@ -187,11 +197,8 @@ export class TransferItemTool {
    * 获取位置名称
    */
   private async getLocationName(locationId: string) {
-    const db = this.itemsModel["db"];
-    const locationsCollection = db.collection("locations");
-    const location = await locationsCollection.findOne(
-      { _id: new ObjectId(locationId) },
-      { projection: { name: 1 } }
+    const location = await this.locationsModel.getLocationById(
+      new ObjectId(locationId)
     );
     return location?.name || "未知位置";
   }
@@ -1,4 +1,5 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ContactsModel } from "../model/contacts.js";
 import { Contact } from "../model/types.js";
 
@@ -9,7 +10,7 @@ import { Contact } from "../model/types.js";
 export class UpdateContactInfoTool {
   private contactsModel: ContactsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.contactsModel = new ContactsModel(db);
   }
 
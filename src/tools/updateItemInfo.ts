@@ -1,6 +1,20 @@
-import { ObjectId, Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { ItemsModel } from "../model/items.js";
-import { Item } from "../model/types.js";
+import {
+  Item,
+  ItemDeadlineKind,
+  RecurrenceInterval,
+} from "../model/types.js";
+import {
+  ITEM_DEADLINE_FIELDS,
+  ITEM_DEADLINE_LABELS,
+  addInterval,
+  describeInterval,
+  formatItemDate,
+  parseItemDates,
+  startOfToday,
+  validateItemDates,
+} from "../utils/itemDeadlines.js";
 
 /**
  * 物品基本信息更新工具
@@ -9,7 +23,7 @@ import { Item } from "../model/types.js";
 export class UpdateItemInfoTool {
   private itemsModel: ItemsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.itemsModel = new ItemsModel(db);
   }
 
@@ -25,6 +39,15 @@ export class UpdateItemInfoTool {
     newCategory?: string;
     newStatus?: string;
     newQuantity?: number;
+    newUnit?: string;
+    newMinQuantity?: number;
+    clearMinQuantity?: boolean;
+    newExpiryDate?: string;
+    newWarrantyEndDate?: string;
+    newNextMaintenanceDate?: string;
+    newMaintenanceInterval?: RecurrenceInterval;
+    maintenanceDone?: boolean;
+    clearDeadlines?: ItemDeadlineKind[];
     note?: string;
   }): Promise<{
     success: boolean;
@@ -40,6 +63,15 @@ export class UpdateItemInfoTool {
         newCategory,
         newStatus,
         newQuantity,
+        newUnit,
+        newMinQuantity,
+        clearMinQuantity = false,
+        newExpiryDate,
+        newWarrantyEndDate,
+        newNextMaintenanceDate,
+        newMaintenanceInterval,
+        maintenanceDone = false,
+        clearDeadlines = [],
         note,
       } = params;
 
@@ -52,7 +84,21 @@ export class UpdateItemInfoTool {
       }
 
       // 验证参数 - 需要提供至少一个要更新的字段
-      if (!newName && !newCategory && !newStatus && newQuantity === undefined) {
+      const hasUpdate =
+        newName ||
+        newCategory ||
+        newStatus ||
+        newQuantity !== undefined ||
+        newUnit ||
+        newMinQuantity !== undefined ||
+        clearMinQuantity ||
+        newExpiryDate ||
+        newWarrantyEndDate ||
+        newNextMaintenanceDate ||
+        newMaintenanceInterval ||
+        maintenanceDone ||
+        clearDeadlines.length > 0;
+      if (!hasUpdate) {
         return {
           success: false,
           message: "必须提供至少一个要更新的字段",
@@ -82,6 +128,31 @@ export class UpdateItemInfoTool {
         };
       }
 
+      // 解析日期
+      const { dates, error: dateError } = parseItemDates({
+        expiryDate: newExpiryDate,
+        warrantyEndDate: newWarrantyEndDate,
+        nextMaintenanceDate: newNextMaintenanceDate,
+      });
+      if (dateError) {
+        return {
+          success: false,
+          message: dateError,
+        };
+      }
+
+      if (
+        maintenanceDone &&
+        !item.nextMaintenanceDate &&
+        !item.maintenanceInterval &&
+        !newMaintenanceInterval
+      ) {
+        return {
+          success: false,
+          message: `物品"${item.name}"没有设置维护计划`,
+        };
+      }
+
       // 构建更新对象
       const updateData: Partial<Item> = {};
 
@@ -89,9 +160,52 @@ export class UpdateItemInfoTool {
       if (newCategory) updateData.category = newCategory;
       if (newStatus) updateData.status = newStatus;
       if (newQuantity !== undefined) updateData.quantity = newQuantity;
+      if (newUnit) updateData.unit = newUnit;
+      if (newMinQuantity !== undefined) updateData.minQuantity = newMinQuantity;
+      if (clearMinQuantity) updateData.minQuantity = null;
+      if (newMaintenanceInterval) {
+        updateData.maintenanceInterval = newMaintenanceInterval;
+      }
+
+      // 完成维护：记录维护日期，按维护周期推算下次维护日期，没有周期时清除
+      const interval = newMaintenanceInterval || item.maintenanceInterval;
+      if (maintenanceDone) {
+        const today = startOfToday();
+        updateData.lastMaintenanceDate = today;
+        updateData.nextMaintenanceDate = interval
+          ? addInterval(today, interval)
+          : null;
+      } else if (newMaintenanceInterval && !item.nextMaintenanceDate) {
+        // 新设置维护周期时从今天起推算下次维护日期
+        updateData.nextMaintenanceDate = addInterval(
+          startOfToday(),
+          newMaintenanceInterval
+        );
+      }
+      Object.assign(updateData, dates);
+
+      // 清除到期日期，清除维护时同时清除维护周期
+      for (const kind of clearDeadlines) {
+        updateData[ITEM_DEADLINE_FIELDS[kind]] = null;
+        if (kind === "maintenance") {
+          updateData.maintenanceInterval = null;
+        }
+      }
+
+      // 验证更新后的日期
+      const validationError = validateItemDates({ ...item, ...updateData });
+      if (validationError) {
+        return {
+          success: false,
+          message: validationError,
+        };
+      }
 
       // 在model中添加更新物品的方法
-      const updateResult = await this.updateItem(resolvedItemId!, updateData);
+      const updateResult = await this.itemsModel.updateItem(
+        resolvedItemId!,
+        updateData
+      );
 
       if (!updateResult.success) {
         return {
@@ -100,21 +214,20 @@ export class UpdateItemInfoTool {
         };
       }
 
-      // 如果提供了备注，添加结构化备注
-      if (note && updateResult.item) {
+      // 如果提供了备注或完成了维护，添加结构化备注
+      if ((note || maintenanceDone) && updateResult.item) {
         const noteObj = {
           timestamp: new Date().toISOString().split("T")[0],
-          content: note,
+          content: note || "完成维护",
           metadata: {
-            tags: ["update_info"],
+            tags: maintenanceDone
+              ? ["update_info", "maintenance"]
+              : ["update_info"],
             updatedFields: Object.keys(updateData),
           },
         };
 
-        await this.itemsModel["itemsCollection"].updateOne(
-          { _id: new ObjectId(resolvedItemId) },
-          { $push: { notes: noteObj } }
-        );
+        await this.itemsModel.addItemNote(resolvedItemId!, noteObj);
 
         // 重新查询物品以获取更新的数据
         const updatedItem = await this.itemsModel.getItemById(resolvedItemId!);
@@ -131,6 +244,31 @@ export class UpdateItemInfoTool {
       if (newCategory) updatedFields.push(`类别: "${newCategory}"`);
       if (newStatus) updatedFields.push(`状态: "${newStatus}"`);
       if (newQuantity !== undefined) updatedFields.push(`数量: ${newQuantity}`);
+      if (newUnit) updatedFields.push(`单位: "${newUnit}"`);
+      if (newMinQuantity !== undefined) {
+        updatedFields.push(`最低库存: ${newMinQuantity}`);
+      }
+      if (clearMinQuantity) updatedFields.push("取消最低库存");
+      if (dates.expiryDate) {
+        updatedFields.push(`过期日期: ${formatItemDate(dates.expiryDate)}`);
+      }
+      if (dates.warrantyEndDate) {
+        updatedFields.push(`保修至: ${formatItemDate(dates.warrantyEndDate)}`);
+      }
+      if (maintenanceDone) updatedFields.push("完成维护");
+      if (newMaintenanceInterval) {
+        updatedFields.push(
+          `维护周期: ${describeInterval(newMaintenanceInterval)}`
+        );
+      }
+      if (updateData.nextMaintenanceDate) {
+        updatedFields.push(
+          `下次维护: ${formatItemDate(updateData.nextMaintenanceDate)}`
+        );
+      }
+      for (const kind of clearDeadlines) {
+        updatedFields.push(`清除${ITEM_DEADLINE_LABELS[kind]}日期`);
+      }
 
       if (updatedFields.length > 0) {
         successMessage += `，更新了: ${updatedFields.join(", ")}`;
@@ -149,56 +287,4 @@ export class UpdateItemInfoTool {
       };
     }
   }
-
-  /**
-   * 更新物品信息
-   * @param itemId 物品ID
-   * @param updateData 更新数据
-   * @returns 更新结果
-   */
-  private async updateItem(
-    itemId: string,
-    updateData: Partial<Item>
-  ): Promise<{
-    success: boolean;
-    item?: Item;
-    error?: string;
-  }> {
-    try {
-      const id = new ObjectId(itemId);
-
-      // 添加更新时间和同步标记
-      const dataToUpdate = {
-        ...updateData,
-        updatedAt: new Date(),
-        modifiedSinceSync: true,
-      };
-
-      // 执行更新
-      const result = await this.itemsModel["itemsCollection"].updateOne(
-        { _id: id },
-        { $set: dataToUpdate }
-      );
-
-      if (result.matchedCount === 0) {
-        return {
-          success: false,
-          error: "未找到物品",
-        };
-      }
-
-      // 查询更新后的物品
-      const updatedItem = await this.itemsModel.getItemById(itemId);
-
-      return {
-        success: true,
-        item: updatedItem || undefined,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `更新物品信息失败: ${error}`,
-      };
-    }
-  }
 }
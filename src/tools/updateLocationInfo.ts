@@ -1,6 +1,12 @@
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { LocationsModel } from "../model/locations.js";
 import { Location } from "../model/types.js";
+import type { Coordinates } from "../routing/types.js";
+import {
+  normalizeCoordinates,
+  STORAGE_COORDINATE_SYSTEM,
+} from "../routing/datum.js";
 
 /**
  * 位置信息更新工具
@@ -9,7 +15,7 @@ import { Location } from "../model/types.js";
 export class UpdateLocationInfoTool {
   private locationsModel: LocationsModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.locationsModel = new LocationsModel(db);
   }
 
@@ -28,7 +34,7 @@ export class UpdateLocationInfoTool {
     newPhone?: string;
     newParentLocationId?: string;
     newParentLocationName?: string;
-    newCoordinates?: { latitude: number; longitude: number };
+    newCoordinates?: Coordinates;
     newNotes?: string;
   }): Promise<{
     success: boolean;
@@ -122,7 +128,10 @@ export class UpdateLocationInfoTool {
       if (newOpeningHours) updateData.openingHours = newOpeningHours;
       if (newPhone) updateData.phone = newPhone;
       if (newNotes) updateData.notes = newNotes;
-      if (newCoordinates) updateData.coordinates = newCoordinates;
+      // 坐标统一转换为存储坐标系
+      if (newCoordinates) {
+        updateData.coordinates = normalizeCoordinates(newCoordinates);
+      }
 
       // 如果提供了新父位置ID，且与当前值不同
       if (
@@ -149,7 +158,10 @@ export class UpdateLocationInfoTool {
       }
 
       // 执行更新
-      const result = await this.updateLocation(resolvedLocationId!, updateData);
+      const result = await this.locationsModel.updateLocation(
+        resolvedLocationId!,
+        updateData
+      );
 
       if (!result.success) {
         return {
@@ -167,6 +179,14 @@ export class UpdateLocationInfoTool {
       if (newAddress) updatedFields.push(`地址: "${newAddress}"`);
       if (newOpeningHours) updatedFields.push(`开放时间: "${newOpeningHours}"`);
       if (newPhone) updatedFields.push(`电话: "${newPhone}"`);
+      if (newCoordinates) {
+        updatedFields.push(
+          newCoordinates.system &&
+            newCoordinates.system !== STORAGE_COORDINATE_SYSTEM
+            ? `坐标（已从${newCoordinates.system}转换为${STORAGE_COORDINATE_SYSTEM}）`
+            : "坐标"
+        );
+      }
 
       if (resolvedNewParentLocationId) {
         const parentName = await this.getLocationName(
@@ -179,6 +199,10 @@ export class UpdateLocationInfoTool {
         successMessage += `，更新了: ${updatedFields.join(", ")}`;
       }
 
+      if (newOpeningHours && !result.location?.openingSchedule) {
+        successMessage += `。注意：无法解析开放时间"${newOpeningHours}"，开放状态查询将无法使用`;
+      }
+
       return {
         success: true,
         location: result.location,
@@ -193,58 +217,6 @@ export class UpdateLocationInfoTool {
     }
   }
 
-  /**
-   * 更新位置信息
-   * @param locationId 位置ID
-   * @param updateData 更新数据
-   * @returns 更新结果
-   */
-  private async updateLocation(
-    locationId: string,
-    updateData: Partial<Location>
-  ): Promise<{
-    success: boolean;
-    location?: Location;
-    error?: string;
-  }> {
-    try {
-      const id = new ObjectId(locationId);
-
-      // 添加更新时间和同步标记
-      const dataToUpdate = {
-        ...updateData,
-        updatedAt: new Date(),
-        modifiedSinceSync: true,
-      };
-
-      // 执行更新
-      const result = await this.locationsModel["locationsCollection"].updateOne(
-        { _id: id },
-        { $set: dataToUpdate }
-      );
-
-      if (result.matchedCount === 0) {
-        return {
-          success: false,
-          error: "未找到位置",
-        };
-      }
-
-      // 查询更新后的位置
-      const updatedLocation = await this.locationsModel.getLocationById(id);
-
-      return {
-        success: true,
-        location: updatedLocation || undefined,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `更新位置信息失败: ${error}`,
-      };
-    }
-  }
-
   /**
    * 从父位置的childLocations中移除
    * @param parentId 父位置ID
@@ -255,16 +227,7 @@ export class UpdateLocationInfoTool {
     childId: ObjectId
   ): Promise<void> {
     try {
-      await this.locationsModel["locationsCollection"].updateOne(
-        { _id: new ObjectId(parentId) },
-        {
-          $pull: { childLocations: childId },
-          $set: {
-            updatedAt: new Date(),
-            modifiedSinceSync: true,
-          },
-        }
-      );
+      await this.locationsModel.removeChildLocation(parentId, childId);
     } catch (error) {
       console.error("从父位置移除时出错:", error);
     }
@@ -280,16 +243,7 @@ export class UpdateLocationInfoTool {
     childId: ObjectId
   ): Promise<void> {
     try {
-      await this.locationsModel["locationsCollection"].updateOne(
-        { _id: new ObjectId(parentId) },
-        {
-          $addToSet: { childLocations: childId },
-          $set: {
-            updatedAt: new Date(),
-            modifiedSinceSync: true,
-          },
-        }
-      );
+      await this.locationsModel.addChildLocation(parentId, childId);
     } catch (error) {
       console.error("添加到父位置时出错:", error);
     }
@@ -1,5 +1,6 @@
 // src/tools/updateTaskInfo.ts
-import { ObjectId, Db } from "mongodb";
+import { ObjectId } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { TasksModel } from "../model/tasks.js";
 import { Task, StructuredNote } from "../model/types.js";
 
@@ -15,7 +16,7 @@ interface TaskWithStructuredNotes extends Omit<Task, "notes"> {
 export class UpdateTaskInfoTool {
   private tasksModel: TasksModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.tasksModel = new TasksModel(db);
   }
 
@@ -166,17 +167,7 @@ export class UpdateTaskInfoTool {
           },
         };
 
-        // 在任务模型中没有直接添加备注的方法，需要手动更新
-        await this.tasksModel["tasksCollection"].updateOne(
-          { _id: new ObjectId(resolvedTaskId) },
-          {
-            $push: { notes: noteObj },
-            $set: {
-              updatedAt: new Date(),
-              modifiedSinceSync: true,
-            },
-          }
-        );
+        await this.tasksModel.addTaskNote(resolvedTaskId!, noteObj);
 
         // 重新查询任务以获取更新的数据
         const updatedTask = await this.tasksModel.getTaskById(
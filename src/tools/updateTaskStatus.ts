@@ -1,4 +1,4 @@
-import { Db } from "mongodb";
+import type { Storage } from "../storage/types.js";
 import { TasksModel } from "../model/tasks.js";
 import { Task } from "../model/types.js";
 
@@ -9,7 +9,7 @@ import { Task } from "../model/types.js";
 export class UpdateTaskStatusTool {
   private tasksModel: TasksModel;
 
-  constructor(db: Db) {
+  constructor(db: Storage) {
     this.tasksModel = new TasksModel(db);
   }
 
@@ -0,0 +1,225 @@
+import type {
+  Item,
+  ItemDeadlineKind,
+  RecurrenceInterval,
+  RecurrenceUnit,
+} from "../model/types.js";
+import { getZonedParts } from "./timezone.js";
+
+// 一天的毫秒数
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 所有到期类型
+export const ITEM_DEADLINE_KINDS: ItemDeadlineKind[] = [
+  "expiry",
+  "warranty",
+  "maintenance",
+];
+
+// 重复周期的所有单位
+export const RECURRENCE_UNITS: RecurrenceUnit[] = [
+  "day",
+  "week",
+  "month",
+  "year",
+];
+
+// 到期类型对应的物品字段
+export const ITEM_DEADLINE_FIELDS: Record<
+  ItemDeadlineKind,
+  "expiryDate" | "warrantyEndDate" | "nextMaintenanceDate"
+> = {
+  expiry: "expiryDate",
+  warranty: "warrantyEndDate",
+  maintenance: "nextMaintenanceDate",
+};
+
+// 到期类型的可读名称
+export const ITEM_DEADLINE_LABELS: Record<ItemDeadlineKind, string> = {
+  expiry: "过期",
+  warranty: "保修到期",
+  maintenance: "维护",
+};
+
+// 重复周期单位的可读名称
+const RECURRENCE_UNIT_LABELS: Record<RecurrenceUnit, string> = {
+  day: "天",
+  week: "周",
+  month: "个月",
+  year: "年",
+};
+
+// 物品的日期字段
+export type ItemDateField =
+  | "acquisitionDate"
+  | "expiryDate"
+  | "warrantyEndDate"
+  | "nextMaintenanceDate";
+
+// 日期字段的可读名称
+const DATE_FIELD_LABELS: Record<ItemDateField, string> = {
+  acquisitionDate: "获得日期",
+  expiryDate: "过期日期",
+  warrantyEndDate: "保修截止日期",
+  nextMaintenanceDate: "下次维护日期",
+};
+
+/**
+ * 解析日期参数，与任务的截止日期一样，"YYYY-MM-DD"按UTC零点处理
+ * @param value 日期字符串
+ * @returns 日期，无法解析时为null
+ */
+export function parseItemDate(value: string | Date): Date | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 解析一组日期参数，未提供的字段忽略
+ * @param values 日期字符串
+ * @returns 解析出的日期；有无法解析的日期时返回错误信息
+ */
+export function parseItemDates(
+  values: Partial<Record<ItemDateField, string>>
+): { dates: Partial<Record<ItemDateField, Date>>; error?: string } {
+  const dates: Partial<Record<ItemDateField, Date>> = {};
+  for (const [field, value] of Object.entries(values) as [
+    ItemDateField,
+    string | undefined
+  ][]) {
+    if (!value) {
+      continue;
+    }
+    const date = parseItemDate(value);
+    if (!date) {
+      return {
+        dates,
+        error: `无效的${DATE_FIELD_LABELS[field]}: "${value}"，请使用YYYY-MM-DD格式`,
+      };
+    }
+    dates[field] = date;
+  }
+  return { dates };
+}
+
+/**
+ * 格式化日期为"YYYY-MM-DD"
+ */
+export function formatItemDate(date: Date): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+/**
+ * 获取某一时刻所在日期的零点（UTC）
+ * 用于按UTC零点保存的日历日期；"今天"请使用startOfToday
+ */
+export function startOfDay(time: Date): Date {
+  return new Date(Math.floor(time.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * 获取今天的日期，与日历日期一样按UTC零点表示
+ * 今天是哪一天按配置的时区计算，如北京时间10月20日7:00（UTC仍为10月19日）为10月20日
+ * @param now 当前时间
+ */
+export function startOfToday(now: Date = new Date()): Date {
+  const { year, month, day } = getZonedParts(now);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * 计算两个日历日期相差的天数，to早于from时为负数
+ * @param from 起始日期
+ * @param to 结束日期
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (startOfDay(new Date(to)).getTime() -
+      startOfDay(new Date(from)).getTime()) /
+      DAY_MS
+  );
+}
+
+/**
+ * 计算从今天到某日期的天数，已过去时为负数
+ * @param date 日期
+ * @param now 当前时间
+ */
+export function daysUntil(date: Date, now: Date = new Date()): number {
+  return daysBetween(startOfToday(now), date);
+}
+
+/**
+ * 在日期上加一个重复周期；按月或按年时日期不存在则取该月最后一天（如1月31日加1个月为2月28日）
+ * @param date 起始日期
+ * @param interval 重复周期
+ */
+export function addInterval(date: Date, interval: RecurrenceInterval): Date {
+  const result = new Date(date);
+  switch (interval.unit) {
+    case "day":
+      result.setUTCDate(result.getUTCDate() + interval.value);
+      return result;
+    case "week":
+      result.setUTCDate(result.getUTCDate() + interval.value * 7);
+      return result;
+    case "month":
+    case "year": {
+      const months =
+        interval.unit === "month" ? interval.value : interval.value * 12;
+      const day = result.getUTCDate();
+      result.setUTCDate(1);
+      result.setUTCMonth(result.getUTCMonth() + months);
+      const lastDay = new Date(
+        Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      result.setUTCDate(Math.min(day, lastDay));
+      return result;
+    }
+  }
+}
+
+/**
+ * 描述重复周期，如"每3个月"
+ */
+export function describeInterval(interval: RecurrenceInterval): string {
+  return `每${interval.value}${RECURRENCE_UNIT_LABELS[interval.unit]}`;
+}
+
+/**
+ * 校验物品的日期字段
+ * 过期日期和保修截止日期不能早于获得日期，维护周期必须为正整数
+ * @param item 物品的日期字段（更新时为更新后的值）
+ * @returns 错误信息，校验通过时为null
+ */
+export function validateItemDates(
+  item: Pick<
+    Item,
+    "acquisitionDate" | "expiryDate" | "warrantyEndDate" | "maintenanceInterval"
+  >
+): string | null {
+  const acquired = item.acquisitionDate
+    ? startOfDay(new Date(item.acquisitionDate))
+    : null;
+
+  if (acquired && item.expiryDate && new Date(item.expiryDate) < acquired) {
+    return "过期日期不能早于获得日期";
+  }
+  if (
+    acquired &&
+    item.warrantyEndDate &&
+    new Date(item.warrantyEndDate) < acquired
+  ) {
+    return "保修截止日期不能早于获得日期";
+  }
+  if (
+    item.maintenanceInterval &&
+    (!Number.isInteger(item.maintenanceInterval.value) ||
+      item.maintenanceInterval.value <= 0 ||
+      !RECURRENCE_UNITS.includes(item.maintenanceInterval.unit))
+  ) {
+    return "维护周期必须为正整数天、周、月或年";
+  }
+
+  return null;
+}
@@ -0,0 +1,7 @@
+/**
+ * 保留一位小数，用于距离（公里）和用时（分钟）等展示数值
+ * @param value 数值
+ */
+export function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,806 @@
+import { fromZonedTime, getTimezone, getZonedParts } from "./timezone.js";
+
+// 开放时间段（当天0点起的分钟数），close不大于open时表示跨午夜
+export interface OpeningPeriod {
+  open: number;
+  close: number;
+}
+
+// 指定日期的开放时间，优先于节假日和每周安排
+export interface OpeningException {
+  // "YYYY-MM-DD"为某一天，"MM-DD"为每年的这一天
+  date: string;
+  // 空数组表示当天不开放
+  periods: OpeningPeriod[];
+}
+
+// 结构化的开放时间
+export interface OpeningSchedule {
+  // 每周的开放时间段，下标为星期（0为周日），空数组表示当天不开放
+  weekly: OpeningPeriod[][];
+  // 节假日的开放时间段（未设置时节假日按每周安排）
+  holiday?: OpeningPeriod[];
+  exceptions: OpeningException[];
+}
+
+// 计算开放状态的选项
+export interface OpeningHoursOptions {
+  // 按节假日处理的日期（"YYYY-MM-DD"）
+  holidays?: string[];
+  // 计算星期和钟表时间使用的时区（默认为配置的时区）
+  timeZone?: string;
+}
+
+// 规则的适用对象
+type RuleTarget =
+  | { kind: "days"; days: number[] }
+  | { kind: "holiday" }
+  | { kind: "dates"; dates: string[] };
+
+// 解析出的一条规则，periods为空数组表示不开放
+interface OpeningRule {
+  targets: RuleTarget[];
+  periods: OpeningPeriod[];
+  closed: boolean;
+  // 未指定日期（或为"其他时间"）的规则，不覆盖指定了日期的规则
+  implicit: boolean;
+}
+
+// 一个片段的解析结果
+interface ParsedPiece {
+  targets: RuleTarget[];
+  // 未包含时间或开关状态时为null
+  periods: OpeningPeriod[] | null;
+  closed: boolean;
+  // 是否以"其他时间"等开头
+  otherwise: boolean;
+}
+
+// 待解析的片段
+interface Piece {
+  text: string;
+  // 是否开始一条新规则（位于开头或分号、换行之后），
+  // 否则未指定日期的时间段属于上一条规则
+  newRule: boolean;
+  // 是否为括号中的说明
+  note: boolean;
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+// 连续开放时最多向后计算的天数
+export const MAX_CONTINUOUS_DAYS = 7;
+const WEEKDAY_LABELS = ["日", "一", "二", "三", "四", "五", "六"];
+const CN_WEEKDAYS: Record<string, number> = {
+  日: 0,
+  天: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+};
+const OSM_WEEKDAYS = ["su", "mo", "tu", "we", "th", "fr", "sa"];
+const OSM_MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+// 日期范围最多展开的天数
+const MAX_DATE_RANGE = 366;
+
+const RANGE_SEPARATOR = "\\s*(?:至|到|-|~|～|—|－)\\s*";
+const CN_DAY_SELECTOR = new RegExp(
+  `^每?(?:周|星期|礼拜)([一二三四五六日天])(?:${RANGE_SEPARATOR}(?:周|星期|礼拜)?([一二三四五六日天]))?`
+);
+const OSM_DAY_SELECTOR =
+  /^(mo|tu|we|th|fr|sa|su)(?:\s*-\s*(mo|tu|we|th|fr|sa|su))?(?![a-z])/i;
+const KEYWORD_SELECTORS: Array<[RegExp, RuleTarget]> = [
+  [/^工作日/, { kind: "days", days: [1, 2, 3, 4, 5] }],
+  [/^(?:周末|双休日)/, { kind: "days", days: [6, 0] }],
+  [/^(?:每天|每日|天天|全年|全周)/, { kind: "days", days: ALL_DAYS }],
+  [/^(?:法定节假日|节假日|节日|假日|ph(?![a-z]))/i, { kind: "holiday" }],
+];
+const FULL_DATE = /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})[日号]?/;
+const CN_DATE = /^(\d{1,2})月(\d{1,2})[日号]/;
+const OSM_DATE =
+  /^(?:(\d{4})\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s+(\d{1,2})(?![\d:])/i;
+const RANGE_END_DAY = new RegExp(
+  `^${RANGE_SEPARATOR}(\\d{1,2})(?:[日号]|(?![\\d:月]))`
+);
+
+const TIME =
+  "(上午|早上|中午|下午|晚上)?\\s*(\\d{1,2})(?:[:：](\\d{2})|点(半|\\d{1,2}分?)?)";
+const TIME_RANGE = new RegExp(`^${TIME}${RANGE_SEPARATOR}(?:次日)?${TIME}`);
+const ANY_TIME_RANGE = new RegExp(`${TIME}${RANGE_SEPARATOR}${TIME}`);
+const CLOSED_WORD =
+  "休息|闭馆|休馆|关闭|关门|闭店|不开放|停业|停止营业|" +
+  "off(?![a-z])|closed(?![a-z])";
+const CLOSED_WORDS = new RegExp(`^(?:${CLOSED_WORD})`, "i");
+const ANY_CLOSED_WORD = new RegExp(CLOSED_WORD, "i");
+const ALL_DAY_WORDS =
+  /^(?:24小时(?:营业|开放)?|全天(?:营业|开放)?|24\/7|open(?![a-z]))/i;
+// 开头的"营业时间："等标签
+const LEADING_LABEL = /^(?:营业时间|开放时间|开馆时间|时间)\s*[:：]?\s*/;
+// "其他时间"等：适用于未单独指定的日期
+const OTHERWISE_WORDS =
+  /^(?:其他|其它|其余)(?:时间|时候|日期|日子)?\s*[:：]?\s*/;
+// 时间段之后可以省略的说明
+const OPEN_WORDS = /^(?:开放|营业|开馆)/;
+// 同一片段中时间段之间的连接词
+const JOINERS = /^[\s及和&/]+/;
+
+/**
+ * 解析开放时间文本
+ * 支持常见的中文写法（如"周一至周五 8:00-22:00，周末 9:00-17:00"、
+ * "工作日 8点-18点"、"节假日休息"、"10月1日至10月7日闭馆"、"24小时"、
+ * "周一闭馆，其他时间9:00-17:00"、"9:00-17:00（周一休息）"）
+ * 和OSM opening_hours写法（如"Mo-Fr 08:00-18:00; Su off"、"PH off"、"24/7"）。
+ * 规则以逗号、顿号、分号或换行分隔，同一片段中时间段之后也可以接新的规则
+ * （如"9:00-17:00 周一闭馆"）；指定了日期的规则中，后出现的覆盖前面相同的日期。
+ * 未指定日期的时间段在逗号之后属于上一条规则，否则适用于每天，
+ * 但不覆盖指定了日期的规则（包括不开放的日期）。
+ * 括号中的内容按规则解析，无法解析的说明被忽略
+ * @param openingHours 开放时间文本
+ * @returns 结构化的开放时间，无法解析出每周安排或含有无法识别的内容时为null
+ */
+export function parseOpeningHours(
+  openingHours: string
+): OpeningSchedule | null {
+  const rules: OpeningRule[] = [];
+  let current: OpeningRule | null = null;
+  let pending: RuleTarget[] = [];
+
+  for (const piece of splitPieces(openingHours)) {
+    const parsedPieces = parsePiece(piece.text);
+    if (!parsedPieces) {
+      // 括号中与开放时间无关的说明可以忽略，其他无法识别的内容不能忽略
+      if (
+        piece.note &&
+        !ANY_CLOSED_WORD.test(piece.text) &&
+        !ANY_TIME_RANGE.test(piece.text)
+      ) {
+        continue;
+      }
+      return null;
+    }
+
+    for (const [index, parsed] of parsedPieces.entries()) {
+      // 只有日期没有时间：与后面的片段合并，如"周六、周日 9:00-17:00"
+      if (parsed.periods === null) {
+        pending.push(...parsed.targets);
+        continue;
+      }
+
+      const targets = [...pending, ...parsed.targets];
+      pending = [];
+
+      if (
+        targets.length === 0 &&
+        !parsed.otherwise &&
+        !(piece.newRule && index === 0) &&
+        current &&
+        !current.closed &&
+        !parsed.closed
+      ) {
+        current.periods.push(...parsed.periods);
+        continue;
+      }
+
+      current = {
+        targets:
+          targets.length > 0 ? targets : [{ kind: "days", days: ALL_DAYS }],
+        periods: parsed.periods,
+        closed: parsed.closed,
+        implicit: targets.length === 0,
+      };
+      rules.push(current);
+    }
+  }
+
+  if (!rules.some((rule) => rule.targets.some((t) => t.kind === "days"))) {
+    return null;
+  }
+
+  const schedule: OpeningSchedule = {
+    weekly: ALL_DAYS.map(() => []),
+    exceptions: [],
+  };
+  // 先应用未指定日期的规则，再按顺序应用指定了日期的规则
+  const ordered = [
+    ...rules.filter((rule) => rule.implicit),
+    ...rules.filter((rule) => !rule.implicit),
+  ];
+  for (const rule of ordered) {
+    for (const target of rule.targets) {
+      if (target.kind === "days") {
+        for (const day of target.days) {
+          schedule.weekly[day] = [...rule.periods];
+        }
+      } else if (target.kind === "holiday") {
+        schedule.holiday = [...rule.periods];
+      } else {
+        for (const date of target.dates) {
+          schedule.exceptions = schedule.exceptions.filter(
+            (exception) => exception.date !== date
+          );
+          schedule.exceptions.push({ date, periods: [...rule.periods] });
+        }
+      }
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * 获取某一天的开放时间段
+ * 依次使用指定日期的安排、节假日安排和每周安排
+ * @param schedule 开放时间
+ * @param date 日期（按配置的时区）
+ * @param options 计算选项
+ */
+export function getOpeningPeriods(
+  schedule: OpeningSchedule,
+  date: Date,
+  options: OpeningHoursOptions = {}
+): OpeningPeriod[] {
+  const timeZone = options.timeZone ?? getTimezone();
+  const key = formatDateKey(date, timeZone);
+  const exception =
+    schedule.exceptions.find((item) => item.date === key) ??
+    schedule.exceptions.find((item) => item.date === key.slice(5));
+  if (exception) {
+    return exception.periods;
+  }
+  if (schedule.holiday && options.holidays?.includes(key)) {
+    return schedule.holiday;
+  }
+  return schedule.weekly[getZonedParts(date, timeZone).weekday] ?? [];
+}
+
+/**
+ * 某一时刻是否在开放时间内（按配置的时区）
+ * @param schedule 开放时间
+ * @param time 时刻
+ * @param options 计算选项
+ */
+export function isOpenAt(
+  schedule: OpeningSchedule,
+  time: Date,
+  options: OpeningHoursOptions = {}
+): boolean {
+  return nextClosingTime(schedule, time, options) !== null;
+}
+
+/**
+ * 获取当前开放时间段的结束时间
+ * 考虑前一天跨午夜的时间段；首尾相接的时间段（如每天24小时）视为连续开放，
+ * 最多向后计算7天
+ * @param schedule 开放时间
+ * @param time 时刻
+ * @param options 计算选项
+ * @returns 结束时间，该时刻不开放时为null
+ */
+export function nextClosingTime(
+  schedule: OpeningSchedule,
+  time: Date,
+  options: OpeningHoursOptions = {}
+): Date | null {
+  const end = currentPeriodEnd(schedule, time, options);
+  if (!end) {
+    return null;
+  }
+
+  const timeZone = options.timeZone ?? getTimezone();
+  const limit = time.getTime() + MAX_CONTINUOUS_DAYS * 24 * 60 * 60 * 1000;
+  let closing = end;
+  while (closing.getTime() < limit) {
+    const day = startOfDay(closing, timeZone);
+    const next = getOpeningPeriods(schedule, day, options).find(
+      ({ open }) => open === minuteOfDay(closing, timeZone)
+    );
+    if (!next) {
+      break;
+    }
+    closing = atMinute(
+      day,
+      next.close > next.open ? next.close : 24 * 60 + next.close,
+      timeZone
+    );
+  }
+
+  return closing.getTime() < limit ? closing : new Date(limit);
+}
+
+/**
+ * 获取某一时刻所在开放时间段的结束时间（不考虑相接的时间段）
+ * @param schedule 开放时间
+ * @param time 时刻
+ * @param options 计算选项
+ * @returns 结束时间，该时刻不开放时为null
+ */
+function currentPeriodEnd(
+  schedule: OpeningSchedule,
+  time: Date,
+  options: OpeningHoursOptions
+): Date | null {
+  const timeZone = options.timeZone ?? getTimezone();
+  const minute = minuteOfDay(time, timeZone);
+  const today = startOfDay(time, timeZone);
+
+  for (const { open, close } of getOpeningPeriods(schedule, today, options)) {
+    if (close > open) {
+      if (minute >= open && minute < close) {
+        return atMinute(today, close, timeZone);
+      }
+    } else if (minute >= open) {
+      return atMinute(today, 24 * 60 + close, timeZone);
+    }
+  }
+
+  const yesterday = atMinute(today, -24 * 60, timeZone);
+  for (const { open, close } of getOpeningPeriods(
+    schedule,
+    yesterday,
+    options
+  )) {
+    if (close <= open && minute < close) {
+      return atMinute(today, close, timeZone);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 获取某一时刻之后最近的开放时间
+ * @param schedule 开放时间
+ * @param time 时刻
+ * @param options 计算选项
+ * @param withinDays 向后查找的天数（0为只查找当天）
+ * @returns 开放时间，查找范围内不再开放时为null
+ */
+export function nextOpeningTime(
+  schedule: OpeningSchedule,
+  time: Date,
+  options: OpeningHoursOptions = {},
+  withinDays = 7
+): Date | null {
+  const timeZone = options.timeZone ?? getTimezone();
+  const today = startOfDay(time, timeZone);
+
+  for (let offset = 0; offset <= withinDays; offset++) {
+    const day = atMinute(today, offset * 24 * 60, timeZone);
+    const opens = getOpeningPeriods(schedule, day, options)
+      .map(({ open }) => atMinute(day, open, timeZone))
+      .filter((open) => open.getTime() > time.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (opens.length > 0) {
+      return opens[0];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 格式化开放时间段，如"08:00-12:00、14:00-22:00"
+ * @param periods 开放时间段
+ */
+export function formatOpeningPeriods(periods: OpeningPeriod[]): string {
+  if (periods.length === 0) {
+    return "不开放";
+  }
+  return periods
+    .map(({ open, close }) => {
+      const end =
+        close > open ? formatMinute(close) : `次日${formatMinute(close)}`;
+      return `${formatMinute(open)}-${end}`;
+    })
+    .join("、");
+}
+
+/**
+ * 格式化相对于参考时刻的时间：同一天为"HH:mm"，
+ * 次日为"次日HH:mm"，否则为"M月D日（周X）HH:mm"
+ * @param time 时间
+ * @param reference 参考时刻
+ * @param timeZone 时区（默认为配置的时区）
+ */
+export function formatRelativeTime(
+  time: Date,
+  reference: Date,
+  timeZone: string = getTimezone()
+): string {
+  const parts = getZonedParts(time, timeZone);
+  const referenceParts = getZonedParts(reference, timeZone);
+  const days = Math.round(
+    (Date.UTC(parts.year, parts.month - 1, parts.day) -
+      Date.UTC(
+        referenceParts.year,
+        referenceParts.month - 1,
+        referenceParts.day
+      )) /
+      (24 * 60 * 60 * 1000)
+  );
+  if (days === 0) {
+    return formatClockTime(time, timeZone);
+  }
+  if (days === 1) {
+    return `次日${formatClockTime(time, timeZone)}`;
+  }
+  return `${parts.month}月${parts.day}日（周${
+    WEEKDAY_LABELS[parts.weekday]
+  }）${formatClockTime(time, timeZone)}`;
+}
+
+/**
+ * 格式化为"HH:mm"
+ * @param time 时刻
+ * @param timeZone 时区（默认为配置的时区）
+ */
+export function formatClockTime(
+  time: Date,
+  timeZone: string = getTimezone()
+): string {
+  const { hour, minute } = getZonedParts(time, timeZone);
+  return formatMinute(hour * 60 + minute);
+}
+
+/**
+ * 格式化为"YYYY-MM-DD"
+ * @param date 日期
+ * @param timeZone 时区（默认为配置的时区）
+ */
+export function formatDateKey(
+  date: Date,
+  timeZone: string = getTimezone()
+): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return dateKeyOf({ year, month, day });
+}
+
+/**
+ * 把开放时间文本分成片段：括号中的内容单独成为说明片段，
+ * 其余按逗号、顿号、分号、句号和换行分隔
+ * @param openingHours 开放时间文本
+ */
+function splitPieces(openingHours: string): Piece[] {
+  const pieces: Piece[] = [];
+  let newRule = true;
+
+  for (const segment of openingHours.split(/([（(][^）)]*[）)])/)) {
+    const note = /^[（(]/.test(segment);
+    const text = note ? segment.slice(1, -1) : segment;
+    for (const part of text.split(/([,，、;；。\n])/)) {
+      if (/^[;；。\n]$/.test(part)) {
+        newRule = true;
+      } else if (/^[,，、]$/.test(part)) {
+        newRule = false;
+      } else if (part.trim()) {
+        pieces.push({ text: part.trim(), newRule, note });
+        newRule = false;
+      }
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * 解析一个片段：开头的日期选择（可以有多个），其后的时间段或开关状态；
+ * 之后还可以接新的日期选择和时间段，如"9:00-17:00 周一闭馆"
+ * @param piece 片段
+ * @returns 依次的解析结果，含有无法识别的内容时为null
+ */
+function parsePiece(piece: string): ParsedPiece[] | null {
+  const results: ParsedPiece[] = [];
+  let rest = piece.replace(LEADING_LABEL, "");
+
+  while (rest) {
+    const targets: RuleTarget[] = [];
+    const otherwise = rest.match(OTHERWISE_WORDS);
+    if (otherwise) {
+      rest = rest.slice(otherwise[0].length);
+    }
+
+    for (;;) {
+      const selector = matchSelector(rest);
+      if (!selector) {
+        break;
+      }
+      targets.push(selector.target);
+      rest = rest.slice(selector.length).replace(/^[\s及和&:：]+/, "");
+    }
+
+    if (!rest) {
+      if (targets.length === 0) {
+        return null;
+      }
+      results.push({
+        targets,
+        periods: null,
+        closed: false,
+        otherwise: false,
+      });
+      break;
+    }
+
+    const closed = rest.match(CLOSED_WORDS);
+    const allDay = closed ? null : rest.match(ALL_DAY_WORDS);
+    const periods: OpeningPeriod[] = [];
+    if (closed || allDay) {
+      rest = rest.slice((closed ?? allDay)[0].length);
+      if (allDay) {
+        periods.push({ open: 0, close: 24 * 60 });
+      }
+    } else {
+      for (;;) {
+        const match = rest.match(TIME_RANGE);
+        if (!match) {
+          break;
+        }
+        const open = toMinute(match[1], match[2], match[3], match[4]);
+        const close = toMinute(match[5], match[6], match[7], match[8]);
+        if (open === null || close === null) {
+          return null;
+        }
+        periods.push({ open, close });
+        rest = rest.slice(match[0].length).replace(JOINERS, "");
+      }
+      if (periods.length === 0) {
+        return null;
+      }
+      rest = rest.replace(OPEN_WORDS, "");
+    }
+
+    results.push({
+      targets,
+      periods,
+      closed: !!closed,
+      otherwise: !!otherwise,
+    });
+    rest = rest.replace(/^[\s:：]+/, "");
+  }
+
+  return results.length > 0 ? results : null;
+}
+
+/**
+ * 匹配片段开头的一个日期选择（星期、节假日或日期）
+ * @param text 片段
+ * @returns 适用对象及匹配长度
+ */
+function matchSelector(
+  text: string
+): { target: RuleTarget; length: number } | null {
+  for (const [pattern, target] of KEYWORD_SELECTORS) {
+    const match = text.match(pattern);
+    if (match) {
+      return { target, length: match[0].length };
+    }
+  }
+
+  const cnDay = text.match(CN_DAY_SELECTOR);
+  if (cnDay) {
+    const from = CN_WEEKDAYS[cnDay[1]];
+    const to = cnDay[2] ? CN_WEEKDAYS[cnDay[2]] : from;
+    return {
+      target: { kind: "days", days: expandWeekdays(from, to) },
+      length: cnDay[0].length,
+    };
+  }
+
+  const osmDay = text.match(OSM_DAY_SELECTOR);
+  if (osmDay) {
+    const from = OSM_WEEKDAYS.indexOf(osmDay[1].toLowerCase());
+    const to = osmDay[2]
+      ? OSM_WEEKDAYS.indexOf(osmDay[2].toLowerCase())
+      : from;
+    return {
+      target: { kind: "days", days: expandWeekdays(from, to) },
+      length: osmDay[0].length,
+    };
+  }
+
+  const start = matchDate(text);
+  if (!start) {
+    return null;
+  }
+
+  // 日期范围，如"10月1日至10月7日"、"10月1日-7日"、"Dec 24-26"
+  const rest = text.slice(start.length);
+  const separator = rest.match(new RegExp(`^${RANGE_SEPARATOR}`));
+  let end = separator ? matchDate(rest.slice(separator[0].length)) : null;
+  let endLength = end ? separator[0].length + end.length : 0;
+  if (!end) {
+    const endDay = rest.match(RANGE_END_DAY);
+    if (endDay) {
+      end = { ...start, day: parseInt(endDay[1]) };
+      endLength = endDay[0].length;
+    }
+  }
+
+  const dates = end ? expandDates(start, end) : [dateKeyOf(start)];
+  if (dates.length === 0) {
+    return null;
+  }
+  return {
+    target: { kind: "dates", dates },
+    length: start.length + endLength,
+  };
+}
+
+/**
+ * 匹配开头的日期
+ */
+function matchDate(
+  text: string
+): { year?: number; month: number; day: number; length: number } | null {
+  const full = text.match(FULL_DATE);
+  if (full) {
+    return {
+      year: parseInt(full[1]),
+      month: parseInt(full[2]),
+      day: parseInt(full[3]),
+      length: full[0].length,
+    };
+  }
+
+  const cn = text.match(CN_DATE);
+  if (cn) {
+    return {
+      month: parseInt(cn[1]),
+      day: parseInt(cn[2]),
+      length: cn[0].length,
+    };
+  }
+
+  const osm = text.match(OSM_DATE);
+  if (osm) {
+    return {
+      year: osm[1] ? parseInt(osm[1]) : undefined,
+      month: OSM_MONTHS.indexOf(osm[2].toLowerCase()) + 1,
+      day: parseInt(osm[3]),
+      length: osm[0].length,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 展开日期范围为日期键列表（不指定年份时为每年的日期）
+ */
+function expandDates(
+  start: { year?: number; month: number; day: number },
+  end: { year?: number; month: number; day: number }
+): string[] {
+  const annual = start.year === undefined;
+  // 每年的日期用闰年展开，保证包含2月29日；只做日历计算，与时区无关
+  const from = new Date(
+    Date.UTC(start.year ?? 2000, start.month - 1, start.day)
+  );
+  let to = new Date(
+    Date.UTC(end.year ?? start.year ?? 2000, end.month - 1, end.day)
+  );
+  if (to.getTime() < from.getTime() && annual) {
+    // 跨年的范围，如"12月30日至1月2日"
+    to = new Date(Date.UTC(2001, end.month - 1, end.day));
+  }
+
+  const dates: string[] = [];
+  for (
+    const day = new Date(from);
+    day.getTime() <= to.getTime() && dates.length < MAX_DATE_RANGE;
+    day.setUTCDate(day.getUTCDate() + 1)
+  ) {
+    const key = dateKeyOf({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+    });
+    dates.push(annual ? key.slice(5) : key);
+  }
+  return dates;
+}
+
+/**
+ * 单个日期的日期键
+ */
+function dateKeyOf(date: {
+  year?: number;
+  month: number;
+  day: number;
+}): string {
+  const monthDay = `${String(date.month).padStart(2, "0")}-${String(
+    date.day
+  ).padStart(2, "0")}`;
+  return date.year === undefined ? monthDay : `${date.year}-${monthDay}`;
+}
+
+/**
+ * 展开星期范围（可跨周末，如周五至周一）
+ */
+function expandWeekdays(from: number, to: number): number[] {
+  const days = [from];
+  let day = from;
+  while (day !== to) {
+    day = (day + 1) % 7;
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * 将时刻转换为当天0点起的分钟数
+ * @param period 上午、下午等前缀
+ * @param hour 小时
+ * @param minute 冒号形式的分钟
+ * @param suffix "点"之后的"半"或"N分"
+ * @returns 分钟数，无效时为null
+ */
+function toMinute(
+  period: string | undefined,
+  hour: string,
+  minute: string | undefined,
+  suffix: string | undefined
+): number | null {
+  let h = parseInt(hour);
+  let m = minute ? parseInt(minute) : 0;
+  if (suffix) {
+    m = suffix === "半" ? 30 : parseInt(suffix);
+  }
+  if ((period === "下午" || period === "晚上") && h < 12) {
+    h += 12;
+  } else if (period === "中午" && h < 11) {
+    h += 12;
+  }
+
+  const total = h * 60 + m;
+  if (m >= 60 || total > 24 * 60) {
+    return null;
+  }
+  return total;
+}
+
+/**
+ * 指定时区当天0点起的分钟数
+ */
+function minuteOfDay(time: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(time, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * 指定时区的当天0点
+ */
+function startOfDay(time: Date, timeZone: string): Date {
+  return fromZonedTime(getZonedParts(time, timeZone), 0, timeZone);
+}
+
+/**
+ * 指定时区某天0点起若干分钟的时刻
+ */
+function atMinute(day: Date, minutes: number, timeZone: string): Date {
+  return fromZonedTime(getZonedParts(day, timeZone), minutes, timeZone);
+}
+
+/**
+ * 格式化分钟数为"HH:mm"
+ */
+function formatMinute(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+}
@@ -0,0 +1,39 @@
+import { ObjectId } from "mongodb";
+
+// 工具调用响应
+export interface ToolResponse {
+  content: [{ type: string; text: string }];
+  // 与文本内容相同的数据，供客户端直接使用
+  structuredContent?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * 格式化响应为标准格式
+ * 文本内容为JSON字符串，structuredContent为同一份序列化结果
+ * @param data 响应数据
+ * @returns 格式化后的响应
+ */
+export function formatResponse(data: any): ToolResponse {
+  const text = JSON.stringify(
+    data,
+    (key, value) => {
+      // 处理ObjectId转换为字符串
+      if (value instanceof ObjectId) {
+        return value.toString();
+      }
+      return value;
+    },
+    2
+  );
+
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent: JSON.parse(text),
+  };
+}
@@ -0,0 +1,199 @@
+// 默认时区：开放时间、出行时段等按用户所在地的钟表时间计算，而不是服务器进程的时区
+export const DEFAULT_TIMEZONE = "Asia/Shanghai";
+
+// 某一时刻在指定时区的日期和钟表时间
+export interface ZonedParts {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  // 0为周日
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+let currentTimezone = process.env.MCP_TIMEZONE || DEFAULT_TIMEZONE;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 获取配置的时区
+ */
+export function getTimezone(): string {
+  return currentTimezone;
+}
+
+/**
+ * 设置时区
+ * @param timeZone IANA时区名称，如"Asia/Shanghai"
+ * @throws 时区无效时抛出异常
+ */
+export function setTimezone(timeZone: string): void {
+  if (!isValidTimezone(timeZone)) {
+    throw new Error(`无效的时区: ${timeZone}`);
+  }
+  currentTimezone = timeZone;
+}
+
+/**
+ * 判断是否为有效的IANA时区名称
+ * @param timeZone 时区名称
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 获取某一时刻在指定时区的日期和钟表时间
+ * @param time 时刻
+ * @param timeZone 时区（默认为配置的时区）
+ */
+export function getZonedParts(
+  time: Date,
+  timeZone: string = currentTimezone
+): ZonedParts {
+  const values: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(time)) {
+    values[part.type] = part.value;
+  }
+  return {
+    year: parseInt(values.year),
+    month: parseInt(values.month),
+    day: parseInt(values.day),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+    hour: parseInt(values.hour) % 24,
+    minute: parseInt(values.minute),
+  };
+}
+
+/**
+ * 获取指定时区某一天0点起若干分钟的时刻
+ * 分钟数可以为负数或超过一天，按日历顺延
+ * @param date 日期（月份为1-12）
+ * @param minutes 0点起的分钟数
+ * @param timeZone 时区（默认为配置的时区）
+ */
+export function fromZonedTime(
+  date: { year: number; month: number; day: number },
+  minutes: number,
+  timeZone: string = currentTimezone
+): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  // 先按该钟表时间的偏移估算，再用估算时刻的偏移修正（处理夏令时切换）
+  let time = wallClock - getOffset(new Date(wallClock), timeZone);
+  time = wallClock - getOffset(new Date(time), timeZone);
+  return new Date(time);
+}
+
+/**
+ * 时区相对UTC的偏移（毫秒）
+ */
+function getOffset(time: Date, timeZone: string): number {
+  const parts = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    time.getUTCSeconds(),
+    time.getUTCMilliseconds()
+  );
+  return asUtc - time.getTime();
+}
+
+/**
+ * 获取（并缓存）时区的日期格式化器
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// ISO 8601日期或日期时间，如"2025-01-01"、"2025-01-01T08:30"、"2025-01-01T08:30:00+08:00"
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * 解析ISO 8601日期或日期时间字符串
+ * 没有时区偏移的日期（当天0点）和日期时间按指定时区的钟表时间解释
+ * @param value 日期字符串
+ * @param timeZone 时区（默认为配置的时区）
+ * @returns 解析得到的时刻，格式无效或日期不存在（如2月30日）时返回null
+ */
+export function parseIsoDateTime(
+  value: string,
+  timeZone: string = currentTimezone
+): Date | null {
+  const match = ISO_DATE_TIME.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const millisecond = (match[7] ?? "0").padEnd(3, "0");
+  const offset = match[8];
+  const fields = [year, month, day, hour, minute, second, millisecond].map(
+    (part) => parseInt(part, 10)
+  );
+
+  // 用UTC日历校验各字段没有越界
+  const asUtc = Date.UTC(
+    fields[0],
+    fields[1] - 1,
+    fields[2],
+    fields[3],
+    fields[4],
+    fields[5],
+    fields[6]
+  );
+  const check = new Date(asUtc);
+  if (
+    check.getUTCFullYear() !== fields[0] ||
+    check.getUTCMonth() !== fields[1] - 1 ||
+    check.getUTCDate() !== fields[2] ||
+    check.getUTCHours() !== fields[3] ||
+    check.getUTCMinutes() !== fields[4] ||
+    check.getUTCSeconds() !== fields[5]
+  ) {
+    return null;
+  }
+
+  if (offset) {
+    if (offset === "Z") {
+      return check;
+    }
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    const offsetMinutes =
+      parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10);
+    return new Date(asUtc - sign * offsetMinutes * 60 * 1000);
+  }
+
+  const start = fromZonedTime(
+    { year: fields[0], month: fields[1], day: fields[2] },
+    fields[3] * 60 + fields[4],
+    timeZone
+  );
+  return new Date(start.getTime() + fields[5] * 1000 + fields[6]);
+}